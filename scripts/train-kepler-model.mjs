@@ -5,6 +5,7 @@
 import fs from 'fs';
 import path from 'path';
 import * as tf from '@tensorflow/tfjs';
+import { parseCSVTable } from '../src/lib/ml/parsing/tokenizer.mjs';
 
 // Attempt to use tfjs-node for speed if available
 try {
@@ -32,11 +33,9 @@ const CONFIG = {
 };
 
 function parseCSV(csv) {
-	const lines = csv.trim().split(/\r?\n/);
-	const headers = lines[0].split(',').map((h) => h.trim());
+	const { header: headers, rows: records } = parseCSVTable(csv);
 	const rows = [];
-	for (let i = 1; i < lines.length; i++) {
-		const parts = lines[i].split(',');
+	for (const parts of records) {
 		if (parts.length !== headers.length) continue;
 		const obj = {};
 		headers.forEach((h, idx) => (obj[h] = parts[idx]));
@@ -0,0 +1,45 @@
+// Module hooks that let `node --test` import the TypeScript sources directly
+// (npm test runs `node --import ./scripts/ts-loader.mjs --test`). .ts files
+// are transpiled one at a time with the project's TypeScript (types are
+// stripped, nothing is type-checked) and extensionless relative imports
+// resolve to .ts files, as the bundler resolves them.
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { register } from 'node:module';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { isMainThread } from 'node:worker_threads';
+import ts from 'typescript';
+
+// The hooks themselves run on the loader thread, which imports this file again
+if (isMainThread) register(import.meta.url);
+
+const SOURCE_SUFFIXES = ['.ts', '.tsx', '/index.ts'];
+
+export async function resolve(specifier, context, nextResolve) {
+	const relative = specifier.startsWith('./') || specifier.startsWith('../');
+	if (relative && !extname(specifier) && context.parentURL) {
+		for (const suffix of SOURCE_SUFFIXES) {
+			const url = new URL(specifier + suffix, context.parentURL);
+			if (existsSync(url)) return { url: url.href, shortCircuit: true };
+		}
+	}
+	return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+	if (!url.startsWith('file:') || !/\.tsx?$/.test(url)) {
+		return nextLoad(url, context);
+	}
+	const fileName = fileURLToPath(url);
+	const { outputText } = ts.transpileModule(await readFile(fileName, 'utf8'), {
+		fileName,
+		compilerOptions: {
+			module: ts.ModuleKind.ESNext,
+			target: ts.ScriptTarget.ES2022,
+			jsx: ts.JsxEmit.ReactJSX,
+		},
+	});
+	return { format: 'module', source: outputText, shortCircuit: true };
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+	getDatasetEntry,
+	getDatasetProfile,
+} from '../../../../../lib/datasets/registry';
+import { normalizeBins } from '../../../../../lib/datasets/profile';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Column profile of a registered dataset (?bins= sets the histogram resolution)
+export async function GET(request: NextRequest, context: RouteContext) {
+	const { id } = await context.params;
+	try {
+		const entry = await getDatasetEntry(id);
+		if (!entry) {
+			return NextResponse.json(
+				{ error: `Unknown dataset: ${id}` },
+				{ status: 404 },
+			);
+		}
+
+		const binsParam = request.nextUrl.searchParams.get('bins');
+		const bins = normalizeBins(binsParam ? Number(binsParam) : undefined);
+
+		let result;
+		try {
+			result = await getDatasetProfile(entry, bins);
+		} catch (err: any) {
+			if (err?.code === 'ENOENT') {
+				return NextResponse.json(
+					{ error: `Dataset file not found for ${id}` },
+					{ status: 404 },
+				);
+			}
+			throw err;
+		}
+
+		// Weak validator derived from the file's content hash and bin count
+		const etag = `W/"${result.etag.replace(/"/g, '')}-b${bins}"`;
+		const headers = {
+			ETag: etag,
+			'Cache-Control': 'no-cache',
+			'X-Dataset-Id': id,
+		};
+		const ifNoneMatch = request.headers.get('if-none-match');
+		if (
+			ifNoneMatch &&
+			ifNoneMatch.split(',').some((tag) => tag.trim() === etag)
+		) {
+			return new NextResponse(null, { status: 304, headers });
+		}
+
+		return NextResponse.json({ profile: result.profile }, { headers });
+	} catch (err: any) {
+		return NextResponse.json(
+			{ error: `Failed to profile dataset ${id}`, details: err?.message },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import {
+	DatasetFileInfo,
+	getDatasetEntry,
+	getDatasetFileInfo,
+} from '../../../../lib/datasets/registry';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Parse a single-range "bytes=" header against the file size.
+ * Returns null when the header should be ignored (absent, multi-range or
+ * malformed) and 'unsatisfiable' when the range lies outside the file.
+ */
+function parseRange(
+	header: string | null,
+	size: number,
+): { start: number; end: number } | 'unsatisfiable' | null {
+	if (!header) return null;
+	const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+	if (!match || (match[1] === '' && match[2] === '')) return null;
+
+	let start: number;
+	let end: number;
+	if (match[1] === '') {
+		// Suffix range: last N bytes
+		const suffix = Number(match[2]);
+		if (suffix === 0) return 'unsatisfiable';
+		start = Math.max(0, size - suffix);
+		end = size - 1;
+	} else {
+		start = Number(match[1]);
+		end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+	}
+	if (start >= size || start > end) return 'unsatisfiable';
+	return { start, end };
+}
+
+function baseHeaders(
+	info: DatasetFileInfo,
+	id: string,
+): Record<string, string> {
+	return {
+		'Content-Type': info.contentType,
+		'Accept-Ranges': 'bytes',
+		ETag: info.etag,
+		'Last-Modified': info.mtime.toUTCString(),
+		'Cache-Control': 'no-cache',
+		'X-Dataset-Id': id,
+	};
+}
+
+async function serveDataset(
+	request: NextRequest,
+	context: RouteContext,
+	includeBody: boolean,
+) {
+	const { id } = await context.params;
+	try {
+		const entry = await getDatasetEntry(id);
+		if (!entry) {
+			return NextResponse.json(
+				{ error: `Unknown dataset: ${id}` },
+				{ status: 404 },
+			);
+		}
+
+		let info: DatasetFileInfo;
+		try {
+			info = await getDatasetFileInfo(entry);
+		} catch {
+			return NextResponse.json(
+				{ error: `Dataset file not found for ${id}` },
+				{ status: 404 },
+			);
+		}
+		const headers = baseHeaders(info, id);
+
+		// Conditional GET: unchanged file -> 304 without a body
+		const ifNoneMatch = request.headers.get('if-none-match');
+		if (
+			ifNoneMatch &&
+			ifNoneMatch
+				.split(',')
+				.some((tag) => tag.trim() === info.etag || tag.trim() === '*')
+		) {
+			return new NextResponse(null, { status: 304, headers });
+		}
+
+		// If-Range: only honor Range when the client's copy is still current
+		const ifRange = request.headers.get('if-range');
+		const range =
+			ifRange && ifRange !== info.etag
+				? null
+				: parseRange(request.headers.get('range'), info.size);
+
+		if (range === 'unsatisfiable') {
+			return new NextResponse(null, {
+				status: 416,
+				headers: { ...headers, 'Content-Range': `bytes */${info.size}` },
+			});
+		}
+
+		const start = range ? range.start : 0;
+		const end = range ? range.end : info.size - 1;
+		const length = info.size === 0 ? 0 : end - start + 1;
+		const responseHeaders: Record<string, string> = {
+			...headers,
+			'Content-Length': String(length),
+		};
+		if (range) {
+			responseHeaders['Content-Range'] = `bytes ${start}-${end}/${info.size}`;
+		}
+		const status = range ? 206 : 200;
+
+		if (!includeBody || length === 0) {
+			return new NextResponse(null, { status, headers: responseHeaders });
+		}
+		const stream = Readable.toWeb(
+			createReadStream(info.path, { start, end }),
+		) as unknown as ReadableStream<Uint8Array>;
+		return new NextResponse(stream, { status, headers: responseHeaders });
+	} catch (err: any) {
+		return NextResponse.json(
+			{ error: `Failed to load dataset ${id}`, details: err?.message },
+			{ status: 500 },
+		);
+	}
+}
+
+// Stream a registered dataset file (supports ETag revalidation and byte ranges)
+export async function GET(request: NextRequest, context: RouteContext) {
+	return serveDataset(request, context, true);
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+	return serveDataset(request, context, false);
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { listDatasets } from '../../../lib/datasets/registry';
+
+export const dynamic = 'force-dynamic';
+
+// Dataset registry: manifest entries plus file size / ETag for each dataset
+export async function GET() {
+	try {
+		const datasets = await listDatasets();
+		return NextResponse.json(
+			{ datasets },
+			{ headers: { 'Cache-Control': 'no-cache' } },
+		);
+	} catch (err: any) {
+		return NextResponse.json(
+			{ error: 'Failed to load dataset registry', details: err?.message },
+			{ status: 500 },
+		);
+	}
+}
@@ -66,6 +66,16 @@ export async function POST(request: NextRequest) {
 		await fs.writeFile(metadataPath, JSON.stringify(enrichedMetadata, null, 2));
 		savedFiles.push(`${modelName}_metadata.json`);
 
+		// Save the preprocessing pipeline so raw rows can be transformed like at training time
+		if (metadata.pipeline) {
+			const pipelinePath = `${modelPath}_pipeline.json`;
+			await fs.writeFile(
+				pipelinePath,
+				JSON.stringify(metadata.pipeline, null, 2),
+			);
+			savedFiles.push(`${modelName}_pipeline.json`);
+		}
+
 		// Save training summary if available
 		if (metadata.trainingSummary) {
 			const summaryPath = `${modelPath}_summary.json`;
@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server';
+import { loadDatasetManifest } from '../../../lib/datasets/registry';
+import { predictionServiceColumns } from '../../../lib/datasets/schema';
 
 // ML Prediction API Proxy
 // Handles requests to the ML prediction service for GB and SVM models
@@ -36,11 +38,7 @@ export async function POST(request: Request) {
 				);
 			}
 
-			const requiredFeatures = [
-				'koi_period', 'koi_time0bk', 'koi_impact', 'koi_duration', 'koi_depth',
-				'koi_incl', 'koi_model_snr', 'koi_count', 'koi_bin_oedp_sig', 'koi_steff',
-				'koi_slogg', 'koi_srad', 'koi_smass', 'koi_kepmag'
-			];
+			const requiredFeatures = predictionServiceColumns();
 
 			for (const feature of requiredFeatures) {
 				if (!(feature in body.features) || typeof body.features[feature] !== 'number') {
@@ -52,11 +50,7 @@ export async function POST(request: Request) {
 			}
 		} else if (body.datasource === 'upload') {
 			// For uploaded data, validate features-target-X objects
-			const requiredFeatures = [
-				'koi_period', 'koi_time0bk', 'koi_impact', 'koi_duration', 'koi_depth',
-				'koi_incl', 'koi_model_snr', 'koi_count', 'koi_bin_oedp_sig', 'koi_steff',
-				'koi_slogg', 'koi_srad', 'koi_smass', 'koi_kepmag'
-			];
+			const requiredFeatures = predictionServiceColumns();
 
 			let hasValidFeatures = false;
 			for (let i = 1; i <= 3; i++) {
@@ -91,9 +85,18 @@ export async function POST(request: Request) {
 				);
 			}
 
-			if (!['kepler', 'tess'].includes(body.data)) {
+			// Valid keys come from registry datasets that have a playground card
+			const manifest = await loadDatasetManifest();
+			const predictionKeys = manifest.datasets
+				.map((entry) => entry.playground?.predictionKey)
+				.filter((key): key is string => Boolean(key));
+			if (!predictionKeys.includes(body.data)) {
 				return NextResponse.json(
-					{ error: 'Invalid data type. Must be "kepler" or "tess"' },
+					{
+						error: `Invalid data type. Must be one of: ${predictionKeys
+							.map((key) => `"${key}"`)
+							.join(', ')}`,
+					},
 					{ status: 400 }
 				);
 			}
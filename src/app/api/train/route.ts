@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { parseCSVTable } from '../../../lib/ml/parsing/tokenizer.mjs';
+import {
+	appendDerivedColumns,
+	isDerivedFeatureAvailable,
+} from '../../../lib/derivedFeatures';
+import {
+	getDatasetEntry,
+	getDatasetEntryByFile,
+	listDatasets,
+	readDatasetText,
+} from '../../../lib/datasets/registry';
 
 export async function POST(request: NextRequest) {
 	try {
 		const body = await request.json();
-		const { fileName, targetColumn, featureColumns, modelConfig } = body;
+		const { datasetId, fileName, targetColumn, featureColumns, modelConfig } =
+			body;
 
 		// Validate required fields
 		if (
-			!fileName ||
+			(!datasetId && !fileName) ||
 			!targetColumn ||
 			!featureColumns ||
 			!Array.isArray(featureColumns)
@@ -17,40 +27,51 @@ export async function POST(request: NextRequest) {
 			return NextResponse.json(
 				{
 					error:
-						'Missing required fields: fileName, targetColumn, featureColumns',
+						'Missing required fields: datasetId (or fileName), targetColumn, featureColumns',
 				},
 				{ status: 400 },
 			);
 		}
 
-		// Get the dataset file path
-		const dataDir = path.join(process.cwd(), 'data');
-		const filePath = path.join(dataDir, fileName);
+		// Resolve through the dataset registry; arbitrary paths are never read
+		const entry = datasetId
+			? await getDatasetEntry(datasetId)
+			: await getDatasetEntryByFile(fileName);
+		if (!entry) {
+			return NextResponse.json(
+				{ error: `Unknown dataset: ${datasetId || fileName}` },
+				{ status: 404 },
+			);
+		}
+		if (entry.format !== 'csv') {
+			return NextResponse.json(
+				{
+					error: `Dataset ${entry.id} is stored as ${entry.format}; fetch it from /api/datasets/${entry.id}`,
+				},
+				{ status: 400 },
+			);
+		}
 
-		// Check if file exists
+		// Read CSV file
+		let csvContent: string;
 		try {
-			await fs.access(filePath);
+			csvContent = await readDatasetText(entry);
 		} catch {
 			return NextResponse.json(
-				{ error: `Dataset file not found: ${fileName}` },
+				{ error: `Dataset file not found: ${entry.file}` },
 				{ status: 404 },
 			);
 		}
 
-		// Read CSV file
-		const csvContent = await fs.readFile(filePath, 'utf-8');
-
-		// Validate CSV structure
-		const lines = csvContent.trim().split('\n');
-		if (lines.length < 2) {
+		// Validate CSV structure (RFC 4180 quoting handled by the shared tokenizer)
+		const { header: headers, rows } = parseCSVTable(csvContent);
+		if (rows.length < 1) {
 			return NextResponse.json(
 				{ error: 'CSV file must have at least a header and one data row' },
 				{ status: 400 },
 			);
 		}
 
-		const headers = lines[0].split(',').map((h) => h.trim());
-
 		// Validate target column exists
 		if (!headers.includes(targetColumn)) {
 			return NextResponse.json(
@@ -59,9 +80,10 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		// Validate feature columns exist
+		// Validate feature columns exist (derived features need their inputs)
 		const missingFeatures = featureColumns.filter(
-			(col: string) => !headers.includes(col),
+			(col: string) =>
+				!headers.includes(col) && !isDerivedFeatureAvailable(col, headers),
 		);
 		if (missingFeatures.length > 0) {
 			return NextResponse.json(
@@ -71,27 +93,30 @@ export async function POST(request: NextRequest) {
 		}
 
 		// Extract data sample for validation
-		const sampleData = lines
-			.slice(1, Math.min(11, lines.length))
-			.map((line) => {
-				const row = line.split(',').map((cell) => cell.trim());
-				const features: { [key: string]: any } = {};
-				const target = row[headers.indexOf(targetColumn)];
-
-				featureColumns.forEach((col: string) => {
-					const value = row[headers.indexOf(col)];
-					features[col] = parseFloat(value) || value;
-				});
+		const sample = appendDerivedColumns(
+			headers,
+			rows.slice(0, 10),
+			featureColumns,
+		);
+		const sampleData = sample.rows.map((row) => {
+			const features: { [key: string]: any } = {};
+			const target = row[headers.indexOf(targetColumn)];
 
-				return { features, target };
+			featureColumns.forEach((col: string) => {
+				const value = row[sample.header.indexOf(col)];
+				features[col] = parseFloat(value) || value;
 			});
 
+			return { features, target };
+		});
+
 		// Prepare response with dataset info and CSV content for client-side training
 		const response = {
 			success: true,
 			datasetInfo: {
-				fileName,
-				totalRows: lines.length - 1,
+				datasetId: entry.id,
+				fileName: entry.file,
+				totalRows: rows.length,
 				features: featureColumns,
 				targetColumn,
 				headers,
@@ -121,28 +146,18 @@ export async function POST(request: NextRequest) {
 	}
 }
 
-// Handle GET request to list available datasets
+// Handle GET request to list available datasets (registry entries only)
 export async function GET() {
 	try {
-		const dataDir = path.join(process.cwd(), 'data');
-		const files = await fs.readdir(dataDir);
-		const csvFiles = files.filter((file) => file.endsWith('.csv'));
-
-		const datasets = await Promise.all(
-			csvFiles.map(async (file) => {
-				const filePath = path.join(dataDir, file);
-				const content = await fs.readFile(filePath, 'utf-8');
-				const lines = content.trim().split('\n');
-				const headers = lines[0]?.split(',').map((h) => h.trim()) || [];
-
-				return {
-					fileName: file,
-					rowCount: lines.length - 1,
-					columns: headers,
-					size: content.length,
-				};
-			}),
-		);
+		const datasets = (await listDatasets()).map((entry) => ({
+			datasetId: entry.id,
+			fileName: entry.file,
+			name: entry.name,
+			format: entry.format,
+			targetColumn: entry.targetColumn,
+			columns: [entry.targetColumn, ...entry.defaultFeatures],
+			size: entry.size,
+		}));
 
 		return NextResponse.json({ datasets });
 	} catch (error) {
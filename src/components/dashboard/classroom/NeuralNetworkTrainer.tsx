@@ -7,6 +7,11 @@ import {
 	NeuralNetworkService,
 	TrainingProgress,
 } from '../../../lib/ml/neuralNetwork';
+import {
+	NeuralNetworkEpochMetrics,
+	startNeuralNetworkSession,
+	SupersededSessionError,
+} from '../../../lib/ml/workers/neuralNetworkSession';
 import * as tf from '@tensorflow/tfjs';
 
 interface ModelConfig {
@@ -60,25 +65,11 @@ export default function NeuralNetworkTrainer() {
 		const { selectedDataSource, targetColumn, selectedFeatures, rawDataset } =
 			dataInput;
 
-		// Determine filename based on data source
-		let fileName = '';
-		switch (selectedDataSource) {
-			case 'kepler':
-				fileName = 'KOI-Classroom-Data.csv';
-				break;
-			case 'tess':
-				fileName = 'TESS-Classroom-Data.csv';
-				break;
-			case 'own':
-				// For uploaded files, we'll use the rawDataset directly
-				fileName = 'uploaded-data.csv';
-				break;
-			default:
-				fileName = 'KOI-Classroom-Data.csv';
-		}
+		// Registry datasets are fetched by id; uploads always carry originalCSV
+		const datasetId = selectedDataSource === 'own' ? '' : selectedDataSource;
 
 		return {
-			fileName,
+			datasetId,
 			targetColumn: targetColumn || '',
 			featureColumns: selectedFeatures || [],
 			rawDataset,
@@ -87,8 +78,13 @@ export default function NeuralNetworkTrainer() {
 
 	// Validate training readiness
 	const canTrain = () => {
-		const { fileName, targetColumn, featureColumns } = getTrainingData();
-		return fileName && targetColumn && featureColumns.length > 0;
+		const { datasetId, targetColumn, featureColumns, rawDataset } =
+			getTrainingData();
+		return (
+			(datasetId || rawDataset?.originalCSV) &&
+			targetColumn &&
+			featureColumns.length > 0
+		);
 	};
 
 	// Start training process
@@ -106,8 +102,10 @@ export default function NeuralNetworkTrainer() {
 		setErrorMessage('');
 		setExportStatus('');
 
+		// Data tensors, freed in finally whatever becomes of the session
+		let tensors: tf.Tensor[] = [];
 		try {
-			const { fileName, targetColumn, featureColumns, rawDataset } =
+			const { datasetId, targetColumn, featureColumns, rawDataset } =
 				getTrainingData();
 
 			// Get CSV content
@@ -120,7 +118,7 @@ export default function NeuralNetworkTrainer() {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
 					body: JSON.stringify({
-						fileName,
+						datasetId,
 						targetColumn,
 						featureColumns,
 						modelConfig,
@@ -142,75 +140,91 @@ export default function NeuralNetworkTrainer() {
 
 			// Preprocess data
 			console.log('Preprocessing data...');
-			const { xTrain, yTrain, xVal, yVal, numClasses } =
+			const { xTrain, yTrain, xVal, yVal, numClasses, training } =
 				await nnService.preprocessData(
 					csvContent,
 					targetColumn,
 					featureColumns,
+					{
+						transforms: classroomState.dataInput.featureTransforms,
+						clipPercentiles: classroomState.dataInput.clipPercentiles,
+						derivedFeatures: classroomState.dataInput.derivedFeatures,
+						imbalance: classroomState.modelSelection.imbalance,
+						labelMapping: classroomState.dataInput.labelMapping,
+					},
 				);
+			tensors = [xTrain, yTrain, xVal, yVal];
 
 			console.log('Training data shape:', xTrain.shape);
 			console.log('Validation data shape:', xVal.shape);
 			console.log('Number of classes:', numClasses);
 
-			// Create model
+			// Create model (the worker trains a copy; its weights are loaded back)
 			const model = nnService.createModel(
 				featureColumns.length,
 				numClasses,
 				modelConfig.hiddenLayers,
 				modelConfig.learningRate,
+				undefined,
+				training,
 			);
 
 			console.log('Model created:', model.summary);
 
-			// Train model with progress tracking
-			const history = await nnService.trainModel(xTrain, yTrain, xVal, yVal, {
-				epochs: modelConfig.epochs,
-				batchSize: modelConfig.batchSize,
-				onEpochEnd: (epoch, logs) => {
-					setCurrentEpoch(epoch + 1);
-					const progress: TrainingProgress = {
-						epoch: epoch + 1,
-						loss: logs.loss,
-						accuracy: logs.acc || logs.accuracy,
-						valLoss: logs.val_loss,
-						valAccuracy: logs.val_acc || logs.val_accuracy,
-					};
-					setTrainingProgress((prev) => [...prev, progress]);
+			// Train model in a Web Worker with progress tracking
+			let last: NeuralNetworkEpochMetrics | undefined;
+			const session = startNeuralNetworkSession(
+				{
+					inputDim: featureColumns.length,
+					numClasses,
+					hiddenLayers: modelConfig.hiddenLayers,
+					learningRate: modelConfig.learningRate,
+					epochs: modelConfig.epochs,
+					batchSize: modelConfig.batchSize,
+					training,
+					xTrain: Float32Array.from(await xTrain.data()),
+					yTrain: Float32Array.from(await yTrain.data()),
+					xVal: Float32Array.from(await xVal.data()),
+					yVal: Float32Array.from(await yVal.data()),
 				},
-			});
+				{
+					onEpoch: (metrics) => {
+						last = metrics;
+						setCurrentEpoch(metrics.epoch);
+						const progress: TrainingProgress = {
+							epoch: metrics.epoch,
+							loss: metrics.loss,
+							accuracy: metrics.acc,
+							valLoss: metrics.valLoss,
+							valAccuracy: metrics.valAcc,
+						};
+						setTrainingProgress((prev) => [...prev, progress]);
+					},
+				},
+			);
+			const result = await session.result;
+			nnService.setWeightData(result.weights);
 
 			// Evaluate final model
 			const finalMetrics = await nnService.evaluateModel(xVal, yVal);
 			setModelMetrics({
 				...finalMetrics,
 				trainingSummary: {
-					epochs: modelConfig.epochs,
-					finalLoss: history.history.loss[history.history.loss.length - 1],
-					finalAccuracy:
-						history.history.acc?.[history.history.acc.length - 1] ||
-						history.history.accuracy?.[history.history.accuracy.length - 1],
-					validationLoss:
-						history.history.val_loss[history.history.val_loss.length - 1],
-					validationAccuracy:
-						history.history.val_acc?.[history.history.val_acc.length - 1] ||
-						history.history.val_accuracy?.[
-							history.history.val_accuracy.length - 1
-						],
+					epochs: result.epochsTrained,
+					finalLoss: last?.loss,
+					finalAccuracy: last?.acc,
+					validationLoss: last?.valLoss,
+					validationAccuracy: last?.valAcc,
 					trainingTime: Date.now(),
 				},
 			});
 
 			setTrainedModel(nnService);
 
-			// Clean up tensors
-			xTrain.dispose();
-			yTrain.dispose();
-			xVal.dispose();
-			yVal.dispose();
-
 			console.log('Training completed successfully!');
 		} catch (error) {
+			// A newer training session replaced this one and owns the store now
+			if (error instanceof SupersededSessionError) return;
 			console.error('Training error:', error);
 			setErrorMessage(
 				`Training failed: ${
@@ -218,6 +232,7 @@ export default function NeuralNetworkTrainer() {
 				}`,
 			);
 		} finally {
+			tensors.forEach((tensor) => tensor.dispose());
 			setIsTraining(false);
 		}
 	};
@@ -296,7 +311,8 @@ export default function NeuralNetworkTrainer() {
 							<h4 className="font-medium mb-3">Training Data Summary</h4>
 							<div className="space-y-2 text-sm">
 								<div>
-									<strong>Dataset:</strong> {trainingData.fileName}
+									<strong>Dataset:</strong>{' '}
+									{trainingData.rawDataset?.name || trainingData.datasetId}
 								</div>
 								<div>
 									<strong>Target Column:</strong>{' '}
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import type { ClassificationReport } from '../../../types/ml';
+
+const percent = (value: number) => (value * 100).toFixed(1) + '%';
+
+/**
+ * Per-class precision / recall / F1 (and one-vs-rest AUC) on held-out rows,
+ * followed by the macro, micro and support-weighted averages
+ */
+export default function ClassReportTable({
+	report,
+}: {
+	report: ClassificationReport;
+}) {
+	const showAuc = report.perClass.some((m) => m.auc !== undefined);
+	const total = report.perClass.reduce((sum, m) => sum + m.support, 0);
+	const averages = [
+		{ label: 'Macro avg', metrics: report.macro, auc: report.macroAuc },
+		{ label: 'Micro avg', metrics: report.micro, auc: undefined },
+		{ label: 'Weighted avg', metrics: report.weighted, auc: undefined },
+	];
+
+	return (
+		<table className="w-full text-xs border-collapse">
+			<thead>
+				<tr className="text-gray-500">
+					<th className="p-1 text-left font-medium">Class</th>
+					<th className="p-1 text-right font-medium">Precision</th>
+					<th className="p-1 text-right font-medium">Recall</th>
+					<th className="p-1 text-right font-medium">F1</th>
+					<th className="p-1 text-right font-medium">Support</th>
+					{showAuc && <th className="p-1 text-right font-medium">AUC</th>}
+				</tr>
+			</thead>
+			<tbody>
+				{report.perClass.map((m, i) => (
+					<tr key={report.classLabels[i]} className="border-t border-gray-200">
+						<td className="p-1 font-medium">{report.classLabels[i]}</td>
+						<td className="p-1 text-right">{percent(m.precision)}</td>
+						<td className="p-1 text-right">{percent(m.recall)}</td>
+						<td className="p-1 text-right">{percent(m.f1)}</td>
+						<td className="p-1 text-right">{m.support.toLocaleString()}</td>
+						{showAuc && (
+							<td className="p-1 text-right">
+								{m.auc !== undefined ? m.auc.toFixed(3) : '–'}
+							</td>
+						)}
+					</tr>
+				))}
+				{averages.map(({ label, metrics, auc }, i) => (
+					<tr
+						key={label}
+						className={`text-gray-600 ${
+							i === 0
+								? 'border-t-2 border-gray-300'
+								: 'border-t border-gray-200'
+						}`}
+					>
+						<td className="p-1">{label}</td>
+						<td className="p-1 text-right">{percent(metrics.precision)}</td>
+						<td className="p-1 text-right">{percent(metrics.recall)}</td>
+						<td className="p-1 text-right">{percent(metrics.f1)}</td>
+						<td className="p-1 text-right">{total.toLocaleString()}</td>
+						{showAuc && (
+							<td className="p-1 text-right">
+								{auc !== undefined ? auc.toFixed(3) : ''}
+							</td>
+						)}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
@@ -0,0 +1,307 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useDatasetRegistry } from '../../../lib/datasets/client';
+import {
+	detectMissionSchema,
+	getMissionSchema,
+	harmonizeLabel,
+	translateTable,
+} from '../../../lib/datasets/schema';
+import { isDerivedFeatureAvailable } from '../../../lib/derivedFeatures';
+import { parseCSVTable } from '../../../lib/ml/parsing/tokenizer.mjs';
+import { calculateMulticlassMetrics } from '../../../lib/ml/pipeline/metrics';
+import type {
+	PipelineRecord,
+	PreprocessingPipeline,
+} from '../../../lib/ml/pipeline/pipeline';
+
+interface CrossMissionResult {
+	datasetName: string;
+	fromMission: string;
+	toMission: string;
+	evaluated: number;
+	skipped: number; // rows without a label the model knows
+	unavailable: string[]; // model inputs the other mission does not provide
+	accuracy: number;
+	macroF1: number;
+	confusionMatrix: number[][];
+}
+
+/**
+ * Evaluate the trained model on another mission's registry dataset. Rows are
+ * translated into the training mission's columns through the canonical schema;
+ * inputs without a counterpart are filled by the pipeline's training
+ * statistics.
+ */
+export default function CrossMissionEvaluation({
+	pipeline,
+	currentDatasetId,
+	predictRecords,
+}: {
+	pipeline: PreprocessingPipeline;
+	currentDatasetId?: string;
+	predictRecords: (records: PipelineRecord[]) => number[]; // class indices
+}) {
+	const { datasets } = useDatasetRegistry();
+	const [selectedId, setSelectedId] = useState('');
+	const [running, setRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [result, setResult] = useState<CrossMissionResult | null>(null);
+
+	// Mission the model was trained on, from its input and target columns
+	const trainingSchema = useMemo(
+		() =>
+			detectMissionSchema([...pipeline.inputColumns, pipeline.targetColumn]),
+		[pipeline],
+	);
+
+	// Other CSV registry datasets with a known mission schema
+	const options = useMemo(
+		() =>
+			(datasets || []).filter(
+				(entry) =>
+					entry.id !== currentDatasetId &&
+					entry.format === 'csv' &&
+					getMissionSchema(entry.mission),
+			),
+		[datasets, currentDatasetId],
+	);
+
+	const classLabels = pipeline.classLabels || [];
+	const canonicalClasses = classLabels.map((label) => harmonizeLabel(label));
+
+	const handleEvaluate = async () => {
+		const entry = options.find((d) => d.id === (selectedId || options[0]?.id));
+		if (!entry || !trainingSchema) return;
+		setRunning(true);
+		setError(null);
+		setResult(null);
+		try {
+			const response = await fetch(entry.url);
+			if (!response.ok) {
+				throw new Error(`Failed to load ${entry.name} (${response.status})`);
+			}
+			const table = parseCSVTable(await response.text());
+			const sourceSchema =
+				getMissionSchema(entry.mission) || detectMissionSchema(table.header);
+			if (!sourceSchema) {
+				throw new Error(`No column schema for mission ${entry.mission}`);
+			}
+			const translated = translateTable(
+				table.header,
+				table.rows,
+				sourceSchema,
+				trainingSchema,
+			);
+
+			const derived = new Set(pipeline.derivedFeatures);
+			const sources = new Set(
+				pipeline.toJSON().columns.map((column) => column.source),
+			);
+			const unavailable = Array.from(sources).filter(
+				(source) =>
+					!translated.header.includes(source) &&
+					!(
+						derived.has(source) &&
+						isDerivedFeatureAvailable(source, translated.header)
+					),
+			);
+
+			// Keep rows whose harmonized label matches a training class
+			const targetIndex = translated.header.length - 1;
+			const records: PipelineRecord[] = [];
+			const truths: number[] = [];
+			for (const row of translated.rows) {
+				const label = row[targetIndex];
+				const classIndex = label
+					? canonicalClasses.indexOf(label as (typeof canonicalClasses)[0])
+					: -1;
+				if (classIndex === -1) continue;
+				const record: PipelineRecord = {};
+				translated.header.forEach((name, i) => {
+					record[name] = row[i];
+				});
+				records.push(record);
+				truths.push(classIndex);
+			}
+			if (records.length === 0) {
+				throw new Error(
+					'No rows with labels matching the model classes (candidate / non-candidate).',
+				);
+			}
+
+			const predictions = predictRecords(records);
+			const metrics = calculateMulticlassMetrics(
+				predictions,
+				truths,
+				classLabels,
+			);
+			setResult({
+				datasetName: entry.name,
+				fromMission: sourceSchema.mission,
+				toMission: trainingSchema.mission,
+				evaluated: records.length,
+				skipped: translated.rows.length - records.length,
+				unavailable,
+				accuracy: metrics.accuracy,
+				macroF1: metrics.macroF1,
+				confusionMatrix: metrics.confusionMatrix,
+			});
+		} catch (err) {
+			console.error('Cross-mission evaluation error:', err);
+			setError(err instanceof Error ? err.message : 'Unknown error');
+		} finally {
+			setRunning(false);
+		}
+	};
+
+	if (!trainingSchema) {
+		return (
+			<p className="text-sm text-gray-600">
+				The model&apos;s columns do not match a known mission schema (Kepler KOI
+				or TESS TOI), so it cannot be evaluated on another mission.
+			</p>
+		);
+	}
+	// Regressors (no classes) have no disposition to compare
+	if (classLabels.length < 2) {
+		return (
+			<p className="text-sm text-gray-600">
+				Cross-mission evaluation compares dispositions, so it needs a model
+				trained on a disposition target rather than a continuous one.
+			</p>
+		);
+	}
+	// Three-way models fold two classes onto 'candidate'
+	if (
+		canonicalClasses.some((label) => !label) ||
+		new Set(canonicalClasses).size !== canonicalClasses.length
+	) {
+		return (
+			<p className="text-sm text-gray-600">
+				The model&apos;s classes ({classLabels.join(', ')}) cannot be mapped
+				one-to-one onto candidate / non-candidate dispositions.
+			</p>
+		);
+	}
+	if (options.length === 0) {
+		return (
+			<p className="text-sm text-gray-600">
+				No other mission datasets are available in the registry.
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm">
+				Check how a model trained on {trainingSchema.mission} data transfers to
+				another mission. Columns are matched through a shared feature vocabulary
+				with unit conversion and dispositions are harmonized to candidate /
+				non-candidate.
+			</p>
+			<div className="flex items-center gap-3">
+				<select
+					value={selectedId || options[0].id}
+					onChange={(e) => setSelectedId(e.target.value)}
+					className="text-sm border border-gray-300 rounded px-2 py-1.5 bg-white"
+				>
+					{options.map((entry) => (
+						<option key={entry.id} value={entry.id}>
+							{entry.name} ({entry.mission})
+						</option>
+					))}
+				</select>
+				<button
+					onClick={handleEvaluate}
+					disabled={running}
+					className={`px-4 py-1.5 rounded-lg text-sm font-medium ${
+						running
+							? 'bg-gray-300 text-gray-600 cursor-not-allowed'
+							: 'bg-black text-white hover:bg-gray-800'
+					}`}
+				>
+					{running ? 'Evaluating...' : 'Evaluate'}
+				</button>
+			</div>
+
+			{error && <p className="text-sm text-red-600">{error}</p>}
+
+			{result && (
+				<div className="space-y-3">
+					<div className="grid grid-cols-3 gap-4">
+						{[
+							{ label: 'Accuracy', value: result.accuracy },
+							{ label: 'Macro F1', value: result.macroF1 },
+						].map((m) => (
+							<div
+								key={m.label}
+								className="rounded-lg border border-gray-300 bg-white px-3 py-3 text-center"
+							>
+								<div className="text-xl font-bold">
+									{(m.value * 100).toFixed(1)}%
+								</div>
+								<div className="text-[11px] text-gray-600">{m.label}</div>
+							</div>
+						))}
+						<div className="rounded-lg border border-gray-300 bg-white px-3 py-3 text-center">
+							<div className="text-xl font-bold">
+								{result.evaluated.toLocaleString()}
+							</div>
+							<div className="text-[11px] text-gray-600">
+								{result.fromMission} rows → {result.toMission} schema
+							</div>
+						</div>
+					</div>
+
+					<table className="text-xs border-collapse">
+						<thead>
+							<tr>
+								<th className="p-1 text-left text-gray-500">true \ pred</th>
+								{classLabels.map((label) => (
+									<th key={label} className="p-1 font-medium">
+										{label}
+									</th>
+								))}
+							</tr>
+						</thead>
+						<tbody>
+							{result.confusionMatrix.map((row, i) => (
+								<tr key={classLabels[i]}>
+									<th className="p-1 pr-3 text-left font-medium">
+										{classLabels[i]}
+									</th>
+									{row.map((count, j) => (
+										<td
+											key={j}
+											className={`p-1 text-center border border-gray-200 ${
+												i === j ? 'bg-green-50' : ''
+											}`}
+										>
+											{count}
+										</td>
+									))}
+								</tr>
+							))}
+						</tbody>
+					</table>
+
+					{result.skipped > 0 && (
+						<p className="text-xs text-gray-600">
+							{result.skipped.toLocaleString()} rows of {result.datasetName}{' '}
+							were skipped because their disposition has no matching class.
+						</p>
+					)}
+					{result.unavailable.length > 0 && (
+						<div className="p-3 bg-amber-50 border border-amber-300 rounded text-xs text-amber-800">
+							<strong>Not measured by {result.fromMission}:</strong>{' '}
+							{result.unavailable.join(', ')}. These inputs were filled with
+							their training statistics, which usually lowers transfer accuracy.
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,371 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+	CROSS_VALIDATION_METRICS,
+	REGRESSION_CROSS_VALIDATION_METRICS,
+	foldMetric,
+	suggestGroupColumn,
+} from '../../../lib/ml/pipeline/crossValidation';
+import {
+	STELLAR_FINGERPRINT,
+	describeGroupColumn,
+	fingerprintColumns,
+} from '../../../lib/ml/pipeline/leakage';
+import type {
+	CrossValidationConfig,
+	CrossValidationMetric,
+	CrossValidationStrategy,
+	CrossValidationSummary,
+} from '../../../types/ml';
+
+const STRATEGY_LABELS: Record<CrossValidationStrategy, string> = {
+	stratified: 'Stratified k-fold',
+	repeated: 'Repeated stratified k-fold',
+	group: 'Group k-fold',
+};
+
+// Continuous targets are not stratified: folds are plain random splits
+const REGRESSION_STRATEGY_LABELS: Record<CrossValidationStrategy, string> = {
+	stratified: 'K-fold',
+	repeated: 'Repeated k-fold',
+	group: 'Group k-fold',
+};
+
+const METRIC_LABELS: Record<CrossValidationMetric, string> = {
+	accuracy: 'Accuracy',
+	precision: 'Precision',
+	recall: 'Recall',
+	f1: 'F1',
+	auc: 'ROC AUC',
+	rmse: 'RMSE',
+	mae: 'MAE',
+	r2: 'R²',
+};
+
+const formatPercent = (value: number | undefined) =>
+	typeof value === 'number' && Number.isFinite(value)
+		? `${(value * 100).toFixed(1)}%`
+		: '—';
+
+// RMSE / MAE are in target units, R² a fraction
+const formatValue = (value: number | undefined) =>
+	typeof value === 'number' && Number.isFinite(value)
+		? String(Number(value.toPrecision(3)))
+		: '—';
+
+/**
+ * K-fold cross-validation settings and the spread of held-out metrics across
+ * folds. Fitting runs in the parent, which owns the data and model settings.
+ */
+export default function CrossValidationPanel({
+	header,
+	groupColumn: configuredGroupColumn,
+	modelLabel,
+	regression,
+	running,
+	progress,
+	summary,
+	disabled,
+	onRun,
+}: {
+	header: string[]; // dataset columns offered as group keys
+	groupColumn?: string; // group-aware split column from Data Input
+	modelLabel: string;
+	regression?: boolean; // continuous target: RMSE / MAE / R² folds
+	running: boolean;
+	progress: { completed: number; total: number } | null;
+	summary?: CrossValidationSummary;
+	disabled?: boolean;
+	onRun: (config: CrossValidationConfig) => void;
+}) {
+	const [strategy, setStrategy] = useState<CrossValidationStrategy>(
+		summary?.config.strategy || 'stratified',
+	);
+	const [folds, setFolds] = useState(summary?.config.folds || 5);
+	const [repeats, setRepeats] = useState(summary?.config.repeats || 3);
+	const [groupColumn, setGroupColumn] = useState(
+		summary?.config.groupColumn ||
+			configuredGroupColumn ||
+			suggestGroupColumn(header) ||
+			'',
+	);
+
+	const handleRun = () => {
+		onRun({
+			strategy,
+			folds,
+			repeats: strategy === 'repeated' ? repeats : undefined,
+			groupColumn: strategy === 'group' ? groupColumn : undefined,
+		});
+	};
+
+	const strategyLabels = regression
+		? REGRESSION_STRATEGY_LABELS
+		: STRATEGY_LABELS;
+	const regressionSummary = summary?.task === 'regression';
+	const metrics = regressionSummary
+		? REGRESSION_CROSS_VALIDATION_METRICS
+		: CROSS_VALIDATION_METRICS;
+	const summaryLabels = regressionSummary
+		? REGRESSION_STRATEGY_LABELS
+		: STRATEGY_LABELS;
+	const reported = metrics.filter((metric) =>
+		Number.isFinite(summary?.mean[metric]),
+	);
+	const format = regressionSummary ? formatValue : formatPercent;
+
+	// Strip plot axis, padded around the observed fold values: shared by the
+	// classification metrics, one per metric for regression (different units)
+	const axis = (axisMetrics: CrossValidationMetric[]) => {
+		const finite = (summary?.folds || [])
+			.flatMap((fold) => axisMetrics.map((metric) => foldMetric(fold, metric)))
+			.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+		if (!finite.length) return { low: 0, high: 1 };
+		const min = Math.min(...finite);
+		const max = Math.max(...finite);
+		if (!regressionSummary) {
+			return { low: Math.max(0, min - 0.02), high: Math.min(1, max + 0.02) };
+		}
+		const pad = (max - min) * 0.05 || Math.abs(max) * 0.05 || 0.01;
+		return { low: min - pad, high: max + pad };
+	};
+	const { low, high } = axis(metrics);
+	const position = (value: number, metric: CrossValidationMetric) => {
+		const range = regressionSummary ? axis([metric]) : { low, high };
+		return `${((value - range.low) / (range.high - range.low || 1)) * 100}%`;
+	};
+	const clamp = (value: number, metric: CrossValidationMetric) => {
+		const range = regressionSummary ? axis([metric]) : { low, high };
+		return Math.min(range.high, Math.max(range.low, value));
+	};
+
+	const multipleRepeats = summary?.folds.some((fold) => fold.repeat > 0);
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm">
+				Train the {modelLabel} on k-1 folds and score it on the held-out fold, k
+				times. The spread across folds shows how much a single train/test split
+				can move the metrics. Group k-fold keeps every row with the same group
+				value (e.g. <code>kepid</code>, so all planets of one star) in a single
+				fold.
+			</p>
+
+			<div className="flex flex-wrap items-end gap-3 text-sm">
+				<label className="flex flex-col gap-1">
+					<span className="text-xs text-gray-600">Strategy</span>
+					<select
+						value={strategy}
+						onChange={(e) =>
+							setStrategy(e.target.value as CrossValidationStrategy)
+						}
+						disabled={running}
+						className="border border-gray-300 rounded px-2 py-1.5 bg-white"
+					>
+						{(Object.keys(strategyLabels) as CrossValidationStrategy[]).map(
+							(key) => (
+								<option key={key} value={key}>
+									{strategyLabels[key]}
+								</option>
+							),
+						)}
+					</select>
+				</label>
+				<label className="flex flex-col gap-1">
+					<span className="text-xs text-gray-600">Folds</span>
+					<input
+						type="number"
+						min={2}
+						max={20}
+						value={folds}
+						onChange={(e) => setFolds(parseInt(e.target.value) || 2)}
+						disabled={running}
+						className="w-20 border border-gray-300 rounded px-2 py-1.5"
+					/>
+				</label>
+				{strategy === 'repeated' && (
+					<label className="flex flex-col gap-1">
+						<span className="text-xs text-gray-600">Repeats</span>
+						<input
+							type="number"
+							min={1}
+							max={10}
+							value={repeats}
+							onChange={(e) => setRepeats(parseInt(e.target.value) || 1)}
+							disabled={running}
+							className="w-20 border border-gray-300 rounded px-2 py-1.5"
+						/>
+					</label>
+				)}
+				{strategy === 'group' && (
+					<label className="flex flex-col gap-1">
+						<span className="text-xs text-gray-600">Group column</span>
+						<select
+							value={groupColumn}
+							onChange={(e) => setGroupColumn(e.target.value)}
+							disabled={running}
+							className="border border-gray-300 rounded px-2 py-1.5 bg-white"
+						>
+							<option value="">Select a column…</option>
+							{fingerprintColumns(header) && (
+								<option value={STELLAR_FINGERPRINT}>
+									Identical stellar parameters
+								</option>
+							)}
+							{header.map((column) => (
+								<option key={column} value={column}>
+									{column}
+								</option>
+							))}
+						</select>
+					</label>
+				)}
+				<button
+					onClick={handleRun}
+					disabled={
+						running || disabled || (strategy === 'group' && !groupColumn)
+					}
+					className={`px-4 py-1.5 rounded-lg font-medium ${
+						running || disabled || (strategy === 'group' && !groupColumn)
+							? 'bg-gray-300 text-gray-600 cursor-not-allowed'
+							: 'bg-black text-white hover:bg-gray-800'
+					}`}
+				>
+					{running
+						? progress
+							? `Fold ${Math.min(progress.completed + 1, progress.total)}/${
+									progress.total
+								}...`
+							: 'Preparing...'
+						: 'Run Cross-Validation'}
+				</button>
+			</div>
+			{strategy === 'group' && !suggestGroupColumn(header) && (
+				<p className="text-xs text-amber-700">
+					This dataset has no host-star id column (kepid / tid / hostname). Pick
+					a column that identifies the system each row belongs to, or group rows
+					with identical stellar parameters.
+				</p>
+			)}
+
+			{summary && (
+				<div className="space-y-4">
+					<div className="text-xs text-gray-600">
+						{summaryLabels[summary.config.strategy]} · {summary.config.folds}{' '}
+						folds
+						{summary.config.strategy === 'repeated' &&
+							` × ${summary.config.repeats} repeats`}
+						{summary.config.strategy === 'group' &&
+							` grouped by ${describeGroupColumn(
+								summary.config.groupColumn || '',
+								header,
+							)}`}
+						{summary.config.seed !== undefined &&
+							` · seed ${summary.config.seed}`}{' '}
+						· metrics on held-out folds (mean ± std)
+					</div>
+
+					<div className="space-y-2">
+						{reported.map((metric) => {
+							const mean = summary.mean[metric];
+							const std = summary.std[metric] || 0;
+							return (
+								<div key={metric} className="flex items-center gap-3">
+									<div className="w-20 text-xs font-medium">
+										{METRIC_LABELS[metric]}
+									</div>
+									<div className="relative flex-1 h-6 bg-gray-100 rounded">
+										<div
+											className="absolute top-1 bottom-1 bg-blue-100 rounded"
+											style={{
+												left: position(clamp(mean - std, metric), metric),
+												width: `calc(${position(
+													clamp(mean + std, metric),
+													metric,
+												)} - ${position(clamp(mean - std, metric), metric)})`,
+											}}
+										/>
+										<div
+											className="absolute top-0 bottom-0 w-0.5 bg-blue-600"
+											style={{ left: position(mean, metric) }}
+										/>
+										{summary.folds.map((fold, i) => {
+											const value = foldMetric(fold, metric);
+											if (typeof value !== 'number' || !Number.isFinite(value))
+												return null;
+											return (
+												<div
+													key={i}
+													title={`Fold ${fold.fold + 1}${
+														multipleRepeats
+															? ` (repeat ${fold.repeat + 1})`
+															: ''
+													}: ${format(value)}`}
+													className="absolute top-1/2 w-2 h-2 -ml-1 -mt-1 rounded-full bg-gray-800 opacity-70"
+													style={{ left: position(value, metric) }}
+												/>
+											);
+										})}
+									</div>
+									<div className="w-32 text-right text-xs font-mono">
+										{format(mean)} ± {format(std)}
+									</div>
+								</div>
+							);
+						})}
+						{!regressionSummary && (
+							<div className="flex gap-3 text-[10px] text-gray-500">
+								<div className="w-20" />
+								<div className="flex-1 flex justify-between">
+									<span>{formatPercent(low)}</span>
+									<span>{formatPercent(high)}</span>
+								</div>
+								<div className="w-32" />
+							</div>
+						)}
+					</div>
+
+					<div className="overflow-x-auto">
+						<table className="w-full text-xs border-collapse">
+							<thead>
+								<tr className="text-gray-500 border-b border-gray-200">
+									{multipleRepeats && <th className="p-1 text-left">Repeat</th>}
+									<th className="p-1 text-left">Fold</th>
+									<th className="p-1 text-right">Train</th>
+									<th className="p-1 text-right">Held out</th>
+									{metrics.map((metric) => (
+										<th key={metric} className="p-1 text-right">
+											{METRIC_LABELS[metric]}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{summary.folds.map((fold, i) => (
+									<tr key={i} className="border-b border-gray-100">
+										{multipleRepeats && (
+											<td className="p-1">{fold.repeat + 1}</td>
+										)}
+										<td className="p-1">{fold.fold + 1}</td>
+										<td className="p-1 text-right">
+											{fold.trainSize.toLocaleString()}
+										</td>
+										<td className="p-1 text-right">
+											{fold.valSize.toLocaleString()}
+										</td>
+										{metrics.map((metric) => (
+											<td key={metric} className="p-1 text-right font-mono">
+												{format(foldMetric(fold, metric))}
+											</td>
+										))}
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Card, CardTitle, CardContent } from '../../ui/Card';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -8,15 +8,97 @@ import {
 	getFeatureDescription,
 	getFeatureCategory,
 } from '../../../lib/keplerFeatureDescriptions';
+import {
+	availableDerivedFeatures,
+	withDerivedColumns,
+} from '../../../lib/derivedFeatures';
+import { suggestGroupColumn } from '../../../lib/ml/pipeline/crossValidation';
+import {
+	STELLAR_FINGERPRINT,
+	describeGroupColumn,
+	fingerprintColumns,
+} from '../../../lib/ml/pipeline/leakage';
 
 // IMPLEMENTATION UPDATE: Import enhanced CSV parser and types
-import { CSVParser } from '../../../lib/ml/parsing/csv';
+import { CSVParser, CSVStreamProgress } from '../../../lib/ml/parsing/csv';
+import { ArchiveTableParser } from '../../../lib/ml/parsing/archive';
+import {
+	ColumnarTable,
+	ColumnarTableParser,
+} from '../../../lib/ml/parsing/columnar';
 import type {
+	ClipPercentiles,
 	ColumnType,
+	FeatureTransform,
+	ImputationStrategy,
 	InferredColumnMeta,
 	RawDataset,
+	TaskType,
 } from '../../../types/ml';
 import { useClassroomStore } from '../../../lib/ml/state/classroomStore';
+import {
+	fetchDatasetProfile,
+	useDatasetRegistry,
+} from '../../../lib/datasets/client';
+import { profileTable } from '../../../lib/datasets/profile';
+import { detectMissionSchema } from '../../../lib/datasets/schema';
+import {
+	deleteUserDataset,
+	getUserDataset,
+	renameUserDataset,
+	saveUserDataset,
+	touchUserDataset,
+	useUserDatasets,
+} from '../../../lib/datasets/userDatasets';
+import type {
+	DatasetFileFormat,
+	DatasetListing,
+	DatasetProfile,
+} from '../../../types/datasets';
+import DatasetProfilePanel from './datasetprofile';
+import LabelMappingPanel from './labelmapping';
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Per-feature transforms offered for numeric features (fitted on the training rows)
+const TRANSFORM_OPTIONS: { value: FeatureTransform; label: string }[] = [
+	{ value: 'standard', label: 'Z-score' },
+	{ value: 'robust', label: 'Robust (median / IQR)' },
+	{ value: 'minmax', label: 'Min-max [0, 1]' },
+	{ value: 'log', label: 'Log' },
+	{ value: 'log1p', label: 'Log(1 + x)' },
+	{ value: 'box-cox', label: 'Box-Cox' },
+	{ value: 'yeo-johnson', label: 'Yeo-Johnson' },
+	{ value: 'quantile-normal', label: 'Quantile → normal' },
+	{ value: 'none', label: 'No scaling' },
+];
+
+// Percentile clipping presets (fitted on the training rows)
+const CLIP_OPTIONS: { label: string; clip?: ClipPercentiles }[] = [
+	{ label: 'No clipping' },
+	{ label: 'Clip 0.5–99.5%', clip: { lower: 0.5, upper: 99.5 } },
+	{ label: 'Clip 1–99%', clip: { lower: 1, upper: 99 } },
+	{ label: 'Clip 5–95%', clip: { lower: 5, upper: 95 } },
+];
+
+// Missing-value handling for numeric features with gaps (fills are fitted on
+// the training rows)
+const IMPUTATION_OPTIONS: { value: ImputationStrategy; label: string }[] = [
+	{ value: 'drop', label: 'Drop rows with gaps' },
+	{ value: 'mean', label: 'Fill: mean' },
+	{ value: 'median', label: 'Fill: median' },
+	{ value: 'constant', label: 'Fill: 0' },
+	{ value: 'knn', label: 'Fill: k nearest neighbours' },
+	{ value: 'iterative', label: 'Fill: iterative regression' },
+];
+
+function clipKey(clip?: ClipPercentiles): string {
+	return clip ? `${clip.lower}-${clip.upper}` : '';
+}
 
 export default function ClassroomDataInputTab() {
 	const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
@@ -28,9 +110,18 @@ export default function ClassroomDataInputTab() {
 		reason?: string;
 	} | null>(null);
 	const fileInputRef = useRef<HTMLInputElement>(null);
+	// Streaming parse progress & cancellation handle for the active load
+	const [parseProgress, setParseProgress] = useState<CSVStreamProgress | null>(
+		null,
+	);
+	const parseAbortRef = useRef<AbortController | null>(null);
+	// Decoded columns of the last Parquet/Arrow upload (typed, not persisted)
+	const columnarTableRef = useRef<ColumnarTable | null>(null);
 
 	// IMPLEMENTATION UPDATE: Use classroom store for state management
 	const [classroomState, classroomStore] = useClassroomStore();
+	// Registry datasets (null while loading) drive the source picker and loaders
+	const { datasets: registry, error: registryError } = useDatasetRegistry();
 
 	// Local UI state
 	const [showDataPreview, setShowDataPreview] = useState(false);
@@ -40,25 +131,129 @@ export default function ClassroomDataInputTab() {
 	// Extract state from store
 	const {
 		selectedDataSource,
+		userDatasetId,
 		rawDataset,
 		columnMeta,
 		targetColumn,
+		taskType,
+		labelMapping,
 		selectedFeatures,
 		missingValueStrategy,
+		missingIndicators,
 		normalization,
+		featureTransforms,
+		clipPercentiles,
+		derivedFeatures,
+		groupColumn,
 	} = classroomState.dataInput;
 
-	// Initialize localStorage for global status display
+	const activeDataset = registry?.find((d) => d.id === selectedDataSource);
+	const targetMeta = columnMeta?.find((c) => c.name === targetColumn);
+
+	// Uploads saved in IndexedDB ("My datasets")
+	const { datasets: savedDatasets, error: savedDatasetsError } =
+		useUserDatasets();
+	const [uploadNotice, setUploadNotice] = useState<string | null>(null);
+	const [renamingId, setRenamingId] = useState<string | null>(null);
+	const [renameValue, setRenameValue] = useState('');
+
+	// Column profile (server-side for registry datasets, local for uploads)
+	const [profile, setProfile] = useState<DatasetProfile | null>(null);
+	const [profileLoading, setProfileLoading] = useState(false);
+	const [profileError, setProfileError] = useState<string | null>(null);
+
 	useEffect(() => {
-		const displayNames: Record<string, string> = {
-			kepler: 'Kepler Database',
-			tess: 'TESS Database', 
-			own: 'Custom Upload'
+		setProfile(null);
+		setProfileError(null);
+		if (!activeDataset) return;
+		let active = true;
+		setProfileLoading(true);
+		fetchDatasetProfile(activeDataset)
+			.then((result) => {
+				if (active) setProfile(result);
+			})
+			.catch((err) => {
+				console.error('Dataset profile error:', err);
+				if (active) {
+					setProfileError(
+						err instanceof Error ? err.message : 'Failed to profile dataset',
+					);
+				}
+			})
+			.finally(() => {
+				if (active) setProfileLoading(false);
+			});
+		return () => {
+			active = false;
 		};
+	}, [activeDataset]);
+
+	// Uploaded files are profiled in the browser with the same routine
+	useEffect(() => {
+		if (selectedDataSource !== 'own') return;
+		setProfile(
+			rawDataset
+				? profileTable(rawDataset.name, rawDataset.header, rawDataset.rows, {
+						targetColumn,
+						columnMeta,
+					})
+				: null,
+		);
+	}, [selectedDataSource, rawDataset, targetColumn, columnMeta]);
+
+	// Derived features computable from this dataset, and the feature list with
+	// the enabled ones appended as numeric columns
+	const derivedOptions = useMemo(
+		() => (rawDataset ? availableDerivedFeatures(rawDataset.header) : []),
+		[rawDataset],
+	);
+	const featureMeta = useMemo(
+		() =>
+			rawDataset && columnMeta
+				? withDerivedColumns(rawDataset, columnMeta, derivedFeatures || [])
+						.columnMeta
+				: columnMeta,
+		[rawDataset, columnMeta, derivedFeatures],
+	);
+
+	// Selected features whose gaps are filled rather than dropped
+	const imputedFeatures = (selectedFeatures || []).filter(
+		(name) => (missingValueStrategy[name] || 'drop') !== 'drop',
+	);
+
+	// Explains the group-aware split setting below its selector
+	const groupHint = (() => {
+		if (!rawDataset) return '';
+		if (groupColumn)
+			return `Grouped by ${describeGroupColumn(groupColumn, rawDataset.header)}`;
+		const suggested = suggestGroupColumn(rawDataset.header);
+		if (suggested) return `Suggested: ${suggested} (host star id)`;
+		return fingerprintColumns(rawDataset.header)
+			? 'No host-star id column; group by identical stellar parameters instead'
+			: 'No host-star id column detected';
+	})();
+
+	// Rows covered by column statistics (streamed parses retain only a prefix)
+	const totalRows =
+		classroomState.dataInput.parseStats?.totalRowsAfter ??
+		rawDataset?.rows.length ??
+		0;
+
+	// Name shown in the global status display for a data source
+	const sourceDisplayName = (source: string) =>
+		source === 'own'
+			? 'Custom Upload'
+			: registry?.find((d) => d.id === source)?.name || source;
+
+	// Initialize localStorage for global status display
+	useEffect(() => {
 		if (selectedDataSource) {
-			localStorage.setItem('selectedDataInput', displayNames[selectedDataSource] || selectedDataSource);
+			localStorage.setItem(
+				'selectedDataInput',
+				sourceDisplayName(selectedDataSource),
+			);
 		}
-	}, [selectedDataSource]);
+	}, [selectedDataSource, registry]);
 
 	// IMPLEMENTATION UPDATE: Enhanced CSV parsing with validation and store integration
 	const parseCSV = async (
@@ -84,6 +279,197 @@ export default function ClassroomDataInputTab() {
 		}
 	};
 
+	// Streaming variant: parses chunk by chunk, reporting progress and honoring cancellation
+	const parseCSVStream = async (
+		source: Blob | ReadableStream<Uint8Array>,
+		filename: string,
+		options?: { maxRows?: number; totalBytes?: number; [key: string]: any },
+	): Promise<void> => {
+		parseAbortRef.current?.abort();
+		const controller = new AbortController();
+		parseAbortRef.current = controller;
+		setParseProgress(null);
+		try {
+			const { rawDataset, columnMeta, parseStats } =
+				await CSVParser.parseCSVStream(source, filename, {
+					maxRows: 1000,
+					...options,
+					signal: controller.signal,
+					onProgress: (progress) => {
+						if (parseAbortRef.current === controller)
+							setParseProgress(progress);
+					},
+				});
+			classroomStore.setRawDataset(rawDataset, columnMeta, parseStats);
+			setShowDataPreview(true);
+			setParseError(null);
+		} catch (error) {
+			// Cancellation messaging is left to the caller
+			if (!controller.signal.aborted) {
+				console.error('Streaming CSV parsing error:', error);
+				setParseError(
+					error instanceof Error ? error.message : 'Unknown parsing error',
+				);
+			}
+			throw error;
+		} finally {
+			if (parseAbortRef.current === controller) {
+				parseAbortRef.current = null;
+				setParseProgress(null);
+			}
+		}
+	};
+
+	// NASA Exoplanet Archive IPAC / VOTable exports keep their declared column types
+	const parseArchiveFile = async (file: File): Promise<void> => {
+		try {
+			const { rawDataset, columnMeta, parseStats } =
+				await ArchiveTableParser.parseArchiveTable(
+					await file.text(),
+					file.name,
+					{ maxRows: 5000 },
+				);
+			classroomStore.setRawDataset(rawDataset, columnMeta, parseStats);
+			setShowDataPreview(true);
+			setParseError(null);
+		} catch (error) {
+			console.error('Archive table parsing error:', error);
+			setParseError(
+				error instanceof Error ? error.message : 'Unknown parsing error',
+			);
+			throw error;
+		}
+	};
+
+	// Parquet / Arrow uploads: column types come from the file schema
+	const parseColumnarFile = async (file: File): Promise<void> => {
+		try {
+			const { rawDataset, columnMeta, parseStats, table } =
+				await ColumnarTableParser.parseColumnarFile(
+					await file.arrayBuffer(),
+					file.name,
+					{ maxRows: 5000 },
+				);
+			columnarTableRef.current = table;
+			classroomStore.setRawDataset(rawDataset, columnMeta, parseStats);
+			setShowDataPreview(true);
+			setParseError(null);
+		} catch (error) {
+			console.error('Columnar file parsing error:', error);
+			setParseError(
+				error instanceof Error ? error.message : 'Unknown parsing error',
+			);
+			throw error;
+		}
+	};
+
+	// Parse an uploaded file with the importer for its format
+	const parseUploadedFile = async (
+		file: File,
+		format: DatasetFileFormat,
+	): Promise<void> => {
+		if (format === 'csv') {
+			await parseCSVStream(file, file.name, {
+				maxRows: 5000,
+				tolerant: true,
+				maxInconsistencyRatio: 0.3,
+				autoDetectDelimiter: true,
+				delimiters: [',', '\t', ';', '|'],
+			});
+		} else if (format === 'parquet' || format === 'arrow') {
+			await parseColumnarFile(file);
+		} else {
+			await parseArchiveFile(file);
+		}
+	};
+
+	// Load a saved upload from IndexedDB; persisted target/features are kept
+	// when they still match the file (page reload), otherwise re-inferred
+	const loadSavedDataset = async (id: string, loadId: number) => {
+		setIsParsing(true);
+		setParseError(null);
+		columnarTableRef.current = null;
+		try {
+			const record = await getUserDataset(id);
+			if (!record) {
+				throw new Error('Saved dataset not found; it may have been deleted.');
+			}
+			if (loadId !== activeLoadIdRef.current) return;
+			setUploadedFileName(record.fileName);
+			await parseUploadedFile(
+				new File([record.blob], record.fileName),
+				record.format,
+			);
+			if (loadId !== activeLoadIdRef.current) return;
+
+			const {
+				columnMeta: meta = [],
+				targetColumn: target,
+				selectedFeatures,
+			} = classroomStore.getState().dataInput;
+			const names = new Set(meta.map((m) => m.name));
+			if (target && names.has(target)) {
+				classroomStore.setSelectedFeatures(
+					(selectedFeatures || []).filter((f) => names.has(f)),
+				);
+			} else {
+				inferTargetAndFeatures(meta);
+			}
+			touchUserDataset(id).catch(() => undefined);
+		} catch (error) {
+			console.error('Saved dataset loading error:', error);
+			if (loadId !== activeLoadIdRef.current) return;
+			setParseError(
+				error instanceof Error && error.message === 'CSV parsing cancelled'
+					? 'Dataset loading was cancelled.'
+					: error instanceof Error
+						? error.message
+						: 'Failed to load saved dataset',
+			);
+		} finally {
+			if (loadId === activeLoadIdRef.current) setIsParsing(false);
+		}
+	};
+
+	const handleSelectSavedDataset = (id: string) => {
+		if (selectedDataSource === 'own' && userDatasetId === id) return;
+		parseAbortRef.current?.abort();
+		setUploadNotice(null);
+		setShowUploadPopup(false);
+		classroomStore.setDataSource('own', id); // effect will load
+		localStorage.setItem('selectedDataInput', sourceDisplayName('own'));
+		window.dispatchEvent(new Event('localStorageChange'));
+	};
+
+	const handleRenameSavedDataset = async (id: string) => {
+		try {
+			await renameUserDataset(id, renameValue);
+			setRenamingId(null);
+		} catch (error) {
+			setParseError(
+				error instanceof Error ? error.message : 'Failed to rename dataset',
+			);
+		}
+	};
+
+	const handleDeleteSavedDataset = async (id: string) => {
+		try {
+			await deleteUserDataset(id);
+			if (userDatasetId === id) {
+				// The active dataset is gone: back to an empty upload slot
+				classroomStore.setDataSource('own');
+			}
+		} catch (error) {
+			setParseError(
+				error instanceof Error ? error.message : 'Failed to delete dataset',
+			);
+		}
+	};
+
+	const handleCancelParse = () => {
+		parseAbortRef.current?.abort();
+	};
+
 	// Generic inference for target and features (dataset-agnostic)
 	const inferTargetAndFeatures = (meta: InferredColumnMeta[]) => {
 		if (!meta) return;
@@ -220,50 +606,68 @@ export default function ClassroomDataInputTab() {
 	// Track latest dataset load to avoid race conditions
 	const activeLoadIdRef = useRef(0);
 
-	// IMPLEMENTATION UPDATE: Load real Kepler dataset with enhanced parsing (version-aware)
-	const loadKeplerDataset = async (loadId: number) => {
-		try {
-			setIsParsing(true);
-			// Fetch KOI classroom CSV through API (ensures server-side file access & future preprocessing)
-			const response = await fetch('/api/classroom/koi');
-			if (!response.ok) {
-				throw new Error('Failed to load KOI classroom dataset');
-			}
+	// Stream a fetched dataset when the body is exposed, otherwise parse the full text
+	const parseResponse = async (response: Response, filename: string) => {
+		if (!response.body) {
+			await parseCSV(await response.text(), filename);
+			return;
+		}
+		const length = Number(response.headers.get('Content-Length'));
+		await parseCSVStream(response.body, filename, {
+			totalBytes: length > 0 ? length : undefined,
+		});
+	};
 
-			const csvContent = await response.text();
-			// If a newer selection happened while fetching, abort applying
-			if (loadId !== activeLoadIdRef.current) return;
-			await parseCSV(csvContent, 'KOI-Classroom-Data.csv');
-			const metaAfter = classroomStore.getState().dataInput.columnMeta || [];
-			if (loadId === activeLoadIdRef.current) inferTargetAndFeatures(metaAfter);
-		} catch (error) {
-			console.error('Kepler dataset loading error:', error);
-			setParseError(
-				'Failed to load Kepler dataset. Please try uploading your own data.',
+	// Registry defaults (target + feature list) when they match the loaded header
+	const applyDatasetDefaults = (entry: DatasetListing) => {
+		const meta = classroomStore.getState().dataInput.columnMeta || [];
+		const names = new Set(meta.map((m) => m.name));
+		const features = entry.defaultFeatures.filter(
+			(f) => names.has(f) && f !== entry.targetColumn,
+		);
+		if (!names.has(entry.targetColumn) || features.length === 0) {
+			console.warn(
+				`Registry defaults for ${entry.id} do not match the file header; inferring instead`,
 			);
-		} finally {
-			if (loadId === activeLoadIdRef.current) setIsParsing(false);
+			inferTargetAndFeatures(meta);
+			return;
 		}
+		classroomStore.setTargetColumn(entry.targetColumn);
+		classroomStore.setSelectedFeatures(features);
+		setUsedTargetFallback(null);
 	};
 
-	// (Removed) K2 dataset support has been deprecated.
-
-	// NEW: Load TESS dataset (version-aware)
-	const loadTessDataset = async (loadId: number) => {
+	// Load a registry dataset through /api/datasets/:id (version-aware)
+	const loadRegistryDataset = async (entry: DatasetListing, loadId: number) => {
 		try {
 			setIsParsing(true);
-			const response = await fetch('/api/classroom/tess');
+			const response = await fetch(entry.url);
 			if (!response.ok) {
-				throw new Error('Failed to load TESS classroom dataset');
+				throw new Error(`Failed to load ${entry.name}`);
 			}
-			const csvContent = await response.text();
+
+			// If a newer selection happened while fetching, abort applying
 			if (loadId !== activeLoadIdRef.current) return;
-			await parseCSV(csvContent, 'TESS-Classroom-Data.csv');
-			const metaAfter = classroomStore.getState().dataInput.columnMeta || [];
-			if (loadId === activeLoadIdRef.current) inferTargetAndFeatures(metaAfter);
+			if (entry.format === 'csv') {
+				await parseResponse(response, entry.file);
+			} else {
+				const file = new File([await response.blob()], entry.file);
+				if (loadId !== activeLoadIdRef.current) return;
+				if (entry.format === 'parquet' || entry.format === 'arrow') {
+					await parseColumnarFile(file);
+				} else {
+					await parseArchiveFile(file);
+				}
+			}
+			if (loadId === activeLoadIdRef.current) applyDatasetDefaults(entry);
 		} catch (error) {
-			console.error('TESS dataset loading error:', error);
-			setParseError('Failed to load TESS dataset.');
+			console.error(`${entry.name} loading error:`, error);
+			if (loadId !== activeLoadIdRef.current) return;
+			setParseError(
+				error instanceof Error && error.message === 'CSV parsing cancelled'
+					? 'Dataset loading was cancelled.'
+					: `Failed to load ${entry.name}. Please try uploading your own data.`,
+			);
 		} finally {
 			if (loadId === activeLoadIdRef.current) setIsParsing(false);
 		}
@@ -297,26 +701,41 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 
 	// Load dataset when data source changes or when explicitly forced to reload
 	useEffect(() => {
-		// Legacy migration guard for 'k2' removed (type no longer includes 'k2')
-		// If user chose own data we only open popup; no auto-load
+		// Own data: restore the saved upload, otherwise open the upload popup
 		if (selectedDataSource === 'own') {
-			setShowUploadPopup(true);
+			if (userDatasetId) {
+				loadSavedDataset(userDatasetId, ++activeLoadIdRef.current);
+			} else if (!rawDataset) {
+				setShowUploadPopup(true);
+			}
+			return;
+		}
+		if (registry === null) return; // wait for the registry
+		if (registryError) {
+			setParseError(`Could not load the dataset registry: ${registryError}`);
+			return;
+		}
+		const entry = registry.find((d) => d.id === selectedDataSource);
+		if (!entry && registry.length > 0) {
+			// Persisted source no longer registered: fall back to the first dataset
+			classroomStore.setDataSource(registry[0].id);
 			return;
 		}
-		// Always load fresh dataset for kepler/tess/sample sources (do not reuse stale rawDataset from another source)
+		// Always load fresh dataset (do not reuse stale rawDataset from another source)
 		const loadId = ++activeLoadIdRef.current;
-		if (selectedDataSource === 'kepler') {
-			loadKeplerDataset(loadId);
-		} else if (selectedDataSource === 'tess') {
-			loadTessDataset(loadId);
+		if (entry) {
+			loadRegistryDataset(entry, loadId);
 		} else {
 			loadSampleDataset(selectedDataSource, loadId);
 		}
 		// eslint-disable-next-line react-hooks/exhaustive-deps
-	}, [selectedDataSource]);
+	}, [selectedDataSource, userDatasetId, registry]);
 
 	// IMPLEMENTATION UPDATE: Handle data source selection with store integration
 	const handleDataSourceChange = (source: string) => {
+		// Stop any in-flight streaming parse for the previous source
+		parseAbortRef.current?.abort();
+		columnarTableRef.current = null;
 		// Clear existing dataset/state before switching (prevents stale display)
 		classroomStore.setRawDataset(undefined as any, []);
 		classroomStore.setTargetColumn('');
@@ -325,15 +744,10 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 		setIsParsing(false);
 		setParseError(null);
 		setShowUploadPopup(false);
-		classroomStore.setDataSource(source as any); // effect will load
+		classroomStore.setDataSource(source); // effect will load
 		
 		// Save to localStorage for global status display
-		const displayNames: Record<string, string> = {
-			kepler: 'Kepler Database',
-			tess: 'TESS Database', 
-			own: 'Custom Upload'
-		};
-		localStorage.setItem('selectedDataInput', displayNames[source] || source);
+		localStorage.setItem('selectedDataInput', sourceDisplayName(source));
 		// Dispatch custom event for same-tab updates
 		window.dispatchEvent(new Event('localStorageChange'));
 		
@@ -345,7 +759,12 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 
 	// IMPLEMENTATION UPDATE: Handle target column selection with store integration
 	const handleTargetColumnChange = (columnName: string) => {
-		classroomStore.setTargetColumn(columnName);
+		// Numeric targets are continuous: trained as regression
+		const meta = columnMeta?.find((c) => c.name === columnName);
+		classroomStore.setTargetColumn(
+			columnName,
+			meta?.inferredType === 'numeric' ? 'regression' : undefined,
+		);
 
 		// Remove target from features if selected
 		const currentFeatures = selectedFeatures || [];
@@ -439,6 +858,27 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 		console.log('✅ Readiness Check:', dataInputSummary.readinessCheck);
 		console.log('📋 Complete Data Summary:', dataInputSummary);
 		console.groupEnd();
+
+		// Typed uploads skip string re-encoding: pack the feature matrix directly
+		const columnarTable = columnarTableRef.current;
+		if (
+			columnarTable &&
+			columnarTable.name === rawDataset?.name &&
+			targetColumn &&
+			selectedFeatures?.length
+		) {
+			try {
+				classroomStore.setPreparedDataset(
+					ColumnarTableParser.toPreparedDataset(
+						columnarTable,
+						targetColumn,
+						selectedFeatures,
+					),
+				);
+			} catch (error) {
+				console.warn('Could not prepare columnar dataset:', error);
+			}
+		}
 	};
 
 	// Handle download template (static file in /public)
@@ -463,35 +903,56 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 		const file = event.target.files?.[0];
 		if (!file) return;
 
-		if (!file.name.toLowerCase().endsWith('.csv')) {
-			setParseError('Please upload a CSV file');
+		const format =
+			ColumnarTableParser.detectFormat(file.name) ??
+			ArchiveTableParser.detectFormat(file.name);
+		if (!format) {
+			setParseError(
+				'Please upload a CSV, Parquet, Arrow, IPAC table (.tbl) or VOTable (.xml, .vot) file',
+			);
 			return;
 		}
 
 		setIsUploading(true);
-		setIsParsing(true);
 		setUploadedFileName(file.name);
 		setParseError(null);
+		setUploadNotice(null);
 
+		// Keep the upload in IndexedDB so it survives reloads (same bytes = same id)
+		let saved: Awaited<ReturnType<typeof saveUserDataset>> | null = null;
 		try {
-			const csvContent = await file.text();
-			await parseCSV(csvContent, file.name, {
-				maxRows: 5000,
-				tolerant: true,
-				maxInconsistencyRatio: 0.3,
-				autoDetectDelimiter: true,
-				delimiters: [',', '\t', ';', '|'],
-			});
+			saved = await saveUserDataset(file, format);
+		} catch (error) {
+			console.warn('Could not save dataset in the browser:', error);
+		}
+		if (saved) {
+			if (saved.duplicate) {
+				setUploadNotice(
+					`This file is already saved as "${saved.record.name}"; using the saved copy.`,
+				);
+			}
+			setIsUploading(false);
+			if (selectedDataSource !== 'own' || userDatasetId !== saved.record.id) {
+				classroomStore.setDataSource('own', saved.record.id); // effect will load
+			}
+			return;
+		}
+
+		// Storage unavailable: parse directly (the dataset is lost on reload)
+		setIsParsing(true);
+		columnarTableRef.current = null;
+		try {
+			classroomStore.setDataSource('own');
+			await parseUploadedFile(file, format);
 			const currentMeta = classroomStore.getState().dataInput.columnMeta || [];
 			inferTargetAndFeatures(currentMeta);
-			classroomStore.setDataSource('own');
 		} catch (error) {
 			console.error('CSV parsing error:', error);
-			setParseError(
-				`Failed to parse CSV: ${
-					error instanceof Error ? error.message : 'Unknown error'
-				}`,
-			);
+			if (error instanceof Error && error.message === 'CSV parsing cancelled') {
+				setParseError('Upload parsing was cancelled.');
+			} else {
+				setParseError(error instanceof Error ? error.message : 'Unknown error');
+			}
 		} finally {
 			setIsUploading(false);
 			setIsParsing(false);
@@ -518,8 +979,8 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 								className="space-y-3"
 								aria-label="Dataset Source"
 								onKeyDown={(e) => {
-									const order = ['kepler', 'tess', 'own'] as const;
-									const idx = order.indexOf(selectedDataSource as any);
+									const order = [...(registry || []).map((d) => d.id), 'own'];
+									const idx = order.indexOf(selectedDataSource);
 									if (['ArrowDown', 'ArrowRight'].includes(e.key)) {
 										e.preventDefault();
 										const next = order[(idx + 1) % order.length];
@@ -531,19 +992,16 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 									}
 								}}
 							>
+								{registry === null && (
+									<p className="text-xs text-gray-500">Loading datasets…</p>
+								)}
 								{[
-									{
-										value: 'kepler',
-										label: 'Kepler Database',
-										desc: 'Real NASA data with 28 astronomical features',
-										accent: 'black',
-									},
-									{
-										value: 'tess',
-										label: 'TESS Database',
-										desc: 'Transiting Exoplanet Survey Satellite data',
+									...(registry || []).map((d) => ({
+										value: d.id,
+										label: d.name,
+										desc: d.summary,
 										accent: 'black',
-									},
+									})),
 									{
 										value: 'own',
 										label: 'Upload your own Data',
@@ -616,6 +1074,117 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 									);
 								})}
 							</fieldset>
+
+							{/* Saved uploads (IndexedDB), most recently used first */}
+							{(savedDatasets.length > 0 || savedDatasetsError) && (
+								<div className="pt-4">
+									<h4 className="text-sm font-medium mb-2">My datasets</h4>
+									{savedDatasetsError && (
+										<p className="text-xs text-red-600 mb-2">
+											Saved datasets are unavailable: {savedDatasetsError}
+										</p>
+									)}
+									{uploadNotice && (
+										<p className="text-xs text-blue-700 mb-2">{uploadNotice}</p>
+									)}
+									<ul className="space-y-2">
+										{savedDatasets.map((saved) => {
+											const active =
+												selectedDataSource === 'own' &&
+												userDatasetId === saved.id;
+											return (
+												<li
+													key={saved.id}
+													className={`flex items-center p-3 rounded-lg border text-sm ${
+														active
+															? 'border-blue-500 bg-blue-50'
+															: 'border-gray-200 hover:bg-gray-50'
+													}`}
+												>
+													<div className="flex-1 min-w-0">
+														{renamingId === saved.id ? (
+															<form
+																className="flex items-center gap-2"
+																onSubmit={(e) => {
+																	e.preventDefault();
+																	handleRenameSavedDataset(saved.id);
+																}}
+															>
+																<input
+																	autoFocus
+																	value={renameValue}
+																	onChange={(e) =>
+																		setRenameValue(e.target.value)
+																	}
+																	className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+																	aria-label="Dataset name"
+																/>
+																<button
+																	type="submit"
+																	className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+																>
+																	Save
+																</button>
+																<button
+																	type="button"
+																	onClick={() => setRenamingId(null)}
+																	className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+																>
+																	Cancel
+																</button>
+															</form>
+														) : (
+															<button
+																onClick={() =>
+																	handleSelectSavedDataset(saved.id)
+																}
+																className="text-left w-full"
+															>
+																<div className="font-medium truncate">
+																	{saved.name}
+																</div>
+																<div className="text-xs text-gray-500 truncate">
+																	{saved.fileName} · {formatBytes(saved.size)} ·{' '}
+																	{new Date(
+																		saved.createdAt,
+																	).toLocaleDateString()}
+																</div>
+															</button>
+														)}
+													</div>
+													{renamingId !== saved.id && (
+														<div className="flex items-center gap-2 ml-3">
+															<button
+																onClick={() => {
+																	setRenamingId(saved.id);
+																	setRenameValue(saved.name);
+																}}
+																className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+															>
+																Rename
+															</button>
+															<button
+																onClick={() => {
+																	if (
+																		window.confirm(
+																			`Delete "${saved.name}" from this browser?`,
+																		)
+																	) {
+																		handleDeleteSavedDataset(saved.id);
+																	}
+																}}
+																className="text-xs px-2 py-1 rounded border border-red-300 text-red-600 hover:bg-red-50"
+															>
+																Delete
+															</button>
+														</div>
+													)}
+												</li>
+											);
+										})}
+									</ul>
+								</div>
+							)}
 						</div>
 					</CardContent>
 				</Card>
@@ -698,6 +1267,15 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 												• CSV format with a single header row (no blank column
 												names)
 											</li>
+											<li>
+												• NASA Exoplanet Archive IPAC (.tbl) and VOTable (.xml,
+												.vot) exports are also accepted; their declared column
+												types and units are kept
+											</li>
+											<li>
+												• Parquet (.parquet) and Arrow IPC (.arrow) files keep
+												the column types from their schema
+											</li>
 											<li>
 												• Minimum 10 data rows (more improves model quality)
 											</li>
@@ -727,7 +1305,7 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 									<input
 										type="file"
 										ref={fileInputRef}
-										accept=".csv,.xlsx,.xls"
+										accept=".csv,.parquet,.arrow,.feather,.tbl,.ipac,.xml,.vot,.votable,.xlsx,.xls"
 										onChange={handleFileUpload}
 										className="hidden"
 									/>
@@ -786,6 +1364,13 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 											See documentation for data format requirements.
 										</p>
 									</button>
+									{uploadNotice && (
+										<p className="mt-3 text-xs text-blue-700">{uploadNotice}</p>
+									)}
+									<p className="mt-3 text-xs text-gray-500">
+										Uploaded files are kept in this browser under My datasets;
+										uploading the same file again reuses the saved copy.
+									</p>
 									<div className="mt-4 flex justify-end">
 										<button
 											onClick={() => setShowUploadPopup(false)}
@@ -830,6 +1415,45 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 									<p className="text-sm text-gray-600">
 										Loading and analyzing dataset...
 									</p>
+									{parseProgress && (
+										<div className="w-full max-w-md mt-4">
+											<div className="flex justify-between text-xs text-gray-600 mb-1">
+												<span>
+													{formatBytes(parseProgress.bytesRead)}
+													{parseProgress.totalBytes
+														? ` of ${formatBytes(parseProgress.totalBytes)}`
+														: ''}
+												</span>
+												<span>
+													{parseProgress.rowsParsed.toLocaleString()} rows ·{' '}
+													{parseProgress.chunkCount} chunks
+												</span>
+											</div>
+											<div className="w-full bg-gray-200 h-2 rounded-full overflow-hidden">
+												<div
+													className="h-2 bg-black transition-all duration-300"
+													style={{
+														width: parseProgress.totalBytes
+															? `${Math.min(
+																	100,
+																	(parseProgress.bytesRead /
+																		parseProgress.totalBytes) *
+																		100,
+															  )}%`
+															: '100%',
+													}}
+												></div>
+											</div>
+											<div className="flex justify-center mt-3">
+												<button
+													onClick={handleCancelParse}
+													className="text-sm px-4 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-100"
+												>
+													Cancel
+												</button>
+											</div>
+										</div>
+									)}
 								</div>
 							) : parseError ? (
 								<div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
@@ -837,9 +1461,9 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 									<button
 										onClick={() => {
 											setParseError(null);
-											if (selectedDataSource === 'kepler') {
+											if (activeDataset) {
 												const retryLoadId = ++activeLoadIdRef.current;
-												loadKeplerDataset(retryLoadId);
+												loadRegistryDataset(activeDataset, retryLoadId);
 											}
 										}}
 										className="mt-2 text-sm text-red-600 underline hover:text-red-800"
@@ -849,26 +1473,10 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 								</div>
 							) : rawDataset ? (
 								<div>
-									{selectedDataSource === 'kepler' && (
+									{activeDataset && (
 										<div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
 											<h5 className="text-sm font-medium text-blue-800 mb-2">
-												About the Kepler Dataset
-											</h5>
-											<p className="text-xs text-blue-700">
-												This dataset contains exoplanet candidates discovered by
-												NASA's Kepler Space Telescope. Each row represents a
-												potential planet with 28 features including orbital
-												period, stellar temperature, planet radius, and
-												disposition (CONFIRMED, CANDIDATE, or FALSE POSITIVE).
-												This is real astronomical data used for machine learning
-												research.
-											</p>
-										</div>
-									)}
-									{selectedDataSource === 'tess' && (
-										<div className="bg-pink-50 border border-pink-200 rounded-lg p-4 mb-4">
-											<h5 className="text-sm font-medium text-pink-800 mb-2">
-												About the TESS Dataset
+												About the {activeDataset.name}
 											</h5>
 											{/* Parse diagnostics banner (separate block to avoid nesting divs inside <p>) */}
 											{classroomState.dataInput.parseStats && (
@@ -886,6 +1494,18 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 																.totalRowsBefore
 														}
 													</div>
+													{classroomState.dataInput.parseStats.bytesRead !==
+														undefined && (
+														<div>
+															<span className="font-medium">Read:</span>{' '}
+															{formatBytes(
+																classroomState.dataInput.parseStats.bytesRead,
+															)}{' '}
+															in{' '}
+															{classroomState.dataInput.parseStats.chunkCount}{' '}
+															chunks
+														</div>
+													)}
 													{classroomState.dataInput.parseStats
 														.inconsistentRowsDropped > 0 && (
 														<div className="text-orange-600">
@@ -899,14 +1519,35 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 													)}
 												</div>
 											)}
-											<p className="text-xs text-pink-700">
-												This dataset includes candidates from the Transiting
-												Exoplanet Survey Satellite (TESS) mission, covering
-												nearly the entire sky to identify planets around bright
-												nearby stars. Feature composition differs from Kepler;
-												the system has inferred data types and suggested
-												features automatically.
-											</p>
+											{activeDataset.description && (
+												<p className="text-xs text-blue-700">
+													{activeDataset.description}
+												</p>
+											)}
+											<div className="text-xs text-blue-700 mt-2 space-y-1">
+												<div>
+													<span className="font-medium">Mission:</span>{' '}
+													{activeDataset.mission} ·{' '}
+													<span className="font-medium">Target:</span>{' '}
+													{activeDataset.targetColumn}
+													{activeDataset.labelMapping &&
+														` (${Object.entries(activeDataset.labelMapping)
+															.map(([label, index]) => `${label} = ${index}`)
+															.join(', ')})`}
+												</div>
+												{activeDataset.citation && (
+													<div>
+														<span className="font-medium">Citation:</span>{' '}
+														{activeDataset.citation}
+													</div>
+												)}
+												{activeDataset.license && (
+													<div>
+														<span className="font-medium">License:</span>{' '}
+														{activeDataset.license}
+													</div>
+												)}
+											</div>
 										</div>
 									)}
 
@@ -944,6 +1585,22 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 														values)
 													</option>
 												))}
+											{columnMeta?.some(
+												(col) => col.inferredType === 'numeric',
+											) && (
+												<optgroup label="Continuous (regression)">
+													{columnMeta
+														.filter((col) => col.inferredType === 'numeric')
+														.map((col) => (
+															<option key={col.name} value={col.name}>
+																{col.name}
+																{col.min !== undefined && col.max !== undefined
+																	? ` (${col.min} – ${col.max})`
+																	: ''}
+															</option>
+														))}
+												</optgroup>
+											)}
 										</select>
 										{!targetColumn &&
 											columnMeta &&
@@ -991,19 +1648,79 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 															{targetColumn}
 														</p>
 													</div>
-													<div>
-														<h6 className="text-xs font-medium mb-1 text-gray-700">
-															Unique Values
+													{taskType === 'regression' ? (
+														<div>
+															<h6 className="text-xs font-medium mb-1 text-gray-700">
+																Range
+															</h6>
+															<p className="text-xs text-gray-600">
+																{targetMeta?.min !== undefined &&
+																targetMeta.max !== undefined
+																	? `${targetMeta.min} – ${targetMeta.max}` +
+																		(targetMeta.mean !== undefined
+																			? ` (mean ${Number(
+																					targetMeta.mean.toPrecision(4),
+																				)})`
+																			: '')
+																	: 'N/A'}
+															</p>
+														</div>
+													) : (
+														<div>
+															<h6 className="text-xs font-medium mb-1 text-gray-700">
+																Unique Values
+															</h6>
+															<p className="text-xs text-gray-600">
+																{targetMeta?.uniqueValues?.join(', ') || 'N/A'}
+															</p>
+														</div>
+													)}
+												</div>
+												{targetMeta?.inferredType === 'numeric' && (
+													<div className="mt-3 flex items-center gap-3">
+														<h6 className="text-xs font-medium text-gray-700">
+															Task
 														</h6>
-														<p className="text-xs text-gray-600">
-															{columnMeta
-																?.find((c) => c.name === targetColumn)
-																?.uniqueValues?.join(', ') || 'N/A'}
-														</p>
+														<select
+															value={taskType ?? 'classification'}
+															onChange={(e) =>
+																classroomStore.setTaskType(
+																	e.target.value as TaskType,
+																)
+															}
+															className="text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+														>
+															<option value="regression">
+																Regression (predict the value)
+															</option>
+															<option value="classification">
+																Classification (each value a class)
+															</option>
+														</select>
 													</div>
-												</div>
+												)}
+												{taskType === 'regression' && (
+													<p className="mt-2 text-xs text-gray-600">
+														Neural networks and random forests train regressors
+														on this column; models are scored by RMSE, MAE and
+														R².
+													</p>
+												)}
 											</div>
 										)}
+										{targetColumn && taskType !== 'regression' && (
+											<LabelMappingPanel
+												values={(
+													columnMeta?.find((c) => c.name === targetColumn)
+														?.uniqueValues || []
+												).filter((value) => value.trim() !== '')}
+												schema={detectMissionSchema(rawDataset.header)}
+												mapping={labelMapping}
+												onChange={(mapping) =>
+													classroomStore.setLabelMapping(mapping)
+												}
+											/>
+										)}
 									</div>
 
 									<p className="mb-4">
@@ -1011,21 +1728,22 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 										{rawDataset.rows.length} samples with{' '}
 										{columnMeta?.length || 0} columns. The data has been
 										automatically analyzed for column types and missing values.
-										{selectedDataSource === 'kepler' &&
-											rawDataset.rows.length === 1000 && (
-												<span className="block text-sm text-blue-600 mt-2">
-													📊 Showing first 1,000 rows of 9,566 total for
-													performance. Full dataset will be used for training.
-												</span>
-											)}
+										{totalRows > rawDataset.rows.length && (
+											<span className="block text-sm text-blue-600 mt-2">
+												📊 Showing first{' '}
+												{rawDataset.rows.length.toLocaleString()} rows of{' '}
+												{totalRows.toLocaleString()} total for performance.
+												Column statistics cover every row; the full dataset will
+												be used for training.
+											</span>
+										)}
 									</p>
 									{/* High-missing columns warning */}
 									{columnMeta &&
 										(() => {
 											const highMissing = columnMeta.filter(
 												(c) =>
-													rawDataset.rows.length > 0 &&
-													c.missingCount / rawDataset.rows.length > 0.5,
+													totalRows > 0 && c.missingCount / totalRows > 0.5,
 											);
 											if (!highMissing.length) return null;
 											return (
@@ -1077,11 +1795,14 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 														{rawDataset.header.map((header, index) => (
 															<th
 																key={index}
+																title={columnMeta?.[index]?.description}
 																className="p-2 border-r border-b border-gray-300 text-left min-w-[80px]"
 															>
 																<div className="font-medium">{header}</div>
 																<div className="text-gray-500 font-normal">
 																	{columnMeta?.[index]?.inferredType}
+																	{columnMeta?.[index]?.unit &&
+																		` (${columnMeta[index].unit})`}
 																</div>
 															</th>
 														))}
@@ -1117,6 +1838,22 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 					</Card>
 				</div>
 
+				{/* Dataset profile (distributions before committing to features) */}
+				<div className="lg:col-span-6">
+					<Card>
+						<CardTitle>Dataset Profile</CardTitle>
+						<CardContent>
+							<DatasetProfilePanel
+								profile={profile}
+								loading={profileLoading}
+								error={profileError}
+								targetColumn={targetColumn}
+								selectedFeatures={selectedFeatures || []}
+							/>
+						</CardContent>
+					</Card>
+				</div>
+
 				{/* Third row - Data Configuration */}
 				<div className="lg:col-span-6">
 					<Card>
@@ -1143,7 +1880,7 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 
 										{/* Simple list of all columns with checkboxes */}
 										<div className="space-y-2 max-h-80 overflow-y-auto">
-											{columnMeta
+											{featureMeta
 												?.filter((col) => col.name !== targetColumn)
 												.map((col) => (
 													<div
@@ -1182,11 +1919,200 @@ KEPLER-116.01,2.8,0.5,4890.0,4.62,FALSE_POSITIVE`;
 																</div>
 															)}
 														</div>
+														{col.inferredType === 'numeric' &&
+															(selectedFeatures || []).includes(col.name) && (
+																<div className="ml-3 flex flex-col gap-1">
+																	<select
+																		aria-label={`Transform for ${col.name}`}
+																		value={
+																			featureTransforms?.[col.name] ||
+																			(normalization ? 'standard' : 'none')
+																		}
+																		onChange={(e) =>
+																			classroomStore.setFeatureTransform(
+																				col.name,
+																				e.target.value as FeatureTransform,
+																			)
+																		}
+																		className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+																	>
+																		{TRANSFORM_OPTIONS.map((option) => (
+																			<option
+																				key={option.value}
+																				value={option.value}
+																			>
+																				{option.label}
+																			</option>
+																		))}
+																	</select>
+																	<select
+																		aria-label={`Clipping for ${col.name}`}
+																		value={clipKey(clipPercentiles?.[col.name])}
+																		onChange={(e) =>
+																			classroomStore.setClipPercentiles(
+																				col.name,
+																				CLIP_OPTIONS.find(
+																					(option) =>
+																						clipKey(option.clip) ===
+																						e.target.value,
+																				)?.clip,
+																			)
+																		}
+																		className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+																	>
+																		{CLIP_OPTIONS.map((option) => (
+																			<option
+																				key={option.label}
+																				value={clipKey(option.clip)}
+																			>
+																				{option.label}
+																			</option>
+																		))}
+																	</select>
+																	{col.missingCount > 0 && (
+																		<select
+																			aria-label={`Missing values in ${col.name}`}
+																			value={
+																				missingValueStrategy[col.name] || 'drop'
+																			}
+																			onChange={(e) =>
+																				classroomStore.setMissingValueStrategy(
+																					col.name,
+																					e.target.value as ImputationStrategy,
+																				)
+																			}
+																			className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+																		>
+																			{IMPUTATION_OPTIONS.map((option) => (
+																				<option
+																					key={option.value}
+																					value={option.value}
+																				>
+																					{option.label}
+																				</option>
+																			))}
+																		</select>
+																	)}
+																</div>
+															)}
 													</div>
 												))}
 										</div>
 									</div>
 
+									{/* Derived astrophysical features */}
+									{derivedOptions.length > 0 && (
+										<div className="mb-4">
+											<h4 className="text-sm font-medium mb-1">
+												Derived features
+											</h4>
+											<p className="text-xs text-gray-600 mb-3">
+												Physical quantities computed from the catalog columns.
+												Enabled features are added to the list above and
+												preprocessed like any other numeric column.
+											</p>
+											<div className="space-y-2">
+												{derivedOptions.map((feature) => (
+													<label
+														key={feature.id}
+														className="flex items-start p-3 border border-gray-200 rounded hover:bg-gray-50 cursor-pointer"
+													>
+														<input
+															type="checkbox"
+															checked={(derivedFeatures || []).includes(
+																feature.id,
+															)}
+															onChange={(e) =>
+																classroomStore.setDerivedFeature(
+																	feature.id,
+																	e.target.checked,
+																)
+															}
+															className="mr-3 mt-1"
+														/>
+														<div className="flex-1">
+															<div className="text-sm font-medium">
+																{feature.label}
+																<span className="ml-2 text-xs text-gray-500">
+																	{feature.unit}
+																</span>
+															</div>
+															<div className="text-xs font-mono text-gray-700">
+																{feature.formula}
+															</div>
+															<div className="text-xs text-gray-500">
+																{feature.description}
+															</div>
+														</div>
+													</label>
+												))}
+											</div>
+										</div>
+									)}
+
+									{/* Missing-value indicators */}
+									{imputedFeatures.length > 0 && (
+										<div className="mb-4">
+											<label className="flex items-start text-sm cursor-pointer">
+												<input
+													type="checkbox"
+													checked={!!missingIndicators}
+													onChange={(e) =>
+														classroomStore.setMissingIndicators(
+															e.target.checked,
+														)
+													}
+													className="mr-2 mt-1"
+												/>
+												<span>
+													Add missing-value indicators
+													<span className="block text-xs text-gray-600">
+														A 0/1 column per filled feature (
+														{imputedFeatures.join(', ')}) lets the model tell
+														imputed values from measured ones.
+													</span>
+												</span>
+											</label>
+										</div>
+									)}
+
+									{/* Group-aware splitting */}
+									<div className="mb-4">
+										<h4 className="text-sm font-medium mb-1">
+											Group-aware splitting
+										</h4>
+										<p className="text-xs text-gray-600 mb-3">
+											Planets of the same star share its stellar parameters.
+											Keeping every row of a group on one side of the train /
+											validation / test split stops the model from scoring well
+											by recognising the star.
+										</p>
+										<select
+											value={groupColumn || ''}
+											onChange={(e) =>
+												classroomStore.setGroupColumn(
+													e.target.value || undefined,
+												)
+											}
+											className="w-full p-2 border border-gray-300 rounded text-sm bg-white"
+										>
+											<option value="">Off (random split)</option>
+											{fingerprintColumns(rawDataset.header) && (
+												<option value={STELLAR_FINGERPRINT}>
+													Identical stellar parameters
+												</option>
+											)}
+											{rawDataset.header.map((column) => (
+												<option key={column} value={column}>
+													{column}
+												</option>
+											))}
+										</select>
+										<div className="text-xs text-gray-500 mt-1">
+											{groupHint}
+										</div>
+									</div>
+
 									{/* Data summary */}
 									<div className="mt-4 p-3 bg-gray-50 rounded">
 										<h4 className="text-sm font-medium mb-1">
@@ -0,0 +1,317 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type {
+	ColumnProfile,
+	DatasetProfile,
+	HistogramBin,
+} from '../../../types/datasets';
+
+// Feature pairs above this |r| are flagged as redundant
+const HIGH_CORRELATION = 0.9;
+
+function formatNumber(value: number | undefined): string {
+	if (value === undefined || !Number.isFinite(value)) return '—';
+	const abs = Math.abs(value);
+	if (abs !== 0 && (abs >= 1e5 || abs < 1e-3)) return value.toExponential(2);
+	return Number(value.toFixed(3)).toString();
+}
+
+function formatPercent(ratio: number): string {
+	return `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.01 ? 2 : 1)}%`;
+}
+
+// Blue for positive, red for negative correlation; opacity follows |r|
+function correlationColor(r: number | null): string {
+	if (r === null) return '#f3f4f6';
+	const alpha = Math.min(1, Math.abs(r)).toFixed(2);
+	return r >= 0 ? `rgba(37, 99, 235, ${alpha})` : `rgba(220, 38, 38, ${alpha})`;
+}
+
+const Histogram: React.FC<{ bins: HistogramBin[] }> = ({ bins }) => {
+	const max = Math.max(...bins.map((b) => b.count), 1);
+	return (
+		<div className="flex items-end h-8 w-32 gap-px">
+			{bins.map((bin, i) => (
+				<div
+					key={i}
+					title={`${formatNumber(bin.start)} – ${formatNumber(bin.end)}: ${bin.count}`}
+					className="flex-1 bg-gray-700"
+					style={{ height: `${Math.max(2, (bin.count / max) * 100)}%` }}
+				/>
+			))}
+		</div>
+	);
+};
+
+const ColumnRow: React.FC<{
+	column: ColumnProfile;
+	selected: boolean;
+	isTarget: boolean;
+}> = ({ column, selected, isTarget }) => (
+	<tr
+		className={
+			isTarget ? 'bg-blue-50' : selected ? 'bg-green-50' : 'hover:bg-gray-50'
+		}
+	>
+		<td className="p-2 border-b border-gray-200">
+			<div className="font-medium">{column.name}</div>
+			<div className="text-gray-500">
+				{column.inferredType}
+				{column.unit && ` (${column.unit})`}
+				{isTarget && ' · target'}
+				{selected && ' · selected'}
+			</div>
+		</td>
+		<td
+			className={`p-2 border-b border-gray-200 ${
+				column.missingRatio > 0.5 ? 'text-orange-600 font-medium' : ''
+			}`}
+		>
+			{formatPercent(column.missingRatio)}
+		</td>
+		<td className="p-2 border-b border-gray-200">
+			{column.cardinality}
+			{column.cardinalityCapped && '+'}
+		</td>
+		<td className="p-2 border-b border-gray-200">
+			{column.quantiles ? (
+				<div>
+					<div>
+						median {formatNumber(column.quantiles.median)} · IQR{' '}
+						{formatNumber(column.quantiles.p25)} –{' '}
+						{formatNumber(column.quantiles.p75)}
+					</div>
+					<div className="text-gray-500">
+						p5 {formatNumber(column.quantiles.p05)} · p95{' '}
+						{formatNumber(column.quantiles.p95)}
+					</div>
+				</div>
+			) : (
+				<div className="text-gray-600 truncate max-w-[220px]">
+					{(column.topValues || [])
+						.slice(0, 3)
+						.map((v) => `${v.value} (${formatPercent(v.ratio)})`)
+						.join(', ') || '—'}
+				</div>
+			)}
+		</td>
+		<td className="p-2 border-b border-gray-200">
+			{column.histogram && <Histogram bins={column.histogram} />}
+		</td>
+	</tr>
+);
+
+/**
+ * Column profile of the loaded dataset: distributions, missingness,
+ * cardinality, target class balance and feature correlations
+ */
+export default function DatasetProfilePanel({
+	profile,
+	loading,
+	error,
+	targetColumn,
+	selectedFeatures,
+}: {
+	profile: DatasetProfile | null;
+	loading: boolean;
+	error: string | null;
+	targetColumn?: string;
+	selectedFeatures: string[];
+}) {
+	const [selectedOnly, setSelectedOnly] = useState(false);
+
+	const selected = useMemo(() => new Set(selectedFeatures), [selectedFeatures]);
+
+	// Correlation submatrix (optionally restricted to the selected features)
+	const correlation = useMemo(() => {
+		if (!profile) return null;
+		const indices = profile.correlation.columns
+			.map((name, i) => ({ name, i }))
+			.filter(({ name }) => !selectedOnly || selected.has(name));
+		return {
+			columns: indices.map(({ name }) => name),
+			values: indices.map(({ i }) =>
+				indices.map(({ i: j }) => profile.correlation.values[i][j]),
+			),
+		};
+	}, [profile, selected, selectedOnly]);
+
+	// Selected feature pairs that carry nearly the same information
+	const redundantPairs = useMemo(() => {
+		if (!profile) return [];
+		const { columns, values } = profile.correlation;
+		const pairs: { a: string; b: string; r: number }[] = [];
+		for (let i = 0; i < columns.length; i++) {
+			for (let j = i + 1; j < columns.length; j++) {
+				const r = values[i][j];
+				if (
+					r !== null &&
+					Math.abs(r) >= HIGH_CORRELATION &&
+					selected.has(columns[i]) &&
+					selected.has(columns[j])
+				) {
+					pairs.push({ a: columns[i], b: columns[j], r });
+				}
+			}
+		}
+		return pairs;
+	}, [profile, selected]);
+
+	if (loading) {
+		return <p className="text-sm text-gray-600">Profiling dataset...</p>;
+	}
+	if (error) {
+		return <p className="text-sm text-red-600">{error}</p>;
+	}
+	if (!profile) {
+		return (
+			<p className="text-sm text-gray-600">
+				The dataset profile will appear here once a dataset is loaded.
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			<p className="text-xs text-gray-600">
+				{profile.rowCount.toLocaleString()} rows × {profile.columnCount} columns
+				· profiled {new Date(profile.generatedAt).toLocaleString()}
+			</p>
+
+			{/* Target class balance */}
+			{profile.classBalance && profile.classBalance.length > 0 && (
+				<div>
+					<h4 className="text-sm font-medium mb-2">
+						Class balance ({profile.targetColumn})
+					</h4>
+					<div className="space-y-1">
+						{profile.classBalance.slice(0, 10).map((label) => (
+							<div key={label.value} className="flex items-center text-xs">
+								<span className="w-32 truncate" title={label.value}>
+									{label.value}
+								</span>
+								<div className="flex-1 bg-gray-100 rounded h-3 mx-2">
+									<div
+										className="bg-black h-3 rounded"
+										style={{ width: `${label.ratio * 100}%` }}
+									/>
+								</div>
+								<span className="w-28 text-right text-gray-600">
+									{label.count.toLocaleString()} ({formatPercent(label.ratio)})
+								</span>
+							</div>
+						))}
+					</div>
+					{profile.targetColumn !== targetColumn && targetColumn && (
+						<p className="text-xs text-gray-500 mt-1">
+							Balance shown for the dataset&apos;s default target; the selected
+							target is {targetColumn}.
+						</p>
+					)}
+				</div>
+			)}
+
+			{/* Per-column statistics */}
+			<div>
+				<h4 className="text-sm font-medium mb-2">Columns</h4>
+				<div className="overflow-x-auto border border-gray-300 rounded max-h-96 overflow-y-auto">
+					<table className="w-full text-xs">
+						<thead className="bg-gray-100 sticky top-0">
+							<tr>
+								<th className="p-2 text-left">Column</th>
+								<th className="p-2 text-left">Missing</th>
+								<th className="p-2 text-left">Distinct</th>
+								<th className="p-2 text-left">Distribution</th>
+								<th className="p-2 text-left">Histogram</th>
+							</tr>
+						</thead>
+						<tbody>
+							{profile.columns.map((column) => (
+								<ColumnRow
+									key={column.name}
+									column={column}
+									selected={selected.has(column.name)}
+									isTarget={column.name === targetColumn}
+								/>
+							))}
+						</tbody>
+					</table>
+				</div>
+			</div>
+
+			{/* Correlation heatmap */}
+			{correlation && (
+				<div>
+					<div className="flex items-center justify-between mb-2">
+						<h4 className="text-sm font-medium">
+							Correlation matrix (Pearson r)
+						</h4>
+						<label className="flex items-center text-xs text-gray-600">
+							<input
+								type="checkbox"
+								className="mr-1"
+								checked={selectedOnly}
+								onChange={(e) => setSelectedOnly(e.target.checked)}
+							/>
+							Selected features only
+						</label>
+					</div>
+					{correlation.columns.length < 2 ? (
+						<p className="text-xs text-gray-500">
+							At least two numeric columns are needed for correlations.
+						</p>
+					) : (
+						<div className="overflow-x-auto">
+							<table className="text-[10px] border-collapse">
+								<thead>
+									<tr>
+										<th />
+										{correlation.columns.map((name) => (
+											<th
+												key={name}
+												className="p-1 font-normal text-gray-600 align-bottom"
+											>
+												<div className="[writing-mode:vertical-rl] rotate-180 max-h-24 truncate">
+													{name}
+												</div>
+											</th>
+										))}
+									</tr>
+								</thead>
+								<tbody>
+									{correlation.columns.map((rowName, i) => (
+										<tr key={rowName}>
+											<th className="pr-2 font-normal text-gray-600 text-right whitespace-nowrap">
+												{rowName}
+											</th>
+											{correlation.values[i].map((r, j) => (
+												<td
+													key={j}
+													title={`${rowName} × ${correlation.columns[j]}: ${
+														r === null ? 'n/a' : r.toFixed(3)
+													}`}
+													className="w-6 h-6 border border-white"
+													style={{ backgroundColor: correlationColor(r) }}
+												/>
+											))}
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+					{redundantPairs.length > 0 && (
+						<div className="mt-3 p-3 bg-amber-50 border border-amber-300 rounded text-xs text-amber-800">
+							<strong>Highly correlated selected features:</strong>{' '}
+							{redundantPairs
+								.map((p) => `${p.a} / ${p.b} (r = ${p.r.toFixed(2)})`)
+								.join(', ')}
+							. Keeping only one of each pair usually loses little information.
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import {
+	createLabelMapping,
+	LABEL_MAPPING_PRESETS,
+	labelKey,
+	reassignLabel,
+} from '../../../lib/datasets/labels';
+import type { MissionSchema } from '../../../types/datasets';
+import type { LabelMapping, LabelMappingPreset } from '../../../types/ml';
+
+/**
+ * Target label mapping: which class each raw target value trains as. No
+ * mapping (the 'raw' preset) keeps every value as its own class.
+ */
+export default function LabelMappingPanel({
+	values,
+	schema,
+	mapping,
+	onChange,
+}: {
+	values: string[]; // distinct raw target values
+	schema?: MissionSchema; // mission of the table, for the disposition codes
+	mapping?: LabelMapping;
+	onChange: (mapping: LabelMapping | undefined) => void;
+}) {
+	const preset: LabelMappingPreset = mapping?.preset ?? 'raw';
+	const current = mapping ?? createLabelMapping('raw', values, schema);
+	const classOf = (value: string) => current.labels[labelKey(value)] ?? '';
+	const classes = current.classes.filter((c) =>
+		values.some((value) => classOf(value) === c),
+	);
+	const leftOut = values.filter((value) => !classOf(value));
+
+	const handlePreset = (id: LabelMappingPreset) =>
+		onChange(
+			id === 'raw' || id === 'custom'
+				? undefined
+				: createLabelMapping(id, values, schema),
+		);
+
+	return (
+		<div className="mt-3 p-3 bg-white rounded border border-[#E6E7E9]">
+			<div className="flex items-center justify-between gap-3 mb-2">
+				<h5 className="text-sm font-medium text-black">Class Labels</h5>
+				<select
+					value={preset}
+					onChange={(e) => handlePreset(e.target.value as LabelMappingPreset)}
+					className="text-xs border border-gray-300 rounded px-2 py-1 bg-white"
+				>
+					{LABEL_MAPPING_PRESETS.map((p) => (
+						<option key={p.id} value={p.id} title={p.description}>
+							{p.label}
+						</option>
+					))}
+					{preset === 'custom' && <option value="custom">Custom</option>}
+				</select>
+			</div>
+			<p className="text-xs text-gray-600 mb-2">
+				Each value of the target column trains as the class next to it. Clear a
+				class to leave those rows out of training and evaluation.
+			</p>
+			<datalist id="label-mapping-classes">
+				{classes.map((c) => (
+					<option key={c} value={c} />
+				))}
+			</datalist>
+			<div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+				{values.map((value) => (
+					<React.Fragment key={value}>
+						<span className="py-1 font-mono truncate" title={value}>
+							{value}
+						</span>
+						<input
+							type="text"
+							list="label-mapping-classes"
+							value={classOf(value)}
+							placeholder="(left out)"
+							onChange={(e) =>
+								onChange(reassignLabel(current, value, e.target.value))
+							}
+							className="px-2 py-1 border border-gray-300 rounded"
+						/>
+					</React.Fragment>
+				))}
+			</div>
+			<p className="mt-2 text-xs text-gray-600">
+				{classes.length} classes: {classes.join(', ') || 'none'}
+				{leftOut.length > 0 && ` · left out: ${leftOut.join(', ')}`}
+			</p>
+			{classes.length < 2 && (
+				<div className="mt-2 p-2 bg-amber-50 border border-amber-300 rounded text-xs text-amber-800">
+					Training needs at least two classes.
+					{preset === 'disposition' &&
+						' The bundled tables only carry candidate / non-candidate; upload an archive table with koi_disposition or tfopwg_disp codes for three-way dispositions.'}
+				</div>
+			)}
+			{classes.length > 2 && (
+				<p className="mt-1 text-xs text-gray-600">
+					Multiclass target: neural networks, random forests and gradient
+					boosting train on it; SVM and logistic regression need two classes.
+				</p>
+			)}
+		</div>
+	);
+}
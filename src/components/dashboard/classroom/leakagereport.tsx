@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import {
+	LeakageReport,
+	describeGroupColumn,
+} from '../../../lib/ml/pipeline/leakage';
+
+const SPLIT_ORDER = ['train', 'validation', 'test'];
+
+/**
+ * Groups (host stars) with rows on more than one side of the last training
+ * run's split. Empty when group-aware splitting was enabled.
+ */
+export default function LeakageReportPanel({
+	report,
+	header,
+}: {
+	report: LeakageReport;
+	header: string[]; // dataset columns, to name the fingerprint columns
+}) {
+	const splits = SPLIT_ORDER.filter((split) =>
+		report.overlappingGroups.some((entry) => split in entry.rows),
+	);
+	const groupName = describeGroupColumn(report.groupColumn, header);
+
+	if (report.overlappingCount === 0) {
+		return (
+			<div className="p-3 bg-green-50 border border-green-200 rounded text-sm text-green-800">
+				No group spans more than one split (
+				{report.totalGroups.toLocaleString()} groups by {groupName}
+				{report.grouped ? ', group-aware splitting on' : ''}).
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-3">
+			<div className="p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+				{report.overlappingCount.toLocaleString()} of{' '}
+				{report.totalGroups.toLocaleString()} groups ({groupName}) have rows on
+				more than one side of the split, covering{' '}
+				{report.affectedRows.toLocaleString()} rows. The model can score these
+				rows by recognising the star rather than the transit signal, so test
+				metrics are optimistic.
+				{!report.grouped && (
+					<>
+						{' '}
+						Pick a column under Group-aware splitting in Data Input and retrain
+						to keep each group on one side.
+					</>
+				)}
+			</div>
+
+			<div className="overflow-x-auto max-h-64 overflow-y-auto">
+				<table className="w-full text-xs border-collapse">
+					<thead>
+						<tr className="text-gray-500 border-b border-gray-200">
+							<th className="p-1 text-left">Group</th>
+							{splits.map((split) => (
+								<th key={split} className="p-1 text-right capitalize">
+									{split}
+								</th>
+							))}
+						</tr>
+					</thead>
+					<tbody>
+						{report.overlappingGroups.map((entry) => (
+							<tr key={entry.group} className="border-b border-gray-100">
+								<td className="p-1 font-mono">{entry.group}</td>
+								{splits.map((split) => (
+									<td key={split} className="p-1 text-right">
+										{entry.rows[split] || '—'}
+									</td>
+								))}
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+			{report.overlappingCount > report.overlappingGroups.length && (
+				<p className="text-xs text-gray-500">
+					Showing the {report.overlappingGroups.length} largest of{' '}
+					{report.overlappingCount.toLocaleString()} overlapping groups.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -4,6 +4,16 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardTitle, CardContent } from '../../ui/Card';
 import Link from 'next/link';
 import { classroomStore } from '../../../lib/ml/state/classroomStore';
+import type { ImbalanceStrategy } from '../../../types/ml';
+
+const IMBALANCE_STRATEGIES: ImbalanceStrategy[] = [
+	'none',
+	'class-weights',
+	'oversample',
+	'undersample',
+	'smote',
+	'focal-loss',
+];
 
 export default function ClassroomModelSelectionTab() {
 	// Model options
@@ -24,12 +34,28 @@ export default function ClassroomModelSelectionTab() {
 			comingSoon: false,
 			icon: '🌳',
 		},
+		{
+			id: 'gradient-boosting',
+			name: 'Gradient Boosting',
+			description:
+				'Shallow trees added one at a time, each correcting the last. Strong on tabular data.',
+			comingSoon: false,
+			icon: '📈',
+		},
+		{
+			id: 'logistic-regression',
+			name: 'Logistic Regression',
+			description:
+				'One weight per feature. A simple, interpretable baseline with L1/L2 penalties.',
+			comingSoon: false,
+			icon: '📉',
+		},
 		{
 			id: 'svm',
 			name: 'Support Vector Machine',
 			description:
-				'Max-margin classifier suitable for high-dimensional spaces.',
-			comingSoon: true,
+				'Max-margin classifier; the RBF kernel bends the boundary around clusters.',
+			comingSoon: false,
 			icon: '📊',
 		},
 	];
@@ -50,11 +76,28 @@ export default function ClassroomModelSelectionTab() {
 	// Store all hyperparameter inputs as strings to allow intermediary (empty / partial) edits without producing NaN warnings
 	const [nnParams, setNnParams] = useState({
 		hiddenLayers: '128,64,32',
+		activation: 'relu',
+		optimizer: 'adam',
 		learningRate: '0.001',
+		lrSchedule: 'constant',
+		lrStepSize: '10',
+		lrFactor: '0.5',
+		lrPatience: '5',
+		minLearningRate: '0.00001',
 		epochs: '100',
 		batchSize: '32',
 		dropoutRate: '0.3',
+		weightDecay: '0',
+		clipNorm: '0',
+		regressionLoss: 'mse',
+		huberDelta: '1',
+		earlyStopping: 'true',
+		monitor: 'valLoss',
+		patience: '10',
+		minDelta: '0.0001',
+		restoreBestWeights: 'true',
 		validationSplit: '0.2',
+		seed: '42',
 	});
 
 	// Random Forest hyperparameters
@@ -65,9 +108,62 @@ export default function ClassroomModelSelectionTab() {
 		minSamplesLeaf: '1',
 		maxFeatures: 'sqrt',
 		bootstrap: 'true',
+		criterion: 'gini',
 		randomState: '42',
 	});
 
+	// Gradient Boosting hyperparameters
+	const [gbParams, setGbParams] = useState({
+		nEstimators: '200',
+		learningRate: '0.1',
+		maxDepth: '4',
+		minSamplesLeaf: '20',
+		subsample: '0.8',
+		maxBins: '64',
+		l2Regularization: '1',
+		validationSplit: '0.2',
+		earlyStoppingRounds: '10',
+		seed: '42',
+	});
+
+	// Support Vector Machine hyperparameters
+	const [svmParams, setSvmParams] = useState({
+		kernel: 'rbf',
+		C: '1',
+		gamma: 'scale',
+		epochs: '20',
+		tolerance: '0.001',
+		maxIterations: '100000',
+		cacheSizeMb: '100',
+		calibrationSplit: '0.2',
+		seed: '42',
+	});
+
+	// Logistic Regression hyperparameters
+	const [lrParams, setLrParams] = useState({
+		penalty: 'l2',
+		regularization: '0.01',
+		l1Ratio: '0.5',
+		learningRate: '0.05',
+		epochs: '100',
+		batchSize: '64',
+		validationSplit: '0.2',
+		earlyStoppingPatience: '10',
+		seed: '42',
+	});
+
+	// Class-imbalance handling, shared by every model
+	const [imbalanceParams, setImbalanceParams] = useState({
+		strategy: 'none',
+		smoteNeighbors: '5',
+		focalGamma: '2',
+	});
+
+	// Seed of the last training run, offered for replaying it
+	const lastRunSeed = classroomStore.getState().training.currentRun?.seed;
+	const regressionTarget =
+		classroomStore.getState().dataInput.taskType === 'regression';
+
 	// Persist hyperparams to store whenever they change
 	useEffect(() => {
 		if (selectedModel === 'neural-network') {
@@ -80,25 +176,80 @@ export default function ClassroomModelSelectionTab() {
 			const epochs = parseInt(nnParams.epochs);
 			const batchSize = parseInt(nnParams.batchSize);
 			const dropoutRate = parseFloat(nnParams.dropoutRate);
+			const lrStepSize = parseInt(nnParams.lrStepSize);
+			const lrFactor = parseFloat(nnParams.lrFactor);
+			const lrPatience = parseInt(nnParams.lrPatience);
+			const minLearningRate = parseFloat(nnParams.minLearningRate);
+			const weightDecay = parseFloat(nnParams.weightDecay);
+			const clipNorm = parseFloat(nnParams.clipNorm);
+			const huberDelta = parseFloat(nnParams.huberDelta);
+			const patience = parseInt(nnParams.patience);
+			const minDelta = parseFloat(nnParams.minDelta);
 			const validationSplit = parseFloat(nnParams.validationSplit);
+			const seed = parseInt(nnParams.seed);
 
 			classroomStore.setHyperparams({
 				modelType: selectedModel,
 				hiddenLayers: hiddenLayers.length ? hiddenLayers : [128, 64, 32],
+				activation: ['relu', 'elu', 'tanh'].includes(nnParams.activation)
+					? nnParams.activation
+					: 'relu',
+				optimizer: ['adam', 'sgd', 'rmsprop'].includes(nnParams.optimizer)
+					? nnParams.optimizer
+					: 'adam',
 				learningRate:
 					isFinite(learningRate) && learningRate > 0 ? learningRate : 0.001,
+				lrSchedule: {
+					type: [
+						'constant',
+						'step',
+						'exponential',
+						'cosine',
+						'plateau',
+					].includes(nnParams.lrSchedule)
+						? nnParams.lrSchedule
+						: 'constant',
+					stepSize: isFinite(lrStepSize) && lrStepSize > 0 ? lrStepSize : 10,
+					factor:
+						isFinite(lrFactor) && lrFactor > 0 && lrFactor <= 1
+							? lrFactor
+							: 0.5,
+					patience: isFinite(lrPatience) && lrPatience > 0 ? lrPatience : 5,
+					minLearningRate:
+						isFinite(minLearningRate) && minLearningRate >= 0
+							? minLearningRate
+							: 0.00001,
+				},
 				epochs: isFinite(epochs) && epochs > 0 ? epochs : 100,
 				batchSize: isFinite(batchSize) && batchSize > 0 ? batchSize : 32,
 				dropoutRate:
 					isFinite(dropoutRate) && dropoutRate >= 0 && dropoutRate < 1
 						? dropoutRate
 						: 0.3,
+				weightDecay:
+					isFinite(weightDecay) && weightDecay >= 0 ? weightDecay : 0,
+				clipNorm: isFinite(clipNorm) && clipNorm >= 0 ? clipNorm : 0,
+				regressionLoss: ['mse', 'mae', 'huber'].includes(
+					nnParams.regressionLoss,
+				)
+					? nnParams.regressionLoss
+					: 'mse',
+				huberDelta: isFinite(huberDelta) && huberDelta > 0 ? huberDelta : 1,
+				earlyStopping: {
+					enabled: nnParams.earlyStopping === 'true',
+					monitor: nnParams.monitor === 'valAcc' ? 'valAcc' : 'valLoss',
+					patience: isFinite(patience) && patience > 0 ? patience : 10,
+					minDelta: isFinite(minDelta) && minDelta >= 0 ? minDelta : 0.0001,
+					restoreBestWeights: nnParams.restoreBestWeights === 'true',
+				},
 				validationSplit:
 					isFinite(validationSplit) &&
 					validationSplit >= 0.05 &&
 					validationSplit <= 0.8
 						? validationSplit
 						: 0.2,
+				// Blank seed: a fresh one is drawn (and recorded) per run
+				seed: isFinite(seed) ? seed : undefined,
 			});
 		} else if (selectedModel === 'random-forest') {
 			// Parse Random Forest hyperparameters
@@ -110,6 +261,7 @@ export default function ClassroomModelSelectionTab() {
 				? rfParams.maxFeatures
 				: parseInt(rfParams.maxFeatures);
 			const bootstrap = rfParams.bootstrap === 'true';
+			const criterion = rfParams.criterion === 'entropy' ? 'entropy' : 'gini';
 			const randomState = parseInt(rfParams.randomState);
 
 			classroomStore.setHyperparams({
@@ -125,10 +277,143 @@ export default function ClassroomModelSelectionTab() {
 					isFinite(minSamplesLeaf) && minSamplesLeaf >= 1 ? minSamplesLeaf : 1,
 				maxFeatures: maxFeatures,
 				bootstrap: bootstrap,
-				randomState: isFinite(randomState) ? randomState : 42,
+				criterion: criterion,
+				randomState: isFinite(randomState) ? randomState : undefined,
+			});
+		} else if (selectedModel === 'gradient-boosting') {
+			const nEstimators = parseInt(gbParams.nEstimators);
+			const learningRate = parseFloat(gbParams.learningRate);
+			const maxDepth = parseInt(gbParams.maxDepth);
+			const minSamplesLeaf = parseInt(gbParams.minSamplesLeaf);
+			const subsample = parseFloat(gbParams.subsample);
+			const maxBins = parseInt(gbParams.maxBins);
+			const l2Regularization = parseFloat(gbParams.l2Regularization);
+			const validationSplit = parseFloat(gbParams.validationSplit);
+			const earlyStoppingRounds = parseInt(gbParams.earlyStoppingRounds);
+			const seed = parseInt(gbParams.seed);
+
+			classroomStore.setHyperparams({
+				modelType: selectedModel,
+				nEstimators:
+					isFinite(nEstimators) && nEstimators > 0 ? nEstimators : 200,
+				learningRate:
+					isFinite(learningRate) && learningRate > 0 && learningRate <= 1
+						? learningRate
+						: 0.1,
+				maxDepth: isFinite(maxDepth) && maxDepth > 0 ? maxDepth : 4,
+				minSamplesLeaf:
+					isFinite(minSamplesLeaf) && minSamplesLeaf >= 1 ? minSamplesLeaf : 20,
+				subsample:
+					isFinite(subsample) && subsample > 0 && subsample <= 1
+						? subsample
+						: 0.8,
+				maxBins:
+					isFinite(maxBins) && maxBins >= 2 ? Math.min(maxBins, 256) : 64,
+				l2Regularization:
+					isFinite(l2Regularization) && l2Regularization >= 0
+						? l2Regularization
+						: 1,
+				validationSplit:
+					isFinite(validationSplit) &&
+					validationSplit >= 0.05 &&
+					validationSplit <= 0.5
+						? validationSplit
+						: 0.2,
+				earlyStoppingRounds:
+					isFinite(earlyStoppingRounds) && earlyStoppingRounds >= 0
+						? earlyStoppingRounds
+						: 10,
+				seed: isFinite(seed) ? seed : undefined,
+			});
+		} else if (selectedModel === 'svm') {
+			const C = parseFloat(svmParams.C);
+			const gamma = parseFloat(svmParams.gamma);
+			const epochs = parseInt(svmParams.epochs);
+			const tolerance = parseFloat(svmParams.tolerance);
+			const maxIterations = parseInt(svmParams.maxIterations);
+			const cacheSizeMb = parseFloat(svmParams.cacheSizeMb);
+			const calibrationSplit = parseFloat(svmParams.calibrationSplit);
+			const seed = parseInt(svmParams.seed);
+
+			classroomStore.setHyperparams({
+				modelType: selectedModel,
+				kernel: svmParams.kernel === 'linear' ? 'linear' : 'rbf',
+				C: isFinite(C) && C > 0 ? C : 1,
+				// Anything but a positive number falls back to 'scale'
+				gamma: isFinite(gamma) && gamma > 0 ? gamma : 'scale',
+				epochs: isFinite(epochs) && epochs > 0 ? epochs : 20,
+				tolerance: isFinite(tolerance) && tolerance > 0 ? tolerance : 0.001,
+				maxIterations:
+					isFinite(maxIterations) && maxIterations > 0 ? maxIterations : 100000,
+				cacheSizeMb:
+					isFinite(cacheSizeMb) && cacheSizeMb > 0 ? cacheSizeMb : 100,
+				calibrationSplit:
+					isFinite(calibrationSplit) &&
+					calibrationSplit >= 0.05 &&
+					calibrationSplit <= 0.5
+						? calibrationSplit
+						: 0.2,
+				seed: isFinite(seed) ? seed : undefined,
+			});
+		} else if (selectedModel === 'logistic-regression') {
+			const regularization = parseFloat(lrParams.regularization);
+			const l1Ratio = parseFloat(lrParams.l1Ratio);
+			const learningRate = parseFloat(lrParams.learningRate);
+			const epochs = parseInt(lrParams.epochs);
+			const batchSize = parseInt(lrParams.batchSize);
+			const validationSplit = parseFloat(lrParams.validationSplit);
+			const earlyStoppingPatience = parseInt(lrParams.earlyStoppingPatience);
+			const seed = parseInt(lrParams.seed);
+
+			classroomStore.setHyperparams({
+				modelType: selectedModel,
+				penalty: ['none', 'l1', 'l2', 'elasticnet'].includes(lrParams.penalty)
+					? lrParams.penalty
+					: 'l2',
+				regularization:
+					isFinite(regularization) && regularization >= 0
+						? regularization
+						: 0.01,
+				l1Ratio:
+					isFinite(l1Ratio) && l1Ratio >= 0 && l1Ratio <= 1 ? l1Ratio : 0.5,
+				learningRate:
+					isFinite(learningRate) && learningRate > 0 && learningRate <= 1
+						? learningRate
+						: 0.05,
+				epochs: isFinite(epochs) && epochs > 0 ? Math.min(epochs, 10000) : 100,
+				batchSize: isFinite(batchSize) && batchSize > 0 ? batchSize : 64,
+				validationSplit:
+					isFinite(validationSplit) &&
+					validationSplit >= 0.05 &&
+					validationSplit <= 0.5
+						? validationSplit
+						: 0.2,
+				earlyStoppingPatience:
+					isFinite(earlyStoppingPatience) && earlyStoppingPatience > 0
+						? earlyStoppingPatience
+						: 10,
+				seed: isFinite(seed) ? seed : undefined,
 			});
 		}
-	}, [nnParams, rfParams, selectedModel]);
+	}, [nnParams, rfParams, gbParams, svmParams, lrParams, selectedModel]);
+
+	useEffect(() => {
+		const smoteNeighbors = parseInt(imbalanceParams.smoteNeighbors);
+		const focalGamma = parseFloat(imbalanceParams.focalGamma);
+		classroomStore.setImbalance({
+			strategy: IMBALANCE_STRATEGIES.includes(
+				imbalanceParams.strategy as ImbalanceStrategy,
+			)
+				? (imbalanceParams.strategy as ImbalanceStrategy)
+				: 'none',
+			smoteNeighbors:
+				isFinite(smoteNeighbors) && smoteNeighbors >= 1
+					? Math.min(smoteNeighbors, 50)
+					: 5,
+			focalGamma:
+				isFinite(focalGamma) && focalGamma >= 0 ? Math.min(focalGamma, 10) : 2,
+		});
+	}, [imbalanceParams]);
 
 	return (
 		<div className="grid grid-cols-1 gap-6">			<div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
@@ -191,6 +476,13 @@ export default function ClassroomModelSelectionTab() {
 									);
 								})}
 							</div>
+							{regressionTarget && (
+								<div className="mt-4 p-3 bg-amber-50 border border-amber-300 rounded text-xs text-amber-800">
+									The target is continuous: neural networks and random forests
+									train regressors on it. Gradient boosting, logistic regression
+									and SVM are classifiers only.
+								</div>
+							)}
 						</CardContent>
 					</Card>
 				</div>
@@ -203,11 +495,20 @@ export default function ClassroomModelSelectionTab() {
 								? 'Neural Network Configuration'
 								: selectedModel === 'random-forest'
 								? 'Random Forest Configuration'
+								: selectedModel === 'gradient-boosting'
+								? 'Gradient Boosting Configuration'
+								: selectedModel === 'svm'
+								? 'Support Vector Machine Configuration'
+								: selectedModel === 'logistic-regression'
+								? 'Logistic Regression Configuration'
 								: 'Configuration'}
 						</CardTitle>
 						<CardContent>
 							{selectedModel !== 'neural-network' &&
-								selectedModel !== 'random-forest' && (
+								selectedModel !== 'random-forest' &&
+								selectedModel !== 'gradient-boosting' &&
+								selectedModel !== 'svm' &&
+								selectedModel !== 'logistic-regression' && (
 									<div className="p-8 bg-gray-50 rounded-lg text-center text-sm text-gray-600">
 										Configuration options will be available once this model type
 										is implemented.
@@ -240,6 +541,47 @@ export default function ClassroomModelSelectionTab() {
 												Units per layer. Example: 128,64,32
 											</p>
 										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Activation
+											</label>
+											<select
+												value={nnParams.activation}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														activation: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="relu">ReLU</option>
+												<option value="elu">ELU</option>
+												<option value="tanh">Tanh</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												Non-linearity of the hidden layers
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Optimizer
+											</label>
+											<select
+												value={nnParams.optimizer}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														optimizer: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="adam">Adam</option>
+												<option value="rmsprop">RMSprop</option>
+												<option value="sgd">SGD</option>
+											</select>
+										</div>
 										<div className="space-y-2">
 											<label className="block text-sm font-medium">
 												Learning Rate
@@ -314,6 +656,313 @@ export default function ClassroomModelSelectionTab() {
 												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
 											/>
 										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Weight Decay
+											</label>
+											<input
+												type="number"
+												step="0.0001"
+												min="0"
+												value={nnParams.weightDecay}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														weightDecay: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Shrinks the weights every step (0 disables)
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Gradient Clip Norm
+											</label>
+											<input
+												type="number"
+												step="0.5"
+												min="0"
+												value={nnParams.clipNorm}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														clipNorm: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Caps the gradient norm per step (0 disables)
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Regression Loss
+											</label>
+											<select
+												value={nnParams.regressionLoss}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														regressionLoss: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="mse">Mean squared error</option>
+												<option value="mae">Mean absolute error</option>
+												<option value="huber">Huber</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												{regressionTarget
+													? 'Used for the continuous target'
+													: 'Only used for continuous targets'}
+											</p>
+										</div>
+										{nnParams.regressionLoss === 'huber' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Huber Delta
+												</label>
+												<input
+													type="number"
+													step="0.1"
+													min="0.01"
+													value={nnParams.huberDelta}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															huberDelta: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Residuals beyond delta (in target standard deviations)
+													count linearly
+												</p>
+											</div>
+										)}
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Learning Rate Schedule
+											</label>
+											<select
+												value={nnParams.lrSchedule}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														lrSchedule: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="constant">Constant</option>
+												<option value="step">Step decay</option>
+												<option value="exponential">Exponential decay</option>
+												<option value="cosine">Cosine annealing</option>
+												<option value="plateau">Reduce on plateau</option>
+											</select>
+										</div>
+										{nnParams.lrSchedule === 'step' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Step Size (epochs)
+												</label>
+												<input
+													type="number"
+													step="1"
+													min="1"
+													value={nnParams.lrStepSize}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															lrStepSize: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+											</div>
+										)}
+										{['step', 'exponential', 'plateau'].includes(
+											nnParams.lrSchedule,
+										) && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Decay Factor
+												</label>
+												<input
+													type="number"
+													step="0.05"
+													min="0.01"
+													max="1"
+													value={nnParams.lrFactor}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															lrFactor: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Multiplier per drop (per epoch for exponential)
+												</p>
+											</div>
+										)}
+										{nnParams.lrSchedule === 'plateau' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Plateau Patience
+												</label>
+												<input
+													type="number"
+													step="1"
+													min="1"
+													value={nnParams.lrPatience}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															lrPatience: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Epochs without improvement before a drop
+												</p>
+											</div>
+										)}
+										{['cosine', 'plateau'].includes(nnParams.lrSchedule) && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Min Learning Rate
+												</label>
+												<input
+													type="number"
+													step="0.00001"
+													min="0"
+													value={nnParams.minLearningRate}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															minLearningRate: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+											</div>
+										)}
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Early Stopping
+											</label>
+											<select
+												value={nnParams.earlyStopping}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														earlyStopping: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="true">On</option>
+												<option value="false">Off</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												Stop when the validation metric stops improving
+											</p>
+										</div>
+										{nnParams.earlyStopping === 'true' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Monitor
+												</label>
+												<select
+													value={nnParams.monitor}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															monitor: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												>
+													<option value="valLoss">Validation loss</option>
+													<option value="valAcc">Validation accuracy</option>
+												</select>
+											</div>
+										)}
+										{nnParams.earlyStopping === 'true' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Patience (epochs)
+												</label>
+												<input
+													type="number"
+													step="1"
+													min="1"
+													value={nnParams.patience}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															patience: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+											</div>
+										)}
+										{nnParams.earlyStopping === 'true' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Min Delta
+												</label>
+												<input
+													type="number"
+													step="0.0001"
+													min="0"
+													value={nnParams.minDelta}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															minDelta: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Smallest change that counts as an improvement
+												</p>
+											</div>
+										)}
+										{nnParams.earlyStopping === 'true' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Restore Best Weights
+												</label>
+												<select
+													value={nnParams.restoreBestWeights}
+													onChange={(e) =>
+														setNnParams((p) => ({
+															...p,
+															restoreBestWeights: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												>
+													<option value="true">Yes</option>
+													<option value="false">No</option>
+												</select>
+												<p className="text-xs text-gray-500">
+													Keep the best epoch instead of the last
+												</p>
+											</div>
+										)}
 										<div className="space-y-2">
 											<label className="block text-sm font-medium">
 												Validation Split
@@ -333,12 +982,46 @@ export default function ClassroomModelSelectionTab() {
 												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
 											/>
 										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Random Seed
+											</label>
+											<input
+												type="number"
+												min="0"
+												max="999999"
+												placeholder="random"
+												value={nnParams.seed}
+												onChange={(e) =>
+													setNnParams((p) => ({
+														...p,
+														seed: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<SeedHint
+												lastRunSeed={lastRunSeed}
+												onReuse={(seed) =>
+													setNnParams((p) => ({ ...p, seed: String(seed) }))
+												}
+											/>
+										</div>
 									</div>
 									<div className="mt-6 p-4 bg-blue-50 rounded-lg text-xs text-blue-700">
-										Hidden Layers: {nnParams.hiddenLayers} | LR:{' '}
-										{nnParams.learningRate} | Epochs: {nnParams.epochs} | Batch:{' '}
-										{nnParams.batchSize} | Dropout: {nnParams.dropoutRate} | Val
-										Split: {nnParams.validationSplit}
+										Hidden Layers: {nnParams.hiddenLayers} |{' '}
+										{nnParams.activation} / {nnParams.optimizer} | LR:{' '}
+										{nnParams.learningRate} ({nnParams.lrSchedule}) | Epochs:{' '}
+										{nnParams.epochs} | Batch: {nnParams.batchSize} | Dropout:{' '}
+										{nnParams.dropoutRate} | Decay: {nnParams.weightDecay} |
+										Clip: {nnParams.clipNorm} |{' '}
+										{regressionTarget && `Loss: ${nnParams.regressionLoss} | `}
+										Early Stopping:{' '}
+										{nnParams.earlyStopping === 'true'
+											? `${nnParams.monitor}, patience ${nnParams.patience}`
+											: 'off'}{' '}
+										| Val Split: {nnParams.validationSplit} | Seed:{' '}
+										{nnParams.seed || 'random'}
 									</div>
 								</>
 							)}
@@ -450,12 +1133,13 @@ export default function ClassroomModelSelectionTab() {
 											>
 												<option value="sqrt">sqrt</option>
 												<option value="log2">log2</option>
+												<option value="all">all</option>
 												<option value="1">1</option>
 												<option value="2">2</option>
 												<option value="3">3</option>
 											</select>
 											<p className="text-xs text-gray-500">
-												Features to consider for splits
+												Features drawn at random for each split
 											</p>
 										</div>
 										<div className="space-y-2">
@@ -476,7 +1160,30 @@ export default function ClassroomModelSelectionTab() {
 												<option value="false">No</option>
 											</select>
 											<p className="text-xs text-gray-500">
-												Use bootstrap sampling
+												Use bootstrap sampling (needed for out-of-bag scores)
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Split Criterion
+											</label>
+											<select
+												value={rfParams.criterion}
+												onChange={(e) =>
+													setRfParams((p) => ({
+														...p,
+														criterion: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="gini">Gini impurity</option>
+												<option value="entropy">Entropy</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												{regressionTarget
+													? 'Regression trees split on squared error instead'
+													: 'Impurity measure minimized by each split'}
 											</p>
 										</div>
 										<div className="space-y-2">
@@ -487,6 +1194,7 @@ export default function ClassroomModelSelectionTab() {
 												type="number"
 												min="0"
 												max="999999"
+												placeholder="random"
 												value={rfParams.randomState}
 												onChange={(e) =>
 													setRfParams((p) => ({
@@ -496,9 +1204,15 @@ export default function ClassroomModelSelectionTab() {
 												}
 												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
 											/>
-											<p className="text-xs text-gray-500">
-												Seed for reproducibility
-											</p>
+											<SeedHint
+												lastRunSeed={lastRunSeed}
+												onReuse={(seed) =>
+													setRfParams((p) => ({
+														...p,
+														randomState: String(seed),
+													}))
+												}
+											/>
 										</div>
 									</div>
 									<div className="mt-6 p-4 bg-green-50 rounded-lg text-xs text-green-700">
@@ -506,36 +1220,842 @@ export default function ClassroomModelSelectionTab() {
 										{rfParams.maxDepth} | Min Split: {rfParams.minSamplesSplit}{' '}
 										| Min Leaf: {rfParams.minSamplesLeaf} | Max Features:{' '}
 										{rfParams.maxFeatures} | Bootstrap: {rfParams.bootstrap} |
-										Random State: {rfParams.randomState}
+										Criterion: {rfParams.criterion} | Random State:{' '}
+										{rfParams.randomState || 'random'}
 									</div>
 								</>
 							)}
-						</CardContent>
-					</Card>
-				</div>
-			</div>
-
-			{/* Next Button */}
-			<div className="fixed bottom-8 right-8 z-10">
-				<Link
-					href="/dashboard/classroom/train-validate"
-					className="bg-black text-white rounded-xl py-4 px-8 font-semibold text-xl flex items-center shadow-lg hover:bg-gray-800 transition-colors"
-				>
-					Train Model
-					<svg
-						className="w-7 h-7 ml-2"
-						xmlns="http://www.w3.org/2000/svg"
-						viewBox="0 0 20 20"
-						fill="currentColor"
-					>
-						<path
-							fillRule="evenodd"
-							d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z"
-							clipRule="evenodd"
-						/>
-					</svg>
-				</Link>
-			</div>
-		</div>
+							{selectedModel === 'gradient-boosting' && (
+								<>
+									<p className="mb-4 text-sm">
+										Configure gradient boosting. Each round fits a shallow tree
+										to the errors of the rounds before it; training stops early
+										once the validation loss stops improving.
+									</p>
+									<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Boosting Rounds
+											</label>
+											<input
+												type="number"
+												min="1"
+												max="2000"
+												value={gbParams.nEstimators}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														nEstimators: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Maximum trees; early stopping may use fewer
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Learning Rate
+											</label>
+											<input
+												type="number"
+												step="0.01"
+												min="0.01"
+												max="1"
+												value={gbParams.learningRate}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														learningRate: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Shrinks each tree's contribution
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Max Depth
+											</label>
+											<input
+												type="number"
+												min="1"
+												max="12"
+												value={gbParams.maxDepth}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														maxDepth: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Depth of each tree (shallow is typical)
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Min Samples Leaf
+											</label>
+											<input
+												type="number"
+												min="1"
+												max="500"
+												value={gbParams.minSamplesLeaf}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														minSamplesLeaf: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Min training rows in leaf nodes
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Subsample
+											</label>
+											<input
+												type="number"
+												step="0.05"
+												min="0.1"
+												max="1"
+												value={gbParams.subsample}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														subsample: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Fraction of rows drawn for each tree
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Histogram Bins
+											</label>
+											<input
+												type="number"
+												min="2"
+												max="256"
+												value={gbParams.maxBins}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														maxBins: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Candidate split points per feature
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												L2 Regularization
+											</label>
+											<input
+												type="number"
+												step="0.1"
+												min="0"
+												value={gbParams.l2Regularization}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														l2Regularization: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Penalty on leaf weights
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Validation Split
+											</label>
+											<input
+												type="number"
+												step="0.05"
+												min="0.05"
+												max="0.5"
+												value={gbParams.validationSplit}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														validationSplit: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Training rows held out for early stopping
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Early Stopping Rounds
+											</label>
+											<input
+												type="number"
+												min="0"
+												max="200"
+												value={gbParams.earlyStoppingRounds}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														earlyStoppingRounds: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Stop after this many rounds without validation
+												improvement (0 = off)
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Random Seed
+											</label>
+											<input
+												type="number"
+												min="0"
+												max="999999"
+												placeholder="random"
+												value={gbParams.seed}
+												onChange={(e) =>
+													setGbParams((p) => ({
+														...p,
+														seed: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<SeedHint
+												lastRunSeed={lastRunSeed}
+												onReuse={(seed) =>
+													setGbParams((p) => ({ ...p, seed: String(seed) }))
+												}
+											/>
+										</div>
+									</div>
+									<div className="mt-6 p-4 bg-purple-50 rounded-lg text-xs text-purple-700">
+										Rounds: {gbParams.nEstimators} | LR: {gbParams.learningRate}{' '}
+										| Max Depth: {gbParams.maxDepth} | Min Leaf:{' '}
+										{gbParams.minSamplesLeaf} | Subsample: {gbParams.subsample}{' '}
+										| Bins: {gbParams.maxBins} | L2: {gbParams.l2Regularization}{' '}
+										| Val Split: {gbParams.validationSplit} | Early Stop:{' '}
+										{gbParams.earlyStoppingRounds} | Seed:{' '}
+										{gbParams.seed || 'random'}
+									</div>
+								</>
+							)}
+							{selectedModel === 'svm' && (
+								<>
+									<p className="mb-4 text-sm">
+										Configure the support vector machine. Features are
+										standardized before training; predicted probabilities come
+										from Platt scaling on held-out training rows.
+									</p>
+									<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Kernel
+											</label>
+											<select
+												value={svmParams.kernel}
+												onChange={(e) =>
+													setSvmParams((p) => ({
+														...p,
+														kernel: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="rbf">RBF (SMO)</option>
+												<option value="linear">Linear (Pegasos)</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												RBF fits curved boundaries; linear is faster
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												C (Penalty)
+											</label>
+											<input
+												type="number"
+												step="0.1"
+												min="0.001"
+												value={svmParams.C}
+												onChange={(e) =>
+													setSvmParams((p) => ({
+														...p,
+														C: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Larger values fit the training rows harder
+											</p>
+										</div>
+										{svmParams.kernel === 'rbf' ? (
+											<>
+												<div className="space-y-2">
+													<label className="block text-sm font-medium">
+														Gamma
+													</label>
+													<input
+														type="text"
+														placeholder="scale"
+														value={svmParams.gamma}
+														onChange={(e) =>
+															setSvmParams((p) => ({
+																...p,
+																gamma: e.target.value,
+															}))
+														}
+														className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+													/>
+													<p className="text-xs text-gray-500">
+														Kernel width: a number, or scale for 1 / (features ×
+														variance)
+													</p>
+												</div>
+												<div className="space-y-2">
+													<label className="block text-sm font-medium">
+														Tolerance
+													</label>
+													<input
+														type="number"
+														step="0.0001"
+														min="0.00001"
+														value={svmParams.tolerance}
+														onChange={(e) =>
+															setSvmParams((p) => ({
+																...p,
+																tolerance: e.target.value,
+															}))
+														}
+														className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+													/>
+													<p className="text-xs text-gray-500">
+														SMO stops once the KKT gap is below this
+													</p>
+												</div>
+												<div className="space-y-2">
+													<label className="block text-sm font-medium">
+														Max Iterations
+													</label>
+													<input
+														type="number"
+														min="100"
+														value={svmParams.maxIterations}
+														onChange={(e) =>
+															setSvmParams((p) => ({
+																...p,
+																maxIterations: e.target.value,
+															}))
+														}
+														className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+													/>
+													<p className="text-xs text-gray-500">
+														Upper bound on SMO pair updates
+													</p>
+												</div>
+												<div className="space-y-2">
+													<label className="block text-sm font-medium">
+														Kernel Cache (MB)
+													</label>
+													<input
+														type="number"
+														min="1"
+														max="2000"
+														value={svmParams.cacheSizeMb}
+														onChange={(e) =>
+															setSvmParams((p) => ({
+																...p,
+																cacheSizeMb: e.target.value,
+															}))
+														}
+														className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+													/>
+													<p className="text-xs text-gray-500">
+														Memory for cached kernel rows
+													</p>
+												</div>
+											</>
+										) : (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													Epochs
+												</label>
+												<input
+													type="number"
+													min="1"
+													max="500"
+													value={svmParams.epochs}
+													onChange={(e) =>
+														setSvmParams((p) => ({
+															...p,
+															epochs: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Pegasos passes over the training rows
+												</p>
+											</div>
+										)}
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Calibration Split
+											</label>
+											<input
+												type="number"
+												step="0.05"
+												min="0.05"
+												max="0.5"
+												value={svmParams.calibrationSplit}
+												onChange={(e) =>
+													setSvmParams((p) => ({
+														...p,
+														calibrationSplit: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Training rows held out to fit Platt probabilities
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Random Seed
+											</label>
+											<input
+												type="number"
+												min="0"
+												max="999999"
+												placeholder="random"
+												value={svmParams.seed}
+												onChange={(e) =>
+													setSvmParams((p) => ({
+														...p,
+														seed: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<SeedHint
+												lastRunSeed={lastRunSeed}
+												onReuse={(seed) =>
+													setSvmParams((p) => ({ ...p, seed: String(seed) }))
+												}
+											/>
+										</div>
+									</div>
+									<div className="mt-6 p-4 bg-orange-50 rounded-lg text-xs text-orange-700">
+										Kernel: {svmParams.kernel} | C: {svmParams.C} |{' '}
+										{svmParams.kernel === 'rbf'
+											? `Gamma: ${svmParams.gamma || 'scale'} | Tol: ${svmParams.tolerance} | Cache: ${svmParams.cacheSizeMb} MB`
+											: `Epochs: ${svmParams.epochs}`}{' '}
+										| Calibration: {svmParams.calibrationSplit} | Seed:{' '}
+										{svmParams.seed || 'random'}
+									</div>
+								</>
+							)}
+							{selectedModel === 'logistic-regression' && (
+								<>
+									<p className="mb-4 text-sm">
+										Configure logistic regression. Features are standardized, so
+										each learned weight shows how strongly a feature pushes
+										towards the positive class.
+									</p>
+									<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Penalty
+											</label>
+											<select
+												value={lrParams.penalty}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														penalty: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											>
+												<option value="l2">L2 (ridge)</option>
+												<option value="l1">L1 (lasso)</option>
+												<option value="elasticnet">Elastic net</option>
+												<option value="none">None</option>
+											</select>
+											<p className="text-xs text-gray-500">
+												L1 can drive weights to exactly zero
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Penalty Strength
+											</label>
+											<input
+												type="number"
+												step="0.001"
+												min="0"
+												value={lrParams.regularization}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														regularization: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Larger values shrink the weights more
+											</p>
+										</div>
+										{lrParams.penalty === 'elasticnet' && (
+											<div className="space-y-2">
+												<label className="block text-sm font-medium">
+													L1 Ratio
+												</label>
+												<input
+													type="number"
+													step="0.1"
+													min="0"
+													max="1"
+													value={lrParams.l1Ratio}
+													onChange={(e) =>
+														setLrParams((p) => ({
+															...p,
+															l1Ratio: e.target.value,
+														}))
+													}
+													className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+												/>
+												<p className="text-xs text-gray-500">
+													Share of the penalty that is L1
+												</p>
+											</div>
+										)}
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Learning Rate
+											</label>
+											<input
+												type="number"
+												step="0.01"
+												min="0.0001"
+												max="1"
+												value={lrParams.learningRate}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														learningRate: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Step size of mini-batch gradient descent
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Epochs
+											</label>
+											<input
+												type="number"
+												min="1"
+												max="10000"
+												value={lrParams.epochs}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														epochs: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Upper bound; early stopping may end sooner
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Batch Size
+											</label>
+											<input
+												type="number"
+												min="1"
+												value={lrParams.batchSize}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														batchSize: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Rows per gradient step
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Validation Split
+											</label>
+											<input
+												type="number"
+												step="0.05"
+												min="0.05"
+												max="0.5"
+												value={lrParams.validationSplit}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														validationSplit: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Training rows held out for early stopping
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Early Stopping Patience
+											</label>
+											<input
+												type="number"
+												min="1"
+												value={lrParams.earlyStoppingPatience}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														earlyStoppingPatience: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												Epochs without validation improvement
+											</p>
+										</div>
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Random Seed
+											</label>
+											<input
+												type="number"
+												min="0"
+												max="999999"
+												placeholder="random"
+												value={lrParams.seed}
+												onChange={(e) =>
+													setLrParams((p) => ({
+														...p,
+														seed: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<SeedHint
+												lastRunSeed={lastRunSeed}
+												onReuse={(seed) =>
+													setLrParams((p) => ({ ...p, seed: String(seed) }))
+												}
+											/>
+										</div>
+									</div>
+									<div className="mt-6 p-4 bg-teal-50 rounded-lg text-xs text-teal-700">
+										Penalty: {lrParams.penalty} | Strength:{' '}
+										{lrParams.regularization}
+										{lrParams.penalty === 'elasticnet'
+											? ` | L1 Ratio: ${lrParams.l1Ratio}`
+											: ''}{' '}
+										| LR: {lrParams.learningRate} | Epochs: {lrParams.epochs} |
+										Batch: {lrParams.batchSize} | Seed:{' '}
+										{lrParams.seed || 'random'}
+									</div>
+								</>
+							)}
+						</CardContent>
+					</Card>
+
+					{/* Class imbalance (every model) */}
+					<Card className="mt-4">
+						<CardTitle>Class Imbalance</CardTitle>
+						<CardContent>
+							<p className="mb-4 text-sm">
+								Confirmed planets are a minority in the KOI and TOI tables.
+								These options change only the rows the model is fitted on:
+								validation and test rows keep the real class balance, so the
+								reported metrics stay honest.
+							</p>
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+								<div className="space-y-2">
+									<label className="block text-sm font-medium">Strategy</label>
+									<select
+										value={imbalanceParams.strategy}
+										onChange={(e) =>
+											setImbalanceParams((p) => ({
+												...p,
+												strategy: e.target.value,
+											}))
+										}
+										className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+									>
+										<option value="none">None</option>
+										<option value="class-weights">Class weights</option>
+										<option value="oversample">Random oversampling</option>
+										<option value="undersample">Random undersampling</option>
+										<option value="smote">SMOTE</option>
+										<option
+											value="focal-loss"
+											disabled={selectedModel !== 'neural-network'}
+										>
+											Focal loss (neural network)
+										</option>
+									</select>
+									<p className="text-xs text-gray-500">
+										{imbalanceParams.strategy === 'class-weights'
+											? 'Rare classes weigh more in the loss'
+											: imbalanceParams.strategy === 'oversample'
+											? 'Repeats minority rows up to the majority count'
+											: imbalanceParams.strategy === 'undersample'
+											? 'Drops majority rows down to the minority count'
+											: imbalanceParams.strategy === 'smote'
+											? 'Adds synthetic minority rows between neighbours'
+											: imbalanceParams.strategy === 'focal-loss'
+											? selectedModel === 'neural-network'
+												? 'Down-weights rows the model already gets right'
+												: 'Neural network only; other models train unchanged'
+											: 'Train on the rows as they are'}
+									</p>
+								</div>
+								{imbalanceParams.strategy === 'smote' && (
+									<div className="space-y-2">
+										<label className="block text-sm font-medium">
+											SMOTE Neighbours
+										</label>
+										<input
+											type="number"
+											min="1"
+											max="50"
+											value={imbalanceParams.smoteNeighbors}
+											onChange={(e) =>
+												setImbalanceParams((p) => ({
+													...p,
+													smoteNeighbors: e.target.value,
+												}))
+											}
+											className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+										/>
+										<p className="text-xs text-gray-500">
+											Same-class rows to interpolate towards
+										</p>
+									</div>
+								)}
+								{imbalanceParams.strategy === 'focal-loss' &&
+									selectedModel === 'neural-network' && (
+										<div className="space-y-2">
+											<label className="block text-sm font-medium">
+												Focal Gamma
+											</label>
+											<input
+												type="number"
+												step="0.5"
+												min="0"
+												max="10"
+												value={imbalanceParams.focalGamma}
+												onChange={(e) =>
+													setImbalanceParams((p) => ({
+														...p,
+														focalGamma: e.target.value,
+													}))
+												}
+												className="w-full p-2 border border-[#AFAFAF] rounded bg-[#F9F9F9] text-sm"
+											/>
+											<p className="text-xs text-gray-500">
+												0 is plain cross-entropy; higher focuses on hard rows
+											</p>
+										</div>
+									)}
+							</div>
+						</CardContent>
+					</Card>
+				</div>
+			</div>
+
+			{/* Next Button */}
+			<div className="fixed bottom-8 right-8 z-10">
+				<Link
+					href="/dashboard/classroom/train-validate"
+					className="bg-black text-white rounded-xl py-4 px-8 font-semibold text-xl flex items-center shadow-lg hover:bg-gray-800 transition-colors"
+				>
+					Train Model
+					<svg
+						className="w-7 h-7 ml-2"
+						xmlns="http://www.w3.org/2000/svg"
+						viewBox="0 0 20 20"
+						fill="currentColor"
+					>
+						<path
+							fillRule="evenodd"
+							d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z"
+							clipRule="evenodd"
+						/>
+					</svg>
+				</Link>
+			</div>
+		</div>
+	);
+}
+
+// Explains the seed field and offers the last run's seed for an exact replay
+function SeedHint({
+	lastRunSeed,
+	onReuse,
+}: {
+	lastRunSeed?: number;
+	onReuse: (seed: number) => void;
+}) {
+	return (
+		<p className="text-xs text-gray-500">
+			Seed for reproducibility (blank draws a new one per run)
+			{lastRunSeed !== undefined && (
+				<>
+					{' '}
+					·{' '}
+					<button
+						type="button"
+						onClick={() => onReuse(lastRunSeed)}
+						className="underline hover:text-gray-700"
+					>
+						reuse last run&apos;s seed {lastRunSeed}
+					</button>
+				</>
+			)}
+		</p>
 	);
 }
@@ -0,0 +1,203 @@
+'use client';
+
+import React from 'react';
+
+// Points drawn per plot; larger test sets are thinned evenly
+const MAX_POINTS = 1500;
+
+const WIDTH = 300;
+const HEIGHT = 240;
+const LEFT = 45;
+const BOTTOM = 30;
+const TOP = 10;
+const RIGHT = 10;
+
+const formatTick = (value: number) => String(Number(value.toPrecision(3)));
+
+// Smallest and largest value (widened when all values are equal)
+const span = (values: number[]): [number, number] => {
+	let lo = Infinity;
+	let hi = -Infinity;
+	for (const value of values) {
+		if (value < lo) lo = value;
+		if (value > hi) hi = value;
+	}
+	if (!isFinite(lo)) return [0, 1];
+	return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+};
+
+function ScatterPlot({
+	x,
+	y,
+	xLabel,
+	yLabel,
+	reference,
+	color,
+}: {
+	x: number[];
+	y: number[];
+	xLabel: string;
+	yLabel: string;
+	reference: 'diagonal' | 'zero'; // y = x, or y = 0
+	color: string;
+}) {
+	// Shared axes for y = x; residuals centred on zero
+	const [xMin, xMax] = reference === 'diagonal' ? span([...x, ...y]) : span(x);
+	const yLimit = Math.max(...span(y).map(Math.abs));
+	const [yMin, yMax] =
+		reference === 'diagonal' ? [xMin, xMax] : [-yLimit, yLimit];
+	const px = (value: number) =>
+		LEFT + ((value - xMin) / (xMax - xMin)) * (WIDTH - LEFT - RIGHT);
+	const py = (value: number) =>
+		HEIGHT -
+		BOTTOM -
+		((value - yMin) / (yMax - yMin)) * (HEIGHT - BOTTOM - TOP);
+	const step = Math.ceil(x.length / MAX_POINTS);
+
+	return (
+		<svg
+			width={WIDTH}
+			height={HEIGHT}
+			className="overflow-visible bg-white border rounded"
+		>
+			{reference === 'diagonal' ? (
+				<line
+					x1={px(xMin)}
+					y1={py(xMin)}
+					x2={px(xMax)}
+					y2={py(xMax)}
+					stroke="#999"
+					strokeDasharray="4 3"
+				/>
+			) : (
+				<line
+					x1={LEFT}
+					y1={py(0)}
+					x2={WIDTH - RIGHT}
+					y2={py(0)}
+					stroke="#999"
+					strokeDasharray="4 3"
+				/>
+			)}
+			{x.map((value, i) =>
+				i % step === 0 ? (
+					<circle
+						key={i}
+						cx={px(value)}
+						cy={py(y[i])}
+						r={2}
+						fill={color}
+						fillOpacity={0.5}
+					/>
+				) : null,
+			)}
+			<line
+				x1={LEFT}
+				y1={HEIGHT - BOTTOM}
+				x2={WIDTH - RIGHT}
+				y2={HEIGHT - BOTTOM}
+				stroke="#666"
+			/>
+			<line x1={LEFT} y1={HEIGHT - BOTTOM} x2={LEFT} y2={TOP} stroke="#666" />
+			<text
+				x={LEFT}
+				y={HEIGHT - BOTTOM + 12}
+				textAnchor="start"
+				fontSize={9}
+				fill="#555"
+			>
+				{formatTick(xMin)}
+			</text>
+			<text
+				x={WIDTH - RIGHT}
+				y={HEIGHT - BOTTOM + 12}
+				textAnchor="end"
+				fontSize={9}
+				fill="#555"
+			>
+				{formatTick(xMax)}
+			</text>
+			<text
+				x={LEFT - 4}
+				y={HEIGHT - BOTTOM}
+				textAnchor="end"
+				fontSize={9}
+				fill="#555"
+			>
+				{formatTick(yMin)}
+			</text>
+			<text x={LEFT - 4} y={TOP + 8} textAnchor="end" fontSize={9} fill="#555">
+				{formatTick(yMax)}
+			</text>
+			<text
+				x={(LEFT + WIDTH - RIGHT) / 2}
+				y={HEIGHT - 4}
+				textAnchor="middle"
+				fontSize={10}
+				fill="#555"
+			>
+				{xLabel}
+			</text>
+			<text
+				x={12}
+				y={(HEIGHT - BOTTOM) / 2}
+				transform={`rotate(-90 12 ${(HEIGHT - BOTTOM) / 2})`}
+				textAnchor="middle"
+				fontSize={10}
+				fill="#555"
+			>
+				{yLabel}
+			</text>
+		</svg>
+	);
+}
+
+/**
+ * Predicted-vs-actual and residual scatter plots of a regressor on held-out
+ * rows, in target units
+ */
+export default function RegressionPlots({
+	actual,
+	predicted,
+	target,
+}: {
+	actual: number[];
+	predicted: number[]; // parallel to actual
+	target: string; // target column, for the axis labels
+}) {
+	const residuals = actual.map((value, i) => value - predicted[i]);
+
+	return (
+		<div className="grid md:grid-cols-2 gap-6">
+			<div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm flex flex-col items-center">
+				<h4 className="font-medium mb-2 text-sm">Predicted vs Actual</h4>
+				<ScatterPlot
+					x={actual}
+					y={predicted}
+					xLabel={`Actual ${target}`}
+					yLabel="Predicted"
+					reference="diagonal"
+					color="#2563eb"
+				/>
+				<p className="mt-2 text-[11px] text-gray-600 text-center">
+					Rows on the dashed line are predicted exactly.
+				</p>
+			</div>
+			<div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm flex flex-col items-center">
+				<h4 className="font-medium mb-2 text-sm">Residuals</h4>
+				<ScatterPlot
+					x={predicted}
+					y={residuals}
+					xLabel={`Predicted ${target}`}
+					yLabel="Actual − predicted"
+					reference="zero"
+					color="#ea580c"
+				/>
+				<p className="mt-2 text-[11px] text-gray-600 text-center">
+					An even band around zero is what a good fit leaves; a funnel or a
+					curve is structure the model missed.
+				</p>
+			</div>
+		</div>
+	);
+}
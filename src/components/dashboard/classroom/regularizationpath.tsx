@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { RegularizationPathPoint } from '../../../lib/ml/models/logistic';
+
+const COLORS = [
+	'#2563eb',
+	'#dc2626',
+	'#16a34a',
+	'#9333ea',
+	'#ea580c',
+	'#0891b2',
+	'#ca8a04',
+	'#db2777',
+];
+const HIGHLIGHTED = COLORS.length;
+
+/**
+ * Each logistic regression coefficient against the penalty strength (log
+ * scale, strongest on the left). The features with the largest weights
+ * under the weakest penalty get a colour; the rest are drawn in grey.
+ */
+export default function RegularizationPathChart({
+	featureNames,
+	points,
+	selectedStrength,
+}: {
+	featureNames: string[];
+	points: RegularizationPathPoint[]; // strongest penalty first
+	selectedStrength?: number; // strength the trained model used
+}) {
+	const [hovered, setHovered] = useState<number | null>(null);
+
+	if (points.length < 2) {
+		return <div className="text-xs text-gray-500">Not enough data</div>;
+	}
+
+	const width = 560;
+	const height = 260;
+	const pad = { left: 44, right: 12, top: 12, bottom: 32 };
+	const logs = points.map((p) => Math.log10(p.strength));
+	const maxLog = Math.max(...logs);
+	const minLog = Math.min(...logs);
+	const weights = points.flatMap((p) => p.weights);
+	const limit = Math.max(...weights.map(Math.abs), 1e-6);
+	const x = (log: number) =>
+		pad.left +
+		((maxLog - log) / (maxLog - minLog || 1)) * (width - pad.left - pad.right);
+	const y = (w: number) =>
+		pad.top + ((limit - w) / (2 * limit)) * (height - pad.top - pad.bottom);
+
+	const weakest = points[points.length - 1].weights;
+	const ranked = featureNames
+		.map((_, j) => j)
+		.sort((a, b) => Math.abs(weakest[b]) - Math.abs(weakest[a]));
+	const colorOf = new Map(
+		ranked.slice(0, HIGHLIGHTED).map((j, rank) => [j, COLORS[rank]]),
+	);
+	// Grey lines first so the highlighted ones are drawn on top
+	const drawOrder = [...ranked].reverse();
+
+	const selectedLog =
+		selectedStrength !== undefined && selectedStrength > 0
+			? Math.log10(selectedStrength)
+			: undefined;
+
+	return (
+		<div className="space-y-3">
+			<svg
+				viewBox={`0 0 ${width} ${height}`}
+				className="w-full max-w-2xl"
+				onMouseLeave={() => setHovered(null)}
+			>
+				<line
+					x1={pad.left}
+					x2={width - pad.right}
+					y1={y(0)}
+					y2={y(0)}
+					stroke="#d1d5db"
+				/>
+				<line
+					x1={pad.left}
+					x2={pad.left}
+					y1={pad.top}
+					y2={height - pad.bottom}
+					stroke="#9ca3af"
+				/>
+				{selectedLog !== undefined &&
+					selectedLog <= maxLog &&
+					selectedLog >= minLog && (
+						<line
+							x1={x(selectedLog)}
+							x2={x(selectedLog)}
+							y1={pad.top}
+							y2={height - pad.bottom}
+							stroke="#111827"
+							strokeDasharray="4 3"
+						/>
+					)}
+				{drawOrder.map((j) => (
+					<polyline
+						key={featureNames[j]}
+						fill="none"
+						stroke={colorOf.get(j) ?? '#d1d5db'}
+						strokeWidth={hovered === j ? 3 : colorOf.has(j) ? 2 : 1}
+						points={points
+							.map((p, i) => `${x(logs[i])},${y(p.weights[j])}`)
+							.join(' ')}
+						onMouseEnter={() => setHovered(j)}
+					/>
+				))}
+				{points.map((p, i) => (
+					<text
+						key={p.strength}
+						x={x(logs[i])}
+						y={height - pad.bottom + 14}
+						textAnchor="middle"
+						className="fill-gray-500 text-[10px]"
+					>
+						{p.strength.toExponential(0)}
+					</text>
+				))}
+				<text
+					x={(width + pad.left) / 2}
+					y={height - 4}
+					textAnchor="middle"
+					className="fill-gray-600 text-[11px]"
+				>
+					Penalty strength (weaker →)
+				</text>
+				{[limit, 0, -limit].map((w) => (
+					<text
+						key={w}
+						x={pad.left - 6}
+						y={y(w) + 3}
+						textAnchor="end"
+						className="fill-gray-500 text-[10px]"
+					>
+						{w.toFixed(2)}
+					</text>
+				))}
+			</svg>
+
+			<div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+				{ranked.slice(0, HIGHLIGHTED).map((j) => (
+					<span
+						key={featureNames[j]}
+						className="flex items-center gap-1 cursor-default"
+						onMouseEnter={() => setHovered(j)}
+						onMouseLeave={() => setHovered(null)}
+					>
+						<span
+							className="inline-block w-3 h-0.5"
+							style={{ backgroundColor: colorOf.get(j) }}
+						/>
+						{featureNames[j]}
+						{hovered === j && (
+							<span className="text-gray-500">({weakest[j].toFixed(3)})</span>
+						)}
+					</span>
+				))}
+				{featureNames.length > HIGHLIGHTED && (
+					<span className="text-gray-500">
+						+{featureNames.length - HIGHLIGHTED} more in grey
+					</span>
+				)}
+			</div>
+
+			<div className="overflow-x-auto">
+				<table className="text-xs border-collapse">
+					<tbody>
+						<tr className="text-gray-500">
+							<td className="pr-3">Strength</td>
+							{points.map((p) => (
+								<td key={p.strength} className="px-2 text-right">
+									{p.strength.toExponential(0)}
+								</td>
+							))}
+						</tr>
+						<tr>
+							<td className="pr-3 text-gray-500">Non-zero</td>
+							{points.map((p) => (
+								<td key={p.strength} className="px-2 text-right">
+									{p.nonZero}
+								</td>
+							))}
+						</tr>
+						{points.some((p) => p.valAccuracy !== undefined) && (
+							<tr>
+								<td className="pr-3 text-gray-500">Val Acc</td>
+								{points.map((p) => (
+									<td key={p.strength} className="px-2 text-right">
+										{p.valAccuracy !== undefined
+											? (p.valAccuracy * 100).toFixed(1) + '%'
+											: '—'}
+									</td>
+								))}
+							</tr>
+						)}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+}
@@ -11,6 +11,31 @@ import { Card, CardTitle, CardContent } from '../../ui/Card';
 import Link from 'next/link';
 import { useClassroomStore } from '../../../lib/ml/state/classroomStore';
 import { NeuralNetworkService } from '../../../lib/ml/neuralNetwork';
+import { parseCSVTable } from '../../../lib/ml/parsing/tokenizer.mjs';
+import {
+	PipelineRecord,
+	PreprocessingPipeline,
+} from '../../../lib/ml/pipeline/pipeline';
+import {
+	appendDerivedColumns,
+	isDerivedFeature,
+} from '../../../lib/derivedFeatures';
+import { describeImbalance } from '../../../lib/ml/pipeline/imbalance';
+import {
+	calculateClassificationReport,
+	calculateOneVsRestROC,
+	calculateRegressionMetrics,
+} from '../../../lib/ml/pipeline/metrics';
+import { mapTargetLabel } from '../../../lib/datasets/labels';
+import type {
+	ClassRocCurve,
+	ImbalanceReport,
+	LabelMapping,
+} from '../../../types/ml';
+import ClassReportTable from './classreport';
+import CrossMissionEvaluation from './crossmission';
+import RegressionPlots from './regressionplots';
+import ThresholdPanel from './thresholdpanel';
 import * as tf from '@tensorflow/tfjs';
 // Dynamically import JSZip when exporting to avoid SSR issues if any
 let JSZipLib: any;
@@ -24,6 +49,10 @@ interface TestResult {
 	recall: number;
 }
 
+// Regression errors in target units, to 4 significant digits
+const formatTargetValue = (value: number) =>
+	String(Number(value.toPrecision(4)));
+
 // Constants for reuse
 const BUTTON_BASE_CLASSES =
 	'rounded-lg py-2.5 px-4 text-sm font-medium w-full flex justify-center items-center gap-2';
@@ -137,8 +166,36 @@ export default function ClassroomTestExportTab() {
 	const rawTruth = state.testExport.rawTrueIndices;
 	const trained = state.training.hasTrainedModel;
 	const modelType = state.training.modelMetrics?.modelType || 'neural-network';
+	// Regressors (continuous target) get RMSE / MAE / R² and residual plots
+	const isRegressor = Boolean(state.training.modelMetrics?.regression);
+	const regressionMetrics = state.testExport.regressionMetrics;
+	const regressionPoints = state.testExport.regressionPoints;
+	const tested = testMetrics != null || regressionMetrics != null;
+	// Tree ensembles predict from the raw (unscaled) pipeline output
+	const isTreeModel =
+		modelType === 'random-forest' || modelType === 'gradient-boosting';
+	// Kernel and linear models score the pipeline's standardized output instead
+	const isScaledModel =
+		modelType === 'svm' || modelType === 'logistic-regression';
+	const predictsFromPipeline = isTreeModel || isScaledModel;
 	const featureImportance =
 		state.training.modelMetrics?.trainingSummary?.featureImportance;
+	// How the training rows were rebalanced (test rows never are)
+	const imbalance: ImbalanceReport | undefined =
+		state.training.modelMetrics?.trainingSummary?.imbalance;
+	// Linear models report weights; RBF kernels have no per-feature importance
+	const showsImportance =
+		(isTreeModel || isScaledModel) && Boolean(featureImportance);
+
+	// Class indices from a pipeline-scored model (LogisticRegression.predict
+	// takes flat matrices and returns probabilities)
+	const predictClasses = useCallback(
+		(model: any, X: number[][]): number[] =>
+			modelType === 'logistic-regression'
+				? model.predictLabels(X)
+				: model.predict(X),
+		[modelType],
+	);
 	const router = useRouter();
 
 	// Local state (restored)
@@ -147,6 +204,36 @@ export default function ClassroomTestExportTab() {
 	const [exportedModels] = useState<any[]>([]);
 	const [isTesting, setIsTesting] = useState(false);
 
+	// Fitted preprocessing of the trained model (drives cross-mission evaluation)
+	const trainedPipeline = useMemo(
+		() =>
+			state.training.pipeline
+				? PreprocessingPipeline.fromJSON(state.training.pipeline)
+				: null,
+		[state.training.pipeline],
+	);
+
+	// Class indices for raw records, in the pipeline's label order
+	const predictRecords = useCallback(
+		(records: PipelineRecord[]): number[] => {
+			const model = state.training.trainedModel as any;
+			if (!model || !trainedPipeline) {
+				throw new Error('No trained model available');
+			}
+			if (predictsFromPipeline) {
+				return predictClasses(model, trainedPipeline.transform(records));
+			}
+			const { probabilities } = model.predictRecords(records);
+			return probabilities.map((p: number[]) => p.indexOf(Math.max(...p)));
+		},
+		[
+			state.training.trainedModel,
+			trainedPipeline,
+			predictsFromPipeline,
+			predictClasses,
+		],
+	);
+
 	// On mount: clear stale test results (require retest after refresh)
 	useEffect(() => {
 		classroomStore.clearTestResults();
@@ -200,8 +287,39 @@ export default function ClassroomTestExportTab() {
 		};
 	};
 
+	// Per-class report of a test pass; the headline precision / recall are its
+	// macro averages (F1 their harmonic mean). Multiclass models also get
+	// one-vs-rest ROC curves.
+	const scoreClasses = (
+		probabilities: number[][],
+		predictions: number[],
+		truths: number[],
+		classLabels: string[],
+	) => {
+		const classReport = calculateClassificationReport(
+			predictions,
+			truths,
+			classLabels,
+			probabilities,
+		);
+		const { precision, recall } = classReport.macro;
+		return {
+			precision,
+			recall,
+			f1:
+				precision + recall === 0
+					? 0
+					: (2 * precision * recall) / (precision + recall),
+			classReport,
+			classRocCurves:
+				classLabels.length > 2
+					? calculateOneVsRestROC(probabilities, truths, classLabels)
+					: undefined,
+		};
+	};
+
 	const handleTestModel = useCallback(async () => {
-		if (!trained || testMetrics) {
+		if (!trained || tested) {
 			return;
 		}
 
@@ -209,37 +327,58 @@ export default function ClassroomTestExportTab() {
 		try {
 			console.log('🧪 Starting model testing from Test & Export page...');
 
+			// Regressors are scored on the rows held out at training time (the
+			// network's were recorded already normalized, the forest's raw: its
+			// pipeline fills their gaps)
+			if (isRegressor) {
+				const heldOut = state.training.testDataset;
+				const model = state.training.trainedModel as any;
+				if (!heldOut || heldOut.features.length === 0 || !model) {
+					throw new Error('No held-out rows recorded for this model. Retrain.');
+				}
+				const predicted: number[] =
+					modelType === 'neural-network'
+						? model.predictValues(heldOut.features, true)
+						: model.predict(
+								trainedPipeline
+									? trainedPipeline.transformMatrix(heldOut.features)
+									: heldOut.features,
+							);
+				classroomStore.setRegressionResults(
+					calculateRegressionMetrics(predicted, heldOut.labels),
+					{ actual: heldOut.labels, predicted },
+				);
+				console.log(`✅ ${modelType} regressor tested successfully!`);
+				return;
+			}
+
 			// Get training data info from store
 			const dataInput = (state as any).dataInput || {};
 			const fileSource = dataInput.selectedDataSource;
-			let fileName = '';
+			const datasetId = fileSource && fileSource !== 'own' ? fileSource : '';
 			const targetColumn = dataInput.targetColumn;
+			const labelMapping: LabelMapping | undefined = dataInput.labelMapping;
+			// Gaps in 'drop' (default) features leave the row out; the pipeline
+			// fills the others
+			const dropsGaps = (feature: string) =>
+				(dataInput.missingValueStrategy?.[feature] || 'drop') === 'drop';
 			const selectedFeatures = dataInput.selectedFeatures;
 			const rawDataset = dataInput.rawDataset;
 			const columnMeta = dataInput.columnMeta || [];
+			const fileName: string = rawDataset?.name || 'uploaded-data.csv';
 
-			switch (fileSource) {
-				case 'tess':
-					fileName = 'TESS-Classroom-Data.csv';
-					break;
-				case 'kepler':
-					fileName = 'KOI-Classroom-Data.csv';
-					break;
-				case 'own':
-					fileName = 'uploaded-data.csv';
-					break;
-				default:
-					fileName = 'KOI-Classroom-Data.csv';
-			}
-
-			// Sanitize feature list
-			const headerSet = new Set(rawDataset?.header || []);
+			// Sanitize feature list (enabled derived features count as numeric)
+			const derivedFeatures: string[] = dataInput.derivedFeatures || [];
+			const headerSet = new Set([
+				...(rawDataset?.header || []),
+				...derivedFeatures,
+			]);
 			const cleanedFeatures = (selectedFeatures || []).filter((f: string) =>
 				headerSet.has(f),
 			);
 			const numericFeatures = cleanedFeatures.filter((f: string) => {
 				const meta = columnMeta.find((c: any) => c.name === f);
-				return meta?.inferredType === 'numeric';
+				return meta?.inferredType === 'numeric' || isDerivedFeature(f);
 			});
 
 			console.log('Debug info:', {
@@ -265,7 +404,7 @@ export default function ClassroomTestExportTab() {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
 					body: JSON.stringify({
-						fileName,
+						datasetId,
 						targetColumn,
 						featureColumns: cleanedFeatures,
 					}),
@@ -280,74 +419,84 @@ export default function ClassroomTestExportTab() {
 				throw new Error('Unable to reconstruct dataset for testing');
 			}
 
-			if (modelType === 'random-forest') {
-				console.log('🌳 Testing Random Forest model...');
-
-				// Parse CSV data for Random Forest testing
-				const lines = csvContent.trim().split('\n');
-				const headers = lines[0].split(',').map((h: string) => h.trim());
-				const rows = lines
-					.slice(1)
-					.map((line: string) => line.split(',').map((cell) => cell.trim()));
-
-				// Find target column index
-				const targetIdx = headers.indexOf(targetColumn);
-				if (targetIdx === -1) {
-					throw new Error(`Target column "${targetColumn}" not found`);
-				}
-
-				// Find feature column indices
+			if (predictsFromPipeline) {
+				console.log(`🌳 Testing ${modelType} model...`);
 
-				if (!Array.isArray(numericFeatures)) {
+				// Replay the training-time feature order and label encoding
+				if (!state.training.pipeline) {
 					throw new Error(
-						`numericFeatures is not an array: ${typeof numericFeatures}`,
+						'Preprocessing pipeline not available. Please retrain.',
 					);
 				}
+				const pipeline = PreprocessingPipeline.fromJSON(
+					state.training.pipeline,
+				);
+				const classLabels = pipeline.classLabels || [];
 
-				const featureIndices = numericFeatures.map((feature: string) => {
-					const idx = headers.indexOf(feature);
-					if (idx === -1) {
-						throw new Error(`Feature column "${feature}" not found`);
-					}
-					return idx;
-				});
-
-				// Prepare test data
-				const testX: number[][] = [];
-				const testY: number[] = [];
-				const targetValues = new Set<string>();
-
-				for (const row of rows) {
-					if (row.length !== headers.length) continue;
+				// Rows held out at training time (the model never saw them, nor
+				// their host stars when group-aware splitting was on); otherwise
+				// the whole dataset. Trees were fit on the raw values, SVMs and
+				// logistic regression on the pipeline's standardized ones; both
+				// get their gaps filled by the pipeline.
+				const heldOut = state.training.testDataset;
+				let testX: number[][];
+				let testY: number[] = [];
+				if (
+					heldOut &&
+					heldOut.featureNames.join('|') === pipeline.matrixColumns.join('|')
+				) {
+					testX = pipeline.transformMatrix(heldOut.features);
+					testY = heldOut.labels;
+				} else {
+					// Parse CSV data (plus the derived features the model was trained on)
+					const table = parseCSVTable(csvContent);
+					const { header: headers, rows } = appendDerivedColumns(
+						table.header,
+						table.rows,
+						pipeline.derivedFeatures,
+					);
 
-					// Extract features
-					if (!Array.isArray(featureIndices)) {
-						throw new Error(
-							`featureIndices is not an array in RF: ${typeof featureIndices}`,
-						);
+					// Find target column index
+					const targetIdx = headers.indexOf(targetColumn);
+					if (targetIdx === -1) {
+						throw new Error(`Target column "${targetColumn}" not found`);
 					}
-					const features = featureIndices.map((idx: number) =>
-						parseFloat(row[idx]),
+					const featureColumns = pipeline.matrixColumns;
+					const featureIndices = featureColumns.map((feature) =>
+						headers.indexOf(feature),
 					);
-					if (features.some((f: any) => isNaN(f))) continue;
 
-					// Extract target
-					const target = row[targetIdx];
-					targetValues.add(target);
-
-					testX.push(features);
-					testY.push(Array.from(targetValues).indexOf(target));
+					// Keep rows with gaps only in filled features whose label was
+					// seen during training
+					const testRows: string[][] = [];
+					for (const row of rows) {
+						if (row.length !== headers.length) continue;
+						if (
+							featureIndices.some(
+								(idx, j) =>
+									isNaN(parseFloat(row[idx])) && dropsGaps(featureColumns[j]),
+							)
+						)
+							continue;
+						const labelIndex = classLabels.indexOf(
+							mapTargetLabel(row[targetIdx], labelMapping) ?? '',
+						);
+						if (labelIndex === -1) continue;
+						testRows.push(row);
+						testY.push(labelIndex);
+					}
+					testX = pipeline.transformTable(headers, testRows);
 				}
 
 				// Get the trained model from store
 				const trainedModel = state.training.trainedModel;
 				if (!trainedModel) {
-					throw new Error('No trained Random Forest model available');
+					throw new Error(`No trained ${modelType} model available`);
 				}
 
 				// Use the actual trained model for predictions
-				const nClasses = targetValues.size;
-				const predictions = trainedModel.predict(testX);
+				const nClasses = classLabels.length;
+				const predictions = predictClasses(trainedModel, testX);
 
 				// Calculate accuracy and other metrics
 				const correct = predictions.filter(
@@ -363,32 +512,8 @@ export default function ClassroomTestExportTab() {
 					matrix[testY[i]][predictions[i]]++;
 				}
 
-				// Calculate precision, recall, f1
-				let pSum = 0;
-				let rSum = 0;
-				for (let c = 0; c < nClasses; c++) {
-					const tp = matrix[c][c];
-					const fp = matrix.reduce(
-						(acc, row, ri) => (ri === c ? acc : acc + row[c]),
-						0,
-					);
-					const fn = matrix[c].reduce(
-						(acc, v, ci) => (ci === c ? acc : acc + v),
-						0,
-					);
-					const prec = tp + fp === 0 ? 0 : tp / (tp + fp);
-					const rec = tp + fn === 0 ? 0 : tp / (tp + fn);
-					pSum += prec;
-					rSum += rec;
-				}
-				const precision = pSum / nClasses;
-				const recall = rSum / nClasses;
-				const f1 =
-					precision + recall === 0
-						? 0
-						: (2 * precision * recall) / (precision + recall);
-
-				// Real probability distributions via RF leaf aggregation
+				// Real probability distributions (RF leaf aggregation, boosted
+				// scores, Platt-scaled SVM margins, logistic sigmoid)
 				const probabilities =
 					typeof trainedModel.predictProba === 'function'
 						? trainedModel.predictProba(testX)
@@ -397,6 +522,8 @@ export default function ClassroomTestExportTab() {
 								arr[p] = 1;
 								return arr;
 						  });
+				const { precision, recall, f1, classReport, classRocCurves } =
+					scoreClasses(probabilities, predictions, testY, classLabels);
 				let rocCurve: any = undefined;
 				let prCurve: any = undefined;
 				if (nClasses === 2) {
@@ -420,10 +547,12 @@ export default function ClassroomTestExportTab() {
 						rawTrueIndices: testY,
 						rocCurve,
 						prCurve,
+						classRocCurves,
+						classReport,
 					},
 				);
 
-				console.log('✅ Random Forest testing completed successfully!');
+				console.log(`✅ ${modelType} testing completed successfully!`);
 			} else {
 				// Neural network test path refactored to avoid CSV reparsing & featureIndices mapping issues
 				console.log('🧠 Testing Neural Network model (refactored)...');
@@ -469,42 +598,50 @@ export default function ClassroomTestExportTab() {
 							'Prepared dataset missing and no CSV content available for fallback.',
 						);
 					}
-					const lines = csvContent.trim().split('\n');
-					if (!lines.length)
+					// Column order, labels and derived features as fitted by the
+					// service's pipeline
+					const nnPipeline: PreprocessingPipeline | null =
+						nnService.getPipeline();
+					const table = parseCSVTable(csvContent);
+					const { header: headers, rows: rowsData } = appendDerivedColumns(
+						table.header,
+						table.rows,
+						nnPipeline?.derivedFeatures || [],
+					);
+					if (!headers.length)
 						throw new Error('CSV content empty for NN fallback.');
-					const headers = lines[0].split(',').map((h: string) => h.trim());
 					const targetIdx = headers.indexOf(targetColumn);
 					if (targetIdx === -1)
 						throw new Error('Target column not found in fallback CSV.');
-					const featureIdxs = usedFeatures.map((f: string) =>
+					const featureNames: string[] =
+						nnPipeline?.matrixColumns || usedFeatures;
+					const featureIdxs = featureNames.map((f: string) =>
 						headers.indexOf(f),
 					);
+					const classLabels: string[] = nnPipeline?.classLabels || [];
 					if (featureIdxs.some((i) => i === -1))
 						throw new Error(
 							'One or more selected features missing in fallback CSV.',
 						);
-					const rowsData = lines
-						.slice(1)
-						.map((l: string) => l.split(',').map((c: string) => c.trim()));
-					const labelMap = new Map<string, number>();
-					let labelCounter = 0;
 					for (const r of rowsData) {
 						if (r.length !== headers.length) continue;
 						const feats: number[] = [];
 						let invalid = false;
-						for (const idx of featureIdxs) {
+						featureIdxs.forEach((idx, j) => {
 							const v = parseFloat(r[idx]);
-							if (isNaN(v)) {
-								invalid = true;
-								break;
-							}
+							if (isNaN(v) && dropsGaps(featureNames[j])) invalid = true;
 							feats.push(v);
-						}
+						});
 						if (invalid) continue;
-						const label = r[targetIdx];
-						if (!labelMap.has(label)) labelMap.set(label, labelCounter++);
+						const labelIndex = classLabels.indexOf(
+							mapTargetLabel(
+								(r[targetIdx] || '').toLowerCase().trim(),
+								labelMapping,
+							) ?? '',
+						);
+						if (labelIndex === -1) continue;
 						featureMatrix.push(feats);
-						trueIndices.push(labelMap.get(label)!);
+						trueIndices.push(labelIndex);
 						if (featureMatrix.length >= 100) break; // limit
 					}
 				}
@@ -529,28 +666,16 @@ export default function ClassroomTestExportTab() {
 					if (truth < nClasses && pred < nClasses) matrix[truth][pred]++;
 				}
 				const accuracy = correct / predictedIndices.length;
-				// Precision/Recall/F1 (macro)
-				let pSum = 0,
-					rSum = 0;
-				for (let c = 0; c < nClasses; c++) {
-					const tp = matrix[c][c];
-					let fp = 0,
-						fn = 0;
-					for (let r = 0; r < nClasses; r++) {
-						if (r !== c) fp += matrix[r][c];
-						if (r !== c) fn += matrix[c][r];
-					}
-					const prec = tp + fp === 0 ? 0 : tp / (tp + fp);
-					const rec = tp + fn === 0 ? 0 : tp / (tp + fn);
-					pSum += prec;
-					rSum += rec;
-				}
-				const precision = pSum / nClasses;
-				const recall = rSum / nClasses;
-				const f1 =
-					precision + recall === 0
-						? 0
-						: (2 * precision * recall) / (precision + recall);
+				const pipelineLabels = trainedPipeline?.classLabels || [];
+				const { precision, recall, f1, classReport, classRocCurves } =
+					scoreClasses(
+						probabilities,
+						predictedIndices,
+						trueIndices,
+						pipelineLabels.length === nClasses
+							? pipelineLabels
+							: Array.from({ length: nClasses }, (_, i) => `Class ${i}`),
+					);
 				let rocCurve: any = undefined;
 				let prCurve: any = undefined;
 				if (nClasses === 2) {
@@ -568,6 +693,8 @@ export default function ClassroomTestExportTab() {
 						rawTrueIndices: trueIndices,
 						rocCurve,
 						prCurve,
+						classRocCurves,
+						classReport,
 					},
 				);
 				console.log(
@@ -581,19 +708,23 @@ export default function ClassroomTestExportTab() {
 		}
 	}, [
 		trained,
-		testMetrics,
+		tested,
+		isRegressor,
 		rawProbs,
 		rawTruth,
 		// removed computeCurves dependency
 		classroomStore,
 		state,
 		modelType,
+		predictsFromPipeline,
+		predictClasses,
 		featureImportance,
+		trainedPipeline,
 	]);
 
 	// Export model (restored)
 	const handleExportModel = useCallback(async () => {
-		if (!testMetrics) return;
+		if (!tested) return;
 		try {
 			if (!JSZipLib) {
 				JSZipLib = (await import('jszip')).default;
@@ -612,36 +743,101 @@ export default function ClassroomTestExportTab() {
 				roc_curve: roc,
 				pr_curve: pr,
 				training_completed: trained,
+				...(isRegressor && {
+					task: 'regression',
+					regression_metrics: regressionMetrics,
+					// Network outputs are standardized: value = output * std + mean
+					// (null: the model predicts in target units)
+					target_scaling: trainedPipeline?.targetScale ?? null,
+				}),
 			};
+			const role = isRegressor ? 'regressor' : 'classifier';
 
 			let modelData: any;
 			if (modelType === 'random-forest') {
+				const summary = state.training.modelMetrics?.trainingSummary;
 				modelData = {
 					...baseModelData,
-					model_type: 'random_forest_exoplanet_classifier',
+					model_type: `random_forest_exoplanet_${role}`,
 					parameters: {
 						algorithm: 'random_forest',
-						n_estimators:
-							state.training.modelMetrics?.trainingSummary?.nEstimators || 100,
+						n_estimators: summary?.nEstimators || 100,
+						criterion: summary?.criterion,
+						oob_score: summary?.oobScore,
 						feature_importance: featureImportance,
 					},
 					feature_importance: featureImportance,
+					// Tree nodes and leaf class counts or values (RandomForestClassifier.fromJSON)
+					model: state.training.trainedModel?.toJSON?.(),
+				};
+			} else if (modelType === 'gradient-boosting') {
+				const summary = state.training.modelMetrics?.trainingSummary;
+				modelData = {
+					...baseModelData,
+					model_type: 'gradient_boosting_exoplanet_classifier',
+					parameters: {
+						algorithm: 'gradient_boosting',
+						n_estimators: summary?.nEstimators,
+						rounds_trained: summary?.roundsTrained,
+						feature_importance: featureImportance,
+					},
+					feature_importance: featureImportance,
+					// Trees, base scores and loss history (GradientBoostingClassifier.fromJSON)
+					model: state.training.trainedModel?.toJSON?.(),
+				};
+			} else if (modelType === 'logistic-regression') {
+				const summary = state.training.modelMetrics?.trainingSummary;
+				modelData = {
+					...baseModelData,
+					model_type: 'logistic_regression_exoplanet_classifier',
+					parameters: {
+						algorithm: 'logistic_regression',
+						penalty: summary?.penalty,
+						regularization: summary?.regularization,
+						coefficients: summary?.coefficients,
+						intercept: summary?.intercept,
+					},
+					feature_importance: featureImportance,
+					// Weights, bias and training config (LogisticRegression.load)
+					model: state.training.trainedModel?.export?.(),
+					regularization_path: summary?.regularizationPath,
+				};
+			} else if (modelType === 'svm') {
+				const summary = state.training.modelMetrics?.trainingSummary;
+				modelData = {
+					...baseModelData,
+					model_type: 'svm_exoplanet_classifier',
+					parameters: {
+						algorithm: 'support_vector_machine',
+						kernel: summary?.kernel,
+						support_vectors: summary?.supportVectors,
+					},
+					// Support vectors or weights plus Platt scaling (SupportVectorMachine.fromJSON)
+					model: state.training.trainedModel?.toJSON?.(),
 				};
 			} else {
 				modelData = {
 					...baseModelData,
-					model_type: 'neural_network_exoplanet_classifier',
+					model_type: `neural_network_exoplanet_${role}`,
 					parameters: {
 						architecture: 'neural_network',
 						layers: state.training.modelMetrics?.trainingSummary?.modelConfig
 							?.hiddenLayers || [128, 64, 32],
+						loss: state.training.modelMetrics?.trainingSummary?.regressionLoss,
 					},
 				};
 			}
 
+			// Preprocessing fitted with the model (feature order, scaling, labels)
+			const pipeline = state.training.pipeline;
+			if (pipeline) modelData.preprocessing = pipeline;
+
 			const zip = new JSZipLib();
 			const folder = zip.folder(folderName);
 			folder?.file('model.json', JSON.stringify(modelData, null, 2));
+			if (pipeline) {
+				folder?.file('preprocessing.json', JSON.stringify(pipeline, null, 2));
+			}
 
 			// Add model-specific metadata
 			if (modelType === 'random-forest') {
@@ -654,10 +850,52 @@ export default function ClassroomTestExportTab() {
 					'Random Forest Model Export\n' +
 						'Generated by Exchron Dashboard\n\n' +
 						'Files:\n' +
-						'- model.json: Main model configuration and metrics\n' +
-						'- feature_importance.json: Feature importance scores\n' +
+						'- model.json: Model configuration, metrics and trees\n' +
+						'- feature_importance.json: Impurity-decrease feature importance\n' +
+						'- preprocessing.json: Preprocessing pipeline for raw input rows\n' +
+						'- This README.txt\n\n' +
+						`Model Type: Random Forest${isRegressor ? ' regressor' : ''}\n` +
+						`Export Date: ${new Date().toISOString()}`,
+				);
+			} else if (modelType === 'gradient-boosting') {
+				folder?.file(
+					'feature_importance.json',
+					JSON.stringify(featureImportance || {}, null, 2),
+				);
+				folder?.file(
+					'README.txt',
+					'Gradient Boosting Model Export\n' +
+						'Generated by Exchron Dashboard\n\n' +
+						'Files:\n' +
+						'- model.json: Model configuration, metrics and boosted trees\n' +
+						'- feature_importance.json: Split-gain feature importance\n' +
+						'- preprocessing.json: Preprocessing pipeline for raw input rows\n' +
+						'- This README.txt\n\n' +
+						'Model Type: Gradient Boosting\n' +
+						`Export Date: ${new Date().toISOString()}`,
+				);
+			} else if (modelType === 'logistic-regression') {
+				folder?.file(
+					'README.txt',
+					'Logistic Regression Model Export\n' +
+						'Generated by Exchron Dashboard\n\n' +
+						'Files:\n' +
+						'- model.json: Model configuration, metrics, coefficients and regularization path\n' +
+						'- preprocessing.json: Preprocessing pipeline for raw input rows (standardization included)\n' +
 						'- This README.txt\n\n' +
-						'Model Type: Random Forest\n' +
+						'Model Type: Logistic Regression\n' +
+						`Export Date: ${new Date().toISOString()}`,
+				);
+			} else if (modelType === 'svm') {
+				folder?.file(
+					'README.txt',
+					'Support Vector Machine Model Export\n' +
+						'Generated by Exchron Dashboard\n\n' +
+						'Files:\n' +
+						'- model.json: Model configuration, metrics, support vectors and Platt scaling\n' +
+						'- preprocessing.json: Preprocessing pipeline for raw input rows (standardization included)\n' +
+						'- This README.txt\n\n' +
+						'Model Type: Support Vector Machine\n' +
 						`Export Date: ${new Date().toISOString()}`,
 				);
 			} else {
@@ -667,8 +905,12 @@ export default function ClassroomTestExportTab() {
 						'Generated by Exchron Dashboard\n\n' +
 						'Files:\n' +
 						'- model.json: Main model configuration and metrics\n' +
+						'- preprocessing.json: Preprocessing pipeline for raw input rows\n' +
 						'- This README.txt\n\n' +
-						'Model Type: Neural Network\n' +
+						`Model Type: Neural Network${isRegressor ? ' regressor' : ''}\n` +
+						(trainedPipeline?.targetScale
+							? 'Outputs are standardized targets: multiply by targetScale.std and add targetScale.mean (preprocessing.json)\n'
+							: '') +
 						`Export Date: ${new Date().toISOString()}`,
 				);
 			}
@@ -685,44 +927,66 @@ export default function ClassroomTestExportTab() {
 		} catch (e) {
 			console.error('Export failed', e);
 		}
-	}, [testMetrics, confusion, roc, pr, trained]);
+	}, [
+		tested,
+		testMetrics,
+		confusion,
+		roc,
+		pr,
+		trained,
+		state.training.pipeline,
+		isRegressor,
+		regressionMetrics,
+		trainedPipeline,
+	]);
 
-	// Confusion matrix heatmap (restored)
+	// Confusion matrix heatmap (restored); with more than two classes cells
+	// are shaded by their share of the true class, so small classes stay
+	// readable next to large ones
 	const confusionHeatmap = useMemo(() => {
 		if (!confusion || !confusion.length) return null;
 		const n = confusion.length;
 		const flat = confusion.flat();
 		const max = Math.max(...flat, 1);
-		const cell = 46;
-		const gridTemplate = `repeat(${n + 1}, ${cell}px)`;
+		const byRow = n > 2;
+		const cell = n > 4 ? 36 : 46;
+		const labels =
+			trainedPipeline?.classLabels?.length === n
+				? trainedPipeline.classLabels
+				: Array.from({ length: n }, (_, i) => String(i));
 		return (
 			<div className="flex flex-col items-center">
 				<div className="flex items-start">
 					<div
 						className="grid relative"
 						style={{
-							gridTemplateColumns: gridTemplate,
-							gridTemplateRows: gridTemplate,
+							gridTemplateColumns: `minmax(${cell}px, auto) repeat(${n}, ${cell}px)`,
+							gridTemplateRows: `minmax(${cell}px, auto) repeat(${n}, ${cell}px)`,
 						}}
 					>
 						<div />
-						{Array.from({ length: n }).map((_, col) => (
+						{labels.map((label, col) => (
 							<div
 								key={`c-label-${col}`}
-								className="flex items-center justify-center text-[11px] font-medium text-gray-600 tracking-wide"
+								className="flex items-end justify-center pb-1 text-[11px] font-medium text-gray-600 tracking-wide text-center break-words leading-tight"
+								title={`Predicted ${label}`}
 							>
-								Pred {col}
+								Pred {label}
 							</div>
 						))}
 						{confusion.map((row, r) => (
 							<React.Fragment key={`r-${r}`}>
-								<div className="flex items-center justify-center text-[11px] font-medium text-gray-600 tracking-wide">
-									True {r}
+								<div
+									className="flex items-center justify-end pr-2 text-[11px] font-medium text-gray-600 tracking-wide text-right leading-tight"
+									title={`True ${labels[r]}`}
+								>
+									True {labels[r]}
 								</div>
 								{row.map((val, c) => {
-									const intensity = val === 0 ? 0 : 0.15 + 0.85 * (val / max);
-									const bg = `rgba(37,99,235,${intensity.toFixed(3)})`;
 									const rowTotal = row.reduce((a, b) => a + b, 0) || 1;
+									const share = byRow ? val / rowTotal : val / max;
+									const intensity = val === 0 ? 0 : 0.15 + 0.85 * share;
+									const bg = `rgba(37,99,235,${intensity.toFixed(3)})`;
 									const pct = ((val / rowTotal) * 100).toFixed(1);
 									const isDiag = r === c;
 									return (
@@ -732,7 +996,7 @@ export default function ClassroomTestExportTab() {
 												isDiag ? 'ring-1 ring-offset-1 ring-black/30' : ''
 											}`}
 											style={{ backgroundColor: bg, width: cell, height: cell }}
-											title={`True ${r} / Pred ${c}: ${val} (${pct}% of row)`}
+											title={`True ${labels[r]} / Pred ${labels[c]}: ${val} (${pct}% of row)`}
 										>
 											<span className="text-white drop-shadow-sm mix-blend-luminosity">
 												{val}
@@ -757,11 +1021,13 @@ export default function ClassroomTestExportTab() {
 					<span className="text-[10px] text-gray-500">High</span>
 				</div>
 				<p className="text-[11px] text-gray-600 mt-2 tracking-wide font-medium">
-					Confusion Matrix Heatmap
+					{byRow
+						? 'Confusion Matrix Heatmap (shaded by share of each true class)'
+						: 'Confusion Matrix Heatmap'}
 				</p>
 			</div>
 		);
-	}, [confusion]);
+	}, [confusion, trainedPipeline]);
 
 	// Curve plot (restored)
 	const CurvePlot: React.FC<{
@@ -839,6 +1105,106 @@ export default function ClassroomTestExportTab() {
 		);
 	};
 
+	// One-vs-rest ROC curves of a multiclass model, on fixed 0..1 axes
+	const ROC_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c'];
+	const MultiRocPlot: React.FC<{ curves: ClassRocCurve[] }> = ({ curves }) => {
+		const w = 220,
+			h = 160;
+		const toPoints = (curve: ClassRocCurve) =>
+			curve.fpr
+				.map((fx, i) => {
+					const px = fx * (w - 30) + 25;
+					const py = h - 25 - curve.tpr[i] * (h - 35);
+					return `${px},${py}`;
+				})
+				.join(' ');
+		return (
+			<div className="flex flex-col items-center">
+				<svg
+					width={w}
+					height={h}
+					className="overflow-visible bg-white border rounded"
+				>
+					<line
+						x1={25}
+						y1={h - 25}
+						x2={w - 5}
+						y2={10}
+						stroke="#ddd"
+						strokeDasharray="3 3"
+					/>
+					{curves.map((curve, i) => (
+						<polyline
+							key={curve.classLabel}
+							fill="none"
+							stroke={ROC_COLORS[i % ROC_COLORS.length]}
+							strokeWidth={1.5}
+							points={toPoints(curve)}
+						/>
+					))}
+					<line x1={25} y1={h - 25} x2={w - 5} y2={h - 25} stroke="#999" />
+					<line x1={25} y1={h - 25} x2={25} y2={10} stroke="#999" />
+					<text
+						x={w / 2}
+						y={h - 5}
+						textAnchor="middle"
+						fontSize={10}
+						fill="#555"
+					>
+						FPR
+					</text>
+					<text
+						x={10}
+						y={h / 2}
+						transform={`rotate(-90 10 ${h / 2})`}
+						textAnchor="middle"
+						fontSize={10}
+						fill="#555"
+					>
+						TPR
+					</text>
+				</svg>
+				<div className="mt-2 flex flex-wrap justify-center gap-x-3 gap-y-1 text-[10px] text-gray-600">
+					{curves.map((curve, i) => (
+						<span key={curve.classLabel} className="flex items-center gap-1">
+							<span
+								className="inline-block w-2 h-2 rounded-full"
+								style={{ backgroundColor: ROC_COLORS[i % ROC_COLORS.length] }}
+							/>
+							{curve.classLabel} ({curve.auc.toFixed(3)})
+						</span>
+					))}
+				</div>
+			</div>
+		);
+	};
+
+	// ROC box: the binary curve, or one curve per class (one-vs-rest)
+	const classRocCurves = state.testExport.classRocCurves;
+	const classReport = state.testExport.classReport;
+	const multiclass = (classReport?.classLabels.length ?? 0) > 2;
+	const rocBadge =
+		roc?.auc != null
+			? `AUC ${roc.auc.toFixed(3)}`
+			: classReport?.macroAuc != null
+			? `Macro AUC ${classReport.macroAuc.toFixed(3)}`
+			: undefined;
+	const rocContent = roc ? (
+		<CurvePlot
+			x={roc.fpr}
+			y={roc.tpr}
+			xLabel="FPR"
+			yLabel="TPR"
+			color="#2563eb"
+		/>
+	) : classRocCurves?.length ? (
+		<MultiRocPlot curves={classRocCurves} />
+	) : (
+		<div className="text-xs text-gray-500 text-center px-4">
+			Only shown for models with class probabilities
+		</div>
+	);
+
 	// Export button (restored)
 	const ExportButton: React.FC<{
 		onClick?: () => void;
@@ -862,9 +1228,9 @@ export default function ClassroomTestExportTab() {
 					<div className="flex justify-center gap-4">
 						<button
 							onClick={handleTestModel}
-							disabled={!trained || testMetrics != null || isTesting}
+							disabled={!trained || tested || isTesting}
 							className={`px-6 py-3 rounded-lg font-medium flex items-center gap-2 ${
-								!trained || testMetrics != null || isTesting
+								!trained || tested || isTesting
 									? 'bg-gray-300 text-gray-600 cursor-not-allowed'
 									: 'bg-green-600 text-white hover:bg-green-700'
 							}`}
@@ -883,15 +1249,15 @@ export default function ClassroomTestExportTab() {
 							</svg>
 							{isTesting
 								? 'Testing...'
-								: testMetrics
+								: tested
 								? 'Model Already Tested'
 								: 'Test Model'}
 						</button>
 						<button
 							onClick={handleExportModel}
-							disabled={!testMetrics}
+							disabled={!tested}
 							className={`px-6 py-3 rounded-lg font-medium flex items-center gap-2 ${
-								!testMetrics
+								!tested
 									? 'bg-gray-300 text-gray-600 cursor-not-allowed'
 									: 'bg-blue-600 text-white hover:bg-blue-700'
 							}`}
@@ -929,21 +1295,21 @@ export default function ClassroomTestExportTab() {
 									},
 									testMetrics.precision != null
 										? {
-												label: 'Precision',
+												label: multiclass ? 'Macro Precision' : 'Precision',
 												value: testMetrics.precision,
 												color: 'text-blue-600',
 										  }
 										: null,
 									testMetrics.recall != null
 										? {
-												label: 'Recall',
+												label: multiclass ? 'Macro Recall' : 'Recall',
 												value: testMetrics.recall,
 												color: 'text-purple-600',
 										  }
 										: null,
 									testMetrics.f1 != null
 										? {
-												label: 'F1 Score',
+												label: multiclass ? 'Macro F1' : 'F1 Score',
 												value: testMetrics.f1,
 												color: 'text-orange-600',
 										  }
@@ -969,6 +1335,15 @@ export default function ClassroomTestExportTab() {
 										</div>
 									))}
 							</div>
+							{imbalance && imbalance.strategy !== 'none' && (
+								<div className="p-3 bg-blue-50 border border-blue-200 rounded text-xs text-blue-700">
+									Trained with class-imbalance handling:{' '}
+									{describeImbalance(imbalance)}. The test rows keep the
+									original class balance, so these metrics describe the real
+									class mix; rebalancing usually trades some accuracy and
+									precision for recall on the minority class.
+								</div>
+							)}
 
 							{/* All Visualizations */}
 							<div className="mt-8 grid md:grid-cols-3 gap-6">
@@ -978,7 +1353,7 @@ export default function ClassroomTestExportTab() {
 										title: 'Confusion Matrix',
 										content: confusionHeatmap,
 									},
-									modelType === 'random-forest' && featureImportance
+									showsImportance
 										? {
 												key: 'importance',
 												title: 'Feature Importance',
@@ -1024,62 +1399,30 @@ export default function ClassroomTestExportTab() {
 										: {
 												key: 'roc',
 												title: 'ROC Curve',
-												badge:
-													roc?.auc != null
-														? `AUC ${roc.auc.toFixed(3)}`
-														: undefined,
-												content: roc ? (
-													<CurvePlot
-														x={roc.fpr}
-														y={roc.tpr}
-														xLabel="FPR"
-														yLabel="TPR"
-														color="#2563eb"
-													/>
-												) : (
-													<div className="text-xs text-gray-500 text-center px-4">
-														Only shown for binary classification
-													</div>
-												),
+												badge: rocBadge,
+												content: rocContent,
 										  },
 									{
 										key: 'pr',
-										title:
-											modelType === 'random-forest'
-												? 'ROC Curve'
-												: 'Precision-Recall Curve',
-										badge:
-											modelType === 'random-forest' && roc?.auc != null
-												? `AUC ${roc.auc.toFixed(3)}`
-												: undefined,
-										content:
-											modelType === 'random-forest' ? (
-												roc ? (
-													<CurvePlot
-														x={roc.fpr}
-														y={roc.tpr}
-														xLabel="FPR"
-														yLabel="TPR"
-														color="#2563eb"
-													/>
-												) : (
-													<div className="text-xs text-gray-500 text-center px-4">
-														Only shown for binary classification
-													</div>
-												)
-											) : pr ? (
-												<CurvePlot
-													x={pr.recall}
-													y={pr.precision}
-													xLabel="Recall"
-													yLabel="Precision"
-													color="#16a34a"
-												/>
-											) : (
-												<div className="text-xs text-gray-500 text-center px-4">
-													Only shown for binary classification
-												</div>
-											),
+										title: showsImportance
+											? 'ROC Curve'
+											: 'Precision-Recall Curve',
+										badge: showsImportance ? rocBadge : undefined,
+										content: showsImportance ? (
+											rocContent
+										) : pr ? (
+											<CurvePlot
+												x={pr.recall}
+												y={pr.precision}
+												xLabel="Recall"
+												yLabel="Precision"
+												color="#16a34a"
+											/>
+										) : (
+											<div className="text-xs text-gray-500 text-center px-4">
+												Only shown for binary classification
+											</div>
+										),
 									},
 								]
 									.filter(Boolean)
@@ -1107,10 +1450,90 @@ export default function ClassroomTestExportTab() {
 									))}
 							</div>
 
+							{/* Per-class metrics (multiclass models) */}
+							{classReport && (
+								<div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+									<h4 className="font-medium mb-3 text-sm">
+										Per-Class Metrics
+									</h4>
+									<ClassReportTable report={classReport} />
+								</div>
+							)}
+
+							{/* Decision threshold (binary models with probabilities) */}
+							{rawProbs && rawTruth && rawProbs[0]?.length === 2 && (
+								<div className="bg-white border border-gray-300 rounded-lg p-4 shadow-sm">
+									<h4 className="font-medium mb-3 text-sm">
+										Decision Threshold
+									</h4>
+									<ThresholdPanel
+										probabilities={rawProbs}
+										truths={rawTruth}
+										classLabels={trainedPipeline?.classLabels}
+										threshold={state.testExport.threshold}
+										onThresholdChange={(t) => classroomStore.setThreshold(t)}
+									/>
+								</div>
+							)}
+
 							{/* Export options removed per updated requirements */}
 						</div>
 					)}
-					{!testMetrics && (
+					{regressionMetrics && regressionPoints && (
+						<div className="space-y-6">
+							{/* Regression metrics summary (target units) */}
+							<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+								{[
+									{
+										label: 'RMSE',
+										value: formatTargetValue(regressionMetrics.rmse),
+										color: 'text-green-600',
+									},
+									{
+										label: 'MAE',
+										value: formatTargetValue(regressionMetrics.mae),
+										color: 'text-blue-600',
+									},
+									{
+										label: 'R²',
+										value: regressionMetrics.r2.toFixed(3),
+										color: 'text-purple-600',
+									},
+									{
+										label: 'Test Rows',
+										value: regressionMetrics.count.toLocaleString(),
+										color: 'text-orange-600',
+									},
+								].map((m) => (
+									<div
+										key={m.label}
+										className="rounded-lg border border-gray-300 bg-white px-3 py-4 text-center shadow-sm"
+									>
+										<div
+											className={`text-2xl font-bold tracking-tight ${m.color}`}
+										>
+											{m.value}
+										</div>
+										<div className="mt-1 text-[11px] font-medium text-gray-600 tracking-wide">
+											{m.label}
+										</div>
+									</div>
+								))}
+							</div>
+							<p className="text-xs text-gray-600">
+								RMSE and MAE are in the units of{' '}
+								{trainedPipeline?.targetColumn || 'the target'}; R² is the share
+								of its variance on the test rows that the model explains (0: no
+								better than predicting the mean).
+							</p>
+							<RegressionPlots
+								actual={regressionPoints.actual}
+								predicted={regressionPoints.predicted}
+								target={trainedPipeline?.targetColumn || 'target'}
+							/>
+						</div>
+					)}
+					{!tested && (
 						<div className="flex flex-col items-center justify-center py-20">
 							{isTesting ? (
 								<div className="flex flex-col items-center">
@@ -1131,6 +1554,20 @@ export default function ClassroomTestExportTab() {
 				</CardContent>
 			</Card>
 
+			{/* Transfer to another mission (Kepler <-> TESS) */}
+			{trained && trainedPipeline && (
+				<Card className="mt-6">
+					<CardTitle>Cross-Mission Evaluation</CardTitle>
+					<CardContent>
+						<CrossMissionEvaluation
+							pipeline={trainedPipeline}
+							currentDatasetId={state.dataInput.selectedDataSource}
+							predictRecords={predictRecords}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
 			{/* Fixed navigation buttons */}
 			<div className="fixed bottom-6 right-6 flex flex-col sm:flex-row gap-3 z-40">
 				<Link
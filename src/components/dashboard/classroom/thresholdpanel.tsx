@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { calculateEvaluationSummary } from '../../../lib/ml/pipeline/metrics';
+
+/**
+ * Decision threshold for binary models with calibrated probabilities:
+ * re-scores the held-out predictions at the chosen cut-off.
+ */
+export default function ThresholdPanel({
+	probabilities,
+	truths,
+	classLabels,
+	threshold,
+	onThresholdChange,
+}: {
+	probabilities: number[][]; // class distribution per held-out row
+	truths: number[]; // true class indices parallel to probabilities
+	classLabels?: string[];
+	threshold: number;
+	onThresholdChange: (threshold: number) => void;
+}) {
+	const summary = useMemo(() => {
+		const scores = probabilities.map((p) => p[1]);
+		return calculateEvaluationSummary(
+			scores,
+			scores.map((s) => (s >= threshold ? 1 : 0)),
+			truths,
+			threshold,
+			classLabels,
+		);
+	}, [probabilities, truths, classLabels, threshold]);
+
+	const positiveLabel = classLabels?.[1] ?? 'class 1';
+	const [[tn, fp], [fn, tp]] = summary.confusionMatrix;
+
+	return (
+		<div className="space-y-4">
+			<div>
+				<div className="flex items-center justify-between text-sm mb-2">
+					<span>
+						Predict <span className="font-medium">{positiveLabel}</span> when
+						its probability is at least
+					</span>
+					<span className="font-mono font-medium">{threshold.toFixed(2)}</span>
+				</div>
+				<input
+					type="range"
+					min={0.01}
+					max={0.99}
+					step={0.01}
+					value={threshold}
+					onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+					className="w-full"
+				/>
+			</div>
+
+			<div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+				{[
+					{ label: 'Accuracy', value: summary.accuracy },
+					{ label: 'Precision', value: summary.precision },
+					{ label: 'Recall', value: summary.recall },
+					{ label: 'F1 Score', value: summary.f1 },
+				].map((m) => (
+					<div key={m.label} className="bg-gray-50 border rounded-lg p-3">
+						<div className="text-lg font-bold">
+							{(m.value * 100).toFixed(1)}%
+						</div>
+						<div className="text-[11px] text-gray-600">{m.label}</div>
+					</div>
+				))}
+			</div>
+
+			<div className="grid grid-cols-2 gap-2 text-xs max-w-sm">
+				<div className="p-2 rounded bg-green-50 border border-green-200">
+					True positives: {tp}
+				</div>
+				<div className="p-2 rounded bg-red-50 border border-red-200">
+					False positives: {fp}
+				</div>
+				<div className="p-2 rounded bg-red-50 border border-red-200">
+					False negatives: {fn}
+				</div>
+				<div className="p-2 rounded bg-green-50 border border-green-200">
+					True negatives: {tn}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -7,409 +7,97 @@ import { Card, CardTitle, CardContent } from '../../ui/Card';
 import { useClassroomStore } from '../../../lib/ml/state/classroomStore';
 import {
 	NeuralNetworkService,
+	NeuralNetworkTrainingOptions,
 	TrainingProgress,
 } from '../../../lib/ml/neuralNetwork';
+import { parseCSVTable } from '../../../lib/ml/parsing/tokenizer.mjs';
+import { PreprocessingPipeline } from '../../../lib/ml/pipeline/pipeline';
+import {
+	crossValidate,
+	evaluateFoldPredictions,
+} from '../../../lib/ml/pipeline/crossValidation';
+import {
+	appendDerivedColumns,
+	isDerivedFeature,
+	isDerivedFeatureAvailable,
+} from '../../../lib/derivedFeatures';
+import {
+	detectGroupLeakage,
+	groupKeys,
+	isGroupColumnAvailable,
+	leakageGroupColumn,
+} from '../../../lib/ml/pipeline/leakage';
+import {
+	createRandom,
+	deriveSeed,
+	groupStratifiedSplit,
+	randomSeed,
+	RandomSource,
+	stratifiedSplit,
+} from '../../../lib/ml/core/math';
+import {
+	RandomForestClassifier,
+	RandomForestRegressor,
+} from '../../../lib/ml/models/randomForest';
+import { RandomForestWorkerPool } from '../../../lib/ml/workers/randomForestPool';
+import {
+	getActiveNeuralNetworkSession,
+	NeuralNetworkWorkerResult,
+	startNeuralNetworkSession,
+	SupersededSessionError,
+} from '../../../lib/ml/workers/neuralNetworkSession';
+import { GradientBoostingClassifier } from '../../../lib/ml/models/gradientBoosting';
+import { SupportVectorMachine } from '../../../lib/ml/models/svm';
+import {
+	LogisticRegression,
+	LogisticRegressionConfig,
+	regularizationStrengths,
+} from '../../../lib/ml/models/logistic';
+import {
+	calculateClassificationReport,
+	calculateEvaluationSummary,
+	calculateRegressionMetrics,
+} from '../../../lib/ml/pipeline/metrics';
+import { mapTargetLabel, orderClassLabels } from '../../../lib/datasets/labels';
+import {
+	DEFAULT_IMBALANCE,
+	describeImbalance,
+	keepRegressionRows,
+	rebalanceTrainingRows,
+} from '../../../lib/ml/pipeline/imbalance';
 import * as tf from '@tensorflow/tfjs';
-
-interface ModelConfig {
-	hiddenLayers: number[];
-	learningRate: number;
-	epochs: number;
-	batchSize: number;
-	optimizer: string;
-	activationFunction: string;
-	dropoutRate: number;
-	validationSplit: number;
-}
-
-interface RandomForestConfig {
-	nEstimators: number;
-	maxDepth: number;
-	minSamplesSplit: number;
-	minSamplesLeaf: number;
-	maxFeatures: string | number;
-	bootstrap: boolean;
-	randomState?: number;
-}
-
-// Simple Random Forest implementation
-class SimpleRandomForest {
-	private trees: any[] = [];
-	private config: RandomForestConfig;
-	private featureNames: string[] = [];
-	private classLabels: string[] = [];
-
-	constructor(config: RandomForestConfig) {
-		this.config = config;
-	}
-
-	async fit(
-		X: number[][],
-		y: number[],
-		featureNames: string[],
-		onTreeComplete?: (treeIndex: number, oobScore?: number) => void,
-	) {
-		this.featureNames = featureNames;
-		this.classLabels = [...new Set(y)].map(String);
-		this.trees = [];
-
-		const nSamples = X.length;
-		const nFeatures = X[0].length;
-
-		// Calculate max features
-		let maxFeatures: number;
-		if (this.config.maxFeatures === 'sqrt') {
-			maxFeatures = Math.floor(Math.sqrt(nFeatures));
-		} else if (this.config.maxFeatures === 'log2') {
-			maxFeatures = Math.floor(Math.log2(nFeatures));
-		} else if (typeof this.config.maxFeatures === 'number') {
-			maxFeatures = Math.min(this.config.maxFeatures, nFeatures);
-		} else {
-			maxFeatures = nFeatures;
-		}
-
-		for (let i = 0; i < this.config.nEstimators; i++) {
-			// Bootstrap sampling
-			const bootstrapIndices: number[] = [];
-			const oobIndices: number[] = [];
-
-			if (this.config.bootstrap) {
-				for (let j = 0; j < nSamples; j++) {
-					bootstrapIndices.push(Math.floor(Math.random() * nSamples));
-				}
-				// Track out-of-bag samples
-				for (let j = 0; j < nSamples; j++) {
-					if (!bootstrapIndices.includes(j)) {
-						oobIndices.push(j);
-					}
-				}
-			} else {
-				for (let j = 0; j < nSamples; j++) {
-					bootstrapIndices.push(j);
-				}
-			}
-
-			const bootstrapX = bootstrapIndices.map((idx) => X[idx]);
-			const bootstrapY = bootstrapIndices.map((idx) => y[idx]);
-
-			// Feature sampling for this tree
-			const featureIndices = this.sampleFeatures(nFeatures, maxFeatures);
-
-			// Build decision tree
-			const tree = this.buildTree(
-				bootstrapX.map((row) => featureIndices.map((idx) => row[idx])),
-				bootstrapY,
-				0,
-				featureIndices,
-			);
-
-			this.trees.push({
-				tree,
-				featureIndices,
-				oobIndices,
-			});
-
-			// Calculate OOB score for this tree
-			let oobScore: number | undefined;
-			if (oobIndices.length > 0) {
-				const oobPredictions = oobIndices.map((idx) => {
-					const sample = featureIndices.map((fIdx) => X[idx][fIdx]);
-					return this.predictTree(tree, sample);
-				});
-				const oobActual = oobIndices.map((idx) => y[idx]);
-				const correct = oobPredictions.filter(
-					(pred, i) => pred === oobActual[i],
-				).length;
-				oobScore = correct / oobIndices.length;
-			}
-
-			if (onTreeComplete) {
-				onTreeComplete(i, oobScore);
-			}
-
-			// Add small delay to allow UI updates
-			await new Promise((resolve) => setTimeout(resolve, 10));
-		}
-	}
-
-	private sampleFeatures(totalFeatures: number, maxFeatures: number): number[] {
-		const indices = Array.from({ length: totalFeatures }, (_, i) => i);
-		const sampled: number[] = [];
-
-		for (let i = 0; i < maxFeatures; i++) {
-			const randomIndex = Math.floor(Math.random() * indices.length);
-			sampled.push(indices.splice(randomIndex, 1)[0]);
-		}
-
-		return sampled.sort((a, b) => a - b);
-	}
-
-	private buildTree(
-		X: number[][],
-		y: number[],
-		depth: number,
-		featureIndices: number[],
-	): any {
-		// Stopping criteria
-		if (
-			depth >= this.config.maxDepth ||
-			X.length < this.config.minSamplesSplit ||
-			new Set(y).size === 1
-		) {
-			return this.createLeaf(y);
-		}
-
-		// Find best split
-		const bestSplit = this.findBestSplit(X, y, featureIndices);
-
-		if (!bestSplit || X.length < this.config.minSamplesLeaf * 2) {
-			return this.createLeaf(y);
-		}
-
-		// Split data
-		const leftIndices = X.map((row, i) =>
-			row[bestSplit.featureIdx] <= bestSplit.threshold ? i : -1,
-		).filter((i) => i !== -1);
-		const rightIndices = X.map((row, i) =>
-			row[bestSplit.featureIdx] > bestSplit.threshold ? i : -1,
-		).filter((i) => i !== -1);
-
-		if (
-			leftIndices.length < this.config.minSamplesLeaf ||
-			rightIndices.length < this.config.minSamplesLeaf
-		) {
-			return this.createLeaf(y);
-		}
-
-		const leftX = leftIndices.map((i) => X[i]);
-		const leftY = leftIndices.map((i) => y[i]);
-		const rightX = rightIndices.map((i) => X[i]);
-		const rightY = rightIndices.map((i) => y[i]);
-
-		return {
-			type: 'split',
-			featureIdx: bestSplit.featureIdx,
-			threshold: bestSplit.threshold,
-			left: this.buildTree(leftX, leftY, depth + 1, featureIndices),
-			right: this.buildTree(rightX, rightY, depth + 1, featureIndices),
-		};
-	}
-
-	private findBestSplit(
-		X: number[][],
-		y: number[],
-		featureIndices: number[],
-	): any {
-		let bestGini = Infinity;
-		let bestSplit: any = null;
-
-		for (let featureIdx = 0; featureIdx < X[0].length; featureIdx++) {
-			const values = [...new Set(X.map((row) => row[featureIdx]))].sort(
-				(a, b) => a - b,
-			);
-
-			for (let i = 0; i < values.length - 1; i++) {
-				const threshold = (values[i] + values[i + 1]) / 2;
-				const gini = this.calculateSplitGini(X, y, featureIdx, threshold);
-
-				if (gini < bestGini) {
-					bestGini = gini;
-					bestSplit = { featureIdx, threshold, gini };
-				}
-			}
-		}
-
-		return bestSplit;
-	}
-
-	private calculateSplitGini(
-		X: number[][],
-		y: number[],
-		featureIdx: number,
-		threshold: number,
-	): number {
-		const leftY: number[] = [];
-		const rightY: number[] = [];
-
-		for (let i = 0; i < X.length; i++) {
-			if (X[i][featureIdx] <= threshold) {
-				leftY.push(y[i]);
-			} else {
-				rightY.push(y[i]);
-			}
-		}
-
-		const totalSamples = y.length;
-		const leftWeight = leftY.length / totalSamples;
-		const rightWeight = rightY.length / totalSamples;
-
-		return (
-			leftWeight * this.calculateGini(leftY) +
-			rightWeight * this.calculateGini(rightY)
-		);
-	}
-
-	private calculateGini(y: number[]): number {
-		if (y.length === 0) return 0;
-
-		const counts = new Map<number, number>();
-		for (const label of y) {
-			counts.set(label, (counts.get(label) || 0) + 1);
-		}
-
-		let gini = 1;
-		for (const count of counts.values()) {
-			const probability = count / y.length;
-			gini -= probability * probability;
-		}
-
-		return gini;
-	}
-
-	private createLeaf(y: number[]): any {
-		const counts = new Map<number, number>();
-		for (const label of y) {
-			counts.set(label, (counts.get(label) || 0) + 1);
-		}
-
-		let maxCount = 0;
-		let prediction = 0;
-		for (const [label, count] of counts.entries()) {
-			if (count > maxCount) {
-				maxCount = count;
-				prediction = label;
-			}
-		}
-
-		return {
-			type: 'leaf',
-			prediction,
-			samples: y.length,
-			distribution: counts,
-		};
-	}
-
-	predict(X: number[][]): number[] {
-		return X.map((sample) => this.predictSample(sample));
-	}
-
-	predictSample(sample: number[]): number {
-		const predictions = this.trees.map((treeInfo) => {
-			const treeSample = treeInfo.featureIndices.map(
-				(fIdx: number) => sample[fIdx],
-			);
-			return this.predictTree(treeInfo.tree, treeSample);
-		});
-
-		// Majority vote
-		const counts = new Map<number, number>();
-		for (const pred of predictions) {
-			counts.set(pred, (counts.get(pred) || 0) + 1);
-		}
-
-		let maxCount = 0;
-		let finalPrediction = 0;
-		for (const [label, count] of counts.entries()) {
-			if (count > maxCount) {
-				maxCount = count;
-				finalPrediction = label;
-			}
-		}
-
-		return finalPrediction;
-	}
-
-	// New: return per-class probability distributions by aggregating
-	// leaf distributions across all trees (summing counts then normalizing)
-	predictProba(X: number[][]): number[][] {
-		if (!this.trees.length) return X.map(() => [1]);
-		const nTrees = this.trees.length;
-		// Derive numeric class ids from stored labels (they were numbers originally)
-		const classes = this.classLabels.map((c) => Number(c));
-		return X.map((sample) => {
-			// aggregate counts
-			const aggCounts = new Map<number, number>();
-			for (const treeInfo of this.trees) {
-				// map sample to tree's feature subset order
-				const treeSample = treeInfo.featureIndices.map(
-					(fIdx: number) => sample[fIdx],
-				);
-				let node = treeInfo.tree;
-				while (node.type !== 'leaf') {
-					if (treeSample[node.featureIdx] <= node.threshold) node = node.left;
-					else node = node.right;
-				}
-				// node.distribution is Map<label,count]
-				for (const [label, count] of node.distribution.entries()) {
-					aggCounts.set(label, (aggCounts.get(label) || 0) + count);
-				}
-			}
-			const total =
-				Array.from(aggCounts.values()).reduce((a, b) => a + b, 0) || 1;
-			return classes.map((cls) => (aggCounts.get(cls) || 0) / total);
-		});
-	}
-
-	private predictTree(tree: any, sample: number[]): number {
-		if (tree.type === 'leaf') {
-			return tree.prediction;
-		}
-
-		if (sample[tree.featureIdx] <= tree.threshold) {
-			return this.predictTree(tree.left, sample);
-		} else {
-			return this.predictTree(tree.right, sample);
-		}
-	}
-
-	getFeatureImportance(): Record<string, number> {
-		const importance = new Map<number, number>();
-
-		// Initialize importance for all features
-		for (let i = 0; i < this.featureNames.length; i++) {
-			importance.set(i, 0);
-		}
-
-		// Calculate feature importance based on splits
-		for (const treeInfo of this.trees) {
-			this.calculateTreeImportance(
-				treeInfo.tree,
-				treeInfo.featureIndices,
-				importance,
-			);
-		}
-
-		// Normalize and convert to feature names
-		const totalImportance = Array.from(importance.values()).reduce(
-			(sum, val) => sum + val,
-			0,
-		);
-		const result: Record<string, number> = {};
-
-		for (let i = 0; i < this.featureNames.length; i++) {
-			const imp = importance.get(i) || 0;
-			result[this.featureNames[i]] =
-				totalImportance > 0 ? imp / totalImportance : 0;
-		}
-
-		return result;
-	}
-
-	private calculateTreeImportance(
-		tree: any,
-		featureIndices: number[],
-		importance: Map<number, number>,
-	) {
-		if (tree.type === 'leaf') return;
-
-		const globalFeatureIdx = featureIndices[tree.featureIdx];
-		const currentImportance = importance.get(globalFeatureIdx) || 0;
-		importance.set(globalFeatureIdx, currentImportance + 1);
-
-		this.calculateTreeImportance(tree.left, featureIndices, importance);
-		this.calculateTreeImportance(tree.right, featureIndices, importance);
-	}
-}
+import CrossValidationPanel from './crossvalidation';
+import LeakageReportPanel from './leakagereport';
+import RegularizationPathChart from './regularizationpath';
+import ClassReportTable from './classreport';
+import type {
+	CrossValidationConfig,
+	GradientBoostingHyperparams,
+	ImbalanceReport,
+	ImputationStrategy,
+	LabelMapping,
+	LogisticRegressionHyperparams,
+	NeuralNetworkHyperparams,
+	RandomForestHyperparams,
+	SvmHyperparams,
+} from '../../../types/ml';
+
+type ModelConfig = Omit<NeuralNetworkHyperparams, 'modelType'>;
+type RandomForestConfig = Omit<RandomForestHyperparams, 'modelType'>;
+type GradientBoostingConfig = Omit<GradientBoostingHyperparams, 'modelType'>;
+type SvmConfig = Omit<SvmHyperparams, 'modelType'>;
+type LogisticConfig = Omit<LogisticRegressionHyperparams, 'modelType'>;
+
+// Epochs per penalty strength when tracing the regularization path (each
+// fit is warm-started from the previous one)
+const PATH_EPOCHS = 30;
+
+// Initial SMO optimality gap (all multipliers zero), for convergence progress
+const SMO_INITIAL_GAP = 2;
+
+// Regression errors in target units, to 4 significant digits
+const formatTargetValue = (value: number) =>
+	String(Number(value.toPrecision(4)));
 
 export default function ClassroomTrainValidateTab() {
 	// Use classroom store for persistence
@@ -422,19 +110,28 @@ export default function ClassroomTrainValidateTab() {
 	const isTraining = classroomState.training.isTraining;
 	const selectedModelType =
 		classroomState.modelSelection.hyperparams?.modelType || 'neural-network';
+	// Continuous target chosen in Data Input (neural network / forest only)
+	const regressionTask = classroomState.dataInput.taskType === 'regression';
+	// Forest OOB scores: accuracy, or R² for regression trees
+	const formatOob = (score: number, digits = 1) =>
+		regressionTask ? score.toFixed(3) : (score * 100).toFixed(digits) + '%';
 
 	// On mount: if training flag is true but no active progress, clear it
 	useEffect(() => {
 		if (
 			classroomState.training.isTraining &&
-			(!trainingProgress || trainingProgress.length === 0)
+			(!trainingProgress || trainingProgress.length === 0) &&
+			!getActiveNeuralNetworkSession()
 		) {
 			console.log('[TrainValidate] Normalizing stale isTraining flag.');
 			classroomStore.setTrainingStatus(false);
 		}
 	}, []);
 
-	const [currentEpoch, setCurrentEpoch] = useState(0);
+	// Resume from the store when returning to a run still training in a worker
+	const [currentEpoch, setCurrentEpoch] = useState(
+		() => trainingProgress[trainingProgress.length - 1]?.epoch ?? 0,
+	);
 	const [currentTree, setCurrentTree] = useState(0);
 	const [modelConfig, setModelConfig] = useState<ModelConfig>({
 		hiddenLayers: [128, 64, 32],
@@ -442,8 +139,26 @@ export default function ClassroomTrainValidateTab() {
 		epochs: 100,
 		batchSize: 32,
 		optimizer: 'adam',
-		activationFunction: 'relu',
+		activation: 'relu',
 		dropoutRate: 0.3,
+		lrSchedule: {
+			type: 'constant',
+			stepSize: 10,
+			factor: 0.5,
+			patience: 5,
+			minLearningRate: 0.00001,
+		},
+		weightDecay: 0,
+		clipNorm: 0,
+		regressionLoss: 'mse',
+		huberDelta: 1,
+		earlyStopping: {
+			enabled: true,
+			monitor: 'valLoss',
+			patience: 10,
+			minDelta: 0.0001,
+			restoreBestWeights: true,
+		},
 		validationSplit: 0.2,
 	});
 	const [rfConfig, setRfConfig] = useState<RandomForestConfig>({
@@ -453,10 +168,55 @@ export default function ClassroomTrainValidateTab() {
 		minSamplesLeaf: 1,
 		maxFeatures: 'sqrt',
 		bootstrap: true,
+		criterion: 'gini',
 		randomState: 42,
 	});
+	const [gbConfig, setGbConfig] = useState<GradientBoostingConfig>({
+		nEstimators: 200,
+		learningRate: 0.1,
+		maxDepth: 4,
+		minSamplesLeaf: 20,
+		subsample: 0.8,
+		maxBins: 64,
+		l2Regularization: 1,
+		validationSplit: 0.2,
+		earlyStoppingRounds: 10,
+		seed: 42,
+	});
+	const [svmConfig, setSvmConfig] = useState<SvmConfig>({
+		kernel: 'rbf',
+		C: 1,
+		gamma: 'scale',
+		epochs: 20,
+		tolerance: 0.001,
+		maxIterations: 100000,
+		cacheSizeMb: 100,
+		calibrationSplit: 0.2,
+		seed: 42,
+	});
+	const [lrConfig, setLrConfig] = useState<LogisticConfig>({
+		penalty: 'l2',
+		regularization: 0.01,
+		l1Ratio: 0.5,
+		learningRate: 0.05,
+		epochs: 100,
+		batchSize: 64,
+		validationSplit: 0.2,
+		earlyStoppingPatience: 10,
+		seed: 42,
+	});
+	// Regularization path steps fitted so far (after the main fit)
+	const [pathProgress, setPathProgress] = useState<{
+		step: number;
+		total: number;
+	} | null>(null);
 	const [trainedModel, setTrainedModel] = useState<
-		NeuralNetworkService | SimpleRandomForest | null
+		| NeuralNetworkService
+		| RandomForestClassifier
+		| GradientBoostingClassifier
+		| SupportVectorMachine
+		| LogisticRegression
+		| null
 	>(null);
 	const [exportStatus, setExportStatus] = useState<string>('');
 	const [errorMessage, setErrorMessage] = useState<string>('');
@@ -485,8 +245,15 @@ export default function ClassroomTrainValidateTab() {
 	);
 	const [rfTrainingStartTime, setRfTrainingStartTime] = useState<number>(0);
 
+	// Cross-validation run state (the summary itself lives in the store)
+	const [cvRunning, setCvRunning] = useState(false);
+	const [cvProgress, setCvProgress] = useState<{
+		completed: number;
+		total: number;
+	} | null>(null);
+
 	const nnServiceRef = useRef<NeuralNetworkService | null>(null);
-	const rfServiceRef = useRef<SimpleRandomForest | null>(null);
+	const rfServiceRef = useRef<RandomForestClassifier | null>(null);
 	const trainingCancelRef = useRef<(() => void) | null>(null);
 
 	// Initialize TensorFlow.js backend
@@ -508,7 +275,12 @@ export default function ClassroomTrainValidateTab() {
 	// Ensure training state is properly reset on component load
 	useEffect(() => {
 		// If we're marked as training but have no current progress, reset the state
-		if (isTraining && trainingProgress.length === 0) {
+		// (a neural network still training in its worker is not stuck)
+		if (
+			isTraining &&
+			trainingProgress.length === 0 &&
+			!getActiveNeuralNetworkSession()
+		) {
 			console.log('Resetting stuck training state');
 			classroomStore.setTrainingStatus(false);
 		}
@@ -542,10 +314,13 @@ export default function ClassroomTrainValidateTab() {
 					Array.isArray(hp.hiddenLayers) && hp.hiddenLayers.length
 						? hp.hiddenLayers
 						: prev.hiddenLayers,
+				activation: hp.activation ?? prev.activation,
+				optimizer: hp.optimizer ?? prev.optimizer,
 				learningRate:
 					typeof hp.learningRate === 'number'
 						? hp.learningRate
 						: prev.learningRate,
+				lrSchedule: { ...prev.lrSchedule, ...hp.lrSchedule },
 				epochs: typeof hp.epochs === 'number' ? hp.epochs : prev.epochs,
 				batchSize:
 					typeof hp.batchSize === 'number' ? hp.batchSize : prev.batchSize,
@@ -553,10 +328,20 @@ export default function ClassroomTrainValidateTab() {
 					typeof hp.dropoutRate === 'number'
 						? hp.dropoutRate
 						: prev.dropoutRate,
+				weightDecay:
+					typeof hp.weightDecay === 'number'
+						? hp.weightDecay
+						: prev.weightDecay,
+				clipNorm: typeof hp.clipNorm === 'number' ? hp.clipNorm : prev.clipNorm,
+				regressionLoss: hp.regressionLoss ?? prev.regressionLoss,
+				huberDelta:
+					typeof hp.huberDelta === 'number' ? hp.huberDelta : prev.huberDelta,
+				earlyStopping: { ...prev.earlyStopping, ...hp.earlyStopping },
 				validationSplit:
 					typeof hp.validationSplit === 'number'
 						? hp.validationSplit
 						: prev.validationSplit,
+				seed: typeof hp.seed === 'number' ? hp.seed : undefined,
 			}));
 		} else if (hp && hp.modelType === 'random-forest') {
 			setRfConfig((prev) => ({
@@ -578,17 +363,73 @@ export default function ClassroomTrainValidateTab() {
 					hp.maxFeatures !== undefined ? hp.maxFeatures : prev.maxFeatures,
 				bootstrap:
 					typeof hp.bootstrap === 'boolean' ? hp.bootstrap : prev.bootstrap,
+				criterion:
+					hp.criterion === 'entropy' || hp.criterion === 'gini'
+						? hp.criterion
+						: prev.criterion,
 				randomState:
-					typeof hp.randomState === 'number'
-						? hp.randomState
-						: prev.randomState,
+					typeof hp.randomState === 'number' ? hp.randomState : undefined,
+			}));
+		} else if (hp && hp.modelType === 'gradient-boosting') {
+			setGbConfig((prev) => {
+				const next = { ...prev };
+				for (const key of Object.keys(prev) as Array<
+					keyof GradientBoostingConfig
+				>) {
+					if (typeof hp[key] === 'number') next[key] = hp[key];
+				}
+				next.seed = typeof hp.seed === 'number' ? hp.seed : undefined;
+				return next;
+			});
+		} else if (hp && hp.modelType === 'svm') {
+			setSvmConfig((prev) => ({
+				kernel: hp.kernel === 'linear' ? 'linear' : 'rbf',
+				C: typeof hp.C === 'number' ? hp.C : prev.C,
+				gamma:
+					typeof hp.gamma === 'number' || hp.gamma === 'scale'
+						? hp.gamma
+						: prev.gamma,
+				epochs: typeof hp.epochs === 'number' ? hp.epochs : prev.epochs,
+				tolerance:
+					typeof hp.tolerance === 'number' ? hp.tolerance : prev.tolerance,
+				maxIterations:
+					typeof hp.maxIterations === 'number'
+						? hp.maxIterations
+						: prev.maxIterations,
+				cacheSizeMb:
+					typeof hp.cacheSizeMb === 'number'
+						? hp.cacheSizeMb
+						: prev.cacheSizeMb,
+				calibrationSplit:
+					typeof hp.calibrationSplit === 'number'
+						? hp.calibrationSplit
+						: prev.calibrationSplit,
+				seed: typeof hp.seed === 'number' ? hp.seed : undefined,
 			}));
+		} else if (hp && hp.modelType === 'logistic-regression') {
+			setLrConfig((prev) => {
+				const next = { ...prev };
+				for (const key of Object.keys(prev) as Array<keyof LogisticConfig>) {
+					if (typeof hp[key] === 'number') (next as any)[key] = hp[key];
+				}
+				if (['none', 'l1', 'l2', 'elasticnet'].includes(hp.penalty)) {
+					next.penalty = hp.penalty;
+				}
+				next.seed = typeof hp.seed === 'number' ? hp.seed : undefined;
+				return next;
+			});
 		}
 	}, [classroomState.modelSelection.hyperparams]);
 
 	// Sync current epoch/tree with training progress from store
 	useEffect(() => {
-		if (selectedModelType === 'neural-network' && trainingProgress.length > 0) {
+		if (
+			(selectedModelType === 'neural-network' ||
+				selectedModelType === 'gradient-boosting' ||
+				selectedModelType === 'svm' ||
+				selectedModelType === 'logistic-regression') &&
+			trainingProgress.length > 0
+		) {
 			const latestEpoch = Math.max(...trainingProgress.map((p) => p.epoch));
 			setCurrentEpoch(latestEpoch);
 		} else if (
@@ -604,41 +445,110 @@ export default function ClassroomTrainValidateTab() {
 	const getTrainingData = () => {
 		const dataInput = (classroomState as any).dataInput || {};
 		const fileSource = dataInput.selectedDataSource; // correct field name
-		let fileName = '';
+		// Registry datasets are fetched by id when not cached in the store
+		const datasetId = fileSource && fileSource !== 'own' ? fileSource : '';
 		const targetColumn = dataInput.targetColumn; // correct field name
 		const selectedFeatures = dataInput.selectedFeatures;
 		const rawDataset = dataInput.rawDataset;
 		const columnMeta = dataInput.columnMeta || [];
-
-		switch (fileSource) {
-			case 'tess':
-				fileName = 'TESS-Classroom-Data.csv';
-				break;
-			case 'kepler':
-				fileName = 'KOI-Classroom-Data.csv';
-				break;
-			case 'own':
-				fileName = 'uploaded-data.csv';
-				break;
-			default:
-				fileName = 'KOI-Classroom-Data.csv';
-		}
+		const fileName: string = rawDataset?.name || 'uploaded-data.csv';
 
 		// Sanitize feature list against actual header to avoid missing column errors
-		const headerSet = new Set(rawDataset?.header || []);
+		// (enabled derived features are computed from it instead)
+		const derivedFeatures: string[] = (dataInput.derivedFeatures || []).filter(
+			(f: string) => isDerivedFeatureAvailable(f, rawDataset?.header || []),
+		);
+		const headerSet = new Set([
+			...(rawDataset?.header || []),
+			...derivedFeatures,
+		]);
 		const cleanedFeatures = (selectedFeatures || []).filter((f: string) =>
 			headerSet.has(f),
 		);
 
+		// Group-aware splitting only applies if the column is still in the data
+		const groupColumn: string | undefined =
+			dataInput.groupColumn &&
+			isGroupColumnAvailable(rawDataset?.header || [], dataInput.groupColumn)
+				? dataInput.groupColumn
+				: undefined;
+
 		return {
+			datasetId,
 			fileName,
 			targetColumn: targetColumn || '',
+			labelMapping: dataInput.labelMapping as LabelMapping | undefined,
 			featureColumns: cleanedFeatures,
+			derivedFeatures,
+			groupColumn,
+			// Gaps in 'drop' (default) features remove the row; others are filled
+			missingValueStrategy: (dataInput.missingValueStrategy || {}) as Record<
+				string,
+				ImputationStrategy
+			>,
+			missingIndicators: Boolean(dataInput.missingIndicators),
 			rawDataset,
 			columnMeta,
 		};
 	};
 
+	// Only numeric columns are used (derived ones always are)
+	const getNumericFeatures = (featureColumns: string[], columnMeta: any[]) =>
+		featureColumns.filter((f: string) => {
+			const meta = columnMeta.find((c: any) => c.name === f);
+			return meta?.inferredType === 'numeric' || isDerivedFeature(f);
+		});
+
+	// Seed set in Model Selection for the selected model (none: drawn per run)
+	const configuredSeed = () =>
+		selectedModelType === 'neural-network'
+			? modelConfig.seed
+			: selectedModelType === 'gradient-boosting'
+			? gbConfig.seed
+			: selectedModelType === 'svm'
+			? svmConfig.seed
+			: selectedModelType === 'logistic-regression'
+			? lrConfig.seed
+			: rfConfig.randomState;
+
+	// CSV text of the selected dataset: cached in the store or fetched from the API
+	const loadCsvContent = async (): Promise<string> => {
+		const { datasetId, fileName, targetColumn, featureColumns, rawDataset } =
+			getTrainingData();
+		if (rawDataset?.originalCSV) {
+			console.log('✅ Using cached dataset from store');
+			return rawDataset.originalCSV;
+		}
+		console.log('📡 Fetching dataset from API:', fileName);
+		const response = await fetch('/api/train', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				datasetId,
+				targetColumn,
+				featureColumns,
+				modelConfig:
+					selectedModelType === 'neural-network'
+						? modelConfig
+						: selectedModelType === 'gradient-boosting'
+						? gbConfig
+						: selectedModelType === 'svm'
+						? svmConfig
+						: selectedModelType === 'logistic-regression'
+						? lrConfig
+						: rfConfig,
+			}),
+		});
+
+		if (!response.ok) {
+			const error = await response.json();
+			throw new Error(error.error || 'Failed to load training data');
+		}
+
+		const data = await response.json();
+		return data.csvContent;
+	};
+
 	// Validate training readiness (with console hint for debugging)
 	const canTrain = () => {
 		const { fileName, targetColumn, featureColumns, rawDataset } =
@@ -675,6 +585,16 @@ export default function ClassroomTrainValidateTab() {
 			);
 			return;
 		}
+		if (
+			regressionTask &&
+			selectedModelType !== 'neural-network' &&
+			selectedModelType !== 'random-forest'
+		) {
+			setErrorMessage(
+				'Gradient boosting, SVM and logistic regression are classifiers; continuous targets train with the neural network or random forest.',
+			);
+			return;
+		}
 
 		classroomStore.setTrainingStatus(true);
 		classroomStore.clearTrainingProgress();
@@ -689,14 +609,11 @@ export default function ClassroomTrainValidateTab() {
 		setExportStatus('');
 
 		try {
-			const { fileName, targetColumn, featureColumns, rawDataset, columnMeta } =
+			const { fileName, targetColumn, featureColumns, columnMeta } =
 				getTrainingData();
 
-			// Sanitize features: Only keep numeric columns
-			const numericFeatures = featureColumns.filter((f: string) => {
-				const meta = columnMeta.find((c: any) => c.name === f);
-				return meta?.inferredType === 'numeric';
-			});
+			// Sanitize features: Only keep numeric columns (derived ones always are)
+			const numericFeatures = getNumericFeatures(featureColumns, columnMeta);
 			const dropped = featureColumns.filter(
 				(f: string) => !numericFeatures.includes(f),
 			);
@@ -712,33 +629,42 @@ export default function ClassroomTrainValidateTab() {
 			}
 
 			// Get CSV content
-			let csvContent = '';
-			if (rawDataset?.originalCSV) {
-				csvContent = rawDataset.originalCSV;
-				console.log('✅ Using cached dataset from store');
-			} else {
-				console.log('📡 Fetching dataset from API:', fileName);
-				// Fetch from API
-				const response = await fetch('/api/train', {
-					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({
-						fileName,
-						targetColumn,
-						featureColumns,
-						modelConfig:
-							selectedModelType === 'neural-network' ? modelConfig : rfConfig,
-					}),
-				});
-
-				if (!response.ok) {
-					const error = await response.json();
-					throw new Error(error.error || 'Failed to load training data');
-				}
-
-				const data = await response.json();
-				csvContent = data.csvContent;
-			}
+			const csvContent = await loadCsvContent();
+
+			// Record the run with its seed so it can be replayed exactly
+			const seed = configuredSeed() ?? randomSeed();
+			classroomStore.setTrainingRun({
+				modelConfig: {
+					id: `${selectedModelType}-${Date.now()}`,
+					type:
+						selectedModelType === 'neural-network'
+							? 'neuralnet'
+							: selectedModelType === 'gradient-boosting'
+							? 'gradient-boosting'
+							: selectedModelType === 'svm'
+							? 'svm'
+							: selectedModelType === 'logistic-regression'
+							? 'logistic'
+							: 'random-forest',
+					createdAt: Date.now(),
+					hyperparams: { ...classroomState.modelSelection.hyperparams },
+				},
+				datasetRef: getTrainingData().datasetId || fileName,
+				status: 'running',
+				epochsPlanned:
+					selectedModelType === 'neural-network'
+						? modelConfig.epochs
+						: selectedModelType === 'gradient-boosting'
+						? gbConfig.nEstimators
+						: selectedModelType === 'svm' && svmConfig.kernel === 'linear'
+						? svmConfig.epochs
+						: selectedModelType === 'logistic-regression'
+						? lrConfig.epochs
+						: undefined,
+				epochMetrics: [],
+				seed,
+				startedAt: Date.now(),
+			});
 
 			if (selectedModelType === 'neural-network') {
 				await trainNeuralNetwork(
@@ -748,6 +674,7 @@ export default function ClassroomTrainValidateTab() {
 					fileName,
 					featureColumns,
 					dropped,
+					seed,
 				);
 			} else if (selectedModelType === 'random-forest') {
 				await trainRandomForest(
@@ -757,10 +684,49 @@ export default function ClassroomTrainValidateTab() {
 					fileName,
 					featureColumns,
 					dropped,
+					seed,
+				);
+			} else if (selectedModelType === 'gradient-boosting') {
+				await trainGradientBoosting(
+					csvContent,
+					targetColumn,
+					numericFeatures,
+					fileName,
+					featureColumns,
+					dropped,
+					seed,
+				);
+			} else if (selectedModelType === 'svm') {
+				await trainSvm(
+					csvContent,
+					targetColumn,
+					numericFeatures,
+					fileName,
+					featureColumns,
+					dropped,
+					seed,
+				);
+			} else if (selectedModelType === 'logistic-regression') {
+				await trainLogisticRegression(
+					csvContent,
+					targetColumn,
+					numericFeatures,
+					fileName,
+					featureColumns,
+					dropped,
+					seed,
 				);
 			}
+			// No-op for runs a cancel closure already closed as 'stopped'
+			finishTrainingRun('completed');
 		} catch (error) {
+			// A newer training run replaced this one and owns the store now
+			if (error instanceof SupersededSessionError) return;
 			console.error('❌ Training error:', error);
+			finishTrainingRun(
+				'error',
+				error instanceof Error ? error.message : 'Unknown error',
+			);
 			setErrorMessage(
 				`Training failed: ${
 					error instanceof Error ? error.message : 'Unknown error'
@@ -771,6 +737,68 @@ export default function ClassroomTrainValidateTab() {
 		}
 	};
 
+	// Close the recorded run (epoch metrics were appended while training)
+	const finishTrainingRun = (
+		status: 'completed' | 'error' | 'stopped',
+		errorMessage?: string,
+	) => {
+		const run = classroomStore.getState().training.currentRun;
+		if (!run || run.status !== 'running') return;
+		classroomStore.setTrainingRun({
+			...run,
+			status,
+			errorMessage,
+			finishedAt: Date.now(),
+		});
+	};
+
+	// Optimizer, schedule and early-stopping settings for the NN worker and
+	// the cross-validation folds
+	const nnTrainingOptions = (): NeuralNetworkTrainingOptions => ({
+		activation: modelConfig.activation,
+		optimizer: modelConfig.optimizer,
+		dropoutRate: modelConfig.dropoutRate,
+		lrSchedule: modelConfig.lrSchedule,
+		weightDecay: modelConfig.weightDecay,
+		clipNorm: modelConfig.clipNorm,
+		earlyStopping: modelConfig.earlyStopping,
+		...(regressionTask && {
+			regressionLoss: modelConfig.regressionLoss,
+			huberDelta: modelConfig.huberDelta,
+		}),
+	});
+
+	// Class-imbalance strategy chosen in Model Selection (every model)
+	const imbalanceConfig =
+		classroomState.modelSelection.imbalance ?? DEFAULT_IMBALANCE;
+
+	// Rebalance a model's fit rows (never its validation, calibration or test
+	// rows) and record what was done on the run
+	const rebalanceFitRows = (
+		X: number[][],
+		y: number[],
+		numClasses: number,
+		random: RandomSource,
+		groups?: string[],
+	) => {
+		const rebalanced = rebalanceTrainingRows(
+			X,
+			y,
+			numClasses,
+			imbalanceConfig,
+			random,
+			{ groups },
+		);
+		recordImbalance(rebalanced.report);
+		return rebalanced;
+	};
+
+	const recordImbalance = (report: ImbalanceReport) => {
+		console.log('⚖️ Class imbalance:', describeImbalance(report));
+		const run = classroomStore.getState().training.currentRun;
+		if (run) classroomStore.setTrainingRun({ ...run, imbalance: report });
+	};
+
 	const trainNeuralNetwork = async (
 		csvContent: string,
 		targetColumn: string,
@@ -778,6 +806,7 @@ export default function ClassroomTrainValidateTab() {
 		fileName: string,
 		featureColumns: string[],
 		dropped: string[],
+		seed: number,
 	) => {
 		// Log the complete training configuration
 		console.group('🚀 Neural Network Training Started');
@@ -788,7 +817,7 @@ export default function ClassroomTrainValidateTab() {
 			usedNumericFeatureColumns: numericFeatures,
 			droppedNonNumeric: dropped,
 		});
-		console.log('🧠 Model Configuration:', modelConfig);
+		console.log('🧠 Model Configuration:', modelConfig, { seed });
 		console.groupEnd();
 
 		// Initialize neural network service
@@ -807,21 +836,43 @@ export default function ClassroomTrainValidateTab() {
 			numClasses,
 			featureNames,
 			labelEncoder,
+			leakage,
+			imbalance,
+			training: imbalanceOptions,
 		} = await nnService.preprocessData(
 			csvContent,
 			targetColumn,
 			numericFeatures,
+			{
+				transforms: classroomState.dataInput.featureTransforms,
+				clipPercentiles: classroomState.dataInput.clipPercentiles,
+				derivedFeatures: getTrainingData().derivedFeatures,
+				groupColumn: getTrainingData().groupColumn,
+				seed,
+				imbalance: imbalanceConfig,
+				labelMapping: getTrainingData().labelMapping,
+				task: regressionTask ? 'regression' : 'classification',
+				missingValueStrategy: getTrainingData().missingValueStrategy,
+				missingIndicators: getTrainingData().missingIndicators,
+			},
 		);
+		classroomStore.setLeakageReport(leakage);
+		recordImbalance(imbalance);
 
 		// Persist test subset (NOT tensors) for later Test & Export usage
 		try {
 			const xTestArr = (await xTest.array()) as number[][];
-			const yTestIdx = (await yTest.argMax(-1).array()) as number[];
+			// Regression rows keep the target value in its own units
+			const yTestLabels = regressionTask
+				? (nnService
+						.getPipeline()
+						?.inverseTransformTarget(Array.from(await yTest.data())) ?? [])
+				: ((await yTest.argMax(-1).array()) as number[]);
 			classroomStore.setTestDataset({
 				features: xTestArr,
-				labels: yTestIdx,
+				labels: yTestLabels,
 				featureNames: featureNames,
-				classLabels: Object.keys(labelEncoder),
+				classLabels: regressionTask ? [] : Object.keys(labelEncoder),
 			});
 		} catch (e) {
 			console.warn('Failed to cache test dataset subset', e);
@@ -831,88 +882,128 @@ export default function ClassroomTrainValidateTab() {
 		console.log('📊 Validation data shape:', xVal.shape);
 		console.log('🎯 Number of classes:', numClasses);
 
-		// Create model with advanced configuration
-		const model = nnService.createModel(
-			numericFeatures.length,
+		// Create model with advanced configuration; the worker trains its own
+		// copy and the trained weights are loaded back into this one
+		const training = { ...nnTrainingOptions(), ...imbalanceOptions };
+		nnService.createModel(
+			featureNames.length,
 			numClasses,
 			modelConfig.hiddenLayers,
 			modelConfig.learningRate,
+			seed,
+			training,
 		);
 
 		console.log('🧠 Model created with architecture:', {
-			inputDim: numericFeatures.length,
+			inputDim: featureNames.length,
 			hiddenLayers: modelConfig.hiddenLayers,
 			outputDim: numClasses,
 			optimizer: modelConfig.optimizer,
-			activation: modelConfig.activationFunction,
+			activation: modelConfig.activation,
+			lrSchedule: modelConfig.lrSchedule.type,
+			earlyStopping: modelConfig.earlyStopping.enabled,
 		});
 
-		// Train model with progress tracking and cancellation support
-		const EPOCHS = modelConfig.epochs;
-		let trainingCancelled = false;
+		// Train in a Web Worker. The session outlives this page, so leaving it
+		// does not stop training (trainingCancelRef stays unset); the results
+		// below are still written to the store unless a newer run supersedes
+		// the session (its result then rejects with SupersededSessionError).
+		const session = startNeuralNetworkSession(
+			{
+				inputDim: featureNames.length,
+				numClasses,
+				hiddenLayers: modelConfig.hiddenLayers,
+				learningRate: modelConfig.learningRate,
+				epochs: modelConfig.epochs,
+				batchSize: modelConfig.batchSize,
+				seed,
+				training,
+				xTrain: Float32Array.from(await xTrain.data()),
+				yTrain: Float32Array.from(await yTrain.data()),
+				xVal: Float32Array.from(await xVal.data()),
+				yVal: Float32Array.from(await yVal.data()),
+			},
+			{
+				onEpoch: (metrics) => {
+					setCurrentEpoch(metrics.epoch);
+					classroomStore.updateTrainingMetrics(metrics.epoch, {
+						loss: metrics.loss,
+						acc: metrics.acc,
+						valLoss: metrics.valLoss,
+						valAcc: metrics.valAcc,
+						lr: metrics.lr,
+					});
 
-		// Set up cancellation function
-		trainingCancelRef.current = () => {
-			trainingCancelled = true;
-			classroomStore.setTrainingStatus(false);
-			console.log('🛑 Training cancelled by user');
-		};
+					// Log training progress every 10 epochs
+					if (metrics.epoch % 10 === 0) {
+						console.log(`📊 Epoch ${metrics.epoch}/${modelConfig.epochs}:`, {
+							loss: metrics.loss?.toFixed(4),
+							accuracy: ((metrics.acc ?? 0) * 100).toFixed(1) + '%',
+							valAccuracy: ((metrics.valAcc ?? 0) * 100).toFixed(1) + '%',
+						});
+					}
+				},
+				onStatus: (state) =>
+					classroomStore.setTrainingPaused(state === 'paused'),
+			},
+		);
+		xTrain.dispose();
+		yTrain.dispose();
+		xVal.dispose();
+		yVal.dispose();
 
-		const history = await nnService.trainModel(xTrain, yTrain, xVal, yVal, {
-			epochs: modelConfig.epochs,
-			batchSize: modelConfig.batchSize,
-			onEpochEnd: (epoch, logs) => {
-				// Check if training was cancelled
-				if (trainingCancelled) {
-					return false; // Stop training
-				}
+		let result;
+		try {
+			result = await session.result;
+		} catch (error) {
+			xTest.dispose();
+			yTest.dispose();
+			throw error;
+		}
+		nnService.setWeightData(result.weights);
+		if (result.stopped) {
+			console.log(`🛑 Training stopped after ${result.epochsTrained} epochs`);
+		} else if (result.earlyStoppedAt) {
+			console.log(
+				`⏹️ Early stopping at epoch ${result.earlyStoppedAt} (best ${result.bestEpoch})`,
+			);
+		}
 
-				setCurrentEpoch(epoch + 1);
-				const progress = {
-					epoch: epoch + 1,
-					loss: logs.loss,
-					accuracy: logs.acc || logs.accuracy,
-					valLoss: logs.val_loss,
-					valAccuracy: logs.val_acc || logs.val_accuracy,
-				};
-				classroomStore.updateTrainingMetrics(epoch + 1, progress);
-
-				// Log training progress every 10 epochs
-				if ((epoch + 1) % 10 === 0) {
-					console.log(`📊 Epoch ${epoch + 1}/${modelConfig.epochs}:`, {
-						loss: logs.loss?.toFixed(4),
-						accuracy: ((logs.acc || logs.accuracy) * 100)?.toFixed(1) + '%',
-						valAccuracy:
-							((logs.val_acc || logs.val_accuracy) * 100)?.toFixed(1) + '%',
-					});
-				}
-			},
-		});
+		// Record the early-stopping outcome on the run
+		const run = classroomStore.getState().training.currentRun;
+		if (run) {
+			classroomStore.setTrainingRun({
+				...run,
+				bestEpoch: result.bestEpoch || undefined,
+				restoredBestWeights: result.restoredBestWeights,
+				earlyStoppedAt: result.earlyStoppedAt,
+			});
+		}
 
 		// Evaluate final model
 		// Evaluate on held-out test set instead of validation (validation used for early feedback)
+		if (regressionTask) {
+			await recordNeuralNetworkRegression(
+				nnService,
+				xTest,
+				yTest,
+				result,
+				imbalance,
+			);
+			return;
+		}
 		const finalMetrics = await nnService.evaluateModel(xTest, yTest);
-		const trainingSummary = {
-			epochs: modelConfig.epochs,
-			finalLoss: history.history.loss[history.history.loss.length - 1],
-			finalAccuracy:
-				history.history.acc?.[history.history.acc.length - 1] ||
-				history.history.accuracy?.[history.history.accuracy.length - 1],
-			validationLoss:
-				history.history.val_loss[history.history.val_loss.length - 1],
-			validationAccuracy:
-				history.history.val_acc?.[history.history.val_acc.length - 1] ||
-				history.history.val_accuracy?.[history.history.val_accuracy.length - 1],
-			trainingTime: Date.now(),
-			modelConfig,
-			datasetInfo: {
-				fileName,
-				targetColumn,
-				originalFeatureColumns: featureColumns,
-				usedNumericFeatureColumns: numericFeatures,
-				droppedNonNumeric: dropped,
-			},
-		};
+		const classLabels =
+			nnService.getPipeline()?.classLabels ?? Object.keys(labelEncoder);
+		const classReport =
+			classLabels.length > 2
+				? calculateClassificationReport(
+						finalMetrics.probabilities.map((p) => p.indexOf(Math.max(...p))),
+						(await yTest.argMax(-1).array()) as number[],
+						classLabels,
+						finalMetrics.probabilities,
+					)
+				: undefined;
 
 		classroomStore.setModelMetrics({
 			accuracy: finalMetrics.accuracy,
@@ -920,23 +1011,26 @@ export default function ClassroomTrainValidateTab() {
 			finalAccuracy: (finalMetrics.accuracy * 100).toFixed(1) + '%',
 			finalLoss: finalMetrics.loss.toFixed(4),
 			trainingSummary: {
-				epochs: EPOCHS,
+				epochs: result.epochsTrained,
 				validationAccuracy: finalMetrics.accuracy,
+				bestEpoch: result.bestEpoch,
+				restoredBestWeights: result.restoredBestWeights,
+				earlyStoppedAt: result.earlyStoppedAt,
+				monitor: modelConfig.earlyStopping.monitor,
+				imbalance,
+				classReport,
 			},
 			modelType: 'neural-network',
 		});
+		if (result.stopped) finishTrainingRun('stopped');
 		classroomStore.setTrainingStatus(false);
 		classroomStore.setHasTrainedModel(true);
 		classroomStore.setTrainedModel(nnService);
-		trainingCancelRef.current = null;
+		classroomStore.setPipeline(nnService.getPipeline()?.toJSON());
 
 		setTrainedModel(nnService);
 
 		// Clean up tensors
-		xTrain.dispose();
-		yTrain.dispose();
-		xVal.dispose();
-		yVal.dispose();
 		xTest.dispose();
 		yTest.dispose();
 
@@ -946,31 +1040,70 @@ export default function ClassroomTrainValidateTab() {
 		});
 	};
 
-	const trainRandomForest = async (
+	// Held-out RMSE / MAE / R² of a neural network regressor, in target units
+	const recordNeuralNetworkRegression = async (
+		nnService: NeuralNetworkService,
+		xTest: tf.Tensor2D,
+		yTest: tf.Tensor2D,
+		result: NeuralNetworkWorkerResult,
+		imbalance: ImbalanceReport,
+	) => {
+		const evaluation = await nnService.evaluateRegression(xTest, yTest);
+		xTest.dispose();
+		yTest.dispose();
+		const regression = calculateRegressionMetrics(
+			evaluation.predictions,
+			evaluation.actuals,
+		);
+
+		classroomStore.setModelMetrics({
+			loss: evaluation.loss,
+			finalLoss: evaluation.loss.toFixed(4),
+			regression,
+			trainingSummary: {
+				epochs: result.epochsTrained,
+				bestEpoch: result.bestEpoch,
+				restoredBestWeights: result.restoredBestWeights,
+				earlyStoppedAt: result.earlyStoppedAt,
+				monitor: 'valLoss',
+				regressionLoss: modelConfig.regressionLoss,
+				imbalance,
+				regression,
+			},
+			modelType: 'neural-network',
+		});
+		if (result.stopped) finishTrainingRun('stopped');
+		classroomStore.setTrainingStatus(false);
+		classroomStore.setHasTrainedModel(true);
+		classroomStore.setTrainedModel(nnService);
+		classroomStore.setPipeline(nnService.getPipeline()?.toJSON());
+
+		setTrainedModel(nnService);
+
+		console.log('✅ Neural Network regressor trained successfully!', {
+			rmse: regression.rmse.toFixed(4),
+			mae: regression.mae.toFixed(4),
+			r2: regression.r2.toFixed(3),
+		});
+	};
+
+	// Parse the numeric features, hold out 20% of rows for evaluation (a group
+	// column keeps each group on one side) and record the test rows and the
+	// split leakage report
+	const prepareHeldOutData = (
 		csvContent: string,
 		targetColumn: string,
 		numericFeatures: string[],
-		fileName: string,
-		featureColumns: string[],
-		dropped: string[],
+		random: RandomSource,
 	) => {
-		console.group('🌳 Random Forest Training Started');
-		console.log('📊 Training Data:', {
-			fileName,
-			targetColumn,
-			originalFeatureColumns: featureColumns,
-			usedNumericFeatureColumns: numericFeatures,
-			droppedNonNumeric: dropped,
-		});
-		console.log('🌳 Model Configuration:', rfConfig);
-		console.groupEnd();
-
-		// Parse CSV data
-		const lines = csvContent.trim().split('\n');
-		const headers = lines[0].split(',').map((h: string) => h.trim());
-		const rows = lines
-			.slice(1)
-			.map((line) => line.split(',').map((cell: string) => cell.trim()));
+		const { derivedFeatures, groupColumn, labelMapping, missingValueStrategy } =
+			getTrainingData();
+		const table = parseCSVTable(csvContent);
+		const { header: headers, rows } = appendDerivedColumns(
+			table.header,
+			table.rows,
+			derivedFeatures,
+		);
 
 		// Find target column index
 		const targetIdx = headers.indexOf(targetColumn);
@@ -986,140 +1119,1204 @@ export default function ClassroomTrainValidateTab() {
 			}
 			return idx;
 		});
+		// Gaps in these features leave the row out ('drop', the default)
+		const dropsGaps = numericFeatures.map(
+			(feature) => (missingValueStrategy[feature] || 'drop') === 'drop',
+		);
 
 		// Prepare data
 		const X: number[][] = [];
-		const y: number[] = [];
-		const targetValues = new Set<string>();
+		const targets: string[] = [];
+		const keptRows: string[][] = [];
 
 		for (const row of rows) {
 			if (row.length !== headers.length) continue;
 
-			// Extract features
+			// Extract features; gaps stay NaN for the pipeline to fill unless
+			// the feature's strategy drops the row
 			const features = featureIndices.map((idx: number) =>
 				parseFloat(row[idx]),
 			);
-			if (features.some((f: number) => isNaN(f))) continue; // Skip rows with invalid numeric data
+			if (features.some((f, j) => isNaN(f) && dropsGaps[j])) continue;
 
-			// Extract target
-			const target = row[targetIdx];
-			targetValues.add(target);
+			// Extract target (rows the label mapping leaves out, or without a
+			// number for a regression target, are skipped)
+			const target = regressionTask
+				? row[targetIdx]
+				: mapTargetLabel(row[targetIdx], labelMapping);
+			if (target === undefined) continue;
+			if (regressionTask && !isFinite(parseFloat(target))) continue;
 
 			X.push(features);
-			y.push(Array.from(targetValues).indexOf(target));
+			targets.push(target);
+			keptRows.push(row);
 		}
 
+		// Class indices follow the label mapping's class order when one is set;
+		// regression targets are the values themselves
+		const classLabels = regressionTask
+			? []
+			: orderClassLabels(targets, labelMapping);
+		const y = regressionTask
+			? targets.map((target) => parseFloat(target))
+			: targets.map((target) => classLabels.indexOf(target));
+		// Continuous targets split as a single stratum
+		const strata = regressionTask ? y.map(() => 0) : y;
+
 		console.log('📈 Processed data:', {
 			samples: X.length,
 			features: numericFeatures.length,
-			classes: targetValues.size,
+			classes: classLabels.length,
+		});
+
+		const auditColumn = leakageGroupColumn(headers, groupColumn);
+		const keys = auditColumn
+			? groupKeys(headers, keptRows, auditColumn)
+			: undefined;
+		const grouped = Boolean(groupColumn && keys);
+		const { trainIndices, valIndices: testIndices } =
+			grouped && keys
+				? groupStratifiedSplit(strata, keys, 0.8, random)
+				: stratifiedSplit(strata, 0.8, random);
+		const trainX = trainIndices.map((i) => X[i]);
+		const trainY = trainIndices.map((i) => y[i]);
+		const testX = testIndices.map((i) => X[i]);
+		const testY = testIndices.map((i) => y[i]);
+		classroomStore.setLeakageReport(
+			keys && auditColumn
+				? detectGroupLeakage(
+						keys,
+						{ train: trainIndices, test: testIndices },
+						{ groupColumn: auditColumn, grouped },
+					)
+				: undefined,
+		);
+		classroomStore.setTestDataset({
+			features: testX,
+			labels: testY,
+			featureNames: numericFeatures,
+			classLabels,
+		});
+
+		return {
+			trainX,
+			trainY,
+			testX,
+			testY,
+			classLabels,
+			// Group key per training row, for group-aware resampling
+			trainGroups:
+				grouped && keys ? trainIndices.map((i) => keys[i]) : undefined,
+		};
+	};
+
+	// Forest from the configured hyperparameters (regression trees for a
+	// continuous target)
+	const createForestModel = (randomSeed: number, classWeights?: number[]) => {
+		const config = {
+			nEstimators: rfConfig.nEstimators,
+			maxDepth: rfConfig.maxDepth,
+			minSamplesSplit: rfConfig.minSamplesSplit,
+			minSamplesLeaf: rfConfig.minSamplesLeaf,
+			maxFeatures: rfConfig.maxFeatures,
+			bootstrap: rfConfig.bootstrap,
+			criterion: rfConfig.criterion,
+			randomSeed,
+		};
+		return regressionTask
+			? new RandomForestRegressor(config)
+			: new RandomForestClassifier({ ...config, classWeights });
+	};
+
+	const trainRandomForest = async (
+		csvContent: string,
+		targetColumn: string,
+		numericFeatures: string[],
+		fileName: string,
+		featureColumns: string[],
+		dropped: string[],
+		seed: number,
+	) => {
+		console.group('🌳 Random Forest Training Started');
+		console.log('📊 Training Data:', {
+			fileName,
+			targetColumn,
+			originalFeatureColumns: featureColumns,
+			usedNumericFeatureColumns: numericFeatures,
+			droppedNonNumeric: dropped,
 		});
+		console.log('🌳 Model Configuration:', rfConfig, { seed });
+		console.groupEnd();
 
-		// Initialize Random Forest
-		const rf = new SimpleRandomForest(rfConfig);
+		// Hold out 20% for evaluation (group-aware when a group column is set)
+		const random = createRandom(seed);
+		const { trainX, trainY, testX, testY, classLabels, trainGroups } =
+			prepareHeldOutData(csvContent, targetColumn, numericFeatures, random);
+		const { derivedFeatures, missingValueStrategy, missingIndicators } =
+			getTrainingData();
+
+		// Trees split on raw values: the pipeline fixes feature order and labels
+		// and fills gaps with values fitted on the training rows
+		const pipeline = PreprocessingPipeline.fitNumeric(numericFeatures, trainX, {
+			targetColumn,
+			classLabels,
+			normalize: false,
+			droppedColumns: dropped,
+			derivedFeatures,
+			missingValueStrategy,
+			missingIndicators,
+		});
+		const trainInput = pipeline.transformMatrix(trainX);
+		const testInput = pipeline.transformMatrix(testX);
+
+		// Resampled rows repeat (or interpolate) training rows, so they can be
+		// out-of-bag for a tree that saw their copy: OOB scores run optimistic
+		const modelSeed = deriveSeed(random);
+		let fit;
+		if (regressionTask) {
+			fit = keepRegressionRows(
+				trainInput,
+				trainY,
+				imbalanceConfig,
+				trainGroups,
+			);
+			recordImbalance(fit.report);
+		} else {
+			fit = rebalanceFitRows(
+				trainInput,
+				trainY,
+				classLabels.length,
+				random,
+				trainGroups,
+			);
+		}
+		const rf = createForestModel(modelSeed, fit.classWeights);
 		rfServiceRef.current = rf;
+		// Trees are grown in Web Workers, off the UI thread
+		const pool = new RandomForestWorkerPool();
 
-		// Set up cancellation
+		// Set up cancellation (terminates the workers mid-tree)
 		let trainingCancelled = false;
 		trainingCancelRef.current = () => {
 			trainingCancelled = true;
+			finishTrainingRun('stopped');
+			pool.stop();
 			classroomStore.setTrainingStatus(false);
 			console.log('🛑 Random Forest training cancelled by user');
 		};
 
 		// Set training start time for tracking
-		setRfTrainingStartTime(Date.now());
+		const startTime = Date.now();
+		setRfTrainingStartTime(startTime);
 
 		// Train with progress tracking
-		await rf.fit(X, y, numericFeatures, (treeIndex, oobScore) => {
-			if (trainingCancelled) return;
+		await pool.fit(rf, fit.X, fit.y, pipeline.featureNames, {
+			numClasses: classLabels.length,
+			groups: fit.groups,
+			onTree: ({ treeIndex, treesGrown, treeOobScore, oobScore }) => {
+				if (trainingCancelled) return false;
+
+				const currentTime = Date.now();
+				setCurrentTree(treesGrown);
+
+				// Update tree progress with timing (trees finish out of order)
+				setRfTreeProgress((prev) => [
+					...prev,
+					{
+						treeIndex,
+						oobScore: treeOobScore,
+						completed: true,
+						trainingTime: currentTime - startTime,
+					},
+				]);
+
+				// Forest OOB accuracy so far, and the single tree's own OOB accuracy
+				if (oobScore !== undefined) {
+					setRfOobHistory((prev) => [...prev, oobScore]);
+				}
+				if (treeOobScore !== undefined) {
+					setRfAccuracyHistory((prev) => [...prev, treeOobScore]);
+				}
+
+				// Log progress every 10 trees
+				if (treesGrown % 10 === 0) {
+					console.log(`🌳 Tree ${treesGrown}/${rfConfig.nEstimators}:`, {
+						oobScore: oobScore?.toFixed(4) || 'N/A',
+						treeOobScore: treeOobScore?.toFixed(4) || 'N/A',
+					});
+				}
+			},
+		});
+		if (trainingCancelled) return;
 
-			const currentTime = Date.now();
-			setCurrentTree(treeIndex + 1);
+		// Get feature importance
+		const importance = rf.getFeatureImportance();
+		setFeatureImportance(importance);
 
-			// Update tree progress with timing
-			setRfTreeProgress((prev) => {
-				const updated = [...prev];
-				updated[treeIndex] = {
-					treeIndex,
+		// Regressors: RMSE / MAE / R² on the held-out rows
+		if (regressionTask) {
+			const regression = calculateRegressionMetrics(
+				rf.predict(testInput),
+				testY,
+			);
+			const oobScore = rf.getOobScore();
+			classroomStore.setModelMetrics({
+				regression,
+				oobAccuracy:
+					oobScore !== undefined ? `R² ${oobScore.toFixed(3)}` : undefined,
+				trainingSummary: {
+					nEstimators: rf.getTreeCount(),
+					criterion: 'squared error',
 					oobScore,
-					completed: true,
-					trainingTime: currentTime - rfTrainingStartTime,
-				};
-				return updated;
+					featureImportance: importance,
+					imbalance: fit.report,
+					regression,
+				},
+				modelType: 'random-forest',
+			});
+			finishForest(rf, pipeline);
+			console.log('✅ Random Forest regressor trained successfully!', {
+				rmse: regression.rmse.toFixed(4),
+				r2: regression.r2.toFixed(3),
+				trees: rf.getTreeCount(),
 			});
+			return;
+		}
 
-			// Update accuracy and OOB history for curves
-			if (oobScore !== undefined) {
-				setRfOobHistory((prev) => [...prev, oobScore]);
-			}
+		// Evaluate model on the held-out rows
+		const probabilities = rf.predictProba(testInput);
+		const predictions = rf.predict(testInput);
+		const correct = predictions.filter(
+			(pred, idx) => pred === testY[idx],
+		).length;
+		const accuracy = correct / testY.length;
+		const confusionMatrix = Array.from({ length: classLabels.length }, () =>
+			Array(classLabels.length).fill(0),
+		);
+		for (let i = 0; i < testY.length; i++) {
+			confusionMatrix[testY[i]][predictions[i]]++;
+		}
+		// Threshold metrics and AUC for binary targets, per-class metrics otherwise
+		const summary =
+			classLabels.length === 2
+				? calculateEvaluationSummary(
+						probabilities.map((p) => p[1]),
+						predictions,
+						testY,
+						0.5,
+						classLabels,
+					)
+				: undefined;
+		const classReport =
+			classLabels.length > 2
+				? calculateClassificationReport(
+						predictions,
+						testY,
+						classLabels,
+						probabilities,
+					)
+				: undefined;
+		const oobScore = rf.getOobScore();
+		const oobAccuracy =
+			oobScore !== undefined ? (oobScore * 100).toFixed(1) + '%' : undefined;
+
+		classroomStore.setModelMetrics({
+			accuracy,
+			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
+			oobAccuracy,
+			trainingSummary: {
+				nEstimators: rf.getTreeCount(),
+				criterion: rfConfig.criterion,
+				accuracy,
+				precision: summary?.precision,
+				recall: summary?.recall,
+				f1: summary?.f1,
+				auc: summary?.auc,
+				oobScore,
+				featureImportance: importance,
+				imbalance: fit.report,
+				classReport,
+			},
+			modelType: 'random-forest',
+			confusionMatrix,
+		});
+
+		finishForest(rf, pipeline);
+
+		console.log('✅ Random Forest training completed successfully!', {
+			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
+			oobAccuracy: oobAccuracy || 'N/A',
+			trees: rf.getTreeCount(),
+		});
+	};
+
+	// Keep a trained forest as the Classroom's model
+	const finishForest = (
+		rf: RandomForestClassifier,
+		pipeline: PreprocessingPipeline,
+	) => {
+		classroomStore.setTrainingStatus(false);
+		classroomStore.setHasTrainedModel(true);
+		classroomStore.setTrainedModel(rf);
+		classroomStore.setPipeline(pipeline.toJSON());
+		trainingCancelRef.current = null;
+		setTrainedModel(rf);
+	};
 
-			// Calculate running accuracy (estimate from completed trees)
-			const completedTrees = treeIndex + 1;
-			const estimatedAccuracy = oobScore || 0.5; // Use OOB as proxy
-			setRfAccuracyHistory((prev) => [...prev, estimatedAccuracy]);
+	// Boosting model from the configured hyperparameters (the validation split
+	// for early stopping is made by the caller)
+	const createBoostingModel = (randomSeed: number, classWeights?: number[]) =>
+		new GradientBoostingClassifier({
+			nEstimators: gbConfig.nEstimators,
+			learningRate: gbConfig.learningRate,
+			maxDepth: gbConfig.maxDepth,
+			minSamplesLeaf: gbConfig.minSamplesLeaf,
+			subsample: gbConfig.subsample,
+			maxBins: gbConfig.maxBins,
+			l2Regularization: gbConfig.l2Regularization,
+			earlyStoppingRounds: gbConfig.earlyStoppingRounds || undefined,
+			classWeights,
+			randomSeed,
+		});
 
-			// Log progress every 10 trees
-			if ((treeIndex + 1) % 10 === 0) {
-				console.log(`🌳 Tree ${treeIndex + 1}/${rfConfig.nEstimators}:`, {
-					oobScore: oobScore?.toFixed(4) || 'N/A',
-					estimatedAccuracy: estimatedAccuracy?.toFixed(4) || 'N/A',
+	const trainGradientBoosting = async (
+		csvContent: string,
+		targetColumn: string,
+		numericFeatures: string[],
+		fileName: string,
+		featureColumns: string[],
+		dropped: string[],
+		seed: number,
+	) => {
+		console.group('📈 Gradient Boosting Training Started');
+		console.log('📊 Training Data:', {
+			fileName,
+			targetColumn,
+			originalFeatureColumns: featureColumns,
+			usedNumericFeatureColumns: numericFeatures,
+			droppedNonNumeric: dropped,
+		});
+		console.log('📈 Model Configuration:', gbConfig, { seed });
+		console.groupEnd();
+
+		const random = createRandom(seed);
+		const { trainX, trainY, testX, testY, classLabels, trainGroups } =
+			prepareHeldOutData(csvContent, targetColumn, numericFeatures, random);
+		const { derivedFeatures, missingValueStrategy, missingIndicators } =
+			getTrainingData();
+
+		// Early-stopping rows come out of the training side, never the test rows
+		const trainRatio = 1 - gbConfig.validationSplit;
+		const { trainIndices: fitIndices, valIndices: stopIndices } = trainGroups
+			? groupStratifiedSplit(trainY, trainGroups, trainRatio, random)
+			: stratifiedSplit(trainY, trainRatio, random);
+		const fitX = fitIndices.map((i) => trainX[i]);
+		const fitY = fitIndices.map((i) => trainY[i]);
+
+		// Trees split on raw values: the pipeline fixes feature order and labels
+		// and fills gaps with values fitted on the training rows
+		const pipeline = PreprocessingPipeline.fitNumeric(numericFeatures, fitX, {
+			targetColumn,
+			classLabels,
+			normalize: false,
+			droppedColumns: dropped,
+			derivedFeatures,
+			missingValueStrategy,
+			missingIndicators,
+		});
+		const testInput = pipeline.transformMatrix(testX);
+
+		const modelSeed = deriveSeed(random);
+		const fit = rebalanceFitRows(
+			pipeline.transformMatrix(fitX),
+			fitY,
+			classLabels.length,
+			random,
+		);
+		const gb = createBoostingModel(modelSeed, fit.classWeights);
+
+		// Set up cancellation
+		let trainingCancelled = false;
+		trainingCancelRef.current = () => {
+			trainingCancelled = true;
+			finishTrainingRun('stopped');
+			classroomStore.setTrainingStatus(false);
+			console.log('🛑 Gradient Boosting training cancelled by user');
+		};
+
+		const history = await gb.fit(fit.X, fit.y, pipeline.featureNames, {
+			numClasses: classLabels.length,
+			validation: {
+				X: pipeline.transformMatrix(stopIndices.map((i) => trainX[i])),
+				y: stopIndices.map((i) => trainY[i]),
+			},
+			// Rounds are recorded like epochs (loss curve, stall detection)
+			onIteration: (metrics) => {
+				if (trainingCancelled) return false;
+				classroomStore.updateTrainingMetrics(metrics.iteration, {
+					loss: metrics.trainLoss,
+					acc: metrics.trainAccuracy,
+					valLoss: metrics.valLoss,
+					valAcc: metrics.valAccuracy,
 				});
-			}
+			},
 		});
+		if (trainingCancelled) return;
 
-		// Get feature importance
-		const importance = rf.getFeatureImportance();
+		const importance = gb.getFeatureImportance();
 		setFeatureImportance(importance);
 
-		// Evaluate model (using training data as proxy)
-		const predictions = rf.predict(X);
-		const correct = predictions.filter((pred, idx) => pred === y[idx]).length;
-		const accuracy = correct / y.length;
+		// Evaluate model on the held-out rows
+		const predictions = gb.predict(testInput);
+		const correct = predictions.filter(
+			(pred, idx) => pred === testY[idx],
+		).length;
+		const accuracy = correct / testY.length;
+		const confusionMatrix = Array.from({ length: classLabels.length }, () =>
+			Array(classLabels.length).fill(0),
+		);
+		for (let i = 0; i < testY.length; i++) {
+			confusionMatrix[testY[i]][predictions[i]]++;
+		}
+		const classReport =
+			classLabels.length > 2
+				? calculateClassificationReport(
+						predictions,
+						testY,
+						classLabels,
+						gb.predictProba(testInput),
+					)
+				: undefined;
+
+		const best = history[gb.getBestIteration() - 1];
+		classroomStore.setModelMetrics({
+			accuracy,
+			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
+			loss: best?.valLoss,
+			trainingSummary: {
+				nEstimators: gb.getBestIteration(),
+				roundsTrained: history.length,
+				accuracy,
+				validationLoss: best?.valLoss,
+				validationAccuracy: best?.valAccuracy,
+				featureImportance: importance,
+				imbalance: fit.report,
+				classReport,
+			},
+			modelType: 'gradient-boosting',
+			confusionMatrix,
+		});
+
+		classroomStore.setTrainingStatus(false);
+		classroomStore.setHasTrainedModel(true);
+		classroomStore.setTrainedModel(gb);
+		classroomStore.setPipeline(pipeline.toJSON());
+		trainingCancelRef.current = null;
+		setTrainedModel(gb);
+
+		console.log('✅ Gradient Boosting training completed successfully!', {
+			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
+			rounds: `${gb.getBestIteration()} kept of ${history.length}`,
+		});
+	};
+
+	// SVM from the configured hyperparameters (the calibration split for Platt
+	// scaling is made by the caller)
+	const createSvmModel = (randomSeed: number, classWeights?: number[]) =>
+		new SupportVectorMachine({
+			kernel: svmConfig.kernel,
+			C: svmConfig.C,
+			gamma: svmConfig.gamma,
+			epochs: svmConfig.epochs,
+			tolerance: svmConfig.tolerance,
+			maxIterations: svmConfig.maxIterations,
+			cacheSizeMb: svmConfig.cacheSizeMb,
+			classWeights,
+			randomSeed,
+		});
+
+	const trainSvm = async (
+		csvContent: string,
+		targetColumn: string,
+		numericFeatures: string[],
+		fileName: string,
+		featureColumns: string[],
+		dropped: string[],
+		seed: number,
+	) => {
+		console.group('📊 SVM Training Started');
+		console.log('📊 Training Data:', {
+			fileName,
+			targetColumn,
+			originalFeatureColumns: featureColumns,
+			usedNumericFeatureColumns: numericFeatures,
+			droppedNonNumeric: dropped,
+		});
+		console.log('📊 Model Configuration:', svmConfig, { seed });
+		console.groupEnd();
+
+		const random = createRandom(seed);
+		const { trainX, trainY, testX, testY, classLabels, trainGroups } =
+			prepareHeldOutData(csvContent, targetColumn, numericFeatures, random);
+		if (classLabels.length !== 2) {
+			throw new Error(
+				`SVM needs a binary target; "${targetColumn}" has ${classLabels.length} classes`,
+			);
+		}
+		const { derivedFeatures, missingValueStrategy, missingIndicators } =
+			getTrainingData();
+
+		// Platt scaling rows come out of the training side, never the test rows
+		const trainRatio = 1 - svmConfig.calibrationSplit;
+		const { trainIndices: fitIndices, valIndices: calibrationIndices } =
+			trainGroups
+				? groupStratifiedSplit(trainY, trainGroups, trainRatio, random)
+				: stratifiedSplit(trainY, trainRatio, random);
+		const fitX = fitIndices.map((i) => trainX[i]);
+		const fitY = fitIndices.map((i) => trainY[i]);
+
+		// Kernels compare distances, so features are standardized (or use the
+		// transforms chosen in Data Input)
+		const pipeline = PreprocessingPipeline.fitNumeric(numericFeatures, fitX, {
+			targetColumn,
+			classLabels,
+			droppedColumns: dropped,
+			transforms: classroomState.dataInput.featureTransforms,
+			clipPercentiles: classroomState.dataInput.clipPercentiles,
+			derivedFeatures,
+			missingValueStrategy,
+			missingIndicators,
+		});
+
+		// Resampling runs on the scaled (and filled) rows
+		const modelSeed = deriveSeed(random);
+		const fit = rebalanceFitRows(
+			pipeline.transformMatrix(fitX),
+			fitY,
+			classLabels.length,
+			random,
+		);
+		const svm = createSvmModel(modelSeed, fit.classWeights);
+
+		// Set up cancellation
+		let trainingCancelled = false;
+		trainingCancelRef.current = () => {
+			trainingCancelled = true;
+			finishTrainingRun('stopped');
+			classroomStore.setTrainingStatus(false);
+			console.log('🛑 SVM training cancelled by user');
+		};
+
+		await svm.fit(fit.X, fit.y, pipeline.featureNames, {
+			calibration: {
+				X: pipeline.transformMatrix(calibrationIndices.map((i) => trainX[i])),
+				y: calibrationIndices.map((i) => trainY[i]),
+			},
+			// Pegasos epochs record the hinge loss, SMO the optimality gap
+			onProgress: (progress) => {
+				if (trainingCancelled) return false;
+				if (progress.stage !== 'training') return;
+				classroomStore.updateTrainingMetrics(progress.iteration, {
+					loss: progress.loss ?? progress.gap,
+				});
+			},
+		});
+		if (trainingCancelled) return;
+
+		// Evaluate model on the held-out rows
+		const probabilities = svm
+			.predictProba(pipeline.transformMatrix(testX))
+			.map((p) => p[1]);
+		const summary = calculateEvaluationSummary(
+			probabilities,
+			probabilities.map((p) => (p >= 0.5 ? 1 : 0)),
+			testY,
+			0.5,
+			classLabels,
+		);
+		const importance = svm.getFeatureImportance();
+		setFeatureImportance(importance || {});
+
+		classroomStore.setModelMetrics({
+			accuracy: summary.accuracy,
+			finalAccuracy: (summary.accuracy * 100).toFixed(1) + '%',
+			trainingSummary: {
+				kernel: svmConfig.kernel,
+				supportVectors: svm.getSupportVectorCount(),
+				accuracy: summary.accuracy,
+				precision: summary.precision,
+				recall: summary.recall,
+				f1: summary.f1,
+				auc: summary.auc,
+				cacheStats: svm.getCacheStats(),
+				featureImportance: importance,
+				imbalance: fit.report,
+			},
+			modelType: 'svm',
+			confusionMatrix: summary.confusionMatrix,
+		});
+
+		classroomStore.setTrainingStatus(false);
+		classroomStore.setHasTrainedModel(true);
+		classroomStore.setTrainedModel(svm);
+		classroomStore.setPipeline(pipeline.toJSON());
+		trainingCancelRef.current = null;
+		setTrainedModel(svm);
+
+		console.log('✅ SVM training completed successfully!', {
+			finalAccuracy: (summary.accuracy * 100).toFixed(1) + '%',
+			supportVectors: svm.getSupportVectorCount(),
+		});
+	};
+
+	// Logistic regression settings for the library (class weights come from
+	// the imbalance strategy)
+	const createLogisticConfig = (
+		randomSeed: number,
+		classWeights?: number[],
+	): LogisticRegressionConfig => ({
+		learningRate: lrConfig.learningRate,
+		epochs: lrConfig.epochs,
+		regularization: lrConfig.regularization,
+		penalty: lrConfig.penalty,
+		l1Ratio: lrConfig.l1Ratio,
+		classWeights,
+		batchSize: lrConfig.batchSize,
+		earlyStoppingPatience: lrConfig.earlyStoppingPatience,
+		randomSeed,
+	});
+
+	const trainLogisticRegression = async (
+		csvContent: string,
+		targetColumn: string,
+		numericFeatures: string[],
+		fileName: string,
+		featureColumns: string[],
+		dropped: string[],
+		seed: number,
+	) => {
+		console.group('📉 Logistic Regression Training Started');
+		console.log('📉 Training Data:', {
+			fileName,
+			targetColumn,
+			originalFeatureColumns: featureColumns,
+			usedNumericFeatureColumns: numericFeatures,
+			droppedNonNumeric: dropped,
+		});
+		console.log('📉 Model Configuration:', lrConfig, { seed });
+		console.groupEnd();
+
+		const random = createRandom(seed);
+		const { trainX, trainY, testX, testY, classLabels, trainGroups } =
+			prepareHeldOutData(csvContent, targetColumn, numericFeatures, random);
+		if (classLabels.length !== 2) {
+			throw new Error(
+				`Logistic regression needs a binary target; "${targetColumn}" has ${classLabels.length} classes`,
+			);
+		}
+		const { derivedFeatures, missingValueStrategy, missingIndicators } =
+			getTrainingData();
+
+		// Early stopping rows come out of the training side, never the test rows
+		const trainRatio = 1 - lrConfig.validationSplit;
+		const { trainIndices: fitIndices, valIndices: stopIndices } = trainGroups
+			? groupStratifiedSplit(trainY, trainGroups, trainRatio, random)
+			: stratifiedSplit(trainY, trainRatio, random);
+		const fitX = fitIndices.map((i) => trainX[i]);
+		const fitY = fitIndices.map((i) => trainY[i]);
+
+		// Standardized features keep the coefficients (and penalty) comparable
+		const pipeline = PreprocessingPipeline.fitNumeric(numericFeatures, fitX, {
+			targetColumn,
+			classLabels,
+			droppedColumns: dropped,
+			transforms: classroomState.dataInput.featureTransforms,
+			clipPercentiles: classroomState.dataInput.clipPercentiles,
+			derivedFeatures,
+			missingValueStrategy,
+			missingIndicators,
+		});
+		const { featureNames } = pipeline;
+		const numFeatures = featureNames.length;
+		// Resampling runs on the scaled (and filled) rows
+		const modelSeed = deriveSeed(random);
+		const fit = rebalanceFitRows(
+			pipeline.transformMatrix(fitX),
+			fitY,
+			classLabels.length,
+			random,
+		);
+		const fitFlat = Float32Array.from(fit.X.flat());
+		const fitLabels = Float32Array.from(fit.y);
+		const validation = {
+			X: Float32Array.from(
+				pipeline.transformMatrix(stopIndices.map((i) => trainX[i])).flat(),
+			),
+			y: Float32Array.from(stopIndices.map((i) => trainY[i])),
+			numSamples: stopIndices.length,
+		};
+
+		const config = createLogisticConfig(modelSeed, fit.classWeights);
+		const model = new LogisticRegression(numFeatures, config, featureNames);
+
+		// Set up cancellation
+		let trainingCancelled = false;
+		trainingCancelRef.current = () => {
+			trainingCancelled = true;
+			finishTrainingRun('stopped');
+			classroomStore.setTrainingStatus(false);
+			console.log('🛑 Logistic regression training cancelled by user');
+		};
 
-		// Calculate additional metrics
-		const confusionMatrix = Array.from({ length: targetValues.size }, () =>
-			Array(targetValues.size).fill(0),
+		const { trainingHistory } = await model.train(
+			fitFlat,
+			fitLabels,
+			fit.y.length,
+			numFeatures,
+			validation,
+			(metrics) => {
+				if (trainingCancelled) return false;
+				classroomStore.updateTrainingMetrics(metrics.epoch, {
+					loss: metrics.loss,
+					acc: metrics.acc,
+					valLoss: metrics.valLoss,
+					valAcc: metrics.valAcc,
+				});
+			},
 		);
-		for (let i = 0; i < y.length; i++) {
-			confusionMatrix[y[i]][predictions[i]]++;
-		}
+		if (trainingCancelled) return;
+
+		// Coefficients across penalty strengths (without a penalty the path
+		// is traced with the L2 one so it still shows the shrinkage)
+		setPathProgress({ step: 0, total: regularizationStrengths().length });
+		const path = await LogisticRegression.regularizationPath(
+			fitFlat,
+			fitLabels,
+			fit.y.length,
+			numFeatures,
+			{
+				...config,
+				penalty: lrConfig.penalty === 'none' ? 'l2' : lrConfig.penalty,
+				epochs: Math.min(lrConfig.epochs, PATH_EPOCHS),
+			},
+			{
+				featureNames,
+				validation,
+				onStep: (_, step, total) => {
+					if (trainingCancelled) return false;
+					setPathProgress({ step: step + 1, total });
+				},
+			},
+		);
+		setPathProgress(null);
+		if (trainingCancelled) return;
+
+		// Evaluate model on the held-out rows
+		const probabilities = model
+			.predictProba(pipeline.transformMatrix(testX))
+			.map((p) => p[1]);
+		const summary = calculateEvaluationSummary(
+			probabilities,
+			probabilities.map((p) => (p >= 0.5 ? 1 : 0)),
+			testY,
+			0.5,
+			classLabels,
+		);
+		const { weights, bias } = model.getSummary();
+		const importance = model.getFeatureImportance();
+		setFeatureImportance(importance);
+		const lastEpoch = trainingHistory[trainingHistory.length - 1];
 
 		classroomStore.setModelMetrics({
-			accuracy,
-			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
+			accuracy: summary.accuracy,
+			finalAccuracy: (summary.accuracy * 100).toFixed(1) + '%',
+			loss: lastEpoch?.valLoss ?? lastEpoch?.loss,
 			trainingSummary: {
-				nEstimators: rfConfig.nEstimators,
-				accuracy,
+				penalty: lrConfig.penalty,
+				regularization: lrConfig.regularization,
+				epochsTrained: trainingHistory.length,
+				accuracy: summary.accuracy,
+				precision: summary.precision,
+				recall: summary.recall,
+				f1: summary.f1,
+				auc: summary.auc,
+				coefficients: Object.fromEntries(
+					featureNames.map((name, j) => [name, weights[j]]),
+				),
+				intercept: bias,
+				nonZero: weights.filter((w) => w !== 0).length,
 				featureImportance: importance,
+				regularizationPath: { featureNames, points: path },
+				imbalance: fit.report,
 			},
-			modelType: 'random-forest',
-			confusionMatrix,
+			modelType: 'logistic-regression',
+			confusionMatrix: summary.confusionMatrix,
 		});
 
 		classroomStore.setTrainingStatus(false);
 		classroomStore.setHasTrainedModel(true);
-		classroomStore.setTrainedModel(rf);
+		classroomStore.setTrainedModel(model);
+		classroomStore.setPipeline(pipeline.toJSON());
 		trainingCancelRef.current = null;
-		setTrainedModel(rf);
+		setTrainedModel(model);
 
-		console.log('✅ Random Forest training completed successfully!', {
-			finalAccuracy: (accuracy * 100).toFixed(1) + '%',
-			trees: rfConfig.nEstimators,
+		console.log('✅ Logistic regression training completed successfully!', {
+			finalAccuracy: (summary.accuracy * 100).toFixed(1) + '%',
+			epochsTrained: trainingHistory.length,
 		});
 	};
 
+	// K-fold cross-validation of the selected model type; fold models are
+	// discarded, only the held-out metrics are kept
+	const runCrossValidation = async (cvConfig: CrossValidationConfig) => {
+		if (!canTrain()) {
+			setErrorMessage(
+				'Please complete data input configuration (target + features).',
+			);
+			return;
+		}
+		if (
+			regressionTask &&
+			selectedModelType !== 'neural-network' &&
+			selectedModelType !== 'random-forest'
+		) {
+			setErrorMessage(
+				'Gradient boosting, SVM and logistic regression are classifiers; continuous targets are cross-validated with the neural network or random forest.',
+			);
+			return;
+		}
+		setCvRunning(true);
+		setCvProgress(null);
+		setErrorMessage('');
+
+		try {
+			const {
+				targetColumn,
+				labelMapping,
+				featureColumns,
+				derivedFeatures,
+				missingValueStrategy,
+				missingIndicators,
+				columnMeta,
+			} = getTrainingData();
+			const numericFeatures = getNumericFeatures(featureColumns, columnMeta);
+			if (numericFeatures.length === 0) {
+				throw new Error(
+					'All selected features are non-numeric. Select at least one numeric feature.',
+				);
+			}
+
+			const table = parseCSVTable(await loadCsvContent());
+			const { header, rows } = appendDerivedColumns(
+				table.header,
+				table.rows,
+				derivedFeatures,
+			);
+			const targetIdx = header.indexOf(targetColumn);
+			const featureIndices = numericFeatures.map((f) => header.indexOf(f));
+			if (targetIdx === -1 || featureIndices.includes(-1)) {
+				throw new Error('Selected columns not found in the dataset');
+			}
+			if (
+				cvConfig.strategy === 'group' &&
+				!isGroupColumnAvailable(header, cvConfig.groupColumn || '')
+			) {
+				throw new Error(`Group column "${cvConfig.groupColumn}" not found`);
+			}
+
+			// Same row filter as training: numeric features (gaps only where the
+			// feature's strategy fills them) and a (mapped) label, or a number
+			// for a regression target
+			const dropsGaps = numericFeatures.map(
+				(feature) => (missingValueStrategy[feature] || 'drop') === 'drop',
+			);
+			const X: number[][] = [];
+			const targets: string[] = [];
+			const keptRows: string[][] = [];
+			for (const row of rows) {
+				if (row.length !== header.length) continue;
+				const features = featureIndices.map((idx) => parseFloat(row[idx]));
+				const target = regressionTask
+					? row[targetIdx]?.trim()
+					: mapTargetLabel(row[targetIdx]?.trim(), labelMapping);
+				if (!target || features.some((f, j) => isNaN(f) && dropsGaps[j]))
+					continue;
+				if (regressionTask && !isFinite(parseFloat(target))) continue;
+				X.push(features);
+				targets.push(target);
+				keptRows.push(row);
+			}
+			const classLabels = regressionTask
+				? []
+				: orderClassLabels(targets, labelMapping);
+			const y = regressionTask
+				? targets.map((target) => parseFloat(target))
+				: targets.map((target) => classLabels.indexOf(target));
+			// Continuous targets fold as a single stratum
+			const strata = regressionTask ? y.map(() => 0) : y;
+			const groups =
+				cvConfig.strategy === 'group' && cvConfig.groupColumn
+					? groupKeys(header, keptRows, cvConfig.groupColumn)
+					: undefined;
+
+			// The seed drives the fold shuffles and each fold model's initialization
+			const seed = cvConfig.seed ?? configuredSeed() ?? randomSeed();
+			const modelRandom = createRandom(seed);
+			// Pipeline fitted on a fold's fit rows: fills gaps (and adds indicator
+			// columns), scaling the features unless they feed trees
+			const fitFoldPipeline = (fitRows: number[][], normalize: boolean) =>
+				PreprocessingPipeline.fitNumeric(numericFeatures, fitRows, {
+					targetColumn,
+					classLabels,
+					normalize,
+					transforms: normalize
+						? classroomState.dataInput.featureTransforms
+						: undefined,
+					clipPercentiles: normalize
+						? classroomState.dataInput.clipPercentiles
+						: undefined,
+					missingValueStrategy,
+					missingIndicators,
+				});
+			// Only each fold's fit rows are rebalanced; held-out folds keep the
+			// real class mix
+			const rebalanceFold = (foldX: number[][], foldY: number[]) =>
+				rebalanceTrainingRows(
+					foldX,
+					foldY,
+					classLabels.length,
+					imbalanceConfig,
+					modelRandom,
+				);
+
+			const summary = await crossValidate(
+				strata,
+				{ ...cvConfig, seed },
+				async ({ trainIndices, valIndices }) => {
+					const trainX = trainIndices.map((i) => X[i]);
+					const trainY = trainIndices.map((i) => y[i]);
+					const valX = valIndices.map((i) => X[i]);
+					const valY = valIndices.map((i) => y[i]);
+
+					// Regressors: RMSE / MAE / R² on the held-out fold
+					if (regressionTask) {
+						let predictions: number[];
+						if (selectedModelType === 'random-forest') {
+							const modelSeed = deriveSeed(modelRandom);
+							const pipeline = fitFoldPipeline(trainX, false);
+							const fit = keepRegressionRows(
+								pipeline.transformMatrix(trainX),
+								trainY,
+								imbalanceConfig,
+							);
+							const rf = createForestModel(modelSeed);
+							await new RandomForestWorkerPool().fit(
+								rf,
+								fit.X,
+								fit.y,
+								pipeline.featureNames,
+								{ numClasses: 0 },
+							);
+							predictions = rf.predict(pipeline.transformMatrix(valX));
+						} else {
+							predictions = await new NeuralNetworkService().fitRegressionFold(
+								numericFeatures,
+								trainX,
+								trainY,
+								valX,
+								{
+									hiddenLayers: modelConfig.hiddenLayers,
+									learningRate: modelConfig.learningRate,
+									epochs: modelConfig.epochs,
+									batchSize: modelConfig.batchSize,
+									transforms: classroomState.dataInput.featureTransforms,
+									clipPercentiles: classroomState.dataInput.clipPercentiles,
+									missingValueStrategy,
+									missingIndicators,
+									seed: deriveSeed(modelRandom),
+									training: nnTrainingOptions(),
+								},
+							);
+						}
+						return calculateRegressionMetrics(predictions, valY);
+					}
+
+					let probabilities: number[][];
+					if (selectedModelType === 'random-forest') {
+						const modelSeed = deriveSeed(modelRandom);
+						const pipeline = fitFoldPipeline(trainX, false);
+						const fit = rebalanceFold(pipeline.transformMatrix(trainX), trainY);
+						const rf = createForestModel(modelSeed, fit.classWeights);
+						await new RandomForestWorkerPool().fit(
+							rf,
+							fit.X,
+							fit.y,
+							pipeline.featureNames,
+							{ numClasses: classLabels.length },
+						);
+						probabilities = rf.predictProba(pipeline.transformMatrix(valX));
+					} else if (selectedModelType === 'gradient-boosting') {
+						// Early stopping uses a slice of the fold's own training rows
+						const { trainIndices: fitIndices, valIndices: stopIndices } =
+							stratifiedSplit(
+								trainY,
+								1 - gbConfig.validationSplit,
+								modelRandom,
+							);
+						const fitRows = fitIndices.map((i) => trainX[i]);
+						const pipeline = fitFoldPipeline(fitRows, false);
+						const modelSeed = deriveSeed(modelRandom);
+						const fit = rebalanceFold(
+							pipeline.transformMatrix(fitRows),
+							fitIndices.map((i) => trainY[i]),
+						);
+						const gb = createBoostingModel(modelSeed, fit.classWeights);
+						await gb.fit(fit.X, fit.y, pipeline.featureNames, {
+							numClasses: classLabels.length,
+							validation: {
+								X: pipeline.transformMatrix(stopIndices.map((i) => trainX[i])),
+								y: stopIndices.map((i) => trainY[i]),
+							},
+						});
+						probabilities = gb.predictProba(pipeline.transformMatrix(valX));
+					} else if (selectedModelType === 'svm') {
+						if (classLabels.length !== 2) {
+							throw new Error('SVM needs a binary target');
+						}
+						const { trainIndices: fitIndices, valIndices: calibrationIndices } =
+							stratifiedSplit(
+								trainY,
+								1 - svmConfig.calibrationSplit,
+								modelRandom,
+							);
+						// Standardization is fitted on each fold's own training rows
+						const fitRows = fitIndices.map((i) => trainX[i]);
+						const pipeline = fitFoldPipeline(fitRows, true);
+						const modelSeed = deriveSeed(modelRandom);
+						const fit = rebalanceFold(
+							pipeline.transformMatrix(fitRows),
+							fitIndices.map((i) => trainY[i]),
+						);
+						const svm = createSvmModel(modelSeed, fit.classWeights);
+						await svm.fit(fit.X, fit.y, pipeline.featureNames, {
+							calibration: {
+								X: pipeline.transformMatrix(
+									calibrationIndices.map((i) => trainX[i]),
+								),
+								y: calibrationIndices.map((i) => trainY[i]),
+							},
+						});
+						probabilities = svm.predictProba(pipeline.transformMatrix(valX));
+					} else if (selectedModelType === 'logistic-regression') {
+						if (classLabels.length !== 2) {
+							throw new Error('Logistic regression needs a binary target');
+						}
+						const { trainIndices: fitIndices, valIndices: stopIndices } =
+							stratifiedSplit(
+								trainY,
+								1 - lrConfig.validationSplit,
+								modelRandom,
+							);
+						const fitRows = fitIndices.map((i) => trainX[i]);
+						const pipeline = fitFoldPipeline(fitRows, true);
+						const toFlat = (rows: number[][]) =>
+							Float32Array.from(pipeline.transformMatrix(rows).flat());
+						const modelSeed = deriveSeed(modelRandom);
+						const fit = rebalanceFold(
+							pipeline.transformMatrix(fitRows),
+							fitIndices.map((i) => trainY[i]),
+						);
+						const { featureNames } = pipeline;
+						const model = new LogisticRegression(
+							featureNames.length,
+							createLogisticConfig(modelSeed, fit.classWeights),
+							featureNames,
+						);
+						await model.train(
+							Float32Array.from(fit.X.flat()),
+							Float32Array.from(fit.y),
+							fit.y.length,
+							featureNames.length,
+							{
+								X: toFlat(stopIndices.map((i) => trainX[i])),
+								y: Float32Array.from(stopIndices.map((i) => trainY[i])),
+								numSamples: stopIndices.length,
+							},
+						);
+						probabilities = model.predictProba(pipeline.transformMatrix(valX));
+					} else {
+						probabilities = await new NeuralNetworkService().fitFold(
+							numericFeatures,
+							trainX,
+							trainY,
+							valX,
+							classLabels.length,
+							{
+								hiddenLayers: modelConfig.hiddenLayers,
+								learningRate: modelConfig.learningRate,
+								epochs: modelConfig.epochs,
+								batchSize: modelConfig.batchSize,
+								transforms: classroomState.dataInput.featureTransforms,
+								clipPercentiles: classroomState.dataInput.clipPercentiles,
+								missingValueStrategy,
+								missingIndicators,
+								seed: deriveSeed(modelRandom),
+								training: nnTrainingOptions(),
+								imbalance: imbalanceConfig,
+							},
+						);
+					}
+					return evaluateFoldPredictions(probabilities, valY, classLabels);
+				},
+				{
+					groups,
+					onFold: (_, completed, total) => setCvProgress({ completed, total }),
+				},
+			);
+			classroomStore.setCrossValidation(summary);
+			console.log('✅ Cross-validation complete:', {
+				strategy: cvConfig.strategy,
+				folds: summary.folds.length,
+				...(regressionTask
+					? {
+							rmse: `${summary.mean.rmse.toFixed(4)} ± ${summary.std.rmse.toFixed(4)}`,
+							r2: `${summary.mean.r2.toFixed(3)} ± ${summary.std.r2.toFixed(3)}`,
+						}
+					: {
+							accuracy: `${(summary.mean.accuracy * 100).toFixed(1)}% ± ${(
+								summary.std.accuracy * 100
+							).toFixed(1)}%`,
+						}),
+			});
+		} catch (error) {
+			console.error('❌ Cross-validation error:', error);
+			setErrorMessage(
+				`Cross-validation failed: ${
+					error instanceof Error ? error.message : 'Unknown error'
+				}`,
+			);
+		} finally {
+			setCvRunning(false);
+			setCvProgress(null);
+		}
+	};
+
 	// Test model using validation split as proxy test set
 	const handleTestModel = async () => {
 		if (!trainedModel || !modelMetrics) {
 			setErrorMessage('No trained model available for testing');
 			return;
 		}
+		// Regressors are scored on the Test & Export page
+		if (regressionTask) {
+			router.push('/dashboard/classroom/test-export');
+			return;
+		}
 
 		try {
 			console.log('🧪 Starting model testing...');
 
-			const { fileName, targetColumn, featureColumns, rawDataset } =
+			const { datasetId, fileName, targetColumn, featureColumns, rawDataset } =
 				getTrainingData();
 			let csvContent = rawDataset?.originalCSV || '';
 
@@ -1128,7 +2325,7 @@ export default function ClassroomTrainValidateTab() {
 				const resp = await fetch('/api/train', {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ fileName, targetColumn, featureColumns }),
+					body: JSON.stringify({ datasetId, targetColumn, featureColumns }),
 				});
 				if (resp.ok) {
 					const data = await resp.json();
@@ -1151,6 +2348,14 @@ export default function ClassroomTrainValidateTab() {
 					csvContent,
 					targetColumn,
 					numericFeatures,
+					{
+						transforms: classroomState.dataInput.featureTransforms,
+						clipPercentiles: classroomState.dataInput.clipPercentiles,
+						derivedFeatures: getTrainingData().derivedFeatures,
+						labelMapping: getTrainingData().labelMapping,
+						missingValueStrategy: getTrainingData().missingValueStrategy,
+						missingIndicators: getTrainingData().missingIndicators,
+					},
 				);
 				const evalMetrics = await nn.evaluateModel(xVal, yVal);
 				const predsTensor = (nn as any).model.predict(xVal) as any;
@@ -1288,52 +2493,14 @@ export default function ClassroomTrainValidateTab() {
 				// Random Forest testing
 				const rf = rfServiceRef.current;
 
-				// Parse CSV data for testing
-				const lines = csvContent.trim().split('\n');
-				const headers = lines[0].split(',').map((h: string) => h.trim());
-				const rows = lines
-					.slice(1)
-					.map((line: string) => line.split(',').map((cell) => cell.trim()));
-
-				// Find target column index
-				const targetIdx = headers.indexOf(targetColumn);
-				if (targetIdx === -1) {
-					throw new Error(`Target column "${targetColumn}" not found`);
-				}
-
-				// Find feature column indices
-				const numericFeatures = usedFeatureColumns.length
-					? usedFeatureColumns
-					: featureColumns;
-				const featureIndices = numericFeatures.map((feature: string) => {
-					const idx = headers.indexOf(feature);
-					if (idx === -1) {
-						throw new Error(`Feature column "${feature}" not found`);
-					}
-					return idx;
-				});
-
-				// Prepare test data
-				const testX: number[][] = [];
-				const testY: number[] = [];
-				const targetValues = new Set<string>();
-
-				for (const row of rows) {
-					if (row.length !== headers.length) continue;
-
-					// Extract features
-					const features = featureIndices.map((idx: number) =>
-						parseFloat(row[idx]),
-					);
-					if (features.some((f: any) => isNaN(f))) continue;
-
-					// Extract target
-					const target = row[targetIdx];
-					targetValues.add(target);
-
-					testX.push(features);
-					testY.push(Array.from(targetValues).indexOf(target));
+				// The rows held out when the forest was trained (never seen by it)
+				const heldOut = classroomState.training.testDataset;
+				if (!heldOut || heldOut.features.length === 0) {
+					throw new Error('No held-out rows recorded for this model');
 				}
+				const testX = heldOut.features;
+				const testY = heldOut.labels;
+				const nClasses = rf.getClasses().length;
 
 				// Make predictions
 				const predictions = rf.predict(testX);
@@ -1345,7 +2512,6 @@ export default function ClassroomTrainValidateTab() {
 				const accuracy = correct / testY.length;
 
 				// Calculate precision, recall, f1
-				const nClasses = targetValues.size;
 				const matrix: number[][] = Array.from({ length: nClasses }, () =>
 					Array(nClasses).fill(0),
 				);
@@ -1377,13 +2543,6 @@ export default function ClassroomTrainValidateTab() {
 						? 0
 						: (2 * precision * recall) / (precision + recall);
 
-				// Create mock probabilities for Random Forest (binary predictions -> probabilities)
-				const mockProbabilities = predictions.map((pred) => {
-					const probs = Array(nClasses).fill(0);
-					probs[pred] = 1.0; // High confidence in prediction
-					return probs;
-				});
-
 				classroomStore.setTestResults(
 					{
 						accuracy,
@@ -1394,7 +2553,7 @@ export default function ClassroomTrainValidateTab() {
 					},
 					matrix,
 					{
-						rawProbabilities: mockProbabilities,
+						rawProbabilities: rf.predictProba(testX),
 						rawTrueIndices: testY,
 					},
 				);
@@ -1419,7 +2578,8 @@ export default function ClassroomTrainValidateTab() {
 		color?: string;
 		label?: string;
 		suffix?: string;
-	}> = ({ data, color = '#000', suffix = '' }) => {
+		format?: (value: number) => string; // last value (default: 2 decimals)
+	}> = ({ data, color = '#000', suffix = '', format }) => {
 		if (!data || data.length < 2) {
 			return <div className="text-xs text-gray-500">Not enough data</div>;
 		}
@@ -1449,7 +2609,9 @@ export default function ClassroomTrainValidateTab() {
 				<div className="text-xs text-gray-600 mt-1">
 					Last:{' '}
 					{typeof data[data.length - 1] === 'number'
-						? data[data.length - 1].toFixed(2)
+						? format
+							? format(data[data.length - 1])
+							: data[data.length - 1].toFixed(2)
 						: '—'}
 					{suffix}
 				</div>
@@ -1580,7 +2742,7 @@ export default function ClassroomTrainValidateTab() {
 											setSelectedTreeDetail(selectedTreeDetail === i ? null : i)
 										}
 										title={`Tree ${i + 1}${
-											oobScore ? ` - OOB: ${(oobScore * 100).toFixed(1)}%` : ''
+											oobScore ? ` - OOB: ${formatOob(oobScore)}` : ''
 										}${trainingTime ? ` - Time: ${trainingTime}ms` : ''}`}
 									>
 										{cellSize > 16 && (
@@ -1647,9 +2809,7 @@ export default function ClassroomTrainValidateTab() {
 											</div>
 											<div>
 												OOB Score:{' '}
-												{tree?.oobScore
-													? `${(tree.oobScore * 100).toFixed(2)}%`
-													: 'N/A'}
+												{tree?.oobScore ? formatOob(tree.oobScore, 2) : 'N/A'}
 											</div>
 											<div>
 												Training Time:{' '}
@@ -1680,9 +2840,7 @@ export default function ClassroomTrainValidateTab() {
 								<div className="flex justify-between items-center">
 									<span className="text-xs text-green-700">Avg OOB Score:</span>
 									<span className="text-sm font-bold text-green-800">
-										{avgOobScore > 0
-											? `${(avgOobScore * 100).toFixed(1)}%`
-											: 'N/A'}
+										{avgOobScore > 0 ? formatOob(avgOobScore) : 'N/A'}
 									</span>
 								</div>
 								<div className="flex justify-between items-center">
@@ -1754,9 +2912,7 @@ export default function ClassroomTrainValidateTab() {
 															: 'text-red-600'
 													}`}
 												>
-													{tree.oobScore
-														? (tree.oobScore * 100).toFixed(1) + '%'
-														: 'N/A'}
+													{tree.oobScore ? formatOob(tree.oobScore) : 'N/A'}
 												</span>
 											</div>
 										))}
@@ -1811,6 +2967,12 @@ export default function ClassroomTrainValidateTab() {
 					<p className="text-sm mb-4">
 						{selectedModelType === 'neural-network'
 							? 'Configure, train the neural network, and view live metrics plus final results.'
+							: selectedModelType === 'gradient-boosting'
+							? 'Train gradient-boosted trees round by round, stopping early once the validation loss stops improving.'
+							: selectedModelType === 'svm'
+							? 'Train a support vector machine on standardized features, with Platt-scaled probabilities for thresholds and ROC curves.'
+							: selectedModelType === 'logistic-regression'
+							? 'Train a regularized logistic regression, then trace how each coefficient changes with the penalty strength.'
 							: 'Configure, train the random forest, and view training progress with feature importance.'}
 					</p>
 					{/* Controls */}
@@ -1821,19 +2983,43 @@ export default function ClassroomTrainValidateTab() {
 						</div> */}
 						<button
 							onClick={startTraining}
-							disabled={(!canTrain() && !modelMetrics) || isTraining}
+							disabled={
+								(!canTrain() && !modelMetrics) || isTraining || cvRunning
+							}
 							className={`px-6 py-2 rounded-lg font-medium ${
-								(modelMetrics || canTrain()) && !isTraining
+								(modelMetrics || canTrain()) && !isTraining && !cvRunning
 									? 'bg-black text-white hover:bg-gray-800'
 									: 'bg-gray-300 text-gray-500 cursor-not-allowed'
 							}`}
 						>
 							{isTraining
-								? 'Training...'
+								? classroomState.training.paused
+									? 'Paused'
+									: 'Training...'
 								: modelMetrics
 								? 'Adjust & Retrain'
 								: 'Start Training'}
 						</button>
+						{isTraining && getActiveNeuralNetworkSession() && (
+							<>
+								<button
+									onClick={() => {
+										const session = getActiveNeuralNetworkSession();
+										if (classroomState.training.paused) session?.resume();
+										else session?.pause();
+									}}
+									className="px-4 py-2 rounded-lg font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 text-xs"
+								>
+									{classroomState.training.paused ? 'Resume' : 'Pause'}
+								</button>
+								<button
+									onClick={() => getActiveNeuralNetworkSession()?.stop()}
+									className="px-4 py-2 rounded-lg font-medium bg-white border border-red-300 text-red-700 hover:bg-red-50 text-xs"
+								>
+									Stop
+								</button>
+							</>
+						)}
 						{(trainingProgress.length > 0 || modelMetrics || isTraining) && (
 							<button
 								onClick={() => {
@@ -1845,7 +3031,7 @@ export default function ClassroomTrainValidateTab() {
 									setRfAccuracyHistory([]);
 									setRfOobHistory([]);
 									setSelectedTreeDetail(null);
-								}}
+														}}
 								className="px-4 py-2 rounded-lg font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 text-xs"
 								disabled={isTraining}
 							>
@@ -1873,6 +3059,12 @@ export default function ClassroomTrainValidateTab() {
 									<div className="flex items-center justify-between mb-2 text-sm">
 										<span>
 											Epoch {currentEpoch} / {modelConfig.epochs}
+											{modelConfig.earlyStopping.enabled && (
+												<span className="text-xs text-gray-500">
+													{' '}
+													(may stop early)
+												</span>
+											)}
 										</span>
 										<span>
 											{Math.min(
@@ -1916,28 +3108,149 @@ export default function ClassroomTrainValidateTab() {
 									</div>
 								</>
 							)}
+							{selectedModelType === 'gradient-boosting' && (
+								<>
+									<div className="flex items-center justify-between mb-2 text-sm">
+										<span>
+											Round {currentEpoch} / {gbConfig.nEstimators}
+											{gbConfig.earlyStoppingRounds > 0 && (
+												<span className="text-xs text-gray-500">
+													{' '}
+													(may stop early)
+												</span>
+											)}
+										</span>
+										<span>
+											{Math.min(
+												100,
+												Math.round((currentEpoch / gbConfig.nEstimators) * 100),
+											)}
+											%
+										</span>
+									</div>
+									<div className="w-full bg-gray-200 h-2 rounded-full overflow-hidden">
+										<div
+											className="h-2 bg-purple-500 transition-all duration-300"
+											style={{
+												width: `${(currentEpoch / gbConfig.nEstimators) * 100}%`,
+											}}
+										></div>
+									</div>
+								</>
+							)}
+							{selectedModelType === 'logistic-regression' && (
+								<>
+									<div className="flex items-center justify-between mb-2 text-sm">
+										<span>
+											{pathProgress
+												? `Regularization path ${pathProgress.step} / ${pathProgress.total}`
+												: `Epoch ${currentEpoch} / ${lrConfig.epochs}`}
+											{!pathProgress && (
+												<span className="text-xs text-gray-500">
+													{' '}
+													(may stop early)
+												</span>
+											)}
+										</span>
+										<span>
+											{Math.min(
+												100,
+												Math.round(
+													pathProgress
+														? (pathProgress.step / pathProgress.total) * 100
+														: (currentEpoch / lrConfig.epochs) * 100,
+												),
+											)}
+											%
+										</span>
+									</div>
+									<div className="w-full bg-gray-200 h-2 rounded-full overflow-hidden">
+										<div
+											className="h-2 bg-teal-500 transition-all duration-300"
+											style={{
+												width: `${
+													pathProgress
+														? (pathProgress.step / pathProgress.total) * 100
+														: (currentEpoch / lrConfig.epochs) * 100
+												}%`,
+											}}
+										></div>
+									</div>
+								</>
+							)}
+							{selectedModelType === 'svm' &&
+								(() => {
+									// Linear: epochs done; RBF: how far the SMO gap has
+									// fallen towards the tolerance (log scale)
+									const latest = trainingProgress[trainingProgress.length - 1];
+									const fraction =
+										svmConfig.kernel === 'linear'
+											? currentEpoch / svmConfig.epochs
+											: latest
+											? Math.log(SMO_INITIAL_GAP / latest.loss) /
+											  Math.log(SMO_INITIAL_GAP / svmConfig.tolerance)
+											: 0;
+									const percent = Math.round(
+										Math.min(1, Math.max(0, fraction)) * 100,
+									);
+									return (
+										<>
+											<div className="flex items-center justify-between mb-2 text-sm">
+												<span>
+													{svmConfig.kernel === 'linear'
+														? `Epoch ${currentEpoch} / ${svmConfig.epochs}`
+														: `SMO iteration ${currentEpoch}${
+																latest
+																	? ` · gap ${latest.loss.toFixed(4)} → ${
+																			svmConfig.tolerance
+																	  }`
+																	: ''
+														  }`}
+												</span>
+												<span>{percent}%</span>
+											</div>
+											<div className="w-full bg-gray-200 h-2 rounded-full overflow-hidden">
+												<div
+													className="h-2 bg-orange-500 transition-all duration-300"
+													style={{ width: `${percent}%` }}
+												></div>
+											</div>
+										</>
+									);
+								})()}
 						</div>
 					)}
 
 					{/* Latest Metrics */}
-					{selectedModelType === 'neural-network' &&
+					{(selectedModelType === 'neural-network' ||
+						selectedModelType === 'gradient-boosting' ||
+						selectedModelType === 'logistic-regression') &&
 						trainingProgress.length > 0 && (
 							<div className="mb-6">
-								<h4 className="font-medium mb-2">Recent Epochs</h4>
+								<h4 className="font-medium mb-2">
+									{selectedModelType === 'gradient-boosting'
+										? 'Recent Rounds'
+										: 'Recent Epochs'}
+								</h4>
 								<div className="space-y-1 text-xs md:text-sm">
 									{trainingProgress.slice(-6).map((p, idx) => (
 										<div
 											key={`${p.epoch}-${idx}`}
 											className="grid grid-cols-5 gap-2"
 										>
-											<span className="font-medium">Ep {p.epoch}</span>
+											<span className="font-medium">
+												{selectedModelType === 'gradient-boosting'
+													? 'Round'
+													: 'Ep'}{' '}
+												{p.epoch}
+											</span>
 											<span>
 												Loss:{' '}
 												{typeof p.loss === 'number' ? p.loss.toFixed(4) : '—'}
 											</span>
 											<span>
 												Acc:{' '}
-												{typeof p.accuracy === 'number'
+												{typeof p.accuracy === 'number' && !regressionTask
 													? (p.accuracy * 100).toFixed(1) + '%'
 													: '—'}
 											</span>
@@ -1974,9 +3287,7 @@ export default function ClassroomTrainValidateTab() {
 											</span>
 											<span>
 												OOB Score:{' '}
-												{tree.oobScore
-													? (tree.oobScore * 100).toFixed(1) + '%'
-													: 'N/A'}
+												{tree.oobScore ? formatOob(tree.oobScore) : 'N/A'}
 											</span>
 											<span className="text-green-600">
 												{tree.completed ? '✓ Completed' : 'Training...'}
@@ -1992,33 +3303,91 @@ export default function ClassroomTrainValidateTab() {
 						<div className="bg-gray-50 rounded-lg p-4 mb-4">
 							<h4 className="font-medium mb-3">Final Metrics</h4>
 							<div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
-								<div>
-									<div className="text-xl font-bold text-green-600">
-										{typeof modelMetrics.accuracy === 'number'
-											? (modelMetrics.accuracy * 100).toFixed(1) + '%'
-											: modelMetrics.finalAccuracy || 'N/A'}
+								{modelMetrics.regression ? (
+									<>
+										<div>
+											<div className="text-xl font-bold text-green-600">
+												{modelMetrics.regression.r2.toFixed(3)}
+											</div>
+											<div className="text-xs text-gray-600 mt-1">R²</div>
+										</div>
+										<div>
+											<div className="text-xl font-bold text-green-600">
+												{formatTargetValue(modelMetrics.regression.rmse)}
+											</div>
+											<div className="text-xs text-gray-600 mt-1">RMSE</div>
+										</div>
+										<div>
+											<div className="text-xl font-bold text-green-600">
+												{formatTargetValue(modelMetrics.regression.mae)}
+											</div>
+											<div className="text-xs text-gray-600 mt-1">MAE</div>
+										</div>
+									</>
+								) : (
+									<div>
+										<div className="text-xl font-bold text-green-600">
+											{typeof modelMetrics.accuracy === 'number'
+												? (modelMetrics.accuracy * 100).toFixed(1) + '%'
+												: modelMetrics.finalAccuracy || 'N/A'}
+										</div>
+										<div className="text-xs text-gray-600 mt-1">Accuracy</div>
 									</div>
-									<div className="text-xs text-gray-600 mt-1">Accuracy</div>
-								</div>
-								{selectedModelType === 'neural-network' && (
+								)}
+								{(selectedModelType === 'neural-network' ||
+									selectedModelType === 'gradient-boosting' ||
+									selectedModelType === 'logistic-regression') && (
 									<div>
 										<div className="text-xl font-bold text-blue-600">
 											{typeof modelMetrics.loss === 'number'
 												? modelMetrics.loss.toFixed(4)
 												: modelMetrics.finalLoss || 'N/A'}
 										</div>
-										<div className="text-xs text-gray-600 mt-1">Loss</div>
+										<div className="text-xs text-gray-600 mt-1">
+											{selectedModelType === 'gradient-boosting'
+												? 'Best Val Loss'
+												: selectedModelType === 'logistic-regression'
+												? 'Val Loss'
+												: modelMetrics.regression
+												? 'Loss (scaled target)'
+												: 'Loss'}
+										</div>
+									</div>
+								)}
+								{selectedModelType === 'random-forest' && (
+									<div>
+										<div className="text-xl font-bold text-blue-600">
+											{modelMetrics.oobAccuracy || 'N/A'}
+										</div>
+										<div className="text-xs text-gray-600 mt-1">
+											{modelMetrics.regression ? 'OOB Score' : 'OOB Accuracy'}
+										</div>
 									</div>
 								)}
 								<div>
 									<div className="text-xl font-bold text-purple-600">
 										{selectedModelType === 'neural-network'
-											? modelConfig.epochs
-											: rfConfig.nEstimators}
+											? (modelMetrics.trainingSummary?.epochs ??
+												modelConfig.epochs)
+											: selectedModelType === 'gradient-boosting'
+											? modelMetrics.trainingSummary?.nEstimators
+											: selectedModelType === 'svm'
+											? modelMetrics.trainingSummary?.supportVectors
+											: selectedModelType === 'logistic-regression'
+											? modelMetrics.trainingSummary?.epochsTrained
+											: modelMetrics.trainingSummary?.nEstimators}
 									</div>
 									<div className="text-xs text-gray-600 mt-1">
 										{selectedModelType === 'neural-network'
 											? 'Epochs'
+											: selectedModelType === 'gradient-boosting'
+											? 'Rounds Kept'
+											: selectedModelType === 'svm'
+											? modelMetrics.trainingSummary?.kernel === 'linear'
+												? 'Non-zero Weights'
+												: 'Support Vectors'
+											: selectedModelType === 'logistic-regression'
+											? 'Epochs Trained'
 											: 'Trees'}
 									</div>
 								</div>
@@ -2031,9 +3400,37 @@ export default function ClassroomTrainValidateTab() {
 									<div className="text-xs text-gray-600 mt-1">Features</div>
 								</div>
 							</div>
+							{classroomState.training.currentRun?.seed !== undefined && (
+								<div className="mt-3 text-xs text-gray-600">
+									Seed {classroomState.training.currentRun.seed}: enter it in
+									Model Selection to replay this run exactly.
+								</div>
+							)}
+							{modelMetrics.trainingSummary?.imbalance && (
+								<div className="mt-1 text-xs text-gray-600">
+									{describeImbalance(modelMetrics.trainingSummary.imbalance)}
+									{modelMetrics.trainingSummary.imbalance.note
+										? ` (${modelMetrics.trainingSummary.imbalance.note})`
+										: ''}
+									; validation and test rows keep the original class balance.
+								</div>
+							)}
+							{modelMetrics.trainingSummary?.classReport && (
+								<div className="mt-4 p-3 bg-white border border-gray-200 rounded">
+									<h5 className="text-sm font-medium mb-2">
+										Per-Class Metrics (held-out rows)
+									</h5>
+									<ClassReportTable
+										report={modelMetrics.trainingSummary.classReport}
+									/>
+								</div>
+							)}
 
-							{/* Random Forest specific metrics */}
-							{selectedModelType === 'random-forest' &&
+							{/* Feature importance (tree ensembles, linear model weights) */}
+							{(selectedModelType === 'random-forest' ||
+								selectedModelType === 'gradient-boosting' ||
+								selectedModelType === 'svm' ||
+								selectedModelType === 'logistic-regression') &&
 								Object.keys(featureImportance).length > 0 && (
 									<div className="mt-4 p-3 bg-green-50 border border-green-200 rounded">
 										<h5 className="text-sm font-medium text-green-800 mb-2">
@@ -2075,6 +3472,47 @@ export default function ClassroomTrainValidateTab() {
 				</CardContent>
 			</Card>
 
+			{/* Groups spanning the train / test split of the last run */}
+			{classroomState.training.leakage && (
+				<Card>
+					<CardTitle>Split Leakage</CardTitle>
+					<CardContent>
+						<LeakageReportPanel
+							report={classroomState.training.leakage}
+							header={trainingData.rawDataset?.header || []}
+						/>
+					</CardContent>
+				</Card>
+			)}
+
+			{/* K-fold cross-validation: spread of held-out metrics across folds */}
+			<Card>
+				<CardTitle>Cross-Validation</CardTitle>
+				<CardContent>
+					<CrossValidationPanel
+						header={trainingData.rawDataset?.header || []}
+						groupColumn={trainingData.groupColumn}
+						modelLabel={
+							selectedModelType === 'neural-network'
+								? 'neural network'
+								: selectedModelType === 'gradient-boosting'
+								? 'gradient boosting'
+								: selectedModelType === 'svm'
+								? 'SVM'
+								: selectedModelType === 'logistic-regression'
+								? 'logistic regression'
+								: 'random forest'
+						}
+						regression={regressionTask}
+						running={cvRunning}
+						progress={cvProgress}
+						summary={classroomState.training.crossValidation}
+						disabled={isTraining || !canTrain()}
+						onRun={runCrossValidation}
+					/>
+				</CardContent>
+			</Card>
+
 			{/* Random Forest Interactive Training Visualization */}
 			{selectedModelType === 'random-forest' &&
 				(rfTreeProgress.length > 0 || isTraining) && (
@@ -2087,36 +3525,37 @@ export default function ClassroomTrainValidateTab() {
 								<CardTitle>Random Forest Training Curves</CardTitle>
 								<CardContent>
 									<p className="text-sm mb-4">
-										Out-of-bag (OOB) accuracy and training progression across
-										trees.
+										Out-of-bag (OOB) {regressionTask ? 'R²' : 'accuracy'}: each
+										row is scored only by the trees whose bootstrap sample left
+										it out.
 									</p>
 									<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
 										{/* OOB Score Curve */}
 										{rfOobHistory.length > 0 && (
 											<div className="bg-white border rounded-lg p-4">
 												<h4 className="font-medium mb-2 text-sm">
-													OOB Score Evolution
+													Forest OOB {regressionTask ? 'R²' : 'Accuracy'}
 												</h4>
 												<Sparklines
-													data={rfOobHistory.map((score) => score * 100)}
+													data={rfOobHistory}
 													color="#16a34a"
 													label="OOB Score"
-													suffix="%"
+													format={formatOob}
 												/>
 											</div>
 										)}
 
-										{/* Accuracy Estimate Curve */}
+										{/* Each tree on its own OOB rows */}
 										{rfAccuracyHistory.length > 0 && (
 											<div className="bg-white border rounded-lg p-4">
 												<h4 className="font-medium mb-2 text-sm">
-													Training Accuracy Estimate
+													Single-Tree OOB {regressionTask ? 'R²' : 'Accuracy'}
 												</h4>
 												<Sparklines
-													data={rfAccuracyHistory.map((acc) => acc * 100)}
+													data={rfAccuracyHistory}
 													color="#2563eb"
-													label="Accuracy"
-													suffix="%"
+													label="Tree OOB"
+													format={formatOob}
 												/>
 											</div>
 										)}
@@ -2135,7 +3574,7 @@ export default function ClassroomTrainValidateTab() {
 										<div className="bg-blue-50 rounded-lg p-3">
 											<div className="text-lg font-bold text-blue-600">
 												{rfOobHistory.length > 0
-													? (Math.max(...rfOobHistory) * 100).toFixed(1) + '%'
+													? formatOob(Math.max(...rfOobHistory))
 													: 'N/A'}
 											</div>
 											<div className="text-xs text-gray-600 mt-1">
@@ -2153,9 +3592,7 @@ export default function ClassroomTrainValidateTab() {
 										<div className="bg-orange-50 rounded-lg p-3">
 											<div className="text-lg font-bold text-orange-600">
 												{rfOobHistory.length > 0
-													? (
-															rfOobHistory[rfOobHistory.length - 1] * 100
-													  ).toFixed(1) + '%'
+													? formatOob(rfOobHistory[rfOobHistory.length - 1])
 													: 'N/A'}
 											</div>
 											<div className="text-xs text-gray-600 mt-1">
@@ -2169,6 +3606,183 @@ export default function ClassroomTrainValidateTab() {
 					</div>
 				)}
 
+			{/* Gradient Boosting loss curves across rounds */}
+			{selectedModelType === 'gradient-boosting' &&
+				trainingProgress.length > 0 && (
+					<Card>
+						<CardTitle>Boosting Loss Curve</CardTitle>
+						<CardContent>
+							<p className="text-sm mb-4">
+								Log loss after each boosting round. Training loss keeps falling;
+								the validation loss flattens or rises once extra trees start
+								fitting noise, which is where early stopping cuts the model.
+							</p>
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+								<div className="bg-white border rounded-lg p-4">
+									<h4 className="font-medium mb-2 text-sm">Training Loss</h4>
+									<Sparklines
+										data={trainingProgress.map((p) => p.loss)}
+										color="#2563eb"
+										label="Training Loss"
+									/>
+								</div>
+								<div className="bg-white border rounded-lg p-4">
+									<h4 className="font-medium mb-2 text-sm">Validation Loss</h4>
+									<Sparklines
+										data={trainingProgress
+											.map((p) => p.valLoss)
+											.filter((v): v is number => typeof v === 'number')}
+										color="#9333ea"
+										label="Validation Loss"
+									/>
+								</div>
+								<div className="bg-white border rounded-lg p-4">
+									<h4 className="font-medium mb-2 text-sm">
+										Validation Accuracy
+									</h4>
+									<Sparklines
+										data={trainingProgress
+											.map((p) => p.valAccuracy)
+											.filter((v): v is number => typeof v === 'number')
+											.map((acc) => acc * 100)}
+										color="#16a34a"
+										suffix="%"
+										label="Validation Accuracy"
+									/>
+								</div>
+							</div>
+							{modelMetrics?.modelType === 'gradient-boosting' && (
+								<div className="mt-4 text-xs text-gray-600">
+									Kept {modelMetrics.trainingSummary?.nEstimators} of{' '}
+									{modelMetrics.trainingSummary?.roundsTrained} rounds (lowest
+									validation loss).
+								</div>
+							)}
+						</CardContent>
+					</Card>
+				)}
+
+			{/* SVM convergence: hinge loss per epoch or SMO optimality gap */}
+			{selectedModelType === 'svm' && trainingProgress.length > 0 && (
+				<Card>
+					<CardTitle>SVM Convergence</CardTitle>
+					<CardContent>
+						<p className="text-sm mb-4">
+							{svmConfig.kernel === 'linear'
+								? 'Mean hinge loss on the training rows after each Pegasos epoch.'
+								: 'SMO optimality gap: training stops once the most violating pair of multipliers is within the tolerance.'}
+						</p>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<div className="bg-white border rounded-lg p-4">
+								<h4 className="font-medium mb-2 text-sm">
+									{svmConfig.kernel === 'linear' ? 'Hinge Loss' : 'KKT Gap'}
+								</h4>
+								<Sparklines
+									data={trainingProgress.map((p) => p.loss)}
+									color="#ea580c"
+									label={svmConfig.kernel === 'linear' ? 'Hinge Loss' : 'Gap'}
+								/>
+							</div>
+							{modelMetrics?.modelType === 'svm' && (
+								<div className="bg-white border rounded-lg p-4 text-sm space-y-1">
+									<div>
+										Held-out AUC:{' '}
+										{typeof modelMetrics.trainingSummary?.auc === 'number'
+											? modelMetrics.trainingSummary.auc.toFixed(3)
+											: 'N/A'}
+									</div>
+									<div>
+										F1:{' '}
+										{typeof modelMetrics.trainingSummary?.f1 === 'number'
+											? modelMetrics.trainingSummary.f1.toFixed(3)
+											: 'N/A'}
+									</div>
+									{modelMetrics.trainingSummary?.kernel === 'rbf' &&
+										modelMetrics.trainingSummary.cacheStats && (
+											<div className="text-xs text-gray-600">
+												Kernel cache:{' '}
+												{modelMetrics.trainingSummary.cacheStats.hits} hits /{' '}
+												{modelMetrics.trainingSummary.cacheStats.misses} rows
+												computed
+											</div>
+										)}
+								</div>
+							)}
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			{/* Logistic regression coefficients across penalty strengths */}
+			{selectedModelType === 'logistic-regression' &&
+				modelMetrics?.modelType === 'logistic-regression' &&
+				modelMetrics.trainingSummary?.regularizationPath && (
+					<Card>
+						<CardTitle>Regularization Path</CardTitle>
+						<CardContent>
+							<p className="text-sm mb-4">
+								Each line is one feature&apos;s coefficient, refitted from a
+								strong penalty (left) to a weak one (right). Features whose
+								lines leave zero early matter most; the dashed line marks the
+								strength of the trained model.
+								{modelMetrics.trainingSummary.penalty === 'none' &&
+									' No penalty was used for training, so the path shows L2 shrinkage.'}
+							</p>
+							<RegularizationPathChart
+								featureNames={
+									modelMetrics.trainingSummary.regularizationPath.featureNames
+								}
+								points={modelMetrics.trainingSummary.regularizationPath.points}
+								selectedStrength={
+									modelMetrics.trainingSummary.penalty === 'none'
+										? undefined
+										: modelMetrics.trainingSummary.regularization
+								}
+							/>
+							<div className="mt-6">
+								<h4 className="font-medium mb-2 text-sm">
+									Trained Coefficients
+								</h4>
+								<div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+									{Object.entries(
+										modelMetrics.trainingSummary.coefficients as Record<
+											string,
+											number
+										>,
+									)
+										.sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+										.map(([feature, weight]) => (
+											<div
+												key={feature}
+												className="flex justify-between bg-gray-50 border rounded px-2 py-1"
+											>
+												<span className="truncate mr-2">{feature}</span>
+												<span
+													className={`font-mono ${
+														weight > 0
+															? 'text-green-700'
+															: weight < 0
+															? 'text-red-700'
+															: 'text-gray-400'
+													}`}
+												>
+													{weight.toFixed(3)}
+												</span>
+											</div>
+										))}
+								</div>
+								<p className="text-xs text-gray-500 mt-2">
+									Intercept {modelMetrics.trainingSummary.intercept.toFixed(3)}.
+									Positive weights push towards{' '}
+									{classroomState.training.pipeline?.classLabels?.[1] ??
+										'class 1'}
+									, per standard deviation of the feature.
+								</p>
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
 			{/* Training Visualization Card */}
 			{selectedModelType === 'neural-network' &&
 				trainingProgress.length > 0 && (
@@ -2176,9 +3790,10 @@ export default function ClassroomTrainValidateTab() {
 						<CardTitle>Training Visualization</CardTitle>
 						<CardContent>
 							<p className="text-sm mb-4">
-								Loss and accuracy evolution across epochs.
+								Loss and {regressionTask ? 'validation loss' : 'accuracy'}{' '}
+								evolution across epochs, with the learning rate each epoch used.
 							</p>
-							<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
 								{/* Loss sparkline */}
 								<div className="bg-white border rounded-lg p-4">
 									<h4 className="font-medium mb-2 text-sm">Loss Curve</h4>
@@ -2190,23 +3805,68 @@ export default function ClassroomTrainValidateTab() {
 										label="Loss"
 									/>
 								</div>
-								{/* Accuracy sparkline */}
+								{/* Accuracy sparkline (regressors: validation loss) */}
+								{regressionTask ? (
+									<div className="bg-white border rounded-lg p-4">
+										<h4 className="font-medium mb-2 text-sm">
+											Validation Loss Curve
+										</h4>
+										<Sparklines
+											data={trainingProgress
+												.map((p) => p.valLoss)
+												.filter((v): v is number => typeof v === 'number')}
+											color="#16a34a"
+											label="Validation Loss"
+										/>
+									</div>
+								) : (
+									<div className="bg-white border rounded-lg p-4">
+										<h4 className="font-medium mb-2 text-sm">Accuracy Curve</h4>
+										<Sparklines
+											data={trainingProgress.map((p) => {
+												const acc =
+													typeof p.accuracy === 'number'
+														? p.accuracy
+														: Number(p.accuracy);
+												return (acc || 0) * 100;
+											})}
+											color="#16a34a"
+											suffix="%"
+											label="Accuracy"
+										/>
+									</div>
+								)}
+								{/* Learning rate sparkline */}
 								<div className="bg-white border rounded-lg p-4">
-									<h4 className="font-medium mb-2 text-sm">Accuracy Curve</h4>
+									<h4 className="font-medium mb-2 text-sm">Learning Rate</h4>
 									<Sparklines
-										data={trainingProgress.map((p) => {
-											const acc =
-												typeof p.accuracy === 'number'
-													? p.accuracy
-													: Number(p.accuracy);
-											return (acc || 0) * 100;
-										})}
-										color="#16a34a"
-										suffix="%"
-										label="Accuracy"
+										data={(
+											classroomState.training.currentRun?.epochMetrics ?? []
+										)
+											.map((m) => m.lr)
+											.filter((v): v is number => typeof v === 'number')}
+										color="#ea580c"
+										label="Learning Rate"
+										format={(value) => value.toExponential(1)}
 									/>
 								</div>
 							</div>
+							{modelMetrics?.modelType === 'neural-network' &&
+								modelMetrics.trainingSummary?.bestEpoch > 0 && (
+									<div className="mt-4 text-xs text-gray-600">
+										{modelMetrics.trainingSummary.earlyStoppedAt
+											? `Stopped early after epoch ${modelMetrics.trainingSummary.earlyStoppedAt}. `
+											: ''}
+										Best epoch {modelMetrics.trainingSummary.bestEpoch} (
+										{modelMetrics.trainingSummary.monitor === 'valAcc'
+											? 'highest validation accuracy'
+											: 'lowest validation loss'}
+										)
+										{modelMetrics.trainingSummary.restoredBestWeights
+											? '; its weights were restored.'
+											: '.'}
+									</div>
+								)}
 						</CardContent>
 					</Card>
 				)}
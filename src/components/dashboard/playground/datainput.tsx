@@ -5,17 +5,23 @@ import { useRouter } from 'next/navigation';
 import { Card, CardTitle, CardContent } from '../../ui/Card';
 import { usePrediction } from '../predictioncontext';
 import { predictSingle } from '../../../lib/ml/exoplanetClient';
-
-// Simple CSV parser (header row + rows)
+import { parseCSVTable } from '../../../lib/ml/parsing/tokenizer.mjs';
+import { useDatasetRegistry } from '../../../lib/datasets/client';
+import {
+	detectMissionSchema,
+	predictionServiceColumns,
+	toPredictionServiceFeatures,
+	unavailableServiceColumns,
+} from '../../../lib/datasets/schema';
+
+// Simple CSV parser (header row + rows), RFC 4180 quoting via shared tokenizer
 function parseCsv(text: string): Record<string, string | number | null>[] {
-	const lines = text.split(/\r?\n/).filter((l) => l.trim());
-	if (!lines.length) return [];
-	const headers = lines[0].split(',').map((h) => h.trim());
-	return lines.slice(1).map((line) => {
-		const cells = line.split(',');
+	const { header, rows } = parseCSVTable(text);
+	if (!header.length) return [];
+	return rows.map((cells) => {
 		const row: Record<string, string | number | null> = {};
-		headers.forEach((h, i) => {
-			const raw = (cells[i] ?? '').trim();
+		header.forEach((h, i) => {
+			const raw = cells[i] ?? '';
 			if (raw === '') {
 				row[h] = null;
 				return;
@@ -104,6 +110,9 @@ export default function DataInputTab() {
 		}
 	}, []);
 
+	// Preloaded datasets served by the dataset registry
+	const { datasets: registry } = useDatasetRegistry();
+
 	// Single dataset selection (unrestricted preloaded)
 	const [selectedDataset, setSelectedDataset] = React.useState<string | null>(
 		null,
@@ -129,11 +138,11 @@ export default function DataInputTab() {
 					return response.text();
 				})
 				.then(csvText => {
-					const lines = csvText.trim().split('\n');
+					const { rows } = parseCSVTable(csvText);
 					const ids = new Set<string>();
-					// Skip header row
-					for (let i = 1; i < lines.length; i++) {
-						const kepid = lines[i].split(',')[0]?.trim();
+					// Header row is split off by the tokenizer
+					for (const row of rows) {
+						const kepid = row[0];
 						if (kepid) {
 							ids.add(kepid);
 						}
@@ -245,23 +254,25 @@ export default function DataInputTab() {
 					return { isValid: false, error: 'File appears to be empty or invalid' };
 				}
 
-				// Required KOI parameters for the API
-				const requiredColumns = [
-					'koi_period', 'koi_time0bk', 'koi_impact', 'koi_duration', 'koi_depth',
-					'koi_incl', 'koi_model_snr', 'koi_count', 'koi_bin_oedp_sig', 'koi_steff',
-					'koi_slogg', 'koi_srad', 'koi_smass', 'koi_kepmag'
-				];
-
 				// Get the headers from the parsed data
 				const headers = Object.keys(parsed[0] || {});
-				
+
+				// KOI or TESS columns are mapped onto the features the API expects
+				const schema = detectMissionSchema(headers);
+				if (!schema) {
+					return {
+						isValid: false,
+						error: 'Unrecognized columns. Please upload a table with Kepler (KOI) or TESS (TOI) columns.'
+					};
+				}
+
 				// Check which required columns are missing
-				const missingColumns = requiredColumns.filter(col => !headers.includes(col));
+				const missingColumns = unavailableServiceColumns(headers, schema);
 				
 				if (missingColumns.length > 0) {
 					return { 
 						isValid: false, 
-						error: `Missing required columns: ${missingColumns.join(', ')}. Please ensure your CSV includes all KOI parameters.` 
+						error: `Missing required columns: ${missingColumns.join(', ')}. The ${schema.mission} table has no counterpart for these KOI parameters.` 
 					};
 				}
 
@@ -270,29 +281,13 @@ export default function DataInputTab() {
 				const errors = [];
 
 				for (let i = 0; i < Math.min(parsed.length, 1000); i++) { // Limit to 1000 rows for processing
-					const row = parsed[i];
-					const validatedRow: Record<string, number> = {};
-					let hasErrors = false;
-
-					for (const col of requiredColumns) {
-						const value = row[col];
-						if (value === null || value === undefined || value === '') {
-							errors.push(`Row ${i + 1}: Missing value for ${col}`);
-							hasErrors = true;
-							continue;
-						}
-
-						const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-						if (isNaN(numValue) || !isFinite(numValue)) {
-							errors.push(`Row ${i + 1}: Invalid numeric value for ${col}: ${value}`);
-							hasErrors = true;
-							continue;
-						}
+					const { features: validatedRow, missing } = toPredictionServiceFeatures(parsed[i], schema);
 
-						validatedRow[col] = numValue;
+					for (const col of missing) {
+						errors.push(`Row ${i + 1}: Missing or invalid value for ${col}`);
 					}
 
-					if (!hasErrors) {
+					if (missing.length === 0) {
 						validRows.push(validatedRow);
 					}
 				}
@@ -516,22 +511,12 @@ export default function DataInputTab() {
 				const payload = {
 					model: modelType,
 					datasource: 'manual',
-					features: {
-						koi_period: koiValues.koi_period || koiParameters.find(p => p.key === 'koi_period')?.defaultValue || 10.0,
-						koi_time0bk: koiValues.koi_time0bk || koiParameters.find(p => p.key === 'koi_time0bk')?.defaultValue || 170.0,
-						koi_impact: koiValues.koi_impact || koiParameters.find(p => p.key === 'koi_impact')?.defaultValue || 0.5,
-						koi_duration: koiValues.koi_duration || koiParameters.find(p => p.key === 'koi_duration')?.defaultValue || 3.0,
-						koi_depth: koiValues.koi_depth || koiParameters.find(p => p.key === 'koi_depth')?.defaultValue || 100.0,
-						koi_incl: koiValues.koi_incl || koiParameters.find(p => p.key === 'koi_incl')?.defaultValue || 89.0,
-						koi_model_snr: koiValues.koi_model_snr || koiParameters.find(p => p.key === 'koi_model_snr')?.defaultValue || 50.0,
-						koi_count: koiValues.koi_count || koiParameters.find(p => p.key === 'koi_count')?.defaultValue || 50,
-						koi_bin_oedp_sig: koiValues.koi_bin_oedp_sig || koiParameters.find(p => p.key === 'koi_bin_oedp_sig')?.defaultValue || 0.0,
-						koi_steff: koiValues.koi_steff || koiParameters.find(p => p.key === 'koi_steff')?.defaultValue || 5778,
-						koi_slogg: koiValues.koi_slogg || koiParameters.find(p => p.key === 'koi_slogg')?.defaultValue || 4.44,
-						koi_srad: koiValues.koi_srad || koiParameters.find(p => p.key === 'koi_srad')?.defaultValue || 1.0,
-						koi_smass: koiValues.koi_smass || koiParameters.find(p => p.key === 'koi_smass')?.defaultValue || 1.0,
-						koi_kepmag: koiValues.koi_kepmag || koiParameters.find(p => p.key === 'koi_kepmag')?.defaultValue || 12.0
-					},
+					features: Object.fromEntries(
+						predictionServiceColumns().map(key => [
+							key,
+							koiValues[key] ?? koiParameters.find(p => p.key === key)?.defaultValue ?? 0
+						])
+					),
 					predict: true
 				};
 
@@ -629,22 +614,9 @@ export default function DataInputTab() {
 				const maxSamples = Math.min(uploadedData.length, 3);
 				for (let i = 0; i < maxSamples; i++) {
 					const sample = uploadedData[i];
-					features[`features-target-${i + 1}`] = {
-						koi_period: sample.koi_period,
-						koi_time0bk: sample.koi_time0bk,
-						koi_impact: sample.koi_impact,
-						koi_duration: sample.koi_duration,
-						koi_depth: sample.koi_depth,
-						koi_incl: sample.koi_incl,
-						koi_model_snr: sample.koi_model_snr,
-						koi_count: sample.koi_count,
-						koi_bin_oedp_sig: sample.koi_bin_oedp_sig,
-						koi_steff: sample.koi_steff,
-						koi_slogg: sample.koi_slogg,
-						koi_srad: sample.koi_srad,
-						koi_smass: sample.koi_smass,
-						koi_kepmag: sample.koi_kepmag
-					};
+					features[`features-target-${i + 1}`] = Object.fromEntries(
+						predictionServiceColumns().map(key => [key, sample[key]])
+					);
 				}
 
 				const payload = {
@@ -733,13 +705,10 @@ export default function DataInputTab() {
 					}
 				}
 
-				// Map dataset selection to API data parameter
-				let dataType = 'kepler'; // default
-				if (selectedDataset === 'tess-candidates') {
-					dataType = 'tess';
-				} else if (selectedDataset === 'kepler-validated') {
-					dataType = 'kepler';
-				}
+				// Map dataset selection to API data parameter (registry prediction key)
+				const dataType =
+					datasetCards.find(card => card.id === selectedDataset)?.predictionKey ||
+					selectedDataset;
 
 				// Build the prediction payload for preloaded data
 				const payload = {
@@ -817,33 +786,17 @@ export default function DataInputTab() {
 		}
 	};
 
-	const allDatasetCards = [
-		{
-			id: 'kepler-validated',
-			name: 'Kepler Objects of Interest Test Data',
-			description: 'This includes test data that the model has not seen during training',
-			samples: 4892,
-			duration: '2009-2017',
-		},
-		{
-			id: 'tess-candidates',
-			name: 'TESS Objects of Interest Test Data',
-			description: 'This includes test data that the model has not seen during training',
-			samples: 2674,
-			duration: '2018-2024',
-		},
-	];
-
-	// Filter datasets based on model type
+	// Dataset cards come from registry entries that declare a playground block
 	const datasetCards = React.useMemo(() => {
-		if (isRestrictedModel) {
-			// CNN/DNN models only show Kepler data
-			return allDatasetCards.filter(card => card.id === 'kepler-validated');
-		} else {
-			// SVM/GB models show Kepler and TESS data
-			return allDatasetCards.filter(card => ['kepler-validated', 'tess-candidates'].includes(card.id));
-		}
-	}, [isRestrictedModel]);
+		const cards = (registry || [])
+			.filter(entry => entry.playground)
+			.map(entry => ({
+				id: entry.id,
+				...entry.playground!,
+			}));
+		// CNN/DNN models only show datasets flagged for them
+		return isRestrictedModel ? cards.filter(card => card.restrictedModels) : cards;
+	}, [registry, isRestrictedModel]);
 
 	return (
 		<div className="space-y-4">
@@ -1373,22 +1326,7 @@ export default function DataInputTab() {
 									<div className="mb-6">
 										<h4 className="text-sm font-semibold mb-3 text-black">Selected Features for Model Development:</h4>
 										<div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-xs">
-											{[
-												'koi_period',
-												'koi_time0bk', 
-												'koi_impact',
-												'koi_duration',
-												'koi_depth',
-												'koi_incl',
-												'koi_model_snr',
-												'koi_count',
-												'koi_bin_oedp_sig',
-												'koi_steff',
-												'koi_slogg',
-												'koi_srad',
-												'koi_smass',
-												'koi_kepmag'
-											].map((feature) => (
+											{predictionServiceColumns().map((feature) => (
 												<div key={feature} className="flex items-center gap-2 p-1.5 bg-[var(--input-background)] rounded border border-[var(--input-border)]">
 													<span className="font-mono text-[11px]">{feature}</span>
 												</div>
@@ -0,0 +1,74 @@
+// Client access to the dataset registry (GET /api/datasets)
+// The list is fetched once per page load and shared between components.
+
+import React from 'react';
+import type { DatasetListing, DatasetProfile } from '../../types/datasets';
+
+let registryPromise: Promise<DatasetListing[]> | null = null;
+
+export function fetchDatasetRegistry(): Promise<DatasetListing[]> {
+	if (!registryPromise) {
+		registryPromise = fetch('/api/datasets')
+			.then(async (response) => {
+				if (!response.ok) {
+					throw new Error(
+						`Failed to load dataset registry (${response.status})`,
+					);
+				}
+				const body = await response.json();
+				return (body.datasets || []) as DatasetListing[];
+			})
+			.catch((error) => {
+				registryPromise = null; // allow a retry on the next call
+				throw error;
+			});
+	}
+	return registryPromise;
+}
+
+/**
+ * Registry datasets for React components; `datasets` is null while loading
+ */
+export function useDatasetRegistry(): {
+	datasets: DatasetListing[] | null;
+	error: string | null;
+} {
+	const [datasets, setDatasets] = React.useState<DatasetListing[] | null>(null);
+	const [error, setError] = React.useState<string | null>(null);
+
+	React.useEffect(() => {
+		let active = true;
+		fetchDatasetRegistry()
+			.then((list) => {
+				if (active) setDatasets(list);
+			})
+			.catch((err) => {
+				console.error('Dataset registry error:', err);
+				if (active) {
+					setError(err instanceof Error ? err.message : 'Unknown error');
+					setDatasets([]);
+				}
+			});
+		return () => {
+			active = false;
+		};
+	}, []);
+
+	return { datasets, error };
+}
+
+/**
+ * Fetch the server-side profile of a registry dataset
+ */
+export async function fetchDatasetProfile(
+	entry: DatasetListing,
+	bins?: number,
+): Promise<DatasetProfile> {
+	const query = bins ? `?bins=${bins}` : '';
+	const response = await fetch(`${entry.url}/profile${query}`);
+	if (!response.ok) {
+		throw new Error(`Failed to profile ${entry.name} (${response.status})`);
+	}
+	const body = await response.json();
+	return body.profile as DatasetProfile;
+}
@@ -0,0 +1,117 @@
+// Target label mapping: raw target values onto the classes a model trains on
+// Presets follow the mission schemas (candidate / non-candidate, or the
+// archive's three-way dispositions with TESS TFOPWG codes grouped onto it);
+// individual values can be reassigned or left out afterwards. Without a
+// mapping every raw value is its own class, in order of first appearance.
+
+import type { MissionSchema } from '../../types/datasets';
+import type { LabelMapping, LabelMappingPreset } from '../../types/ml';
+import { harmonizeDisposition, harmonizeLabel } from './schema';
+
+export const LABEL_MAPPING_PRESETS: {
+	id: Exclude<LabelMappingPreset, 'custom'>;
+	label: string;
+	description: string;
+}[] = [
+	{
+		id: 'raw',
+		label: 'As in the data',
+		description: 'Every distinct value is its own class',
+	},
+	{
+		id: 'binary',
+		label: 'Candidate / non-candidate',
+		description: 'Confirmed and candidate planets against false positives',
+	},
+	{
+		id: 'disposition',
+		label: 'Confirmed / candidate / false positive',
+		description:
+			"The archive's three-way disposition (TESS: KP, CP / PC, APC / FP, FA)",
+	},
+];
+
+// Class order of the presets (index = encoded label; the last binary class
+// is the positive one)
+const PRESET_CLASSES: Record<string, string[]> = {
+	binary: ['non-candidate', 'candidate'],
+	disposition: ['FALSE POSITIVE', 'CANDIDATE', 'CONFIRMED'],
+};
+
+// Key of a raw value in LabelMapping.labels
+export const labelKey = (value: string): string => value.trim().toUpperCase();
+
+/**
+ * Mapping of a preset for the raw target values of a table
+ * @param values - Distinct raw target values
+ * @param schema - Mission of the table; every mission's codes are tried if
+ * omitted
+ */
+export function createLabelMapping(
+	preset: Exclude<LabelMappingPreset, 'custom'>,
+	values: string[],
+	schema?: MissionSchema,
+): LabelMapping {
+	const labels: Record<string, string> = {};
+	for (const value of values) {
+		const key = labelKey(value);
+		if (!key) continue;
+		labels[key] =
+			preset === 'binary'
+				? (harmonizeLabel(value, schema) ?? '')
+				: preset === 'disposition'
+				? (harmonizeDisposition(value, schema) ?? '')
+				: value.trim();
+	}
+	const classes =
+		PRESET_CLASSES[preset] ??
+		Array.from(new Set(Object.values(labels).filter(Boolean)));
+	return { preset, classes: [...classes], labels };
+}
+
+/**
+ * Move one raw value to another class ('' leaves its rows out); new class
+ * names join the end of the class order
+ */
+export function reassignLabel(
+	mapping: LabelMapping,
+	value: string,
+	className: string,
+): LabelMapping {
+	const name = className.trim();
+	const labels = { ...mapping.labels, [labelKey(value)]: name };
+	const used = new Set(Object.values(labels).filter(Boolean));
+	const classes = mapping.classes.filter((c) => used.has(c));
+	if (name && !classes.includes(name)) classes.push(name);
+	return { preset: 'custom', classes, labels };
+}
+
+/**
+ * Class of a raw target value: the mapped class, or the value as given
+ * without a mapping (undefined leaves the row out)
+ */
+export function mapTargetLabel(
+	value: string | undefined,
+	mapping?: LabelMapping,
+): string | undefined {
+	if (!mapping) return value;
+	if (value === undefined) return undefined;
+	return mapping.labels[labelKey(value)] || undefined;
+}
+
+/**
+ * Class labels in index order: the mapping's classes that occur in the data,
+ * or first appearance without a mapping
+ * @param found - Mapped labels in order of first appearance
+ */
+export function orderClassLabels(
+	found: Iterable<string>,
+	mapping?: LabelMapping,
+): string[] {
+	const present = Array.from(new Set(found));
+	if (!mapping) return present;
+	return [
+		...mapping.classes.filter((c) => present.includes(c)),
+		...present.filter((c) => !mapping.classes.includes(c)),
+	];
+}
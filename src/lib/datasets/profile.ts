@@ -0,0 +1,245 @@
+// Dataset profiling: histograms, quantiles, missingness, cardinality, target
+// class balance and a correlation matrix. Pure (no fs) so the API route and
+// the browser (for uploaded files) produce the same profile.
+
+import { ColumnStatsAccumulator } from '../ml/parsing/columnStats';
+import type { InferredColumnMeta } from '../../types/ml';
+import type {
+	ColumnProfile,
+	ColumnQuantiles,
+	CorrelationMatrix,
+	DatasetProfile,
+	HistogramBin,
+	ValueCount,
+} from '../../types/datasets';
+
+export interface ProfileOptions {
+	targetColumn?: string;
+	bins?: number; // histogram bins per numeric column
+	columnMeta?: InferredColumnMeta[]; // reuse types already inferred by a parser
+	maxCorrelationColumns?: number;
+	topValues?: number; // value counts kept for non-numeric columns
+	cardinalityCap?: number;
+}
+
+export const DEFAULT_HISTOGRAM_BINS = 20;
+export const MAX_HISTOGRAM_BINS = 100;
+
+const DEFAULT_CORRELATION_COLUMNS = 40;
+const DEFAULT_TOP_VALUES = 10;
+const DEFAULT_CARDINALITY_CAP = 10000;
+
+/**
+ * Clamp a requested bin count into the supported range
+ */
+export function normalizeBins(bins: number | undefined): number {
+	if (bins === undefined || !Number.isFinite(bins)) {
+		return DEFAULT_HISTOGRAM_BINS;
+	}
+	return Math.min(MAX_HISTOGRAM_BINS, Math.max(1, Math.round(bins)));
+}
+
+/**
+ * Profile a parsed table
+ * @param name - Dataset name reported in the profile
+ * @param header - Column names
+ * @param rows - Raw cell values (blank cells count as missing)
+ * @param options - Target column, histogram bins and reuse of parser metadata
+ */
+export function profileTable(
+	name: string,
+	header: string[],
+	rows: string[][],
+	options: ProfileOptions = {},
+): DatasetProfile {
+	const bins = normalizeBins(options.bins);
+	const topValueCount = options.topValues ?? DEFAULT_TOP_VALUES;
+	const cardinalityCap = options.cardinalityCap ?? DEFAULT_CARDINALITY_CAP;
+	const metaByName = new Map(
+		(options.columnMeta || []).map((meta) => [meta.name, meta]),
+	);
+
+	const numericColumns: { name: string; values: Float64Array }[] = [];
+	const columns: ColumnProfile[] = header.map((columnName, index) => {
+		const accumulator = new ColumnStatsAccumulator(columnName, index);
+		const counts = new Map<string, number>();
+		let capped = false;
+		for (const row of rows) {
+			const raw = row[index];
+			accumulator.push(raw);
+			const value = raw?.trim() ?? '';
+			if (value === '') continue;
+			const seen = counts.get(value);
+			if (seen !== undefined) {
+				counts.set(value, seen + 1);
+			} else if (counts.size < cardinalityCap) {
+				counts.set(value, 1);
+			} else {
+				capped = true;
+			}
+		}
+
+		const declared = metaByName.get(columnName);
+		const meta = accumulator.toMeta(declared?.inferredType);
+		const profile: ColumnProfile = {
+			name: columnName,
+			index,
+			inferredType: meta.inferredType,
+			unit: declared?.unit,
+			missingCount: meta.missingCount,
+			missingRatio: rows.length > 0 ? meta.missingCount / rows.length : 0,
+			cardinality: counts.size,
+			cardinalityCapped: capped,
+		};
+
+		if (meta.inferredType === 'numeric') {
+			const values = new Float64Array(rows.length);
+			for (let r = 0; r < rows.length; r++) {
+				const num = parseFloat(rows[r][index] ?? '');
+				values[r] = Number.isFinite(num) ? num : NaN;
+			}
+			numericColumns.push({ name: columnName, values });
+			const sorted = values.filter((v) => !isNaN(v)).sort();
+			if (sorted.length > 0) {
+				profile.mean = meta.mean;
+				profile.std = meta.std;
+				profile.quantiles = quantiles(sorted);
+				profile.histogram = histogram(sorted, bins);
+			}
+		} else {
+			profile.topValues = topCounts(counts, accumulator.valueCount).slice(
+				0,
+				topValueCount,
+			);
+		}
+		return profile;
+	});
+
+	const profile: DatasetProfile = {
+		name,
+		rowCount: rows.length,
+		columnCount: header.length,
+		columns,
+		correlation: correlationMatrix(
+			numericColumns.slice(
+				0,
+				options.maxCorrelationColumns ?? DEFAULT_CORRELATION_COLUMNS,
+			),
+		),
+		generatedAt: new Date().toISOString(),
+	};
+
+	const targetIndex = options.targetColumn
+		? header.indexOf(options.targetColumn)
+		: -1;
+	if (targetIndex !== -1) {
+		profile.targetColumn = options.targetColumn;
+		const labels = new Map<string, number>();
+		let labelled = 0;
+		for (const row of rows) {
+			const label = row[targetIndex]?.trim();
+			if (!label) continue;
+			labels.set(label, (labels.get(label) || 0) + 1);
+			labelled++;
+		}
+		profile.classBalance = topCounts(labels, labelled);
+	}
+
+	return profile;
+}
+
+/**
+ * Linear-interpolated quantile of an ascending array
+ */
+function quantileOf(sorted: Float64Array, q: number): number {
+	const position = (sorted.length - 1) * q;
+	const lower = Math.floor(position);
+	const upper = Math.ceil(position);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function quantiles(sorted: Float64Array): ColumnQuantiles {
+	return {
+		min: sorted[0],
+		p05: quantileOf(sorted, 0.05),
+		p25: quantileOf(sorted, 0.25),
+		median: quantileOf(sorted, 0.5),
+		p75: quantileOf(sorted, 0.75),
+		p95: quantileOf(sorted, 0.95),
+		max: sorted[sorted.length - 1],
+	};
+}
+
+/**
+ * Equal-width histogram over [min, max]; a constant column gets one bin
+ */
+function histogram(sorted: Float64Array, bins: number): HistogramBin[] {
+	const min = sorted[0];
+	const max = sorted[sorted.length - 1];
+	if (min === max) return [{ start: min, end: max, count: sorted.length }];
+
+	const width = (max - min) / bins;
+	const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+		start: min + i * width,
+		end: i === bins - 1 ? max : min + (i + 1) * width,
+		count: 0,
+	}));
+	for (const value of sorted) {
+		const bin = Math.min(bins - 1, Math.floor((value - min) / width));
+		result[bin].count++;
+	}
+	return result;
+}
+
+function topCounts(counts: Map<string, number>, total: number): ValueCount[] {
+	return Array.from(counts, ([value, count]) => ({
+		value,
+		count,
+		ratio: total > 0 ? count / total : 0,
+	})).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Pearson correlation over rows where both columns are present.
+ * Pairs with fewer than 3 shared rows or zero variance are reported as null.
+ */
+function correlationMatrix(
+	columns: { name: string; values: Float64Array }[],
+): CorrelationMatrix {
+	const values: (number | null)[][] = columns.map(() =>
+		new Array(columns.length).fill(null),
+	);
+	for (let i = 0; i < columns.length; i++) {
+		for (let j = i; j < columns.length; j++) {
+			const r = i === j ? 1 : pearson(columns[i].values, columns[j].values);
+			values[i][j] = r;
+			values[j][i] = r;
+		}
+	}
+	return { columns: columns.map((column) => column.name), values };
+}
+
+function pearson(a: Float64Array, b: Float64Array): number | null {
+	let n = 0;
+	let meanA = 0;
+	let meanB = 0;
+	let cov = 0;
+	let varA = 0;
+	let varB = 0;
+	// Single-pass (Welford-style) co-moments
+	for (let k = 0; k < a.length; k++) {
+		const x = a[k];
+		const y = b[k];
+		if (isNaN(x) || isNaN(y)) continue;
+		n++;
+		const dx = x - meanA;
+		meanA += dx / n;
+		const dy = y - meanB;
+		meanB += dy / n;
+		cov += dx * (y - meanB);
+		varA += dx * (x - meanA);
+		varB += dy * (y - meanB);
+	}
+	if (n < 3 || varA === 0 || varB === 0) return null;
+	return cov / Math.sqrt(varA * varB);
+}
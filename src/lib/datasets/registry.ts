@@ -0,0 +1,207 @@
+// Server-side dataset registry backed by data/datasets.json
+// Only files declared in the manifest are ever served or read by the API.
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import type {
+	DatasetFileFormat,
+	DatasetListing,
+	DatasetManifest,
+	DatasetManifestEntry,
+	DatasetProfile,
+} from '../../types/datasets';
+import type { InferredColumnMeta } from '../../types/ml';
+import { parseCSVTable } from '../ml/parsing/tokenizer.mjs';
+import { ArchiveTableParser } from '../ml/parsing/archive';
+import { ColumnarTableParser } from '../ml/parsing/columnar';
+import { normalizeBins, profileTable } from './profile';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const MANIFEST_PATH = path.join(DATA_DIR, 'datasets.json');
+
+const CONTENT_TYPES: Record<DatasetFileFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	ipac: 'text/plain; charset=utf-8',
+	votable: 'application/x-votable+xml',
+	parquet: 'application/vnd.apache.parquet',
+	arrow: 'application/vnd.apache.arrow.file',
+};
+
+export interface DatasetFileInfo {
+	path: string;
+	size: number;
+	mtime: Date;
+	etag: string;
+	contentType: string;
+}
+
+// Content hashes keyed by path, reused while size and mtime are unchanged
+const etagCache = new Map<string, { key: string; etag: string }>();
+
+// Profiles keyed by dataset id and bin count, valid while the file ETag matches
+const profileCache = new Map<
+	string,
+	{ etag: string; profile: Promise<DatasetProfile> }
+>();
+
+/**
+ * Read and validate the dataset manifest
+ */
+export async function loadDatasetManifest(): Promise<DatasetManifest> {
+	const raw = await fs.readFile(MANIFEST_PATH, 'utf-8');
+	const manifest = JSON.parse(raw) as DatasetManifest;
+	if (!Array.isArray(manifest?.datasets)) {
+		throw new Error('Dataset manifest must contain a "datasets" array');
+	}
+	const seen = new Set<string>();
+	for (const entry of manifest.datasets) {
+		if (!entry.id || !entry.file || !entry.targetColumn) {
+			throw new Error(
+				`Dataset manifest entry ${entry.id || '(unnamed)'} needs id, file and targetColumn`,
+			);
+		}
+		if (seen.has(entry.id)) {
+			throw new Error(`Duplicate dataset id in manifest: ${entry.id}`);
+		}
+		// Files must sit directly in data/ (no traversal out of the directory)
+		if (path.basename(entry.file) !== entry.file) {
+			throw new Error(`Dataset ${entry.id} file must be a plain file name`);
+		}
+		seen.add(entry.id);
+	}
+	return manifest;
+}
+
+export async function getDatasetEntry(
+	id: string,
+): Promise<DatasetManifestEntry | undefined> {
+	const manifest = await loadDatasetManifest();
+	return manifest.datasets.find((entry) => entry.id === id);
+}
+
+/**
+ * Find a manifest entry by its data file name (legacy /api/train callers)
+ */
+export async function getDatasetEntryByFile(
+	file: string,
+): Promise<DatasetManifestEntry | undefined> {
+	const manifest = await loadDatasetManifest();
+	return manifest.datasets.find((entry) => entry.file === file);
+}
+
+/**
+ * Stat a dataset file and compute its strong ETag (content hash)
+ */
+export async function getDatasetFileInfo(
+	entry: DatasetManifestEntry,
+): Promise<DatasetFileInfo> {
+	const filePath = path.join(DATA_DIR, entry.file);
+	const stat = await fs.stat(filePath);
+	const key = `${stat.size}-${stat.mtimeMs}`;
+	let cached = etagCache.get(filePath);
+	if (!cached || cached.key !== key) {
+		const hash = createHash('sha1')
+			.update(await fs.readFile(filePath))
+			.digest('hex');
+		cached = { key, etag: `"${hash}"` };
+		etagCache.set(filePath, cached);
+	}
+	return {
+		path: filePath,
+		size: stat.size,
+		mtime: stat.mtime,
+		etag: cached.etag,
+		contentType: CONTENT_TYPES[entry.format] ?? 'application/octet-stream',
+	};
+}
+
+export async function readDatasetText(
+	entry: DatasetManifestEntry,
+): Promise<string> {
+	return fs.readFile(path.join(DATA_DIR, entry.file), 'utf-8');
+}
+
+/**
+ * Parse a dataset file into header and rows with the parser for its format
+ */
+export async function loadDatasetTable(entry: DatasetManifestEntry): Promise<{
+	header: string[];
+	rows: string[][];
+	columnMeta?: InferredColumnMeta[];
+}> {
+	const filePath = path.join(DATA_DIR, entry.file);
+	if (entry.format === 'parquet' || entry.format === 'arrow') {
+		const bytes = await fs.readFile(filePath);
+		const buffer = bytes.buffer.slice(
+			bytes.byteOffset,
+			bytes.byteOffset + bytes.byteLength,
+		) as ArrayBuffer;
+		const result = await ColumnarTableParser.parseColumnarFile(
+			buffer,
+			entry.file,
+		);
+		return { ...result.rawDataset, columnMeta: result.columnMeta };
+	}
+	const text = await fs.readFile(filePath, 'utf-8');
+	if (entry.format === 'ipac' || entry.format === 'votable') {
+		const result = await ArchiveTableParser.parseArchiveTable(text, entry.file);
+		return { ...result.rawDataset, columnMeta: result.columnMeta };
+	}
+	return parseCSVTable(text);
+}
+
+/**
+ * Profile a dataset (cached until the file content changes)
+ * @param entry - Manifest entry
+ * @param bins - Histogram bins per numeric column
+ */
+export async function getDatasetProfile(
+	entry: DatasetManifestEntry,
+	bins?: number,
+): Promise<{ profile: DatasetProfile; etag: string }> {
+	const { etag } = await getDatasetFileInfo(entry);
+	const binCount = normalizeBins(bins);
+	const key = `${entry.id}:${binCount}`;
+	let cached = profileCache.get(key);
+	if (!cached || cached.etag !== etag) {
+		const profile = loadDatasetTable(entry).then((table) =>
+			profileTable(entry.name, table.header, table.rows, {
+				targetColumn: entry.targetColumn,
+				bins: binCount,
+				columnMeta: table.columnMeta,
+			}),
+		);
+		cached = { etag, profile };
+		profileCache.set(key, cached);
+		// Drop failed computations so the next request retries
+		profile.catch(() => {
+			if (profileCache.get(key) === cached) profileCache.delete(key);
+		});
+	}
+	return { profile: await cached.profile, etag };
+}
+
+/**
+ * Manifest entries with file metadata for the list endpoint
+ */
+export async function listDatasets(): Promise<DatasetListing[]> {
+	const manifest = await loadDatasetManifest();
+	return Promise.all(
+		manifest.datasets.map(async (entry) => {
+			const listing: DatasetListing = {
+				...entry,
+				url: `/api/datasets/${encodeURIComponent(entry.id)}`,
+			};
+			try {
+				const info = await getDatasetFileInfo(entry);
+				listing.size = info.size;
+				listing.etag = info.etag;
+				listing.lastModified = info.mtime.toUTCString();
+			} catch {
+				console.warn(`Dataset file missing for ${entry.id}: ${entry.file}`);
+			}
+			return listing;
+		}),
+	);
+}
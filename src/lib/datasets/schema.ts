@@ -0,0 +1,456 @@
+// Cross-mission schema harmonization for Kepler KOI and TESS TOI tables
+// Mission columns map onto one canonical feature vocabulary (with unit
+// conversion) and mission dispositions onto candidate / non-candidate (or
+// the archive's three-way dispositions), so a model trained on one mission
+// can be evaluated on the other and request builders do not hard-code
+// mission column names.
+
+import type {
+	CanonicalFeature,
+	CanonicalFeatureInfo,
+	CanonicalLabel,
+	DispositionLabel,
+	MissionColumnMapping,
+	MissionSchema,
+} from '../../types/datasets';
+
+// Barycentric Kepler Julian Day = BJD - 2454833
+const BKJD_OFFSET = 2454833;
+
+export const CANONICAL_FEATURES: CanonicalFeatureInfo[] = [
+	{
+		id: 'orbital_period',
+		label: 'Orbital period',
+		unit: 'days',
+		description: 'Time between consecutive transits',
+	},
+	{
+		id: 'transit_epoch',
+		label: 'Transit epoch',
+		unit: 'BJD',
+		description: 'Mid-time of a reference transit (Barycentric Julian Date)',
+	},
+	{
+		id: 'transit_duration',
+		label: 'Transit duration',
+		unit: 'hours',
+		description: 'First to last contact of the transit',
+	},
+	{
+		id: 'transit_depth',
+		label: 'Transit depth',
+		unit: 'ppm',
+		description: 'Fractional dimming of the star during transit',
+	},
+	{
+		id: 'impact_parameter',
+		label: 'Impact parameter',
+		unit: '',
+		description:
+			'Sky-projected distance of the transit chord from the stellar center (stellar radii)',
+	},
+	{
+		id: 'inclination',
+		label: 'Inclination',
+		unit: 'degrees',
+		description: 'Orbital inclination relative to the sky plane',
+	},
+	{
+		id: 'eccentricity',
+		label: 'Eccentricity',
+		unit: '',
+		description: 'Orbital eccentricity',
+	},
+	{
+		id: 'semi_major_axis',
+		label: 'Semi-major axis',
+		unit: 'AU',
+		description: 'Orbital semi-major axis',
+	},
+	{
+		id: 'model_snr',
+		label: 'Transit SNR',
+		unit: '',
+		description: 'Signal-to-noise ratio of the fitted transit model',
+	},
+	{
+		id: 'planet_count',
+		label: 'Planet count',
+		unit: '',
+		description: 'Number of candidates in the system',
+	},
+	{
+		id: 'odd_even_depth_sig',
+		label: 'Odd-even depth significance',
+		unit: 'σ',
+		description:
+			'Significance of the depth difference between odd and even transits',
+	},
+	{
+		id: 'stellar_teff',
+		label: 'Stellar temperature',
+		unit: 'K',
+		description: 'Effective temperature of the host star',
+	},
+	{
+		id: 'stellar_logg',
+		label: 'Stellar surface gravity',
+		unit: 'log10(cm/s²)',
+		description: 'Logarithm of the host star surface gravity',
+	},
+	{
+		id: 'stellar_radius',
+		label: 'Stellar radius',
+		unit: 'R☉',
+		description: 'Radius of the host star',
+	},
+	{
+		id: 'stellar_mass',
+		label: 'Stellar mass',
+		unit: 'M☉',
+		description: 'Mass of the host star',
+	},
+	{
+		id: 'stellar_distance',
+		label: 'Stellar distance',
+		unit: 'pc',
+		description: 'Distance to the host star',
+	},
+	{
+		id: 'host_magnitude',
+		label: 'Host magnitude',
+		unit: 'mag',
+		description:
+			'Apparent magnitude in the mission bandpass (Kepler Kp or TESS T)',
+	},
+];
+
+export const MISSION_SCHEMAS: MissionSchema[] = [
+	{
+		mission: 'Kepler',
+		targetColumn: 'koi_disposition',
+		labels: {
+			CONFIRMED: 'candidate',
+			CANDIDATE: 'candidate',
+			'FALSE POSITIVE': 'non-candidate',
+		},
+		dispositions: {
+			CONFIRMED: 'CONFIRMED',
+			CANDIDATE: 'CANDIDATE',
+			'FALSE POSITIVE': 'FALSE POSITIVE',
+		},
+		columns: {
+			orbital_period: [{ column: 'koi_period' }],
+			transit_epoch: [
+				{ column: 'koi_time0bk', offset: BKJD_OFFSET },
+				{ column: 'koi_time0' },
+			],
+			transit_duration: [{ column: 'koi_duration' }],
+			transit_depth: [{ column: 'koi_depth' }],
+			impact_parameter: [{ column: 'koi_impact' }],
+			inclination: [{ column: 'koi_incl' }],
+			eccentricity: [{ column: 'koi_eccen' }],
+			semi_major_axis: [{ column: 'koi_sma' }],
+			model_snr: [{ column: 'koi_model_snr' }],
+			planet_count: [{ column: 'koi_count' }],
+			odd_even_depth_sig: [{ column: 'koi_bin_oedp_sig' }],
+			stellar_teff: [{ column: 'koi_steff' }],
+			stellar_logg: [{ column: 'koi_slogg' }],
+			stellar_radius: [{ column: 'koi_srad' }],
+			stellar_mass: [{ column: 'koi_smass' }],
+			host_magnitude: [{ column: 'koi_kepmag' }],
+		},
+	},
+	{
+		mission: 'TESS',
+		targetColumn: 'tfopwg_disp',
+		// TFOPWG codes: (A)PC planet candidate, CP / KP confirmed or known
+		// planet, FP false positive, FA false alarm
+		labels: {
+			PC: 'candidate',
+			APC: 'candidate',
+			CP: 'candidate',
+			KP: 'candidate',
+			FP: 'non-candidate',
+			FA: 'non-candidate',
+		},
+		dispositions: {
+			PC: 'CANDIDATE',
+			APC: 'CANDIDATE',
+			CP: 'CONFIRMED',
+			KP: 'CONFIRMED',
+			FP: 'FALSE POSITIVE',
+			FA: 'FALSE POSITIVE',
+		},
+		columns: {
+			orbital_period: [{ column: 'pl_orbper' }],
+			transit_epoch: [{ column: 'pl_tranmid' }],
+			transit_duration: [{ column: 'pl_trandurh' }],
+			transit_depth: [{ column: 'pl_trandep' }],
+			stellar_teff: [{ column: 'st_teff' }],
+			stellar_logg: [{ column: 'st_logg' }],
+			stellar_radius: [{ column: 'st_rad' }],
+			stellar_distance: [{ column: 'st_dist' }],
+			host_magnitude: [{ column: 'st_tmag' }],
+		},
+	},
+];
+
+// Features the remote GB / SVM prediction service expects, in request order,
+// under the Kepler column names it was trained on
+export const PREDICTION_SERVICE_MISSION = 'Kepler';
+export const PREDICTION_SERVICE_FEATURES: {
+	feature: CanonicalFeature;
+	column: string;
+}[] = [
+	{ feature: 'orbital_period', column: 'koi_period' },
+	{ feature: 'transit_epoch', column: 'koi_time0bk' },
+	{ feature: 'impact_parameter', column: 'koi_impact' },
+	{ feature: 'transit_duration', column: 'koi_duration' },
+	{ feature: 'transit_depth', column: 'koi_depth' },
+	{ feature: 'inclination', column: 'koi_incl' },
+	{ feature: 'model_snr', column: 'koi_model_snr' },
+	{ feature: 'planet_count', column: 'koi_count' },
+	{ feature: 'odd_even_depth_sig', column: 'koi_bin_oedp_sig' },
+	{ feature: 'stellar_teff', column: 'koi_steff' },
+	{ feature: 'stellar_logg', column: 'koi_slogg' },
+	{ feature: 'stellar_radius', column: 'koi_srad' },
+	{ feature: 'stellar_mass', column: 'koi_smass' },
+	{ feature: 'host_magnitude', column: 'koi_kepmag' },
+];
+
+type CellValue = string | number | boolean | null | undefined;
+
+function toNumber(value: CellValue): number {
+	if (value === null || value === undefined || value === '') return NaN;
+	return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+function formatValue(value: number): string {
+	// Round away float noise from the unit conversion
+	return Number(value.toPrecision(12)).toString();
+}
+
+function mappingColumns(schema: MissionSchema): string[] {
+	return Object.values(schema.columns).flatMap((mappings) =>
+		(mappings || []).map((mapping) => mapping.column),
+	);
+}
+
+export function getMissionSchema(mission: string): MissionSchema | undefined {
+	const key = mission.trim().toLowerCase();
+	return MISSION_SCHEMAS.find((schema) => schema.mission.toLowerCase() === key);
+}
+
+/**
+ * The mission whose columns best cover a table header (undefined when no
+ * schema matches at least two columns or the target column)
+ */
+export function detectMissionSchema(
+	header: string[],
+): MissionSchema | undefined {
+	const columns = new Set(header);
+	let best: MissionSchema | undefined;
+	let bestScore = 0;
+	for (const schema of MISSION_SCHEMAS) {
+		const matched = mappingColumns(schema).filter((c) => columns.has(c)).length;
+		const score = matched + (columns.has(schema.targetColumn) ? 2 : 0);
+		if (score > bestScore) {
+			best = schema;
+			bestScore = score;
+		}
+	}
+	return bestScore >= 2 ? best : undefined;
+}
+
+/**
+ * Canonical label for a raw disposition. Already harmonized labels
+ * ('candidate' / 'non-candidate') pass through for any mission.
+ */
+export function harmonizeLabel(
+	value: CellValue,
+	schema?: MissionSchema,
+): CanonicalLabel | undefined {
+	if (value === null || value === undefined) return undefined;
+	const raw = String(value).trim();
+	const lower = raw.toLowerCase();
+	if (lower === 'candidate' || lower === 'non-candidate') return lower;
+	const upper = raw.toUpperCase();
+	const schemas = schema ? [schema] : MISSION_SCHEMAS;
+	for (const candidate of schemas) {
+		if (candidate.labels[upper]) return candidate.labels[upper];
+	}
+	return undefined;
+}
+
+/**
+ * Three-way disposition for a raw disposition. The lower-case harmonized
+ * labels (candidate / non-candidate) cannot be split and have none.
+ */
+export function harmonizeDisposition(
+	value: CellValue,
+	schema?: MissionSchema,
+): DispositionLabel | undefined {
+	if (value === null || value === undefined) return undefined;
+	const raw = String(value).trim();
+	if (raw === 'candidate' || raw === 'non-candidate') return undefined;
+	const upper = raw.toUpperCase();
+	const schemas = schema ? [schema] : MISSION_SCHEMAS;
+	for (const candidate of schemas) {
+		if (candidate.dispositions[upper]) return candidate.dispositions[upper];
+	}
+	return undefined;
+}
+
+function readMapping(
+	mappings: MissionColumnMapping[] | undefined,
+	lookup: (column: string) => CellValue,
+): number {
+	for (const mapping of mappings || []) {
+		const value = toNumber(lookup(mapping.column));
+		if (Number.isFinite(value)) {
+			return value * (mapping.scale ?? 1) + (mapping.offset ?? 0);
+		}
+	}
+	return NaN;
+}
+
+/**
+ * Canonical feature values of one mission record (missing values omitted)
+ */
+export function canonicalizeRecord(
+	record: Record<string, CellValue>,
+	schema: MissionSchema,
+): Partial<Record<CanonicalFeature, number>> {
+	const canonical: Partial<Record<CanonicalFeature, number>> = {};
+	for (const [feature, mappings] of Object.entries(schema.columns)) {
+		const value = readMapping(mappings, (column) => record[column]);
+		if (Number.isFinite(value)) canonical[feature as CanonicalFeature] = value;
+	}
+	return canonical;
+}
+
+/**
+ * Mission columns for canonical values (every column of a feature is filled)
+ */
+export function toMissionRecord(
+	canonical: Partial<Record<CanonicalFeature, number>>,
+	schema: MissionSchema,
+): Record<string, number> {
+	const record: Record<string, number> = {};
+	for (const [feature, mappings] of Object.entries(schema.columns)) {
+		const value = canonical[feature as CanonicalFeature];
+		if (value === undefined || !Number.isFinite(value)) continue;
+		for (const mapping of mappings || []) {
+			record[mapping.column] =
+				(value - (mapping.offset ?? 0)) / (mapping.scale ?? 1);
+		}
+	}
+	return record;
+}
+
+/**
+ * Rewrite a parsed table from one mission's schema into another's. The target
+ * column carries canonical labels; `unmapped` lists destination columns the
+ * source mission has no counterpart for (they are left out of the table).
+ */
+export function translateTable(
+	header: string[],
+	rows: string[][],
+	from: MissionSchema,
+	to: MissionSchema,
+): { header: string[]; rows: string[][]; unmapped: string[] } {
+	const indices = new Map(header.map((name, i) => [name, i]));
+	const available = (Object.keys(to.columns) as CanonicalFeature[]).filter(
+		(feature) =>
+			(from.columns[feature] || []).some((mapping) =>
+				indices.has(mapping.column),
+			),
+	);
+	const mappings = available.flatMap((feature) =>
+		(to.columns[feature] || []).map((mapping) => ({ feature, mapping })),
+	);
+	const unmapped = mappingColumns(to).filter(
+		(column) => !mappings.some(({ mapping }) => mapping.column === column),
+	);
+	const targetIndex = indices.get(from.targetColumn);
+
+	const translated = rows.map((row) => {
+		const lookup = (column: string) => {
+			const index = indices.get(column);
+			return index === undefined ? undefined : row[index];
+		};
+		const cells = mappings.map(({ feature, mapping }) => {
+			const value = readMapping(from.columns[feature], lookup);
+			return Number.isFinite(value)
+				? formatValue((value - (mapping.offset ?? 0)) / (mapping.scale ?? 1))
+				: '';
+		});
+		const label =
+			targetIndex === undefined
+				? undefined
+				: harmonizeLabel(row[targetIndex], from);
+		return [...cells, label ?? ''];
+	});
+
+	return {
+		header: [...mappings.map(({ mapping }) => mapping.column), to.targetColumn],
+		rows: translated,
+		unmapped,
+	};
+}
+
+/**
+ * Column names the prediction service expects, in request order
+ */
+export function predictionServiceColumns(): string[] {
+	return PREDICTION_SERVICE_FEATURES.map(({ column }) => column);
+}
+
+/**
+ * Prediction service columns a mission table has no source column for
+ */
+export function unavailableServiceColumns(
+	header: string[],
+	schema: MissionSchema,
+): string[] {
+	const columns = new Set(header);
+	return PREDICTION_SERVICE_FEATURES.filter(
+		({ feature }) =>
+			!(schema.columns[feature] || []).some((m) => columns.has(m.column)),
+	).map(({ column }) => column);
+}
+
+/**
+ * Map a record from any mission onto the prediction service's feature object
+ * @param record - Raw record (column name -> value)
+ * @param schema - Source mission; detected from the record's keys if omitted
+ * @returns Service features plus the service columns that could not be filled
+ */
+export function toPredictionServiceFeatures(
+	record: Record<string, CellValue>,
+	schema: MissionSchema | undefined = detectMissionSchema(Object.keys(record)),
+): { features: Record<string, number>; missing: string[] } {
+	const service = getMissionSchema(PREDICTION_SERVICE_MISSION)!;
+	const canonical = schema ? canonicalizeRecord(record, schema) : {};
+	const features: Record<string, number> = {};
+	const missing: string[] = [];
+	for (const { feature, column } of PREDICTION_SERVICE_FEATURES) {
+		// Service columns present in the record are passed through unconverted
+		const direct = toNumber(record[column]);
+		if (Number.isFinite(direct)) {
+			features[column] = direct;
+			continue;
+		}
+		const value = canonical[feature];
+		const mapping = (service.columns[feature] || []).find(
+			(m) => m.column === column,
+		);
+		if (value === undefined || !mapping) {
+			missing.push(column);
+			continue;
+		}
+		features[column] = (value - (mapping.offset ?? 0)) / (mapping.scale ?? 1);
+	}
+	return { features, missing };
+}
@@ -0,0 +1,195 @@
+// Browser storage for uploaded ("own") datasets
+// Files are kept in IndexedDB keyed by their SHA-256 content hash, so the same
+// file uploaded twice is stored once and survives page reloads.
+
+import React from 'react';
+import type {
+	DatasetFileFormat,
+	UserDatasetRecord,
+	UserDatasetSummary,
+} from '../../types/datasets';
+
+const DB_NAME = 'exchron.datasets';
+const DB_VERSION = 1;
+const STORE_NAME = 'userDatasets';
+const CHANGE_EVENT = 'exchron:user-datasets-changed';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (typeof indexedDB === 'undefined') {
+		return Promise.reject(new Error('IndexedDB is not available'));
+	}
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error) => {
+			dbPromise = null; // allow a retry on the next call
+			throw error;
+		});
+	}
+	return dbPromise;
+}
+
+/**
+ * Run one request inside a transaction and resolve once it has committed
+ */
+async function withStore<T>(
+	mode: IDBTransactionMode,
+	action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openDatabase();
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, mode);
+		const request = action(transaction.objectStore(STORE_NAME));
+		transaction.oncomplete = () => resolve(request.result);
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
+
+function notifyChange() {
+	if (typeof window !== 'undefined') {
+		window.dispatchEvent(new Event(CHANGE_EVENT));
+	}
+}
+
+function toSummary({ blob: _blob, ...summary }: UserDatasetRecord) {
+	return summary as UserDatasetSummary;
+}
+
+/**
+ * Hex SHA-256 of a file's bytes
+ */
+export async function hashDatasetFile(file: Blob): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		'SHA-256',
+		await file.arrayBuffer(),
+	);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Saved datasets, most recently used first
+ */
+export async function listUserDatasets(): Promise<UserDatasetSummary[]> {
+	const records = await withStore<UserDatasetRecord[]>('readonly', (store) =>
+		store.getAll(),
+	);
+	return records.map(toSummary).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+export async function getUserDataset(
+	id: string,
+): Promise<UserDatasetRecord | undefined> {
+	return withStore<UserDatasetRecord | undefined>('readonly', (store) =>
+		store.get(id),
+	);
+}
+
+/**
+ * Store an uploaded file. When the same bytes are already stored the existing
+ * record is reused (its name is kept) and `duplicate` is true.
+ */
+export async function saveUserDataset(
+	file: File,
+	format: DatasetFileFormat,
+): Promise<{ record: UserDatasetRecord; duplicate: boolean }> {
+	const id = await hashDatasetFile(file);
+	const now = Date.now();
+	const existing = await getUserDataset(id);
+	const record: UserDatasetRecord = existing
+		? { ...existing, lastUsedAt: now }
+		: {
+				id,
+				name: file.name.replace(/\.[^.]+$/, '') || file.name,
+				fileName: file.name,
+				format,
+				size: file.size,
+				createdAt: now,
+				lastUsedAt: now,
+				blob: file,
+			};
+	await withStore('readwrite', (store) => store.put(record));
+	notifyChange();
+	return { record, duplicate: Boolean(existing) };
+}
+
+/**
+ * Mark a dataset as used now (keeps the picker ordered by recency)
+ */
+export async function touchUserDataset(id: string): Promise<void> {
+	const record = await getUserDataset(id);
+	if (!record) return;
+	await withStore('readwrite', (store) =>
+		store.put({ ...record, lastUsedAt: Date.now() }),
+	);
+	notifyChange();
+}
+
+export async function renameUserDataset(
+	id: string,
+	name: string,
+): Promise<void> {
+	const trimmed = name.trim();
+	if (!trimmed) throw new Error('Dataset name cannot be empty');
+	const record = await getUserDataset(id);
+	if (!record) throw new Error('Dataset not found');
+	await withStore('readwrite', (store) =>
+		store.put({ ...record, name: trimmed }),
+	);
+	notifyChange();
+}
+
+export async function deleteUserDataset(id: string): Promise<void> {
+	await withStore('readwrite', (store) => store.delete(id));
+	notifyChange();
+}
+
+/**
+ * Saved datasets for React components; refreshes after any change in this tab
+ */
+export function useUserDatasets(): {
+	datasets: UserDatasetSummary[];
+	error: string | null;
+} {
+	const [datasets, setDatasets] = React.useState<UserDatasetSummary[]>([]);
+	const [error, setError] = React.useState<string | null>(null);
+
+	React.useEffect(() => {
+		let active = true;
+		const refresh = () => {
+			listUserDatasets()
+				.then((list) => {
+					if (active) {
+						setDatasets(list);
+						setError(null);
+					}
+				})
+				.catch((err) => {
+					console.error('Saved datasets error:', err);
+					if (active) {
+						setError(err instanceof Error ? err.message : 'Unknown error');
+					}
+				});
+		};
+		refresh();
+		window.addEventListener(CHANGE_EVENT, refresh);
+		return () => {
+			active = false;
+			window.removeEventListener(CHANGE_EVENT, refresh);
+		};
+	}, []);
+
+	return { datasets, error };
+}
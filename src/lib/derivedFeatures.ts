@@ -0,0 +1,259 @@
+// Derived astrophysical features computed from KOI / TESS catalog columns
+// Each feature carries a formula, unit and description for the Classroom UI,
+// and is computed from physical quantities looked up under their KOI or TESS
+// column names, so training, test-time replay and exported pipelines all
+// produce the same values.
+
+import { ColumnStatsAccumulator } from './ml/parsing/columnStats';
+import type { InferredColumnMeta, RawDataset } from '../types/ml';
+
+export type DerivedQuantity =
+  | 'period'
+  | 'depth'
+  | 'duration'
+  | 'stellarRadius'
+  | 'stellarTeff'
+  | 'stellarLogg'
+  | 'stellarMass'
+  | 'semiMajorAxis'
+  | 'modelSnr';
+
+export interface DerivedFeature {
+  id: string; // column name the feature is added under
+  label: string;
+  unit: string;
+  formula: string;
+  description: string;
+  requires: DerivedQuantity[];
+  compute: (q: Record<DerivedQuantity, number>) => number;
+}
+
+// Catalog columns holding each quantity (KOI name first, then TESS)
+const QUANTITY_COLUMNS: Record<DerivedQuantity, string[]> = {
+  period: ['koi_period', 'pl_orbper'], // days
+  depth: ['koi_depth', 'pl_trandep'], // ppm
+  duration: ['koi_duration', 'pl_trandurh'], // hours
+  stellarRadius: ['koi_srad', 'st_rad'], // solar radii
+  stellarTeff: ['koi_steff', 'st_teff'], // K
+  stellarLogg: ['koi_slogg', 'st_logg'], // log10(cm/s^2)
+  stellarMass: ['koi_smass', 'st_mass'], // solar masses
+  semiMajorAxis: ['koi_sma', 'pl_orbsmax'], // AU
+  modelSnr: ['koi_model_snr']
+};
+
+const SUN_RADIUS_EARTH = 109.076; // R_sun / R_earth
+const SUN_RADIUS_AU = 0.00465047;
+const SUN_TEFF = 5772; // K
+const SUN_LOGG = 4.438;
+const BOND_ALBEDO = 0.3;
+const EARTH_YEAR_DAYS = 365.25;
+const KEPLER_BASELINE_DAYS = 1460; // ~4 years of Kepler prime-mission photometry
+
+// Quantities that can be estimated from others when no catalog column has them
+const QUANTITY_FALLBACKS: Partial<Record<DerivedQuantity, {
+  requires: DerivedQuantity[];
+  compute: (q: Record<DerivedQuantity, number>) => number;
+}>> = {
+  // g ∝ M / R^2
+  stellarMass: {
+    requires: ['stellarLogg', 'stellarRadius'],
+    compute: q => Math.pow(10, q.stellarLogg - SUN_LOGG) * q.stellarRadius ** 2
+  },
+  // Kepler's third law: a^3 = M P^2 (AU, solar masses, years)
+  semiMajorAxis: {
+    requires: ['period', 'stellarMass'],
+    compute: q => Math.cbrt(q.stellarMass * (q.period / EARTH_YEAR_DAYS) ** 2)
+  }
+};
+
+const stellarDensity = (q: Record<DerivedQuantity, number>) => q.stellarMass / q.stellarRadius ** 3;
+
+export const derivedFeatures: DerivedFeature[] = [
+  {
+    id: 'derived_planet_radius',
+    label: 'Planet radius',
+    unit: 'R⊕',
+    formula: 'Rp = √(depth × 10⁻⁶) × R★ × 109.1',
+    description: 'Planet size implied by the transit depth and stellar radius; companions much larger than ~20 R⊕ are usually eclipsing stars',
+    requires: ['depth', 'stellarRadius'],
+    compute: q => Math.sqrt(q.depth * 1e-6) * q.stellarRadius * SUN_RADIUS_EARTH
+  },
+  {
+    id: 'derived_equilibrium_temp',
+    label: 'Equilibrium temperature',
+    unit: 'K',
+    formula: 'Teq = T★ × √(R★ / 2a) × (1 − 0.3)^¼',
+    description: 'Blackbody temperature of the planet assuming a Bond albedo of 0.3 and full heat redistribution',
+    requires: ['stellarTeff', 'stellarRadius', 'semiMajorAxis'],
+    compute: q =>
+      q.stellarTeff * Math.sqrt((q.stellarRadius * SUN_RADIUS_AU) / (2 * q.semiMajorAxis)) * Math.pow(1 - BOND_ALBEDO, 0.25)
+  },
+  {
+    id: 'derived_insolation',
+    label: 'Insolation flux',
+    unit: 'S⊕',
+    formula: 'S = R★² × (T★ / 5772)⁴ / a²',
+    description: 'Stellar flux received by the planet relative to the flux Earth receives from the Sun',
+    requires: ['stellarTeff', 'stellarRadius', 'semiMajorAxis'],
+    compute: q => (q.stellarRadius ** 2 * (q.stellarTeff / SUN_TEFF) ** 4) / q.semiMajorAxis ** 2
+  },
+  {
+    id: 'derived_stellar_density',
+    label: 'Stellar density',
+    unit: 'ρ☉',
+    formula: 'ρ★ = M★ / R★³',
+    description: 'Mean density of the host star relative to the Sun (mass from log g when not catalogued)',
+    requires: ['stellarMass', 'stellarRadius'],
+    compute: stellarDensity
+  },
+  {
+    id: 'derived_duration_ratio',
+    label: 'Transit duration ratio',
+    unit: 'ratio',
+    formula: 'T / (13 h × (P / 365.25 d)^⅓ × ρ★^−⅓)',
+    description: 'Observed transit duration over the duration expected for a central transit around this star; values far from 1 suggest grazing eclipses, blends or wrong stellar parameters',
+    requires: ['duration', 'period', 'stellarMass', 'stellarRadius'],
+    compute: q =>
+      q.duration / (13 * Math.cbrt(q.period / EARTH_YEAR_DAYS) * Math.pow(stellarDensity(q), -1 / 3))
+  },
+  {
+    id: 'derived_snr_per_transit',
+    label: 'SNR per transit',
+    unit: 'σ',
+    formula: 'SNR / √(1460 d / P)',
+    description: 'Detection signal-to-noise divided by the square root of the number of transits in the Kepler baseline; strong single events versus many weak ones',
+    requires: ['modelSnr', 'period'],
+    compute: q => q.modelSnr / Math.sqrt(Math.max(1, KEPLER_BASELINE_DAYS / q.period))
+  }
+];
+
+const FEATURES_BY_ID = new Map(derivedFeatures.map(feature => [feature.id, feature]));
+
+export const getDerivedFeature = (id: string): DerivedFeature | undefined => FEATURES_BY_ID.get(id);
+
+export const isDerivedFeature = (name: string): boolean => FEATURES_BY_ID.has(name);
+
+const quantityAvailable = (quantity: DerivedQuantity, columns: Set<string>): boolean =>
+  QUANTITY_COLUMNS[quantity].some(column => columns.has(column)) ||
+  Boolean(QUANTITY_FALLBACKS[quantity]?.requires.every(q => quantityAvailable(q, columns)));
+
+/**
+ * Whether the header has the catalog columns a derived feature needs
+ */
+export const isDerivedFeatureAvailable = (id: string, header: string[]): boolean => {
+  const feature = FEATURES_BY_ID.get(id);
+  const columns = new Set(header);
+  return Boolean(feature && feature.requires.every(q => quantityAvailable(q, columns)));
+};
+
+/**
+ * Derived features that can be computed from a dataset's columns
+ */
+export const availableDerivedFeatures = (header: string[]): DerivedFeature[] =>
+  derivedFeatures.filter(feature => isDerivedFeatureAvailable(feature.id, header));
+
+/**
+ * Every catalog column a set of derived features may read (all aliases)
+ */
+export const derivedFeatureInputs = (ids: string[]): string[] => {
+  const quantities = new Set<DerivedQuantity>();
+  const add = (quantity: DerivedQuantity) => {
+    if (quantities.has(quantity)) return;
+    quantities.add(quantity);
+    QUANTITY_FALLBACKS[quantity]?.requires.forEach(add);
+  };
+  ids.forEach(id => FEATURES_BY_ID.get(id)?.requires.forEach(add));
+  return Array.from(quantities).flatMap(quantity => QUANTITY_COLUMNS[quantity]);
+};
+
+/**
+ * Compute one derived feature for a record
+ * @param id - Derived feature id
+ * @param lookup - Raw cell value for a catalog column (undefined when absent)
+ * @returns The value, or NaN when an input is missing or non-physical
+ */
+export const computeDerivedFeature = (
+  id: string,
+  lookup: (column: string) => string | undefined
+): number => {
+  const feature = FEATURES_BY_ID.get(id);
+  if (!feature) return NaN;
+
+  const resolved: Partial<Record<DerivedQuantity, number>> = {};
+  const resolve = (quantity: DerivedQuantity): number => {
+    if (resolved[quantity] !== undefined) return resolved[quantity]!;
+    let value = NaN;
+    for (const column of QUANTITY_COLUMNS[quantity]) {
+      const parsed = parseFloat(lookup(column) ?? '');
+      if (Number.isFinite(parsed)) {
+        value = parsed;
+        break;
+      }
+    }
+    const fallback = QUANTITY_FALLBACKS[quantity];
+    if (Number.isNaN(value) && fallback) {
+      const inputs = fallback.requires.map(resolve);
+      if (inputs.every(Number.isFinite)) value = fallback.compute(resolved as Record<DerivedQuantity, number>);
+    }
+    // log g may be any sign; every other quantity must be positive
+    if (quantity !== 'stellarLogg' && !(value > 0)) value = NaN;
+    resolved[quantity] = value;
+    return value;
+  };
+
+  if (!feature.requires.map(resolve).every(Number.isFinite)) return NaN;
+  const value = feature.compute(resolved as Record<DerivedQuantity, number>);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+/**
+ * Append derived feature columns to a parsed table. Ids already in the header
+ * or not computable from its columns are skipped; missing values are blank.
+ */
+export const appendDerivedColumns = (
+  header: string[],
+  rows: string[][],
+  ids: string[]
+): { header: string[]; rows: string[][]; added: string[] } => {
+
+  const added = ids.filter(id => !header.includes(id) && isDerivedFeatureAvailable(id, header));
+  if (added.length === 0) return { header, rows, added };
+
+  const indices = new Map(header.map((name, i) => [name, i]));
+  const augmentedRows = rows.map(row => {
+    const lookup = (column: string) => {
+      const index = indices.get(column);
+      return index === undefined ? undefined : row[index];
+    };
+    return [
+      ...row,
+      ...added.map(id => {
+        const value = computeDerivedFeature(id, lookup);
+        return Number.isNaN(value) ? '' : value.toString();
+      })
+    ];
+  });
+  return { header: [...header, ...added], rows: augmentedRows, added };
+};
+
+/**
+ * Add derived feature columns (and their numeric metadata) to a dataset
+ */
+export const withDerivedColumns = (
+  dataset: RawDataset,
+  columnMeta: InferredColumnMeta[],
+  ids: string[]
+): { dataset: RawDataset; columnMeta: InferredColumnMeta[] } => {
+
+  const { header, rows, added } = appendDerivedColumns(dataset.header, dataset.rows, ids);
+  if (added.length === 0) return { dataset, columnMeta };
+
+  const meta = added.map(id => {
+    const index = header.indexOf(id);
+    const stats = new ColumnStatsAccumulator(id, index);
+    rows.forEach(row => stats.push(row[index]));
+    const feature = FEATURES_BY_ID.get(id)!;
+    return { ...stats.toMeta('numeric'), unit: feature.unit, description: feature.description };
+  });
+  return { dataset: { ...dataset, header, rows }, columnMeta: [...columnMeta, ...meta] };
+};
@@ -54,13 +54,47 @@ export function minMaxNormalize(values: number[]): { normalized: number[]; min:
   return { normalized, min, max };
 }
 
+/**
+ * Uniform [0, 1) generator; Math.random or a seeded createRandom stream
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded pseudo-random generator (mulberry32): the same seed always yields
+ * the same sequence, so runs can be replayed exactly
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for runs that were not given one (recorded so they can be replayed)
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
+
+/**
+ * Draw a seed for a sub-component (e.g. one tree or a TF.js initializer)
+ */
+export function deriveSeed(random: RandomSource): number {
+  return Math.floor(random() * 2147483647);
+}
+
 /**
  * Generate random numbers with normal distribution (Box-Muller transform)
  */
-export function randomNormal(mean: number = 0, std: number = 1): number {
+export function randomNormal(mean: number = 0, std: number = 1, random: RandomSource = Math.random): number {
   let u = 0, v = 0;
-  while(u === 0) u = Math.random(); // Converting [0,1) to (0,1)
-  while(v === 0) v = Math.random();
+  while(u === 0) u = random(); // Converting [0,1) to (0,1)
+  while(v === 0) v = random();
   
   const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
   return z * std + mean;
@@ -69,12 +103,12 @@ export function randomNormal(mean: number = 0, std: number = 1): number {
 /**
  * Xavier/Glorot initialization for neural network weights
  */
-export function xavierInit(inputSize: number, outputSize: number): number[] {
+export function xavierInit(inputSize: number, outputSize: number, random: RandomSource = Math.random): number[] {
   const limit = Math.sqrt(6 / (inputSize + outputSize));
   const weights: number[] = [];
   
   for (let i = 0; i < inputSize * outputSize; i++) {
-    weights.push((Math.random() * 2 - 1) * limit);
+    weights.push((random() * 2 - 1) * limit);
   }
   
   return weights;
@@ -83,11 +117,11 @@ export function xavierInit(inputSize: number, outputSize: number): number[] {
 /**
  * Shuffle array indices for random sampling
  */
-export function shuffleIndices(length: number): number[] {
+export function shuffleIndices(length: number, random: RandomSource = Math.random): number[] {
   const indices = Array.from({ length }, (_, i) => i);
   
   for (let i = indices.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [indices[i], indices[j]] = [indices[j], indices[i]];
   }
   
@@ -99,7 +133,8 @@ export function shuffleIndices(length: number): number[] {
  */
 export function stratifiedSplit(
   labels: number[], 
-  trainRatio: number = 0.8
+  trainRatio: number = 0.8,
+  random: RandomSource = Math.random
 ): { trainIndices: number[]; valIndices: number[] } {
   
   // Group indices by class
@@ -114,7 +149,7 @@ export function stratifiedSplit(
   
   // Split each class proportionally
   for (const classLabel in classBuckets) {
-    const indices = shuffleIndices(classBuckets[classLabel].length)
+    const indices = shuffleIndices(classBuckets[classLabel].length, random)
       .map(i => classBuckets[classLabel][i]);
     
     const trainCount = Math.floor(indices.length * trainRatio);
@@ -125,6 +160,144 @@ export function stratifiedSplit(
   return { trainIndices, valIndices };
 }
 
+/**
+ * Complement a held-out fold into a train/validation split
+ */
+function foldsToSplits(
+  folds: number[][],
+  length: number
+): Array<{ trainIndices: number[]; valIndices: number[] }> {
+
+  return folds.map(valIndices => {
+    const held = new Set(valIndices);
+    const trainIndices: number[] = [];
+    for (let i = 0; i < length; i++) {
+      if (!held.has(i)) trainIndices.push(i);
+    }
+    return { trainIndices, valIndices };
+  });
+}
+
+/**
+ * Create stratified k-fold splits: every sample is validated exactly once and
+ * each fold keeps the overall class proportions
+ */
+export function stratifiedKFold(
+  labels: number[],
+  k: number = 5,
+  random: RandomSource = Math.random
+): Array<{ trainIndices: number[]; valIndices: number[] }> {
+
+  const classBuckets: { [key: number]: number[] } = {};
+  labels.forEach((label, index) => {
+    if (!classBuckets[label]) classBuckets[label] = [];
+    classBuckets[label].push(index);
+  });
+
+  // Deal each shuffled class round-robin, continuing where the previous class
+  // stopped so fold sizes differ by at most one
+  const folds: number[][] = Array.from({ length: k }, () => []);
+  let next = 0;
+  for (const classLabel in classBuckets) {
+    const indices = shuffleIndices(classBuckets[classLabel].length, random)
+      .map(i => classBuckets[classLabel][i]);
+    for (const index of indices) {
+      folds[next].push(index);
+      next = (next + 1) % k;
+    }
+  }
+
+  return foldsToSplits(folds, labels.length);
+}
+
+/**
+ * Sample indices per group key; empty keys become singleton groups
+ */
+function groupMembers(groups: string[]): Map<string, number[]> {
+  const members = new Map<string, number[]>();
+  groups.forEach((group, index) => {
+    const key = group && group.trim() !== '' ? group.trim() : `\u0000${index}`;
+    if (!members.has(key)) members.set(key, []);
+    members.get(key)!.push(index);
+  });
+  return members;
+}
+
+/**
+ * Create a train/validation split that keeps every group on one side.
+ * Groups are stratified by their majority class: each class's groups are
+ * shuffled and moved to training until it holds trainRatio of that class.
+ */
+export function groupStratifiedSplit(
+  labels: number[],
+  groups: string[],
+  trainRatio: number = 0.8,
+  random: RandomSource = Math.random
+): { trainIndices: number[]; valIndices: number[] } {
+
+  const classBuckets: { [key: number]: number[][] } = {};
+  for (const indices of groupMembers(groups).values()) {
+    const counts = new Map<number, number>();
+    indices.forEach(i => counts.set(labels[i], (counts.get(labels[i]) || 0) + 1));
+    const majority = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    if (!classBuckets[majority]) classBuckets[majority] = [];
+    classBuckets[majority].push(indices);
+  }
+
+  const trainIndices: number[] = [];
+  const valIndices: number[] = [];
+  for (const classLabel in classBuckets) {
+    const bucket = classBuckets[classLabel];
+    const total = bucket.reduce((sum, indices) => sum + indices.length, 0);
+    const target = Math.floor(total * trainRatio);
+    let trainCount = 0;
+    for (const i of shuffleIndices(bucket.length, random)) {
+      if (trainCount < target) {
+        trainIndices.push(...bucket[i]);
+        trainCount += bucket[i].length;
+      } else {
+        valIndices.push(...bucket[i]);
+      }
+    }
+  }
+
+  return { trainIndices, valIndices };
+}
+
+/**
+ * Create group k-fold splits: all samples sharing a group key (e.g. the host
+ * star of a multi-planet system) land in the same fold. Groups are assigned
+ * largest first to the currently smallest fold; empty keys are singletons.
+ */
+export function groupKFold(
+  groups: string[],
+  k: number = 5,
+  random: RandomSource = Math.random
+): Array<{ trainIndices: number[]; valIndices: number[] }> {
+
+  const members = groupMembers(groups);
+  if (members.size < k) {
+    throw new Error(`Group k-fold needs at least ${k} groups, found ${members.size}`);
+  }
+
+  // Shuffle before the stable size sort so equal-sized groups vary per run
+  const entries = Array.from(members.values());
+  const ordered = shuffleIndices(entries.length, random)
+    .map(i => entries[i])
+    .sort((a, b) => b.length - a.length);
+
+  const folds: number[][] = Array.from({ length: k }, () => []);
+  for (const indices of ordered) {
+    let smallest = 0;
+    for (let f = 1; f < k; f++) {
+      if (folds[f].length < folds[smallest].length) smallest = f;
+    }
+    folds[smallest].push(...indices);
+  }
+
+  return foldsToSplits(folds, groups.length);
+}
+
 /**
  * Calculate class weights for imbalanced datasets
  */
@@ -157,4 +330,75 @@ export function clamp(value: number, min: number = -20, max: number = 20): numbe
  */
 export function safeLog(x: number, epsilon: number = 1e-15): number {
   return Math.log(Math.max(x, epsilon));
-}
\ No newline at end of file
+}
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting.
+ * Returns null when A is singular (to working precision).
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]); // augmented copy
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Linear-interpolated quantile (q in [0, 1]) of an ascending array
+ */
+export function quantileSorted(sorted: ArrayLike<number>, q: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, q));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9)
+ */
+export function inverseNormalCDF(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
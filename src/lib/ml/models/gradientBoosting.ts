@@ -0,0 +1,498 @@
+// Gradient-boosted decision trees for classification
+// Histogram-based: each feature is bucketed into at most maxBins quantile bins
+// once, and splits are searched over bin boundaries using gradient / hessian
+// sums (second-order leaf weights, as in XGBoost / LightGBM). Binary targets
+// fit one tree per round on the log-odds; multiclass targets fit one tree per
+// class on softmax scores.
+
+import { createRandom, RandomSource, safeLog, shuffleIndices, sigmoid, softmax } from '../core/math';
+
+export interface GradientBoostingConfig {
+  nEstimators: number; // boosting rounds (upper bound when early stopping)
+  learningRate: number; // shrinkage applied to every leaf weight
+  maxDepth: number;
+  minSamplesLeaf: number;
+  subsample: number; // fraction of training rows drawn (without replacement) per round
+  maxBins: number; // histogram bins per feature (2-256)
+  l2Regularization: number; // lambda on leaf weights
+  earlyStoppingRounds?: number; // stop when validation loss has not improved for this many rounds
+  classWeights?: number[]; // per-class weight on the prior and on each row's gradient / hessian
+  randomSeed?: number; // seeds row subsampling
+}
+
+export type BoostedTreeNode =
+  | { leaf: true; value: number }
+  | { leaf: false; feature: number; threshold: number; gain: number; left: BoostedTreeNode; right: BoostedTreeNode };
+
+export interface BoostingIterationMetrics {
+  iteration: number; // 1-based round
+  trainLoss: number; // log loss on the training rows
+  trainAccuracy: number;
+  valLoss?: number;
+  valAccuracy?: number;
+}
+
+export interface SerializedGradientBoosting {
+  config: GradientBoostingConfig;
+  featureNames: string[];
+  numClasses: number;
+  baseScores: number[]; // initial raw score per output (1 for binary)
+  trees: BoostedTreeNode[][]; // per round, one tree per output
+  history: BoostingIterationMetrics[];
+  bestIteration: number;
+}
+
+// Binned training matrix: bins[feature][row] with the cut points per feature
+interface BinnedFeatures {
+  bins: Uint8Array[];
+  cuts: number[][]; // value <= cuts[b] falls in bin <= b; the last bin is unbounded
+}
+
+const MAX_BINS = 256;
+
+export class GradientBoostingClassifier {
+  private config: GradientBoostingConfig;
+  private featureNames: string[] = [];
+  private numClasses = 2;
+  private baseScores: number[] = [];
+  private trees: BoostedTreeNode[][] = [];
+  private history: BoostingIterationMetrics[] = [];
+  private bestIteration = 0;
+
+  constructor(config: GradientBoostingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Fit boosting rounds on the training rows
+   * @param y - Class index per row (0..numClasses-1)
+   * @param options - Validation rows for early stopping / loss curves and a
+   * per-round callback; returning false from it stops training
+   */
+  async fit(
+    X: number[][],
+    y: number[],
+    featureNames: string[],
+    options: {
+      numClasses?: number;
+      validation?: { X: number[][]; y: number[] };
+      onIteration?: (metrics: BoostingIterationMetrics) => boolean | void;
+    } = {}
+  ): Promise<BoostingIterationMetrics[]> {
+
+    if (X.length === 0) throw new Error('No training rows');
+    this.validateConfig();
+
+    this.featureNames = featureNames;
+    this.numClasses = Math.max(2, options.numClasses ?? Math.max(...y) + 1);
+    this.trees = [];
+    this.history = [];
+
+    const outputs = this.numOutputs();
+    const n = X.length;
+    const random: RandomSource = this.config.randomSeed !== undefined
+      ? createRandom(this.config.randomSeed)
+      : Math.random;
+    const binned = this.binFeatures(X);
+
+    // Start from the (class-weighted) prior: log-odds, or log-frequency for softmax
+    const counts = new Array(this.numClasses).fill(0);
+    y.forEach(label => (counts[label] += this.classWeight(label)));
+    const total = counts.reduce((a, b) => a + b, 0);
+    const prior = counts.map(c => (c > 0 ? c : 1) / total);
+    this.baseScores = outputs === 1
+      ? [Math.log(prior[1] / prior[0])]
+      : prior.map(p => Math.log(p));
+
+    const scores = new Float64Array(n * outputs);
+    for (let i = 0; i < n; i++) scores.set(this.baseScores, i * outputs);
+    const validation = options.validation && options.validation.X.length > 0 ? options.validation : undefined;
+    const valScores = validation ? new Float64Array(validation.X.length * outputs) : undefined;
+    if (validation && valScores) {
+      for (let i = 0; i < validation.X.length; i++) valScores.set(this.baseScores, i * outputs);
+    }
+
+    // One gradient / hessian vector per output, all taken from the scores at
+    // the start of the round
+    const grads = Array.from({ length: outputs }, () => new Float64Array(n));
+    const hesses = Array.from({ length: outputs }, () => new Float64Array(n));
+    const sampleSize = Math.max(1, Math.round(n * this.config.subsample));
+    let bestLoss = Infinity;
+    this.bestIteration = 0;
+
+    for (let round = 0; round < this.config.nEstimators; round++) {
+      const rows = this.config.subsample < 1
+        ? shuffleIndices(n, random).slice(0, sampleSize)
+        : Array.from({ length: n }, (_, i) => i);
+
+      for (let k = 0; k < outputs; k++) {
+        this.computeGradients(scores, y, k, grads[k], hesses[k]);
+      }
+      const roundTrees: BoostedTreeNode[] = [];
+      for (let k = 0; k < outputs; k++) {
+        roundTrees.push(this.buildTree(binned, rows, grads[k], hesses[k], 0));
+      }
+      roundTrees.forEach((tree, k) => {
+        for (let i = 0; i < n; i++) {
+          scores[i * outputs + k] += this.predictTree(tree, X[i]);
+        }
+        if (validation && valScores) {
+          for (let i = 0; i < validation.X.length; i++) {
+            valScores[i * outputs + k] += this.predictTree(tree, validation.X[i]);
+          }
+        }
+      });
+      this.trees.push(roundTrees);
+
+      const metrics: BoostingIterationMetrics = {
+        iteration: round + 1,
+        trainLoss: this.logLoss(scores, y),
+        trainAccuracy: this.accuracy(scores, y)
+      };
+      if (validation && valScores) {
+        metrics.valLoss = this.logLoss(valScores, validation.y);
+        metrics.valAccuracy = this.accuracy(valScores, validation.y);
+      }
+      this.history.push(metrics);
+
+      const monitored = metrics.valLoss ?? metrics.trainLoss;
+      if (monitored < bestLoss - 1e-9) {
+        bestLoss = monitored;
+        this.bestIteration = round + 1;
+      }
+
+      if (options.onIteration?.(metrics) === false) break;
+      if (
+        validation &&
+        this.config.earlyStoppingRounds &&
+        round + 1 - this.bestIteration >= this.config.earlyStoppingRounds
+      ) {
+        console.log(`Early stopping at round ${round + 1} (best ${this.bestIteration})`);
+        break;
+      }
+
+      // Yield so progress callbacks can render
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    // Keep the rounds up to the best validation loss
+    if (validation && this.bestIteration > 0) {
+      this.trees = this.trees.slice(0, this.bestIteration);
+    } else {
+      this.bestIteration = this.trees.length;
+    }
+    return this.history;
+  }
+
+  /**
+   * Class probabilities per row (columns in class index order)
+   */
+  predictProba(X: number[][]): number[][] {
+    return X.map(row => {
+      const raw = this.rawScores(row);
+      if (raw.length === 1) {
+        const p = sigmoid(raw[0]);
+        return [1 - p, p];
+      }
+      return softmax(raw);
+    });
+  }
+
+  /**
+   * Most probable class index per row
+   */
+  predict(X: number[][]): number[] {
+    return this.predictProba(X).map(p => p.indexOf(Math.max(...p)));
+  }
+
+  /**
+   * Class index of each predictProba column
+   */
+  getClasses(): number[] {
+    return Array.from({ length: this.numClasses }, (_, i) => i);
+  }
+
+  /**
+   * Per-round training / validation losses
+   */
+  getHistory(): BoostingIterationMetrics[] {
+    return this.history;
+  }
+
+  /**
+   * Number of rounds kept (the best validation round when early stopping)
+   */
+  getBestIteration(): number {
+    return this.bestIteration;
+  }
+
+  /**
+   * Total split gain per feature, normalized to sum to 1
+   */
+  getFeatureImportance(): Record<string, number> {
+    const gains = new Array(this.featureNames.length).fill(0);
+    const visit = (node: BoostedTreeNode) => {
+      if (node.leaf) return;
+      gains[node.feature] += node.gain;
+      visit(node.left);
+      visit(node.right);
+    };
+    this.trees.forEach(round => round.forEach(visit));
+
+    const total = gains.reduce((sum, g) => sum + g, 0);
+    const importance: Record<string, number> = {};
+    this.featureNames.forEach((name, i) => {
+      importance[name] = total > 0 ? gains[i] / total : 0;
+    });
+    return importance;
+  }
+
+  toJSON(): SerializedGradientBoosting {
+    return {
+      config: this.config,
+      featureNames: this.featureNames,
+      numClasses: this.numClasses,
+      baseScores: this.baseScores,
+      trees: this.trees,
+      history: this.history,
+      bestIteration: this.bestIteration
+    };
+  }
+
+  static fromJSON(data: SerializedGradientBoosting): GradientBoostingClassifier {
+    const model = new GradientBoostingClassifier(data.config);
+    model.featureNames = data.featureNames;
+    model.numClasses = data.numClasses;
+    model.baseScores = data.baseScores;
+    model.trees = data.trees;
+    model.history = data.history;
+    model.bestIteration = data.bestIteration;
+    return model;
+  }
+
+  private numOutputs(): number {
+    return this.numClasses === 2 ? 1 : this.numClasses;
+  }
+
+  private rawScores(row: number[]): number[] {
+    const raw = [...this.baseScores];
+    for (const round of this.trees) {
+      round.forEach((tree, k) => {
+        raw[k] += this.predictTree(tree, row);
+      });
+    }
+    return raw;
+  }
+
+  private predictTree(node: BoostedTreeNode, row: number[]): number {
+    while (!node.leaf) {
+      // Missing values follow the left branch, like values in the lowest bin
+      const value = row[node.feature];
+      node = !(value > node.threshold) ? node.left : node.right;
+    }
+    return node.value;
+  }
+
+  /**
+   * Log-loss gradients and hessians for output k, scaled by the row's
+   * class weight
+   */
+  private computeGradients(
+    scores: Float64Array,
+    y: number[],
+    k: number,
+    grad: Float64Array,
+    hess: Float64Array
+  ): void {
+    const outputs = this.numOutputs();
+    for (let i = 0; i < y.length; i++) {
+      let p: number;
+      let target: number;
+      if (outputs === 1) {
+        p = sigmoid(scores[i]);
+        target = y[i];
+      } else {
+        p = softmax(Array.from(scores.subarray(i * outputs, (i + 1) * outputs)))[k];
+        target = y[i] === k ? 1 : 0;
+      }
+      const weight = this.classWeight(y[i]);
+      grad[i] = weight * (p - target);
+      hess[i] = weight * Math.max(p * (1 - p), 1e-6);
+    }
+  }
+
+  private classWeight(label: number): number {
+    return this.config.classWeights?.[label] ?? 1;
+  }
+
+  private buildTree(
+    binned: BinnedFeatures,
+    rows: number[],
+    grad: Float64Array,
+    hess: Float64Array,
+    depth: number
+  ): BoostedTreeNode {
+
+    const lambda = this.config.l2Regularization;
+    let G = 0;
+    let H = 0;
+    for (const i of rows) {
+      G += grad[i];
+      H += hess[i];
+    }
+    const leaf = (): BoostedTreeNode => ({ leaf: true, value: (-G / (H + lambda)) * this.config.learningRate });
+
+    const minLeaf = Math.max(1, this.config.minSamplesLeaf);
+    if (depth >= this.config.maxDepth || rows.length < 2 * minLeaf) return leaf();
+
+    // Best bin boundary over all features from per-bin gradient histograms
+    const parentScore = (G * G) / (H + lambda);
+    let best: { feature: number; bin: number; gain: number } | null = null;
+    for (let f = 0; f < binned.bins.length; f++) {
+      const nBins = binned.cuts[f].length + 1;
+      if (nBins < 2) continue;
+      const gHist = new Float64Array(nBins);
+      const hHist = new Float64Array(nBins);
+      const cHist = new Uint32Array(nBins);
+      const column = binned.bins[f];
+      for (const i of rows) {
+        const b = column[i];
+        gHist[b] += grad[i];
+        hHist[b] += hess[i];
+        cHist[b]++;
+      }
+
+      let GL = 0;
+      let HL = 0;
+      let CL = 0;
+      for (let b = 0; b < nBins - 1; b++) {
+        GL += gHist[b];
+        HL += hHist[b];
+        CL += cHist[b];
+        if (CL < minLeaf) continue;
+        if (rows.length - CL < minLeaf) break;
+        const GR = G - GL;
+        const HR = H - HL;
+        const gain = (GL * GL) / (HL + lambda) + (GR * GR) / (HR + lambda) - parentScore;
+        if (!best || gain > best.gain) best = { feature: f, bin: b, gain };
+      }
+    }
+
+    if (!best || best.gain <= 1e-12) return leaf();
+
+    const column = binned.bins[best.feature];
+    const left: number[] = [];
+    const right: number[] = [];
+    for (const i of rows) {
+      (column[i] <= best.bin ? left : right).push(i);
+    }
+
+    return {
+      leaf: false,
+      feature: best.feature,
+      threshold: binned.cuts[best.feature][best.bin],
+      gain: best.gain,
+      left: this.buildTree(binned, left, grad, hess, depth + 1),
+      right: this.buildTree(binned, right, grad, hess, depth + 1)
+    };
+  }
+
+  /**
+   * Quantile cut points per feature and the bin index of every training value
+   */
+  private binFeatures(X: number[][]): BinnedFeatures {
+    const maxBins = Math.min(MAX_BINS, Math.max(2, Math.floor(this.config.maxBins)));
+    const numFeatures = X[0].length;
+    const bins: Uint8Array[] = [];
+    const cuts: number[][] = [];
+
+    for (let f = 0; f < numFeatures; f++) {
+      const values = X.map(row => row[f]).filter(v => Number.isFinite(v)).sort((a, b) => a - b);
+      const unique = values.filter((v, i) => i === 0 || v !== values[i - 1]);
+
+      let featureCuts: number[];
+      if (unique.length <= maxBins) {
+        featureCuts = unique.slice(0, -1).map((v, i) => (v + unique[i + 1]) / 2);
+      } else {
+        featureCuts = [];
+        for (let b = 1; b < maxBins; b++) {
+          const cut = values[Math.floor((b * values.length) / maxBins)];
+          if (featureCuts.length === 0 || cut > featureCuts[featureCuts.length - 1]) featureCuts.push(cut);
+        }
+        // A cut at the maximum would leave the last bin empty
+        if (featureCuts[featureCuts.length - 1] >= unique[unique.length - 1]) featureCuts.pop();
+      }
+
+      const column = new Uint8Array(X.length);
+      X.forEach((row, i) => {
+        column[i] = Number.isFinite(row[f]) ? binIndex(featureCuts, row[f]) : 0;
+      });
+      bins.push(column);
+      cuts.push(featureCuts);
+    }
+
+    return { bins, cuts };
+  }
+
+  private logLoss(scores: Float64Array, y: number[]): number {
+    const outputs = this.numOutputs();
+    let loss = 0;
+    for (let i = 0; i < y.length; i++) {
+      if (outputs === 1) {
+        const p = sigmoid(scores[i]);
+        loss -= y[i] === 1 ? safeLog(p) : safeLog(1 - p);
+      } else {
+        const p = softmax(Array.from(scores.subarray(i * outputs, (i + 1) * outputs)));
+        loss -= safeLog(p[y[i]]);
+      }
+    }
+    return loss / y.length;
+  }
+
+  private accuracy(scores: Float64Array, y: number[]): number {
+    const outputs = this.numOutputs();
+    let correct = 0;
+    for (let i = 0; i < y.length; i++) {
+      let predicted: number;
+      if (outputs === 1) {
+        predicted = scores[i] >= 0 ? 1 : 0;
+      } else {
+        const row = Array.from(scores.subarray(i * outputs, (i + 1) * outputs));
+        predicted = row.indexOf(Math.max(...row));
+      }
+      if (predicted === y[i]) correct++;
+    }
+    return correct / y.length;
+  }
+
+  private validateConfig(): void {
+    const { nEstimators, learningRate, maxDepth, subsample } = this.config;
+    if (!Number.isInteger(nEstimators) || nEstimators < 1) {
+      throw new Error('Number of boosting rounds must be a positive integer');
+    }
+    if (!(learningRate > 0 && learningRate <= 1)) {
+      throw new Error('Learning rate must be in (0, 1]');
+    }
+    if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+      throw new Error('Max depth must be a positive integer');
+    }
+    if (!(subsample > 0 && subsample <= 1)) {
+      throw new Error('Subsample must be in (0, 1]');
+    }
+    if (this.config.classWeights?.some(w => !(w > 0))) {
+      throw new Error('Class weights must be positive');
+    }
+  }
+}
+
+// First bin whose cut is >= value (values above every cut land in the last bin)
+const binIndex = (cuts: number[], value: number): number => {
+  let low = 0;
+  let high = cuts.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (value <= cuts[mid]) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
@@ -0,0 +1,212 @@
+// Linear regression for continuous targets (the Trainer's regression model)
+// Mini-batch gradient descent on squared error with the same L1/L2/elastic-net
+// penalties as logistic regression. The target is z-scored with the training
+// mean / std while fitting; predictions come back in target units.
+
+import { shuffleIndices, createRandom, RandomSource } from '../core/math';
+import { coefficientImportance, penaltyStrengths, penalizedStep } from './linearPenalty';
+import type { LogisticRegressionConfig, TrainingMetrics } from './logistic';
+
+// Class weights have no meaning for a continuous target
+export type LinearRegressionConfig = Omit<LogisticRegressionConfig, 'classWeights'>;
+
+export interface LinearRegressionModel {
+  weights: Float32Array;
+  bias: number;
+  targetScale: { mean: number; std: number };
+  config: LinearRegressionConfig;
+  featureNames: string[];
+  trainingHistory: TrainingMetrics[];
+}
+
+export class LinearRegression {
+  private weights: Float32Array;
+  private bias: number;
+  private targetScale = { mean: 0, std: 1 };
+  private config: LinearRegressionConfig;
+  private featureNames: string[];
+  private trainingHistory: TrainingMetrics[] = [];
+  private random: RandomSource;
+
+  constructor(numFeatures: number, config: LinearRegressionConfig, featureNames: string[] = []) {
+    this.config = config;
+    this.featureNames = featureNames;
+    this.random = config.randomSeed !== undefined ? createRandom(config.randomSeed) : Math.random;
+
+    this.weights = new Float32Array(numFeatures);
+    for (let i = 0; i < numFeatures; i++) {
+      this.weights[i] = (this.random() - 0.5) * 0.1;
+    }
+    this.bias = 0;
+  }
+
+  /**
+   * Train the model; loss is the mean squared error of the z-scored target
+   */
+  async train(
+    X: Float32Array,
+    y: Float32Array,
+    numSamples: number,
+    numFeatures: number,
+    validationData?: { X: Float32Array; y: Float32Array; numSamples: number },
+    onEpochComplete?: (metrics: TrainingMetrics) => boolean | void // false stops training
+  ): Promise<LinearRegressionModel> {
+
+    this.trainingHistory = [];
+    const mean = numSamples > 0 ? y.reduce((sum, v) => sum + v, 0) / numSamples : 0;
+    const variance = numSamples > 0 ? y.reduce((sum, v) => sum + (v - mean) ** 2, 0) / numSamples : 0;
+    this.targetScale = { mean, std: Math.sqrt(variance) || 1 };
+    const scaled = y.map(v => (v - this.targetScale.mean) / this.targetScale.std);
+
+    let bestValLoss = Infinity;
+    let patienceCounter = 0;
+    let bestWeights = new Float32Array(this.weights);
+    let bestBias = this.bias;
+
+    for (let epoch = 0; epoch < this.config.epochs; epoch++) {
+      const shuffledIndices = shuffleIndices(numSamples, this.random);
+      let epochLoss = 0;
+
+      for (let batchStart = 0; batchStart < numSamples; batchStart += this.config.batchSize) {
+        const batchEnd = Math.min(batchStart + this.config.batchSize, numSamples);
+        const batchSize = batchEnd - batchStart;
+
+        const weightGradients = new Float32Array(numFeatures);
+        let biasGradient = 0;
+
+        for (let i = batchStart; i < batchEnd; i++) {
+          const sampleIdx = shuffledIndices[i];
+          const error = this.predictScaled(X, sampleIdx, numFeatures) - scaled[sampleIdx];
+          for (let j = 0; j < numFeatures; j++) {
+            weightGradients[j] += error * X[sampleIdx * numFeatures + j];
+          }
+          biasGradient += error;
+          epochLoss += error * error;
+        }
+
+        // L2 and L1 penalties applied by penalizedStep
+        const strengths = penaltyStrengths(this.config);
+        for (let j = 0; j < numFeatures; j++) {
+          this.weights[j] = penalizedStep(this.weights[j], weightGradients[j] / batchSize, this.config.learningRate, strengths);
+        }
+        this.bias -= this.config.learningRate * (biasGradient / batchSize);
+      }
+
+      let valLoss: number | undefined;
+      if (validationData) {
+        valLoss = this.scaledLoss(validationData.X, validationData.y, validationData.numSamples, numFeatures);
+
+        // Early stopping check
+        if (valLoss < bestValLoss) {
+          bestValLoss = valLoss;
+          bestWeights = new Float32Array(this.weights);
+          bestBias = this.bias;
+          patienceCounter = 0;
+        } else {
+          patienceCounter++;
+        }
+
+        if (patienceCounter >= this.config.earlyStoppingPatience) {
+          console.log(`Early stopping at epoch ${epoch + 1}`);
+          this.weights = bestWeights;
+          this.bias = bestBias;
+          break;
+        }
+      }
+
+      const metrics: TrainingMetrics = {
+        epoch: epoch + 1,
+        loss: numSamples > 0 ? epochLoss / numSamples : 0,
+        valLoss
+      };
+      this.trainingHistory.push(metrics);
+
+      if (onEpochComplete?.(metrics) === false) {
+        break;
+      }
+
+      // Yield control to prevent blocking
+      if (epoch % 10 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    return {
+      weights: this.weights,
+      bias: this.bias,
+      targetScale: { ...this.targetScale },
+      config: this.config,
+      featureNames: this.featureNames,
+      trainingHistory: this.trainingHistory
+    };
+  }
+
+  /**
+   * Prediction for one sample in z-scored target units
+   */
+  private predictScaled(X: Float32Array, sampleIndex: number, numFeatures: number): number {
+    let value = this.bias;
+    for (let j = 0; j < numFeatures; j++) {
+      value += this.weights[j] * X[sampleIndex * numFeatures + j];
+    }
+    return value;
+  }
+
+  /**
+   * Mean squared error in z-scored target units (the training loss)
+   */
+  private scaledLoss(X: Float32Array, y: Float32Array, numSamples: number, numFeatures: number): number {
+    let total = 0;
+    for (let i = 0; i < numSamples; i++) {
+      const error = this.predictScaled(X, i, numFeatures) - (y[i] - this.targetScale.mean) / this.targetScale.std;
+      total += error * error;
+    }
+    return numSamples > 0 ? total / numSamples : 0;
+  }
+
+  /**
+   * Predictions in target units
+   */
+  predict(X: Float32Array, numSamples: number, numFeatures: number): Float32Array {
+    const predictions = new Float32Array(numSamples);
+    for (let i = 0; i < numSamples; i++) {
+      predictions[i] = this.predictScaled(X, i, numFeatures) * this.targetScale.std + this.targetScale.mean;
+    }
+    return predictions;
+  }
+
+  /**
+   * Training loss on a dataset (mean squared error of the z-scored target)
+   */
+  evaluate(X: Float32Array, y: Float32Array, numSamples: number, numFeatures: number): { loss: number } {
+    return { loss: this.scaledLoss(X, y, numSamples, numFeatures) };
+  }
+
+  /**
+   * Feature importance from the coefficient magnitudes (see coefficientImportance)
+   */
+  getFeatureImportance(): Record<string, number> {
+    return coefficientImportance(this.weights, this.featureNames);
+  }
+
+  /**
+   * Export model for inference
+   */
+  export(): {
+    type: 'linear';
+    weights: number[];
+    bias: number;
+    targetScale: { mean: number; std: number };
+    featureNames: string[];
+    config: LinearRegressionConfig;
+  } {
+    return {
+      type: 'linear',
+      weights: Array.from(this.weights),
+      bias: this.bias,
+      targetScale: { ...this.targetScale },
+      featureNames: this.featureNames,
+      config: this.config
+    };
+  }
+}
@@ -0,0 +1,69 @@
+// Coefficient penalties and importances shared by the linear models
+// (logistic.ts and linear.ts): the L1 / L2 / elastic-net split of the penalty
+// strength, the proximal gradient step that applies it, and coefficient-based
+// feature importance.
+
+import { clamp } from '../core/math';
+import type { LogisticRegressionConfig } from './logistic';
+
+export type PenaltyConfig = Pick<LogisticRegressionConfig, 'regularization' | 'penalty' | 'l1Ratio'>;
+
+export interface PenaltyStrengths {
+  l1: number;
+  l2: number;
+}
+
+/**
+ * Split the penalty strength into its L1 and L2 parts
+ */
+export function penaltyStrengths(config: PenaltyConfig): PenaltyStrengths {
+  const strength = config.regularization;
+  switch (config.penalty ?? 'l2') {
+    case 'none':
+      return { l1: 0, l2: 0 };
+    case 'l1':
+      return { l1: strength, l2: 0 };
+    case 'elasticnet': {
+      const ratio = clamp(config.l1Ratio ?? 0.5, 0, 1);
+      return { l1: strength * ratio, l2: strength * (1 - ratio) };
+    }
+    default:
+      return { l1: 0, l2: strength };
+  }
+}
+
+/**
+ * One gradient step on a coefficient: the L2 share enters the gradient, the
+ * L1 share is a proximal (soft-threshold) step so coefficients can reach
+ * exactly zero
+ * @param gradient - Loss gradient for the coefficient, without the penalty
+ */
+export function penalizedStep(
+  weight: number,
+  gradient: number,
+  learningRate: number,
+  strengths: PenaltyStrengths
+): number {
+  const stepped = weight - learningRate * (gradient + strengths.l2 * weight);
+  const shrink = learningRate * strengths.l1;
+  if (shrink <= 0) return stepped;
+  return Math.sign(stepped) * Math.max(0, Math.abs(stepped) - shrink);
+}
+
+/**
+ * Absolute coefficients normalized to sum to 1 (comparable when the
+ * features are standardized)
+ */
+export function coefficientImportance(
+  weights: ArrayLike<number>,
+  featureNames: string[]
+): Record<string, number> {
+  let total = 0;
+  for (let j = 0; j < weights.length; j++) total += Math.abs(weights[j]);
+  total = total || 1;
+  const importance: Record<string, number> = {};
+  for (let j = 0; j < weights.length; j++) {
+    importance[featureNames[j] ?? `feature_${j}`] = Math.abs(weights[j]) / total;
+  }
+  return importance;
+}
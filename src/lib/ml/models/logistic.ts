@@ -1,15 +1,22 @@
 // Logistic Regression implementation for binary classification
-// IMPLEMENTATION UPDATE: Enhanced with stable gradient descent, L2 regularization, and batch processing
+// IMPLEMENTATION UPDATE: Enhanced with stable gradient descent, L1/L2/elastic-net regularization, and batch processing
 
-import { sigmoid, clamp, safeLog, shuffleIndices } from '../core/math';
+import { sigmoid, clamp, safeLog, shuffleIndices, createRandom, RandomSource } from '../core/math';
+import { coefficientImportance, penaltyStrengths, penalizedStep } from './linearPenalty';
+
+// 'elasticnet' mixes both: l1Ratio * L1 + (1 - l1Ratio) * L2
+export type LogisticPenalty = 'none' | 'l1' | 'l2' | 'elasticnet';
 
 export interface LogisticRegressionConfig {
   learningRate: number;
   epochs: number;
-  regularization: number; // L2 regularization strength
+  regularization: number; // penalty strength (lambda)
+  penalty?: LogisticPenalty; // defaults to 'l2'
+  l1Ratio?: number; // elastic-net only, 0-1
+  classWeights?: { [label: number]: number }; // loss weight per class (see calculateClassWeights)
   batchSize: number;
   earlyStoppingPatience: number;
-  randomSeed?: number;
+  randomSeed?: number; // seeds weight initialization and epoch shuffles
 }
 
 export interface TrainingMetrics {
@@ -20,6 +27,16 @@ export interface TrainingMetrics {
   valAcc?: number;
 }
 
+// Coefficients fitted at one penalty strength of a regularization path
+export interface RegularizationPathPoint {
+  strength: number;
+  weights: number[]; // parallel to featureNames
+  bias: number;
+  nonZero: number; // coefficients not shrunk to zero
+  valLoss?: number;
+  valAccuracy?: number;
+}
+
 export interface LogisticRegressionModel {
   weights: Float32Array;
   bias: number;
@@ -34,15 +51,17 @@ export class LogisticRegression {
   private config: LogisticRegressionConfig;
   private featureNames: string[];
   private trainingHistory: TrainingMetrics[] = [];
+  private random: RandomSource;
 
   constructor(numFeatures: number, config: LogisticRegressionConfig, featureNames: string[] = []) {
     this.config = config;
     this.featureNames = featureNames;
+    this.random = config.randomSeed !== undefined ? createRandom(config.randomSeed) : Math.random;
     
     // Initialize weights with small random values
     this.weights = new Float32Array(numFeatures);
     for (let i = 0; i < numFeatures; i++) {
-      this.weights[i] = (Math.random() - 0.5) * 0.1; // Small random initialization
+      this.weights[i] = (this.random() - 0.5) * 0.1; // Small random initialization
     }
     this.bias = 0;
   }
@@ -56,7 +75,7 @@ export class LogisticRegression {
     numSamples: number,
     numFeatures: number,
     validationData?: { X: Float32Array; y: Float32Array; numSamples: number },
-    onEpochComplete?: (metrics: TrainingMetrics) => void
+    onEpochComplete?: (metrics: TrainingMetrics) => boolean | void // false stops training
   ): Promise<LogisticRegressionModel> {
     
     this.trainingHistory = [];
@@ -69,7 +88,7 @@ export class LogisticRegression {
     
     for (let epoch = 0; epoch < this.config.epochs; epoch++) {
       // Shuffle data for each epoch
-      const shuffledIndices = shuffleIndices(numSamples);
+      const shuffledIndices = shuffleIndices(numSamples, this.random);
       
       // Mini-batch gradient descent
       let epochLoss = 0;
@@ -88,7 +107,8 @@ export class LogisticRegression {
           const sampleIdx = shuffledIndices[i];
           const prediction = this.predictProbability(X, sampleIdx, numFeatures);
           const label = y[sampleIdx];
-          const error = prediction - label;
+          const weight = this.config.classWeights?.[label] ?? 1;
+          const error = (prediction - label) * weight;
           
           // Accumulate gradients
           for (let j = 0; j < numFeatures; j++) {
@@ -97,8 +117,8 @@ export class LogisticRegression {
           }
           biasGradient += error;
           
-          // Calculate loss (cross-entropy)
-          const logLoss = -label * safeLog(prediction) - (1 - label) * safeLog(1 - prediction);
+          // Calculate loss (class-weighted cross-entropy)
+          const logLoss = weight * (-label * safeLog(prediction) - (1 - label) * safeLog(1 - prediction));
           batchLoss += logLoss;
           epochLoss += logLoss;
           
@@ -108,11 +128,11 @@ export class LogisticRegression {
           }
         }
         
-        // Apply gradients with regularization
+        // Apply gradients with regularization (see penalizedStep)
+        const strengths = penaltyStrengths(this.config);
         for (let j = 0; j < numFeatures; j++) {
-          const gradient = weightGradients[j] / batchSize + this.config.regularization * this.weights[j];
-          this.weights[j] -= this.config.learningRate * gradient;
-          this.weights[j] = clamp(this.weights[j], -10, 10); // Prevent extreme weights
+          const weight = penalizedStep(this.weights[j], weightGradients[j] / batchSize, this.config.learningRate, strengths);
+          this.weights[j] = clamp(weight, -10, 10); // Prevent extreme weights
         }
         
         this.bias -= this.config.learningRate * (biasGradient / batchSize);
@@ -165,8 +185,8 @@ export class LogisticRegression {
       
       this.trainingHistory.push(metrics);
       
-      if (onEpochComplete) {
-        onEpochComplete(metrics);
+      if (onEpochComplete?.(metrics) === false) {
+        break;
       }
       
       // Yield control to prevent blocking
@@ -224,6 +244,28 @@ export class LogisticRegression {
     return classes;
   }
 
+  /**
+   * Class distributions ([P(0), P(1)]) for rows of features
+   */
+  predictProba(X: number[][]): number[][] {
+    const p = this.predict(Float32Array.from(X.flat()), X.length, this.weights.length);
+    return Array.from(p, prob => [1 - prob, prob]);
+  }
+
+  /**
+   * Class indices for rows of features
+   */
+  predictLabels(X: number[][], threshold: number = 0.5): number[] {
+    return this.predictProba(X).map(p => (p[1] >= threshold ? 1 : 0));
+  }
+
+  /**
+   * Feature importance from the coefficient magnitudes (see coefficientImportance)
+   */
+  getFeatureImportance(): Record<string, number> {
+    return coefficientImportance(this.weights, this.featureNames);
+  }
+
   /**
    * Evaluate model on a dataset
    */
@@ -296,6 +338,57 @@ export class LogisticRegression {
     };
   }
 
+  /**
+   * Fit the model at a sequence of penalty strengths, strongest first, each
+   * fit warm-started from the previous coefficients. Shows how coefficients
+   * grow (or, with L1, enter the model) as the penalty weakens.
+   */
+  static async regularizationPath(
+    X: Float32Array,
+    y: Float32Array,
+    numSamples: number,
+    numFeatures: number,
+    config: LogisticRegressionConfig,
+    options: {
+      strengths?: number[];
+      featureNames?: string[];
+      validation?: { X: Float32Array; y: Float32Array; numSamples: number };
+      onStep?: (point: RegularizationPathPoint, step: number, total: number) => boolean | void;
+    } = {}
+  ): Promise<RegularizationPathPoint[]> {
+    const strengths = (options.strengths ?? regularizationStrengths()).slice().sort((a, b) => b - a);
+    const model = new LogisticRegression(numFeatures, config, options.featureNames);
+    model.weights.fill(0);
+
+    const path: RegularizationPathPoint[] = [];
+    for (let step = 0; step < strengths.length; step++) {
+      model.config = { ...config, regularization: strengths[step] };
+      await model.train(X, y, numSamples, numFeatures);
+
+      const point: RegularizationPathPoint = {
+        strength: strengths[step],
+        weights: Array.from(model.weights),
+        bias: model.bias,
+        nonZero: model.weights.filter(w => w !== 0).length
+      };
+      if (options.validation) {
+        const { loss, accuracy } = model.evaluate(
+          options.validation.X,
+          options.validation.y,
+          options.validation.numSamples,
+          numFeatures
+        );
+        point.valLoss = loss;
+        point.valAccuracy = accuracy;
+      }
+      path.push(point);
+
+      if (options.onStep?.(point, step, strengths.length) === false) break;
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return path;
+  }
+
   /**
    * Load model from exported data
    */
@@ -311,4 +404,13 @@ export class LogisticRegression {
     
     return model;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Log-spaced penalty strengths from strongest to weakest
+ */
+export function regularizationStrengths(max: number = 1, min: number = 1e-4, steps: number = 10): number[] {
+  const hi = Math.log10(max);
+  const lo = Math.log10(min);
+  return Array.from({ length: steps }, (_, i) => Math.pow(10, hi - ((hi - lo) * i) / Math.max(1, steps - 1)));
+}
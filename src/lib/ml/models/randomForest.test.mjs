@@ -0,0 +1,341 @@
+// CART growth, OOB bookkeeping and serialization of the random forest (node --test)
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+	RandomForestClassifier,
+	RandomForestRegressor,
+	groupRowIndices,
+	growForestTree,
+} from './randomForest.ts';
+
+const baseConfig = {
+	nEstimators: 1,
+	maxDepth: 1,
+	minSamplesSplit: 2,
+	minSamplesLeaf: 1,
+	maxFeatures: 'all',
+	bootstrap: false,
+	randomSeed: 7,
+};
+
+// Seeded uniform [0, 1) so the fixtures don't depend on Math.random
+const lcg = (seed) => () => {
+	seed = (seed * 1664525 + 1013904223) >>> 0;
+	return seed / 2 ** 32;
+};
+
+// Two well-separated classes on feature 0, noise on the rest
+const separable = (rows, features = 3, seed = 1) => {
+	const random = lcg(seed);
+	const X = [];
+	const y = [];
+	for (let i = 0; i < rows; i++) {
+		const label = i % 2;
+		X.push([
+			label * 2 + random(),
+			...Array.from({ length: features - 1 }, () => random()),
+		]);
+		y.push(label);
+	}
+	return { X, y };
+};
+
+const leaves = (node) =>
+	node.leaf ? [node] : [...leaves(node.left), ...leaves(node.right)];
+
+const grow = (X, y, config, seed = 1, groupRows) =>
+	growForestTree(X, y, 0, seed, {
+		config: { ...baseConfig, ...config },
+		numClasses: Math.max(...y) + 1,
+		groupRows,
+	});
+
+describe('split selection', () => {
+	// Both features are binary. Splitting on feature 0 leaves class counts
+	// [1,1,3] | [3,3,1] and on feature 1 [0,1,2] | [4,3,2]: gini prefers the
+	// first (0.5905 vs 0.5926), entropy the second (1.3774 vs 1.4164 bits)
+	const left0 = [1, 1, 3];
+	const left1 = [0, 1, 2];
+	const X = [];
+	const y = [];
+	for (let label = 0; label < 3; label++) {
+		for (let k = 0; k < 4; k++) {
+			X.push([k < left0[label] ? 0 : 1, k < left1[label] ? 0 : 1]);
+			y.push(label);
+		}
+	}
+
+	test('gini splits on the feature with the lower weighted gini', () => {
+		const { tree } = grow(X, y, { criterion: 'gini' });
+		assert.equal(tree.leaf, false);
+		assert.equal(tree.feature, 0);
+		assert.equal(tree.threshold, 0.5);
+		assert.deepEqual(tree.left.counts, [1, 1, 3]);
+		assert.deepEqual(tree.right.counts, [3, 3, 1]);
+	});
+
+	test('entropy splits on the feature with the lower weighted entropy', () => {
+		const { tree } = grow(X, y, { criterion: 'entropy' });
+		assert.equal(tree.feature, 1);
+		assert.equal(tree.threshold, 0.5);
+		assert.deepEqual(tree.left.counts, [0, 1, 2]);
+	});
+
+	test('thresholds fall midway between neighbouring values', () => {
+		const { tree } = grow([[1], [2], [4], [8]], [0, 0, 1, 1], {
+			criterion: 'gini',
+		});
+		assert.equal(tree.threshold, 3);
+	});
+});
+
+describe('growth limits', () => {
+	test('minSamplesLeaf bounds every leaf', () => {
+		const { X, y } = separable(60);
+		// Flip a few labels so the tree wants to keep splitting
+		for (let i = 0; i < 60; i += 7) y[i] = 1 - y[i];
+		for (const minSamplesLeaf of [1, 5, 12]) {
+			const { tree } = grow(X, y, { maxDepth: 10, minSamplesLeaf });
+			const sizes = leaves(tree).map((leaf) =>
+				leaf.counts.reduce((a, b) => a + b, 0),
+			);
+			assert.equal(
+				sizes.reduce((a, b) => a + b, 0),
+				60,
+			);
+			for (const size of sizes) assert.ok(size >= minSamplesLeaf);
+			if (minSamplesLeaf === 1) assert.ok(sizes.some((size) => size < 5));
+		}
+	});
+
+	test('minSamplesLeaf bounds regression leaves', () => {
+		const X = Array.from({ length: 40 }, (_, i) => [i]);
+		const y = X.map(([x]) => x * x);
+		const { tree } = grow(X, y, {
+			task: 'regression',
+			maxDepth: 10,
+			minSamplesLeaf: 6,
+		});
+		for (const leaf of leaves(tree)) assert.ok(leaf.samples >= 6);
+	});
+
+	test('maxFeatures limits the features tried per split', () => {
+		const { X, y } = separable(40, 4);
+		const rootFeatures = (maxFeatures) =>
+			new Set(
+				Array.from(
+					{ length: 30 },
+					(_, seed) => grow(X, y, { maxFeatures }, seed + 1).tree.feature,
+				),
+			);
+		// With every feature in play the separating one always wins
+		assert.deepEqual([...rootFeatures('all')], [0]);
+		// One feature per split: the root uses whichever feature was drawn
+		assert.ok(rootFeatures(1).size > 1);
+		// sqrt(4) = 2 features, so the separating one is missed sometimes
+		assert.ok(rootFeatures('sqrt').size > 1);
+	});
+
+	test('invalid settings are rejected', () => {
+		assert.throws(
+			() => new RandomForestClassifier({ ...baseConfig, minSamplesLeaf: 0 }),
+			/minSamplesLeaf must be at least 1/,
+		);
+		assert.throws(
+			() => new RandomForestClassifier({ ...baseConfig, maxFeatures: 0 }),
+			/maxFeatures must be positive/,
+		);
+	});
+});
+
+describe('out-of-bag estimates', () => {
+	test('without bootstrap no rows are out of bag', async () => {
+		const { X, y } = separable(30);
+		const result = grow(X, y, { maxDepth: 3 });
+		assert.equal(result.oobRows.length, 0);
+		assert.equal(result.oobFractions.length, 0);
+
+		const forest = new RandomForestClassifier({
+			...baseConfig,
+			nEstimators: 5,
+		});
+		await forest.fit(X, y, ['a', 'b', 'c']);
+		assert.equal(forest.getOobScore(), undefined);
+	});
+
+	test('bootstrap leaves distinct rows out, each with class fractions', () => {
+		const { X, y } = separable(50);
+		const result = grow(X, y, { maxDepth: 3, bootstrap: true });
+		const rows = Array.from(result.oobRows);
+		assert.ok(rows.length > 0 && rows.length < 50);
+		assert.equal(new Set(rows).size, rows.length);
+		for (const row of rows) assert.ok(row >= 0 && row < 50);
+		assert.equal(result.oobFractions.length, rows.length * 2);
+		for (let r = 0; r < rows.length; r++) {
+			const sum = result.oobFractions[2 * r] + result.oobFractions[2 * r + 1];
+			assert.ok(Math.abs(sum - 1) < 1e-6);
+		}
+	});
+
+	test('the pooled OOB score is the accuracy of the OOB votes', async () => {
+		const { X, y } = separable(80);
+		const forest = new RandomForestClassifier({
+			...baseConfig,
+			nEstimators: 15,
+			maxDepth: 4,
+			bootstrap: true,
+		});
+		const progress = [];
+		await forest.fit(X, y, ['a', 'b', 'c'], {
+			onTree: (p) => void progress.push(p),
+		});
+		assert.equal(progress.length, 15);
+		assert.ok(forest.getOobScore() > 0.9);
+		assert.equal(progress.at(-1).oobScore, forest.getOobScore());
+		for (const p of progress) {
+			assert.ok(p.treeOobScore >= 0 && p.treeOobScore <= 1);
+		}
+	});
+
+	test('groups are drawn and left out whole', () => {
+		const { X, y } = separable(40);
+		const groups = X.map((_, i) => `star-${Math.floor(i / 4)}`);
+		const groupRows = groupRowIndices(groups);
+		assert.equal(groupRows.length, 10);
+		for (let seed = 1; seed <= 5; seed++) {
+			const oob = new Set(
+				grow(X, y, { bootstrap: true }, seed, groupRows).oobRows,
+			);
+			assert.ok(oob.size > 0);
+			for (const rows of groupRows) {
+				const out = rows.filter((row) => oob.has(row)).length;
+				assert.ok(out === 0 || out === rows.length);
+			}
+		}
+	});
+
+	test('rows without a group key are their own group', () => {
+		assert.deepEqual(groupRowIndices(['a', '', 'a', '']), [[1], [3], [0, 2]]);
+	});
+
+	test('regression forests score OOB predictions with R²', async () => {
+		const X = Array.from({ length: 60 }, (_, i) => [i / 6]);
+		const y = X.map(([x]) => 3 * x + 1);
+		const forest = new RandomForestRegressor({
+			...baseConfig,
+			nEstimators: 10,
+			maxDepth: 6,
+			bootstrap: true,
+		});
+		await forest.fit(X, y, ['x']);
+		const score = forest.getOobScore();
+		assert.ok(score > 0.9 && score <= 1);
+	});
+});
+
+describe('prediction and serialization', () => {
+	const config = {
+		...baseConfig,
+		nEstimators: 8,
+		maxDepth: 4,
+		maxFeatures: 'sqrt',
+		bootstrap: true,
+	};
+
+	test('class probabilities sum to 1 per row', async () => {
+		const { X, y } = separable(60);
+		const labels = y.map((label, i) => (i % 5 === 0 ? 2 : label));
+		const forest = new RandomForestClassifier(config);
+		await forest.fit(X, labels, ['a', 'b', 'c']);
+		const probabilities = forest.predictProba(separable(20, 3, 9).X);
+		for (const row of probabilities) {
+			assert.equal(row.length, 3);
+			assert.ok(Math.abs(row.reduce((a, b) => a + b, 0) - 1) < 1e-9);
+		}
+	});
+
+	test('toJSON / fromJSON restores the same classifier', async () => {
+		const { X, y } = separable(60);
+		const forest = new RandomForestClassifier(config);
+		await forest.fit(X, y, ['a', 'b', 'c']);
+		const restored = RandomForestClassifier.fromJSON(
+			JSON.parse(JSON.stringify(forest.toJSON())),
+		);
+		assert.equal(restored instanceof RandomForestRegressor, false);
+		assert.equal(restored.getTreeCount(), 8);
+		assert.equal(restored.getOobScore(), forest.getOobScore());
+		assert.deepEqual(
+			restored.getFeatureImportance(),
+			forest.getFeatureImportance(),
+		);
+		const probe = separable(20, 3, 9).X;
+		assert.deepEqual(restored.predictProba(probe), forest.predictProba(probe));
+	});
+
+	test('fromJSON returns a regressor for regression forests', async () => {
+		const X = Array.from({ length: 40 }, (_, i) => [i, i % 3]);
+		const y = X.map(([a, b]) => a + 10 * b);
+		const forest = new RandomForestRegressor(config);
+		await forest.fit(X, y, ['a', 'b']);
+		const restored = RandomForestClassifier.fromJSON(
+			JSON.parse(JSON.stringify(forest.toJSON())),
+		);
+		assert.ok(restored instanceof RandomForestRegressor);
+		assert.equal(restored.getConfig().task, 'regression');
+		assert.deepEqual(restored.predict(X), forest.predict(X));
+		assert.throws(() => restored.predictProba(X), /predicts values/);
+	});
+});
+
+describe('seeded determinism', () => {
+	test('randomSeed fixes the per-tree seeds', () => {
+		const seeds = (randomSeed) =>
+			new RandomForestClassifier({
+				...baseConfig,
+				nEstimators: 6,
+				randomSeed,
+			}).treeSeeds();
+		assert.deepEqual(seeds(42), seeds(42));
+		assert.equal(new Set(seeds(42)).size, 6);
+		assert.notDeepEqual(seeds(42), seeds(43));
+	});
+
+	test('the same seed grows the same forest', async () => {
+		const { X, y } = separable(60);
+		const fit = async (randomSeed) => {
+			const forest = new RandomForestClassifier({
+				...baseConfig,
+				nEstimators: 5,
+				maxDepth: 5,
+				maxFeatures: 'sqrt',
+				bootstrap: true,
+				randomSeed,
+			});
+			await forest.fit(X, y, ['a', 'b', 'c']);
+			return forest.toJSON();
+		};
+		assert.deepEqual(await fit(3), await fit(3));
+		assert.notDeepEqual((await fit(3)).trees, (await fit(4)).trees);
+	});
+
+	test('each tree depends only on its own seed', () => {
+		const { X, y } = separable(60);
+		const forest = new RandomForestClassifier({
+			...baseConfig,
+			nEstimators: 3,
+			bootstrap: true,
+			maxDepth: 5,
+		});
+		const [seed] = forest.treeSeeds();
+		const a = growForestTree(X, y, 0, seed, {
+			config: forest.getConfig(),
+			numClasses: 2,
+		});
+		const b = growForestTree(X, y, 2, seed, {
+			config: forest.getConfig(),
+			numClasses: 2,
+		});
+		assert.deepEqual(a.tree, b.tree);
+		assert.deepEqual(a.oobRows, b.oobRows);
+	});
+});
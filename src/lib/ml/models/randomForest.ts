@@ -0,0 +1,666 @@
+// Random forest classifier: CART trees grown on bootstrap samples
+// Every split draws a fresh subset of maxFeatures features and sweeps each
+// one's sorted values for the threshold with the largest impurity decrease
+// (Gini or entropy). Rows left out of a tree's bootstrap sample are scored by
+// that tree, giving out-of-bag (OOB) estimates without a separate split.
+// RandomForestRegressor grows the same trees on a continuous target, splitting
+// on the squared-error decrease and predicting the mean of the leaf rows; its
+// OOB score is R² instead of accuracy.
+// Each tree has its own seed, so trees can be grown in any order or in
+// parallel (see workers/randomForestPool) and still give the same forest.
+
+import { createRandom, deriveSeed, RandomSource } from '../core/math';
+import type { TaskType } from '../../../types/ml';
+
+export type SplitCriterion = 'gini' | 'entropy';
+
+export interface RandomForestConfig {
+  nEstimators: number;
+  maxDepth: number;
+  minSamplesSplit: number; // rows a node needs before it may split
+  minSamplesLeaf: number; // rows each side of a split must keep
+  maxFeatures: 'sqrt' | 'log2' | 'all' | number; // features tried per split
+  bootstrap: boolean;
+  criterion?: SplitCriterion; // defaults to 'gini'
+  classWeights?: number[]; // weight of each class's rows in counts and impurity
+  randomSeed?: number; // seeds bootstrap and feature sampling
+  task?: TaskType; // defaults to 'classification' (set by RandomForestRegressor)
+}
+
+export type ForestTreeNode =
+  | { leaf: true; counts: number[] } // training rows per class reaching the leaf (class-weighted)
+  | { leaf: true; value: number; samples: number } // regression: mean target of the leaf's rows
+  | {
+      leaf: false;
+      feature: number;
+      threshold: number; // rows with value <= threshold go left
+      gain: number; // impurity (regression: squared error) decrease weighted by the rows at the node
+      left: ForestTreeNode;
+      right: ForestTreeNode;
+    };
+
+// One grown tree with the leaf class fractions of its out-of-bag rows
+export interface ForestTreeResult {
+  treeIndex: number;
+  tree: ForestTreeNode;
+  oobRows: Int32Array; // rows left out of the bootstrap sample (empty without bootstrap)
+  oobFractions: Float32Array; // class fractions per OOB row, row-major (regression: the predicted value)
+}
+
+export interface ForestTreeProgress {
+  treeIndex: number; // 0-based
+  treesGrown: number; // trees in the forest so far (trees may finish out of order)
+  treeOobScore?: number; // this tree's accuracy (regression: R²) on its own out-of-bag rows
+  oobScore?: number; // accuracy (regression: R²) of the forest's pooled OOB votes so far
+}
+
+type ForestLeaf = Extract<ForestTreeNode, { leaf: true }>;
+
+export interface SerializedRandomForest {
+  config: RandomForestConfig;
+  featureNames: string[];
+  numClasses: number;
+  trees: ForestTreeNode[];
+  oobScore?: number;
+}
+
+export class RandomForestClassifier {
+  protected config: RandomForestConfig;
+  protected featureNames: string[] = [];
+  protected numClasses = 2;
+  protected trees: ForestTreeNode[] = [];
+  protected oobScore: number | undefined;
+  // Pooled class fractions (regression: predictions) from the trees each
+  // row was out-of-bag for
+  protected oobVotes = new Float64Array(0);
+  protected oobTrees = new Uint32Array(0);
+
+  constructor(config: RandomForestConfig) {
+    validateConfig(config);
+    this.config = config;
+  }
+
+  /**
+   * Grow the forest on the training rows
+   * @param y - Class index per row (0..numClasses-1); target value per row
+   * for RandomForestRegressor
+   * @param options - Group key per row (bootstrap whole groups, so OOB rows
+   * share no group with the tree) and a per-tree callback; returning false
+   * from it stops training
+   */
+  async fit(
+    X: number[][],
+    y: number[],
+    featureNames: string[],
+    options: {
+      numClasses?: number;
+      groups?: string[];
+      onTree?: (progress: ForestTreeProgress) => boolean | void;
+    } = {}
+  ): Promise<void> {
+
+    if (X.length === 0) throw new Error('No training rows');
+    const numClasses = options.numClasses ?? Math.max(...y) + 1;
+    this.reset(featureNames, numClasses, X.length);
+
+    const groupRows = options.groups ? groupRowIndices(options.groups) : undefined;
+    const seeds = this.treeSeeds();
+    for (let t = 0; t < seeds.length; t++) {
+      const result = growForestTree(X, y, t, seeds[t], {
+        config: this.config,
+        numClasses: this.numClasses,
+        groupRows
+      });
+      const progress = this.addTree(result, y);
+      if (options.onTree?.(progress) === false) break;
+      // Yield to the event loop so the UI can render progress
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  /**
+   * One seed per tree, drawn from randomSeed (fresh ones without it)
+   */
+  treeSeeds(): number[] {
+    const random: RandomSource = this.config.randomSeed !== undefined
+      ? createRandom(this.config.randomSeed)
+      : Math.random;
+    return Array.from({ length: this.config.nEstimators }, () => deriveSeed(random));
+  }
+
+  /**
+   * Empty the forest before trees are added with addTree
+   */
+  reset(featureNames: string[], numClasses: number, rowCount: number): void {
+    this.featureNames = featureNames;
+    this.numClasses = this.config.task === 'regression' ? 1 : Math.max(2, numClasses);
+    this.trees = [];
+    this.oobScore = undefined;
+    this.oobVotes = new Float64Array(rowCount * this.numClasses);
+    this.oobTrees = new Uint32Array(rowCount);
+  }
+
+  /**
+   * Add a grown tree and pool its out-of-bag votes
+   * @param y - Class index per training row (as passed to growForestTree)
+   */
+  addTree(result: ForestTreeResult, y: ArrayLike<number>): ForestTreeProgress {
+    this.trees.push(result.tree);
+    const progress: ForestTreeProgress = {
+      treeIndex: result.treeIndex,
+      treesGrown: this.trees.length
+    };
+    if (result.oobRows.length === 0) return progress;
+
+    const k = this.numClasses;
+    let correct = 0;
+    result.oobRows.forEach((row, r) => {
+      const fractions = result.oobFractions.subarray(r * k, (r + 1) * k);
+      for (let c = 0; c < k; c++) this.oobVotes[row * k + c] += fractions[c];
+      this.oobTrees[row]++;
+      if (argmax(fractions) === y[row]) correct++;
+    });
+    progress.treeOobScore = correct / result.oobRows.length;
+    this.oobScore = pooledAccuracy(this.oobVotes, this.oobTrees, y, k);
+    progress.oobScore = this.oobScore;
+    return progress;
+  }
+
+  /**
+   * Class probabilities: the mean over trees of the leaf class fractions
+   */
+  predictProba(X: number[][]): number[][] {
+    return X.map(row => {
+      const proba = new Array(this.numClasses).fill(0);
+      for (const tree of this.trees) {
+        const fractions = leafOutput(leafFor(tree, row));
+        for (let c = 0; c < this.numClasses; c++) proba[c] += fractions[c];
+      }
+      const total = this.trees.length || 1;
+      return proba.map(p => p / total);
+    });
+  }
+
+  /**
+   * Most probable class index per row
+   */
+  predict(X: number[][]): number[] {
+    return this.predictProba(X).map(argmax);
+  }
+
+  /**
+   * Class index of each predictProba column
+   */
+  getClasses(): number[] {
+    return Array.from({ length: this.numClasses }, (_, c) => c);
+  }
+
+  /**
+   * Accuracy of the pooled out-of-bag votes (undefined without bootstrap)
+   */
+  getOobScore(): number | undefined {
+    return this.oobScore;
+  }
+
+  getTreeCount(): number {
+    return this.trees.length;
+  }
+
+  getConfig(): RandomForestConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Mean decrease in impurity per feature, normalized to sum to 1
+   */
+  getFeatureImportance(): Record<string, number> {
+    const totals = new Array(this.featureNames.length).fill(0);
+    const visit = (node: ForestTreeNode) => {
+      if (node.leaf) return;
+      totals[node.feature] += node.gain;
+      visit(node.left);
+      visit(node.right);
+    };
+    this.trees.forEach(visit);
+    const sum = totals.reduce((a, b) => a + b, 0) || 1;
+    const importance: Record<string, number> = {};
+    this.featureNames.forEach((name, j) => (importance[name] = totals[j] / sum));
+    return importance;
+  }
+
+  toJSON(): SerializedRandomForest {
+    return {
+      config: { ...this.config },
+      featureNames: [...this.featureNames],
+      numClasses: this.numClasses,
+      trees: this.trees,
+      oobScore: this.oobScore
+    };
+  }
+
+  static fromJSON(data: SerializedRandomForest): RandomForestClassifier {
+    const model =
+      data.config.task === 'regression'
+        ? new RandomForestRegressor(data.config)
+        : new RandomForestClassifier(data.config);
+    model.featureNames = data.featureNames;
+    model.numClasses = data.numClasses;
+    model.trees = data.trees;
+    model.oobScore = data.oobScore;
+    return model;
+  }
+}
+
+export class RandomForestRegressor extends RandomForestClassifier {
+  constructor(config: Omit<RandomForestConfig, 'task'>) {
+    super({ ...config, task: 'regression' });
+  }
+
+  /**
+   * Add a grown tree and pool its out-of-bag predictions
+   * @param y - Target value per training row
+   */
+  addTree(result: ForestTreeResult, y: ArrayLike<number>): ForestTreeProgress {
+    this.trees.push(result.tree);
+    const progress: ForestTreeProgress = {
+      treeIndex: result.treeIndex,
+      treesGrown: this.trees.length
+    };
+    if (result.oobRows.length === 0) return progress;
+
+    const rows = Array.from(result.oobRows);
+    result.oobRows.forEach((row, r) => {
+      this.oobVotes[row] += result.oobFractions[r];
+      this.oobTrees[row]++;
+    });
+    progress.treeOobScore = rSquared(
+      Array.from(result.oobFractions),
+      rows.map(row => y[row])
+    );
+    const scored = Array.from(this.oobTrees.keys()).filter(i => this.oobTrees[i] > 0);
+    this.oobScore = rSquared(
+      scored.map(i => this.oobVotes[i] / this.oobTrees[i]),
+      scored.map(i => y[i])
+    );
+    progress.oobScore = this.oobScore;
+    return progress;
+  }
+
+  /**
+   * Predicted value per row: the mean over trees of the leaf means
+   */
+  predict(X: number[][]): number[] {
+    const total = this.trees.length || 1;
+    return X.map(row =>
+      this.trees.reduce((sum, tree) => sum + leafOutput(leafFor(tree, row))[0], 0) / total
+    );
+  }
+
+  predictProba(): number[][] {
+    throw new Error('A regression forest predicts values, not class probabilities');
+  }
+
+  getClasses(): number[] {
+    return [];
+  }
+
+  /**
+   * R² of the pooled out-of-bag predictions (undefined without bootstrap)
+   */
+  getOobScore(): number | undefined {
+    return this.oobScore;
+  }
+}
+
+/**
+ * Grow one tree from its own seed and score its out-of-bag rows
+ * @param X - Training rows (plain arrays or typed-array views)
+ * @param groupRows - Row indices per group, from groupRowIndices
+ */
+export function growForestTree(
+  X: ArrayLike<number>[],
+  y: ArrayLike<number>,
+  treeIndex: number,
+  seed: number,
+  options: { config: RandomForestConfig; numClasses: number; groupRows?: number[][] }
+): ForestTreeResult {
+
+  const grower = new TreeGrower(X, y, options.config, options.numClasses, createRandom(seed));
+  const n = X.length;
+  const inBag = options.config.bootstrap
+    ? grower.bootstrapRows(options.groupRows)
+    : Array.from({ length: n }, (_, i) => i);
+  const tree = grower.buildTree(inBag, 0);
+
+  const oob: number[] = [];
+  if (options.config.bootstrap) {
+    const drawn = new Uint8Array(n);
+    inBag.forEach(i => (drawn[i] = 1));
+    for (let i = 0; i < n; i++) if (!drawn[i]) oob.push(i);
+  }
+
+  const k = options.numClasses;
+  const oobFractions = new Float32Array(oob.length * k);
+  oob.forEach((row, r) => oobFractions.set(leafOutput(leafFor(tree, X[row])), r * k));
+  return { treeIndex, tree, oobRows: Int32Array.from(oob), oobFractions };
+}
+
+/**
+ * Row indices per group (rows without a key are their own group)
+ */
+export function groupRowIndices(groups: string[]): number[][] {
+  const rows: number[][] = [];
+  const byKey = new Map<string, number[]>();
+  groups.forEach((key, i) => {
+    if (!key) {
+      rows.push([i]);
+      return;
+    }
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(i);
+  });
+  rows.push(...byKey.values());
+  return rows;
+}
+
+// Recursive CART growth over one tree's sample
+class TreeGrower {
+  constructor(
+    private X: ArrayLike<number>[],
+    private y: ArrayLike<number>,
+    private config: RandomForestConfig,
+    private numClasses: number,
+    private random: RandomSource
+  ) {}
+
+  /**
+   * Row indices drawn with replacement (whole groups when groups are given)
+   */
+  bootstrapRows(groupRows?: number[][]): number[] {
+    const rows: number[] = [];
+    if (groupRows) {
+      for (let g = 0; g < groupRows.length; g++) {
+        rows.push(...groupRows[Math.floor(this.random() * groupRows.length)]);
+      }
+    } else {
+      const n = this.X.length;
+      for (let i = 0; i < n; i++) rows.push(Math.floor(this.random() * n));
+    }
+    return rows;
+  }
+
+  buildTree(rows: number[], depth: number): ForestTreeNode {
+    if (this.config.task === 'regression') return this.buildRegressionTree(rows, depth);
+    const counts = new Array(this.numClasses).fill(0);
+    rows.forEach(i => (counts[this.y[i]] += this.weight(this.y[i])));
+
+    const pure = counts.filter(c => c > 0).length <= 1;
+    if (
+      pure ||
+      depth >= this.config.maxDepth ||
+      rows.length < this.config.minSamplesSplit ||
+      rows.length < 2 * this.config.minSamplesLeaf
+    ) {
+      return { leaf: true, counts };
+    }
+
+    const split = this.findBestSplit(rows, counts);
+    if (!split) return { leaf: true, counts };
+
+    const left: number[] = [];
+    const right: number[] = [];
+    for (const i of rows) (this.X[i][split.feature] <= split.threshold ? left : right).push(i);
+
+    return {
+      leaf: false,
+      feature: split.feature,
+      threshold: split.threshold,
+      gain: split.gain,
+      left: this.buildTree(left, depth + 1),
+      right: this.buildTree(right, depth + 1)
+    };
+  }
+
+  /**
+   * Regression counterpart of buildTree: leaves hold the mean target, and
+   * nodes whose rows share one target value are not split further
+   */
+  private buildRegressionTree(rows: number[], depth: number): ForestTreeNode {
+    let sum = 0;
+    let sumSquares = 0;
+    for (const i of rows) {
+      sum += this.y[i];
+      sumSquares += this.y[i] * this.y[i];
+    }
+    const error = sumSquares - (sum * sum) / rows.length;
+    const leaf: ForestTreeNode = { leaf: true, value: sum / rows.length, samples: rows.length };
+    if (
+      error <= 1e-12 ||
+      depth >= this.config.maxDepth ||
+      rows.length < this.config.minSamplesSplit ||
+      rows.length < 2 * this.config.minSamplesLeaf
+    ) {
+      return leaf;
+    }
+
+    const split = this.findBestRegressionSplit(rows, sum, sumSquares);
+    if (!split) return leaf;
+
+    const left: number[] = [];
+    const right: number[] = [];
+    for (const i of rows) (this.X[i][split.feature] <= split.threshold ? left : right).push(i);
+
+    return {
+      leaf: false,
+      feature: split.feature,
+      threshold: split.threshold,
+      gain: split.gain,
+      left: this.buildRegressionTree(left, depth + 1),
+      right: this.buildRegressionTree(right, depth + 1)
+    };
+  }
+
+  /**
+   * Threshold with the largest squared-error decrease, swept like
+   * findBestSplit with running target sums on either side
+   */
+  private findBestRegressionSplit(
+    rows: number[],
+    sum: number,
+    sumSquares: number
+  ): { feature: number; threshold: number; gain: number } | null {
+
+    const { X, y } = this;
+    const n = rows.length;
+    const minLeaf = Math.max(1, this.config.minSamplesLeaf);
+    const error = sumSquares - (sum * sum) / n;
+
+    let best: { feature: number; threshold: number; gain: number } | null = null;
+    for (const feature of this.sampleFeatures(X[rows[0]].length)) {
+      const sorted = rows.slice().sort((a, b) => X[a][feature] - X[b][feature]);
+      let sumLeft = 0;
+      let squaresLeft = 0;
+
+      for (let s = 0; s < n - 1; s++) {
+        const target = y[sorted[s]];
+        sumLeft += target;
+        squaresLeft += target * target;
+
+        const nLeft = s + 1;
+        const nRight = n - nLeft;
+        if (nLeft < minLeaf) continue;
+        if (nRight < minLeaf) break;
+        const value = X[sorted[s]][feature];
+        const next = X[sorted[s + 1]][feature];
+        if (value === next) continue;
+
+        const sumRight = sum - sumLeft;
+        const childError =
+          squaresLeft - (sumLeft * sumLeft) / nLeft +
+          (sumSquares - squaresLeft) - (sumRight * sumRight) / nRight;
+        const gain = error - childError;
+        if (gain > 1e-12 && (!best || gain > best.gain)) {
+          best = { feature, threshold: (value + next) / 2, gain };
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Best threshold over a random subset of features: one pass over the rows
+   * sorted by each feature, moving class counts from the right to the left
+   * (minSamplesLeaf counts rows; impurity uses the class-weighted counts)
+   */
+  private findBestSplit(
+    rows: number[],
+    counts: number[]
+  ): { feature: number; threshold: number; gain: number } | null {
+
+    const { X, y } = this;
+    const n = rows.length;
+    const minLeaf = Math.max(1, this.config.minSamplesLeaf);
+    const impurity = this.config.criterion === 'entropy' ? entropy : gini;
+    const total = counts.reduce((a, b) => a + b, 0);
+    const parentImpurity = impurity(counts, total);
+    const leftCounts = new Array(this.numClasses);
+    const rightCounts = new Array(this.numClasses);
+
+    let best: { feature: number; threshold: number; gain: number } | null = null;
+    for (const feature of this.sampleFeatures(X[rows[0]].length)) {
+      const sorted = rows.slice().sort((a, b) => X[a][feature] - X[b][feature]);
+      leftCounts.fill(0);
+      for (let c = 0; c < this.numClasses; c++) rightCounts[c] = counts[c];
+      let wLeft = 0;
+
+      for (let s = 0; s < n - 1; s++) {
+        const label = y[sorted[s]];
+        const w = this.weight(label);
+        leftCounts[label] += w;
+        rightCounts[label] -= w;
+        wLeft += w;
+
+        const nLeft = s + 1;
+        const nRight = n - nLeft;
+        if (nLeft < minLeaf) continue;
+        if (nRight < minLeaf) break;
+        const value = X[sorted[s]][feature];
+        const next = X[sorted[s + 1]][feature];
+        if (value === next) continue;
+
+        const wRight = total - wLeft;
+        const childImpurity = (wLeft * impurity(leftCounts, wLeft) + wRight * impurity(rightCounts, wRight)) / total;
+        const gain = total * (parentImpurity - childImpurity);
+        if (gain > 1e-12 && (!best || gain > best.gain)) {
+          best = { feature, threshold: (value + next) / 2, gain };
+        }
+      }
+    }
+    return best;
+  }
+
+  private weight(label: number): number {
+    return this.config.classWeights?.[label] ?? 1;
+  }
+
+  private sampleFeatures(total: number): number[] {
+    const setting = this.config.maxFeatures;
+    const count =
+      setting === 'sqrt' ? Math.sqrt(total)
+        : setting === 'log2' ? Math.log2(total)
+          : setting === 'all' ? total
+            : setting < 1 ? setting * total
+              : setting;
+    const take = Math.min(total, Math.max(1, Math.floor(count)));
+
+    // Partial Fisher-Yates shuffle of the feature indices
+    const indices = Array.from({ length: total }, (_, j) => j);
+    for (let i = 0; i < take; i++) {
+      const j = i + Math.floor(this.random() * (total - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices.slice(0, take);
+  }
+}
+
+const validateConfig = (config: RandomForestConfig): void => {
+  const { nEstimators, maxDepth, minSamplesSplit, minSamplesLeaf, maxFeatures } = config;
+  if (!(nEstimators >= 1)) throw new Error('nEstimators must be at least 1');
+  if (!(maxDepth >= 1)) throw new Error('maxDepth must be at least 1');
+  if (!(minSamplesSplit >= 2)) throw new Error('minSamplesSplit must be at least 2');
+  if (!(minSamplesLeaf >= 1)) throw new Error('minSamplesLeaf must be at least 1');
+  if (typeof maxFeatures === 'number' && !(maxFeatures > 0)) {
+    throw new Error('maxFeatures must be positive');
+  }
+  if (config.classWeights?.some(w => !(w > 0))) {
+    throw new Error('classWeights must be positive');
+  }
+};
+
+const leafFor = (tree: ForestTreeNode, row: ArrayLike<number>): ForestLeaf => {
+  let node = tree;
+  while (!node.leaf) {
+    node = row[node.feature] <= node.threshold ? node.left : node.right;
+  }
+  return node;
+};
+
+// Class fractions of a leaf, or its value for regression trees
+const leafOutput = (leaf: ForestLeaf): number[] =>
+  'value' in leaf ? [leaf.value] : leafFractions(leaf.counts);
+
+const gini = (counts: number[], n: number): number => {
+  if (n === 0) return 0;
+  let sum = 0;
+  for (const c of counts) sum += (c / n) * (c / n);
+  return 1 - sum;
+};
+
+const entropy = (counts: number[], n: number): number => {
+  if (n === 0) return 0;
+  let h = 0;
+  for (const c of counts) {
+    if (c > 0) h -= (c / n) * Math.log2(c / n);
+  }
+  return h;
+};
+
+const leafFractions = (counts: number[]): number[] => {
+  const total = counts.reduce((a, b) => a + b, 0) || 1;
+  return counts.map(c => c / total);
+};
+
+const argmax = (values: ArrayLike<number>): number => {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) if (values[i] > values[best]) best = i;
+  return best;
+};
+
+const rSquared = (predictions: number[], actuals: number[]): number | undefined => {
+  if (actuals.length === 0) return undefined;
+  const mean = actuals.reduce((a, b) => a + b, 0) / actuals.length;
+  let residual = 0;
+  let total = 0;
+  actuals.forEach((actual, i) => {
+    residual += (predictions[i] - actual) ** 2;
+    total += (actual - mean) ** 2;
+  });
+  return total > 0 ? 1 - residual / total : 0;
+};
+
+// Accuracy over the rows that were out-of-bag for at least one tree
+const pooledAccuracy = (
+  votes: Float64Array,
+  trees: Uint32Array,
+  y: ArrayLike<number>,
+  k: number
+): number | undefined => {
+  let correct = 0;
+  let scored = 0;
+  for (let i = 0; i < trees.length; i++) {
+    if (trees[i] === 0) continue;
+    scored++;
+    if (argmax(votes.subarray(i * k, (i + 1) * k)) === y[i]) correct++;
+  }
+  return scored > 0 ? correct / scored : undefined;
+};
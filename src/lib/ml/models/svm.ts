@@ -0,0 +1,606 @@
+// Support vector machine for binary classification
+// Linear kernel: primal Pegasos (stochastic sub-gradient descent on the hinge
+// loss, bias as a constant feature). RBF kernel: dual SMO with LIBSVM's
+// second-order working set selection and an LRU cache of kernel rows. Decision
+// values are mapped to probabilities with Platt scaling so the model can feed
+// thresholded metrics and ROC / PR curves. Inputs should be standardized.
+
+import { createRandom, RandomSource, shuffleIndices, sigmoid } from '../core/math';
+
+export type SvmKernel = 'linear' | 'rbf';
+
+export interface SvmConfig {
+  kernel: SvmKernel;
+  C: number; // penalty on margin violations (larger = harder margin)
+  gamma: number | 'scale'; // RBF width; 'scale' = 1 / (features * variance of X)
+  epochs: number; // Pegasos passes over the training rows (linear)
+  tolerance: number; // SMO stopping gap between the most violating pair (RBF)
+  maxIterations: number; // SMO iteration cap (RBF)
+  cacheSizeMb: number; // kernel row cache (RBF)
+  classWeights?: number[]; // [class 0, class 1] multipliers on C
+  randomSeed?: number; // seeds Pegasos sampling
+}
+
+export interface SvmProgress {
+  stage: 'training' | 'calibrating';
+  iteration: number; // Pegasos epoch or SMO iteration
+  total: number; // planned epochs / iteration cap
+  gap?: number; // SMO optimality gap (stops below tolerance)
+  loss?: number; // mean hinge loss after a Pegasos epoch
+}
+
+export interface PlattScaling {
+  A: number;
+  B: number; // P(y = 1 | f) = 1 / (1 + exp(A * f + B))
+}
+
+export interface SerializedSvm {
+  config: SvmConfig;
+  featureNames: string[];
+  gamma: number; // resolved RBF width
+  weights?: number[]; // linear kernel
+  supportVectors?: number[][]; // RBF kernel
+  dualCoefficients?: number[]; // alpha_i * y_i per support vector
+  bias: number; // decision value = sum(...) + bias
+  platt: PlattScaling;
+  cacheStats?: { hits: number; misses: number };
+}
+
+const TAU = 1e-12;
+const YIELD_EVERY = 200; // SMO iterations between UI yields
+
+export class SupportVectorMachine {
+  private config: SvmConfig;
+  private featureNames: string[] = [];
+  private gamma = 1;
+  private weights: number[] = [];
+  private supportVectors: number[][] = [];
+  private dualCoefficients: number[] = [];
+  private bias = 0;
+  private platt: PlattScaling = { A: -1, B: 0 };
+  private cacheStats = { hits: 0, misses: 0 };
+
+  constructor(config: SvmConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Fit the classifier and its Platt scaling
+   * @param y - Class index per row (0 / 1)
+   * @param options - Rows held out from fitting for Platt scaling (training
+   * decision values are used otherwise, which overstates confidence) and a
+   * progress callback; returning false from it stops training
+   */
+  async fit(
+    X: number[][],
+    y: number[],
+    featureNames: string[],
+    options: {
+      calibration?: { X: number[][]; y: number[] };
+      onProgress?: (progress: SvmProgress) => boolean | void;
+    } = {}
+  ): Promise<void> {
+
+    if (X.length === 0) throw new Error('No training rows');
+    if (y.some(label => label !== 0 && label !== 1)) {
+      throw new Error('SVM supports binary targets only (two classes)');
+    }
+    if (!y.includes(0) || !y.includes(1)) {
+      throw new Error('SVM training rows must include both classes');
+    }
+    if (!(this.config.C > 0)) throw new Error('C must be positive');
+    if (this.config.classWeights?.some(w => !(w > 0))) {
+      throw new Error('Class weights must be positive');
+    }
+
+    this.featureNames = featureNames;
+    this.cacheStats = { hits: 0, misses: 0 };
+    const signs = y.map(label => (label === 1 ? 1 : -1));
+
+    if (this.config.kernel === 'linear') {
+      await this.fitPegasos(X, signs, options.onProgress);
+    } else {
+      this.gamma = this.resolveGamma(X);
+      await this.fitSmo(X, signs, options.onProgress);
+    }
+
+    options.onProgress?.({ stage: 'calibrating', iteration: 0, total: 1 });
+    const calibration = options.calibration && options.calibration.X.length > 0 ? options.calibration : { X, y };
+    this.platt = fitPlatt(this.decisionFunction(calibration.X), calibration.y);
+  }
+
+  /**
+   * Signed distance-like score per row (positive favours class 1)
+   */
+  decisionFunction(X: number[][]): number[] {
+    return X.map(row => this.decisionValue(row));
+  }
+
+  /**
+   * Platt-scaled class probabilities per row ([P(class 0), P(class 1)])
+   */
+  predictProba(X: number[][]): number[][] {
+    return this.decisionFunction(X).map(f => {
+      const p = sigmoid(-(this.platt.A * f + this.platt.B));
+      return [1 - p, p];
+    });
+  }
+
+  /**
+   * Class index per row at a probability threshold
+   */
+  predict(X: number[][], threshold: number = 0.5): number[] {
+    return this.predictProba(X).map(p => (p[1] >= threshold ? 1 : 0));
+  }
+
+  /**
+   * Class index of each predictProba column
+   */
+  getClasses(): number[] {
+    return [0, 1];
+  }
+
+  /**
+   * Number of support vectors (RBF) or non-zero weights (linear)
+   */
+  getSupportVectorCount(): number {
+    return this.config.kernel === 'linear'
+      ? this.weights.filter(w => w !== 0).length
+      : this.supportVectors.length;
+  }
+
+  /**
+   * Kernel row cache hits / misses of the last SMO fit
+   */
+  getCacheStats(): { hits: number; misses: number } {
+    return { ...this.cacheStats };
+  }
+
+  /**
+   * Absolute linear weights normalized to sum to 1 (linear kernel only)
+   */
+  getFeatureImportance(): Record<string, number> | undefined {
+    if (this.config.kernel !== 'linear') return undefined;
+    const total = this.featureNames.reduce((sum, _, i) => sum + Math.abs(this.weights[i]), 0);
+    const importance: Record<string, number> = {};
+    this.featureNames.forEach((name, i) => {
+      importance[name] = total > 0 ? Math.abs(this.weights[i]) / total : 0;
+    });
+    return importance;
+  }
+
+  toJSON(): SerializedSvm {
+    const linear = this.config.kernel === 'linear';
+    return {
+      config: this.config,
+      featureNames: this.featureNames,
+      gamma: this.gamma,
+      weights: linear ? this.weights : undefined,
+      supportVectors: linear ? undefined : this.supportVectors,
+      dualCoefficients: linear ? undefined : this.dualCoefficients,
+      bias: this.bias,
+      platt: this.platt,
+      cacheStats: linear ? undefined : this.cacheStats
+    };
+  }
+
+  static fromJSON(data: SerializedSvm): SupportVectorMachine {
+    const model = new SupportVectorMachine(data.config);
+    model.featureNames = data.featureNames;
+    model.gamma = data.gamma;
+    model.weights = data.weights || [];
+    model.supportVectors = data.supportVectors || [];
+    model.dualCoefficients = data.dualCoefficients || [];
+    model.bias = data.bias;
+    model.platt = data.platt;
+    model.cacheStats = data.cacheStats || { hits: 0, misses: 0 };
+    return model;
+  }
+
+  private decisionValue(row: number[]): number {
+    if (this.config.kernel === 'linear') {
+      let sum = this.bias;
+      for (let j = 0; j < row.length; j++) sum += this.weights[j] * row[j];
+      return sum;
+    }
+    let sum = this.bias;
+    for (let s = 0; s < this.supportVectors.length; s++) {
+      sum += this.dualCoefficients[s] * rbf(this.supportVectors[s], row, this.gamma);
+    }
+    return sum;
+  }
+
+  /**
+   * Pegasos: w <- (1 - eta * lambda) w (+ eta * c_y y x on a margin
+   * violation), eta = 1 / (lambda t), lambda = 1 / (C n), c_y = class weight
+   */
+  private async fitPegasos(
+    X: number[][],
+    signs: number[],
+    onProgress?: (progress: SvmProgress) => boolean | void
+  ): Promise<void> {
+
+    const n = X.length;
+    const d = X[0].length;
+    const lambda = 1 / (this.config.C * n);
+    const random: RandomSource = this.config.randomSeed !== undefined
+      ? createRandom(this.config.randomSeed)
+      : Math.random;
+    const classWeight = signs.map(sign => this.classWeight(sign));
+    // Last entry is the bias (a constant feature of 1)
+    const w = new Float64Array(d + 1);
+    const radius = Math.sqrt(Math.max(...classWeight) / lambda);
+    let t = 0;
+
+    for (let epoch = 0; epoch < this.config.epochs; epoch++) {
+      for (const i of shuffleIndices(n, random)) {
+        t++;
+        const eta = 1 / (lambda * t);
+        const row = X[i];
+        let margin = w[d];
+        for (let j = 0; j < d; j++) margin += w[j] * row[j];
+        margin *= signs[i];
+
+        const shrink = 1 - eta * lambda;
+        for (let j = 0; j <= d; j++) w[j] *= shrink;
+        if (margin < 1) {
+          const step = eta * classWeight[i] * signs[i];
+          for (let j = 0; j < d; j++) w[j] += step * row[j];
+          w[d] += step;
+        }
+
+        // Project onto the ball that contains the optimum
+        let norm = 0;
+        for (let j = 0; j <= d; j++) norm += w[j] * w[j];
+        norm = Math.sqrt(norm);
+        if (norm > radius) {
+          for (let j = 0; j <= d; j++) w[j] *= radius / norm;
+        }
+      }
+
+      let hinge = 0;
+      for (let i = 0; i < n; i++) {
+        let f = w[d];
+        for (let j = 0; j < d; j++) f += w[j] * X[i][j];
+        hinge += Math.max(0, 1 - signs[i] * f);
+      }
+      const keepGoing = onProgress?.({
+        stage: 'training',
+        iteration: epoch + 1,
+        total: this.config.epochs,
+        loss: hinge / n
+      });
+      if (keepGoing === false) break;
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    this.weights = Array.from(w.subarray(0, d));
+    this.bias = w[d];
+  }
+
+  /**
+   * SMO on the dual: min 1/2 a'Qa - e'a, 0 <= a_t <= C_t, y'a = 0 with
+   * Q_ij = y_i y_j K(x_i, x_j) and C_t = C times row t's class weight. Each
+   * step updates the pair chosen by LIBSVM's second-order working set
+   * selection until the KKT gap is below tolerance.
+   */
+  private async fitSmo(
+    X: number[][],
+    signs: number[],
+    onProgress?: (progress: SvmProgress) => boolean | void
+  ): Promise<void> {
+
+    const n = X.length;
+    const Cp = this.config.C * this.classWeight(1);
+    const Cn = this.config.C * this.classWeight(-1);
+    const Ct = (t: number) => (signs[t] === 1 ? Cp : Cn);
+    const alpha = new Float64Array(n);
+    const G = new Float64Array(n).fill(-1); // gradient of the dual objective
+    const cache = new KernelRowCache(X, this.gamma, this.config.cacheSizeMb);
+    const isUpper = (t: number) => alpha[t] >= Ct(t);
+    const isLower = (t: number) => alpha[t] <= 0;
+
+    let iteration = 0;
+    let gap = Infinity;
+    while (iteration < this.config.maxIterations) {
+      // i: most violating index in I_up
+      let Gmax = -Infinity;
+      let i = -1;
+      for (let t = 0; t < n; t++) {
+        if (signs[t] === 1) {
+          if (!isUpper(t) && -G[t] >= Gmax) {
+            Gmax = -G[t];
+            i = t;
+          }
+        } else if (!isLower(t) && G[t] >= Gmax) {
+          Gmax = G[t];
+          i = t;
+        }
+      }
+      if (i === -1) break;
+
+      // j: index in I_low with the largest second-order decrease
+      const Ki = cache.row(i);
+      let Gmax2 = -Infinity;
+      let j = -1;
+      let objDiffMin = Infinity;
+      for (let t = 0; t < n; t++) {
+        const Qit = signs[i] * signs[t] * Ki[t];
+        if (signs[t] === 1) {
+          if (isLower(t)) continue;
+          const gradDiff = Gmax + G[t];
+          if (G[t] >= Gmax2) Gmax2 = G[t];
+          if (gradDiff > 0) {
+            const quad = 2 - 2 * signs[i] * Qit;
+            const objDiff = -(gradDiff * gradDiff) / (quad > 0 ? quad : TAU);
+            if (objDiff <= objDiffMin) {
+              objDiffMin = objDiff;
+              j = t;
+            }
+          }
+        } else {
+          if (isUpper(t)) continue;
+          const gradDiff = Gmax - G[t];
+          if (-G[t] >= Gmax2) Gmax2 = -G[t];
+          if (gradDiff > 0) {
+            const quad = 2 + 2 * signs[i] * Qit;
+            const objDiff = -(gradDiff * gradDiff) / (quad > 0 ? quad : TAU);
+            if (objDiff <= objDiffMin) {
+              objDiffMin = objDiff;
+              j = t;
+            }
+          }
+        }
+      }
+      gap = Gmax + Gmax2;
+      if (gap < this.config.tolerance || j === -1) break;
+
+      // Analytic update of the pair, clipped to the box
+      const Kj = cache.row(j);
+      const Ci = Ct(i);
+      const Cj = Ct(j);
+      const Qij = signs[i] * signs[j] * Ki[j];
+      const oldAi = alpha[i];
+      const oldAj = alpha[j];
+      if (signs[i] !== signs[j]) {
+        let quad = 2 + 2 * Qij;
+        if (quad <= 0) quad = TAU;
+        const delta = (-G[i] - G[j]) / quad;
+        const diff = alpha[i] - alpha[j];
+        alpha[i] += delta;
+        alpha[j] += delta;
+        if (diff > 0) {
+          if (alpha[j] < 0) {
+            alpha[j] = 0;
+            alpha[i] = diff;
+          }
+        } else if (alpha[i] < 0) {
+          alpha[i] = 0;
+          alpha[j] = -diff;
+        }
+        if (diff > Ci - Cj) {
+          if (alpha[i] > Ci) {
+            alpha[i] = Ci;
+            alpha[j] = Ci - diff;
+          }
+        } else if (alpha[j] > Cj) {
+          alpha[j] = Cj;
+          alpha[i] = Cj + diff;
+        }
+      } else {
+        let quad = 2 - 2 * Qij;
+        if (quad <= 0) quad = TAU;
+        const delta = (G[i] - G[j]) / quad;
+        const sum = alpha[i] + alpha[j];
+        alpha[i] -= delta;
+        alpha[j] += delta;
+        if (sum > Ci) {
+          if (alpha[i] > Ci) {
+            alpha[i] = Ci;
+            alpha[j] = sum - Ci;
+          }
+        } else if (alpha[j] < 0) {
+          alpha[j] = 0;
+          alpha[i] = sum;
+        }
+        if (sum > Cj) {
+          if (alpha[j] > Cj) {
+            alpha[j] = Cj;
+            alpha[i] = sum - Cj;
+          }
+        } else if (alpha[i] < 0) {
+          alpha[i] = 0;
+          alpha[j] = sum;
+        }
+      }
+
+      const dAi = alpha[i] - oldAi;
+      const dAj = alpha[j] - oldAj;
+      for (let t = 0; t < n; t++) {
+        G[t] += signs[t] * (signs[i] * Ki[t] * dAi + signs[j] * Kj[t] * dAj);
+      }
+
+      iteration++;
+      if (iteration % YIELD_EVERY === 0) {
+        const keepGoing = onProgress?.({
+          stage: 'training',
+          iteration,
+          total: this.config.maxIterations,
+          gap
+        });
+        if (keepGoing === false) break;
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    if (iteration >= this.config.maxIterations) {
+      console.warn(`SMO stopped at the iteration cap (${iteration}) with gap ${gap.toFixed(4)}`);
+    }
+    onProgress?.({ stage: 'training', iteration, total: this.config.maxIterations, gap });
+
+    // Bias: average over free vectors, else the middle of the feasible range
+    let upper = Infinity;
+    let lower = -Infinity;
+    let freeSum = 0;
+    let freeCount = 0;
+    for (let t = 0; t < n; t++) {
+      const yG = signs[t] * G[t];
+      if (isUpper(t)) {
+        if (signs[t] === -1) upper = Math.min(upper, yG);
+        else lower = Math.max(lower, yG);
+      } else if (isLower(t)) {
+        if (signs[t] === 1) upper = Math.min(upper, yG);
+        else lower = Math.max(lower, yG);
+      } else {
+        freeSum += yG;
+        freeCount++;
+      }
+    }
+    const rho = freeCount > 0 ? freeSum / freeCount : (upper + lower) / 2;
+
+    this.supportVectors = [];
+    this.dualCoefficients = [];
+    for (let t = 0; t < n; t++) {
+      if (alpha[t] > 0) {
+        this.supportVectors.push(X[t]);
+        this.dualCoefficients.push(alpha[t] * signs[t]);
+      }
+    }
+    this.bias = -rho;
+    this.cacheStats = cache.stats();
+  }
+
+  // Multiplier on C for a row's class (sign -1 / 1)
+  private classWeight(sign: number): number {
+    return this.config.classWeights?.[sign === 1 ? 1 : 0] ?? 1;
+  }
+
+  private resolveGamma(X: number[][]): number {
+    if (typeof this.config.gamma === 'number') {
+      if (!(this.config.gamma > 0)) throw new Error('Gamma must be positive');
+      return this.config.gamma;
+    }
+    // sklearn's 'scale': 1 / (n_features * X.var())
+    const values = X.flat();
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return 1 / (X[0].length * (variance || 1));
+  }
+}
+
+const rbf = (a: number[], b: number[], gamma: number): number => {
+  let distance = 0;
+  for (let k = 0; k < a.length; k++) {
+    const diff = a[k] - b[k];
+    distance += diff * diff;
+  }
+  return Math.exp(-gamma * distance);
+};
+
+// Least-recently-used cache of RBF kernel rows K(x_i, .)
+class KernelRowCache {
+  private rows = new Map<number, Float32Array>();
+  private capacity: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private X: number[][], private gamma: number, sizeMb: number) {
+    const rowBytes = X.length * Float32Array.BYTES_PER_ELEMENT;
+    this.capacity = Math.max(2, Math.floor((sizeMb * 1024 * 1024) / rowBytes));
+  }
+
+  row(i: number): Float32Array {
+    const cached = this.rows.get(i);
+    if (cached) {
+      this.hits++;
+      // Re-insert to mark as most recently used
+      this.rows.delete(i);
+      this.rows.set(i, cached);
+      return cached;
+    }
+    this.misses++;
+    const row = new Float32Array(this.X.length);
+    const xi = this.X[i];
+    for (let t = 0; t < this.X.length; t++) row[t] = rbf(xi, this.X[t], this.gamma);
+    if (this.rows.size >= this.capacity) {
+      const oldest = this.rows.keys().next().value;
+      if (oldest !== undefined) this.rows.delete(oldest);
+    }
+    this.rows.set(i, row);
+    return row;
+  }
+
+  stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+}
+
+/**
+ * Platt scaling fitted by Newton's method with backtracking (Lin, Lin & Weng,
+ * 2007), using smoothed targets to avoid overfitting the sigmoid
+ */
+const fitPlatt = (decisions: number[], labels: number[]): PlattScaling => {
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const targets = labels.map(label => (label === 1 ? hiTarget : loTarget));
+
+  const objective = (A: number, B: number) => {
+    let value = 0;
+    decisions.forEach((f, i) => {
+      const fApB = f * A + B;
+      value += fApB >= 0
+        ? targets[i] * fApB + Math.log(1 + Math.exp(-fApB))
+        : (targets[i] - 1) * fApB + Math.log(1 + Math.exp(fApB));
+    });
+    return value;
+  };
+
+  let A = 0;
+  let B = Math.log((negatives + 1) / (positives + 1));
+  let value = objective(A, B);
+  const sigma = 1e-12; // keeps the Hessian positive definite
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let h11 = sigma;
+    let h22 = sigma;
+    let h21 = 0;
+    let g1 = 0;
+    let g2 = 0;
+    decisions.forEach((f, i) => {
+      const fApB = f * A + B;
+      const p = fApB >= 0 ? Math.exp(-fApB) / (1 + Math.exp(-fApB)) : 1 / (1 + Math.exp(fApB));
+      const q = 1 - p;
+      const d2 = p * q;
+      h11 += f * f * d2;
+      h22 += d2;
+      h21 += f * d2;
+      const d1 = targets[i] - p;
+      g1 += f * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const dA = -(h22 * g1 - h21 * g2) / det;
+    const dB = -(-h21 * g1 + h11 * g2) / det;
+    const gd = g1 * dA + g2 * dB;
+
+    let step = 1;
+    while (step >= 1e-10) {
+      const newA = A + step * dA;
+      const newB = B + step * dB;
+      const newValue = objective(newA, newB);
+      if (newValue < value + 1e-4 * step * gd) {
+        A = newA;
+        B = newB;
+        value = newValue;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break; // line search failed
+  }
+
+  return { A, B };
+};
@@ -4,6 +4,45 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
+import { parseCSVTable } from './parsing/tokenizer.mjs';
+import {
+	PipelineRecord,
+	PreprocessingPipeline,
+	SerializedPipeline,
+} from './pipeline/pipeline';
+import {
+	detectGroupLeakage,
+	groupKeys,
+	isGroupColumnAvailable,
+	leakageGroupColumn,
+	LeakageReport,
+} from './pipeline/leakage';
+import {
+	createRandom,
+	deriveSeed,
+	groupStratifiedSplit,
+	RandomSource,
+	shuffleIndices,
+} from './core/math';
+import {
+	DEFAULT_IMBALANCE,
+	keepRegressionRows,
+	rebalanceTrainingRows,
+} from './pipeline/imbalance';
+import { appendDerivedColumns } from '../derivedFeatures';
+import { mapTargetLabel, orderClassLabels } from '../datasets/labels';
+import type {
+	ClipPercentiles,
+	FeatureTransform,
+	ImbalanceConfig,
+	ImbalanceReport,
+	ImputationStrategy,
+	LabelMapping,
+	LearningRateSchedule,
+	NeuralNetworkHyperparams,
+	RegressionLoss,
+	TaskType,
+} from '../../types/ml';
 
 export interface TrainingConfig {
 	fileName: string;
@@ -32,25 +71,80 @@ export interface ModelExportData {
 		featureColumns: string[];
 		targetColumn: string;
 		labelEncoder?: { [key: string]: number };
-		featureStats?: { [key: string]: { mean: number; std: number } };
+		pipeline?: SerializedPipeline; // replays feature order and scaling
 		trainedAt: string;
 		accuracy?: number;
 	};
 }
 
+// Model weights in getWeights() order, as plain arrays (e.g. to move a
+// trained model out of a worker)
+export type NeuralNetworkWeights = Array<{
+	shape: number[];
+	values: Float32Array;
+}>;
+
+// Training settings beyond the layer sizes (see NeuralNetworkHyperparams);
+// omitted fields keep the defaults: ReLU, Adam, dropout 0.3, a constant
+// learning rate, no clipping, no weight decay, no early stopping and plain
+// unweighted cross-entropy. A regressionLoss makes the model a regressor
+// with one linear output.
+export type NeuralNetworkTrainingOptions = Partial<
+	Pick<
+		NeuralNetworkHyperparams,
+		| 'activation'
+		| 'optimizer'
+		| 'dropoutRate'
+		| 'lrSchedule'
+		| 'weightDecay'
+		| 'clipNorm'
+		| 'earlyStopping'
+		| 'regressionLoss'
+		| 'huberDelta'
+	>
+> & {
+	classWeights?: number[]; // loss weight per class (fit classWeight)
+	focalGamma?: number; // train with focal loss instead of cross-entropy
+};
+
 export class NeuralNetworkService {
 	private model: tf.Sequential | null = null;
 	private labelEncoder: { [key: string]: number } = {};
 	private reverseLabelEncoder: { [key: number]: string } = {};
-	private featureStats: { [key: string]: { mean: number; std: number } } = {};
+	private pipeline: PreprocessingPipeline | null = null;
 
 	/**
 	 * Parse CSV data and preprocess for training
+	 * @param options - Per-column transforms / clipping (z-score otherwise),
+	 * fitted on the training partition only and replayed on the validation and
+	 * test rows, derived feature ids to compute from the catalog columns, a
+	 * group column (e.g. kepid) whose groups never span train / validation /
+	 * test, a seed for the split shuffles, the class-imbalance strategy for
+	 * the training rows (validation and test rows are never resampled), the
+	 * target label mapping (rows it leaves out are dropped), the task:
+	 * regression targets are z-scored with the training rows' mean / std (the
+	 * pipeline keeps the scale) and come back as one column, with numClasses 1,
+	 * and the missing-value strategy per feature: rows with a gap in a 'drop'
+	 * (default) feature are removed, other gaps are filled by the pipeline
+	 * with values fitted on the training partition, optionally adding
+	 * indicator columns
 	 */
 	async preprocessData(
 		csvContent: string,
 		targetColumn: string,
 		featureColumns: string[],
+		options: {
+			transforms?: Record<string, FeatureTransform>;
+			clipPercentiles?: Record<string, ClipPercentiles>;
+			derivedFeatures?: string[];
+			groupColumn?: string;
+			seed?: number;
+			imbalance?: ImbalanceConfig;
+			labelMapping?: LabelMapping;
+			task?: TaskType;
+			missingValueStrategy?: Record<string, ImputationStrategy>;
+			missingIndicators?: boolean;
+		} = {},
 	): Promise<{
 		xTrain: tf.Tensor2D;
 		yTrain: tf.Tensor2D;
@@ -61,10 +155,17 @@ export class NeuralNetworkService {
 		numClasses: number;
 		featureNames: string[];
 		labelEncoder: { [k: string]: number };
+		leakage?: LeakageReport;
+		imbalance: ImbalanceReport;
+		training: NeuralNetworkTrainingOptions; // class weights / focal loss for the fit
 	}> {
-		// Parse CSV
-		const lines = csvContent.trim().split('\n');
-		const headers = lines[0].split(',').map((h) => h.trim());
+		// Parse CSV (RFC 4180 quoting, multiline fields) and add derived columns
+		const table = parseCSVTable(csvContent);
+		const { header: headers, rows } = appendDerivedColumns(
+			table.header,
+			table.rows,
+			options.derivedFeatures || [],
+		);
 
 		// Find column indices
 		const targetIndex = headers.indexOf(targetColumn);
@@ -81,48 +182,62 @@ export class NeuralNetworkService {
 			throw new Error(`Feature columns not found: ${missingCols.join(', ')}`);
 		}
 
+		if (
+			options.groupColumn &&
+			!isGroupColumnAvailable(headers, options.groupColumn)
+		) {
+			throw new Error(`Group column '${options.groupColumn}' not found in CSV`);
+		}
+
 		// Extract and clean data with diagnostics
+		const regression = options.task === 'regression';
 		const data: { features: number[]; target: string }[] = [];
+		const keptRows: string[][] = [];
 		let totalRows = 0;
 		let invalidFeatureRows = 0;
 		let missingTargetRows = 0;
-		for (let i = 1; i < lines.length; i++) {
-			const raw = lines[i];
-			if (!raw.trim()) continue;
+		for (const row of rows) {
 			totalRows++;
-			const row = raw.split(',').map((cell) => cell.trim());
 			if (row.length !== headers.length) {
 				invalidFeatureRows++;
 				continue;
 			}
+			// Gaps stay NaN for the pipeline to fill unless the feature drops them
 			const features: number[] = [];
 			let featureInvalid = false;
-			for (const idx of featureIndices) {
+			featureIndices.forEach((idx, j) => {
 				const cell = row[idx];
-				if (cell === '' || cell == null) {
-					featureInvalid = true;
-					break;
-				}
-				const value = parseFloat(cell);
-				if (isNaN(value)) {
+				const value = cell === '' || cell == null ? NaN : parseFloat(cell);
+				if (
+					isNaN(value) &&
+					(options.missingValueStrategy?.[featureColumns[j]] || 'drop') ===
+						'drop'
+				) {
 					featureInvalid = true;
-					break;
 				}
 				features.push(value);
-			}
+			});
 			if (featureInvalid) {
 				invalidFeatureRows++;
 				continue;
 			}
+			// No label, or one the label mapping leaves out (regression: no number)
 			const targetRaw = row[targetIndex];
-			if (!targetRaw || targetRaw.trim() === '') {
+			const target =
+				!targetRaw || targetRaw.trim() === ''
+					? undefined
+					: regression
+					? targetRaw.trim()
+					: mapTargetLabel(
+							targetRaw.toLowerCase().trim(),
+							options.labelMapping,
+					  );
+			if (!target || (regression && !isFinite(parseFloat(target)))) {
 				missingTargetRows++;
 				continue;
 			}
-			data.push({
-				features,
-				target: targetRaw.toLowerCase().trim(),
-			});
+			data.push({ features, target });
+			keptRows.push(row);
 		}
 
 		if (data.length === 0) {
@@ -136,8 +251,14 @@ export class NeuralNetworkService {
 
 		console.log(`Preprocessed ${data.length} valid samples`);
 
-		// Create label encoder for target values
-		const uniqueTargets = [...new Set(data.map((d) => d.target))];
+		// Create label encoder for target values (none for regression)
+		const values = regression ? data.map((d) => parseFloat(d.target)) : [];
+		const uniqueTargets = regression
+			? []
+			: orderClassLabels(
+					data.map((d) => d.target),
+					options.labelMapping,
+			  );
 		this.labelEncoder = {};
 		this.reverseLabelEncoder = {};
 
@@ -146,73 +267,142 @@ export class NeuralNetworkService {
 			this.reverseLabelEncoder[index] = target;
 		});
 
-		const numClasses = uniqueTargets.length;
-		console.log(`Found ${numClasses} classes:`, uniqueTargets);
+		const numClasses = regression ? 1 : uniqueTargets.length;
+		if (!regression) console.log(`Found ${numClasses} classes:`, uniqueTargets);
 
-		// Calculate feature statistics for normalization
-		this.featureStats = {};
-		for (let i = 0; i < featureColumns.length; i++) {
-			const values = data.map((d) => d.features[i]);
-			const mean = values.reduce((a, b) => a + b, 0) / values.length;
-			const variance =
-				values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
-			const std = Math.sqrt(variance) || 1; // Prevent division by zero
+		// Regression rows form a single stratum (plain random / group splits)
+		const encodedTargets = regression
+			? data.map(() => 0)
+			: data.map((d) => this.labelEncoder[d.target]);
 
-			this.featureStats[featureColumns[i]] = { mean, std };
-		}
+		// Split into train (64%), validation (16%), test (20%) maintaining original 80/20 overall
+		const totalSamples = data.length;
+		let trainIdx: number[];
+		let valIdx: number[];
+		let testIdx: number[];
+		const auditColumn = leakageGroupColumn(headers, options.groupColumn);
+		const keys = auditColumn
+			? groupKeys(headers, keptRows, auditColumn)
+			: undefined;
 
-		// Normalize features and encode targets
-		const normalizedFeatures: number[][] = [];
-		const encodedTargets: number[] = [];
+		const random: RandomSource =
+			options.seed !== undefined ? createRandom(options.seed) : Math.random;
 
-		for (const sample of data) {
-			// Normalize features
-			const normalizedFeature = sample.features.map((value, i) => {
-				const { mean, std } = this.featureStats[featureColumns[i]];
-				return (value - mean) / std;
-			});
+		if (options.groupColumn && keys) {
+			// Whole groups go to test, then to validation from the remainder
+			const outer = groupStratifiedSplit(encodedTargets, keys, 0.8, random);
+			const inner = groupStratifiedSplit(
+				outer.trainIndices.map((i) => encodedTargets[i]),
+				outer.trainIndices.map((i) => keys[i]),
+				0.8,
+				random,
+			);
+			// Groups arrive class by class; mix them for mini-batches
+			trainIdx = shuffleIndices(inner.trainIndices.length, random).map(
+				(i) => outer.trainIndices[inner.trainIndices[i]],
+			);
+			valIdx = inner.valIndices.map((i) => outer.trainIndices[i]);
+			testIdx = outer.valIndices;
+		} else {
+			const testSize = Math.max(1, Math.floor(totalSamples * 0.2));
+			const remaining = totalSamples - testSize; // 80%
+			const valSize = Math.max(1, Math.floor(remaining * 0.2)); // 16% overall
+			const trainSize = remaining - valSize; // ~64%
 
-			normalizedFeatures.push(normalizedFeature);
-			encodedTargets.push(this.labelEncoder[sample.target]);
+			// Shuffle indices for randomness
+			const indices = shuffleIndices(totalSamples, random);
+			trainIdx = indices.slice(0, trainSize);
+			valIdx = indices.slice(trainSize, trainSize + valSize);
+			testIdx = indices.slice(trainSize + valSize);
 		}
 
+		// Planets of one star on both sides of a split inflate test accuracy
+		const leakage =
+			keys && auditColumn
+				? detectGroupLeakage(
+						keys,
+						{ train: trainIdx, validation: valIdx, test: testIdx },
+						{
+							groupColumn: auditColumn,
+							grouped: auditColumn === options.groupColumn,
+						},
+					)
+				: undefined;
+
+		// Fit the normalization on the training rows only; predict() and exports
+		// replay it on the validation and test rows
+		this.pipeline = PreprocessingPipeline.fitNumeric(
+			featureColumns,
+			trainIdx.map((i) => data[i].features),
+			{
+				targetColumn,
+				classLabels: regression ? undefined : uniqueTargets,
+				transforms: options.transforms,
+				clipPercentiles: options.clipPercentiles,
+				derivedFeatures: options.derivedFeatures,
+				targets: regression ? trainIdx.map((i) => values[i]) : undefined,
+				missingValueStrategy: options.missingValueStrategy,
+				missingIndicators: options.missingIndicators,
+			},
+		);
+		const featureNames = this.pipeline.featureNames;
+
+		// Normalize (and fill) all three partitions with the training fit
+		const normalizedFeatures = this.pipeline.transformMatrix(
+			data.map((d) => d.features),
+		);
+
 		// Convert to tensors
 		const features = tf.tensor2d(normalizedFeatures);
 		// Create int32 tensor for class indices (required by oneHot)
 		const targetIndices = tf.tensor1d(encodedTargets, 'int32');
 
-		// One-hot encode targets for multi-class classification
-		const oneHotTargets = tf.oneHot(targetIndices, numClasses);
-
-		// Split into train (64%), validation (16%), test (20%) maintaining original 80/20 overall
-		const totalSamples = features.shape[0];
-		const testSize = Math.max(1, Math.floor(totalSamples * 0.2));
-		const remaining = totalSamples - testSize; // 80%
-		const valSize = Math.max(1, Math.floor(remaining * 0.2)); // 16% overall
-		const trainSize = remaining - valSize; // ~64%
-
-		// Shuffle indices for randomness
-		const indices = tf.util.createShuffledIndices(totalSamples);
-		const trainIdx = indices.slice(0, trainSize);
-		const valIdx = indices.slice(trainSize, trainSize + valSize);
-		const testIdx = indices.slice(trainSize + valSize);
+		// One-hot encode targets for multi-class classification; regression
+		// trains on the value z-scored with the training mean / std
+		const targetTensor = regression
+			? tf.tensor2d(this.pipeline.scaleTarget(values), [values.length, 1])
+			: tf.oneHot(targetIndices, numClasses);
 
 		const gatherRows = (tensor: tf.Tensor2D, rows: number[]) =>
 			tf.stack(
 				rows.map((r) => tensor.gather([r]).reshape([tensor.shape[1]])),
 			) as tf.Tensor2D;
 
-		const xTrain = gatherRows(features as tf.Tensor2D, Array.from(trainIdx));
-		const yTrain = gatherRows(oneHotTargets as any, Array.from(trainIdx));
-		const xVal = gatherRows(features as tf.Tensor2D, Array.from(valIdx));
-		const yVal = gatherRows(oneHotTargets as any, Array.from(valIdx));
-		const xTest = gatherRows(features as tf.Tensor2D, Array.from(testIdx));
-		const yTest = gatherRows(oneHotTargets as any, Array.from(testIdx));
+		// Rebalance the (normalized) training rows only; they come back as
+		// given unless the strategy resamples them
+		const trainRows = trainIdx.map((i) => normalizedFeatures[i]);
+		const rebalanced = regression
+			? keepRegressionRows(
+					trainRows,
+					trainIdx.map((i) => values[i]),
+					options.imbalance ?? DEFAULT_IMBALANCE,
+			  )
+			: rebalanceTrainingRows(
+					trainRows,
+					trainIdx.map((i) => encodedTargets[i]),
+					numClasses,
+					options.imbalance ?? DEFAULT_IMBALANCE,
+					random,
+					{ focalLoss: true },
+			  );
+		const resampled = rebalanced.X !== trainRows;
+		const xTrain = resampled
+			? tf.tensor2d(rebalanced.X, [rebalanced.X.length, featureNames.length])
+			: gatherRows(features as tf.Tensor2D, trainIdx);
+		const yTrain = resampled
+			? (tf.tidy(() =>
+					tf.oneHot(tf.tensor1d(rebalanced.y, 'int32'), numClasses),
+			  ) as tf.Tensor2D)
+			: gatherRows(targetTensor as any, trainIdx);
+		const xVal = gatherRows(features as tf.Tensor2D, valIdx);
+		const yVal = gatherRows(targetTensor as any, valIdx);
+		const xTest = gatherRows(features as tf.Tensor2D, testIdx);
+		const yTest = gatherRows(targetTensor as any, testIdx);
 
 		// Clean up intermediate tensors
 		features.dispose();
 		targetIndices.dispose();
-		oneHotTargets.dispose();
+		targetTensor.dispose();
 
 		return {
 			xTrain,
@@ -222,60 +412,91 @@ export class NeuralNetworkService {
 			xTest,
 			yTest,
 			numClasses,
-			featureNames: featureColumns,
+			featureNames,
 			labelEncoder: this.labelEncoder,
+			leakage,
+			imbalance: rebalanced.report,
+			training: imbalanceTraining(rebalanced.report),
 		};
 	}
 
 	/**
 	 * Create neural network model
+	 * @param seed - Seeds the weight initializers and dropout masks
+	 * @param options - Activation, optimizer (with gradient clipping and
+	 * weight decay), dropout rate, focal loss and the regression loss (one
+	 * linear output; numClasses is ignored)
 	 */
 	createModel(
 		inputDim: number,
 		numClasses: number,
 		hiddenLayers: number[] = [64, 32],
 		learningRate: number = 0.001,
+		seed?: number,
+		options: NeuralNetworkTrainingOptions = {},
 	): tf.Sequential {
 		const model = tf.sequential();
+		const random = seed !== undefined ? createRandom(seed) : undefined;
+		const layerSeed = () => (random ? deriveSeed(random) : undefined);
+		const heNormal = () =>
+			random
+				? tf.initializers.heNormal({ seed: deriveSeed(random) })
+				: 'heNormal';
+		const activation = options.activation ?? 'relu';
+		const dropoutRate = options.dropoutRate ?? 0.3;
+		const regression = options.regressionLoss !== undefined;
 
 		// Input layer
 		model.add(
 			tf.layers.dense({
 				inputDim,
 				units: hiddenLayers[0],
-				activation: 'relu',
-				kernelInitializer: 'heNormal',
+				activation,
+				kernelInitializer: heNormal(),
 			}),
 		);
 
 		// Add dropout for regularization
-		model.add(tf.layers.dropout({ rate: 0.3 }));
+		model.add(tf.layers.dropout({ rate: dropoutRate, seed: layerSeed() }));
 
 		// Hidden layers
 		for (let i = 1; i < hiddenLayers.length; i++) {
 			model.add(
 				tf.layers.dense({
 					units: hiddenLayers[i],
-					activation: 'relu',
-					kernelInitializer: 'heNormal',
+					activation,
+					kernelInitializer: heNormal(),
 				}),
 			);
-			model.add(tf.layers.dropout({ rate: 0.3 }));
+			model.add(tf.layers.dropout({ rate: dropoutRate, seed: layerSeed() }));
 		}
 
 		// Output layer
 		model.add(
 			tf.layers.dense({
-				units: numClasses,
-				activation: numClasses === 2 ? 'sigmoid' : 'softmax',
+				units: regression ? 1 : numClasses,
+				activation: regression
+					? 'linear'
+					: numClasses === 2
+					? 'sigmoid'
+					: 'softmax',
+				kernelInitializer: random
+					? tf.initializers.glorotUniform({ seed: deriveSeed(random) })
+					: 'glorotUniform',
 			}),
 		);
 
 		// Compile model
 		model.compile({
-			optimizer: tf.train.adam(learningRate),
-			loss: numClasses === 2 ? 'binaryCrossentropy' : 'categoricalCrossentropy',
-			metrics: ['accuracy'],
+			optimizer: createOptimizer(learningRate, options),
+			loss: options.regressionLoss
+				? regressionLoss(options.regressionLoss, options.huberDelta ?? 1)
+				: options.focalGamma !== undefined
+				? focalLoss(options.focalGamma, numClasses === 2)
+				: numClasses === 2
+				? 'binaryCrossentropy'
+				: 'categoricalCrossentropy',
+			metrics: regression ? ['mae'] : ['accuracy'],
 		});
 
 		this.model = model;
@@ -284,6 +505,8 @@ export class NeuralNetworkService {
 
 	/**
 	 * Train the neural network
+	 * Seeded runs keep the (already shuffled) batch order fixed, since TF.js
+	 * shuffles each epoch with Math.random
 	 */
 	async trainModel(
 		xTrain: tf.Tensor2D,
@@ -293,6 +516,7 @@ export class NeuralNetworkService {
 		config: {
 			epochs: number;
 			batchSize: number;
+			seeded?: boolean;
 			onEpochEnd?: (epoch: number, logs: any) => void;
 		},
 	): Promise<tf.History> {
@@ -304,7 +528,7 @@ export class NeuralNetworkService {
 			epochs: config.epochs,
 			batchSize: config.batchSize,
 			validationData: [xVal, yVal],
-			shuffle: true,
+			shuffle: !config.seeded,
 			callbacks: config.onEpochEnd
 				? {
 						onEpochEnd: async (epoch, logs) => {
@@ -317,6 +541,255 @@ export class NeuralNetworkService {
 		return history;
 	}
 
+	/**
+	 * Current model weights (copies, safe to transfer)
+	 */
+	async getWeightData(): Promise<NeuralNetworkWeights> {
+		if (!this.model) {
+			throw new Error('Model not created. Call createModel first.');
+		}
+		return Promise.all(
+			this.model.getWeights().map(async (weight) => ({
+				shape: weight.shape,
+				values: Float32Array.from(await weight.data()),
+			})),
+		);
+	}
+
+	/**
+	 * Replace the weights of the model from createModel, e.g. with those
+	 * trained in a worker on the same architecture
+	 */
+	setWeightData(weights: NeuralNetworkWeights): void {
+		if (!this.model) {
+			throw new Error('Model not created. Call createModel first.');
+		}
+		const tensors = weights.map((w) => tf.tensor(w.values, w.shape));
+		this.model.setWeights(tensors);
+		tensors.forEach((tensor) => tensor.dispose());
+	}
+
+	/**
+	 * Fit a fresh model on one cross-validation fold; the fold model is
+	 * released afterwards
+	 * @param trainRows - Raw training rows in featureColumns order (NaN = missing)
+	 * @param trainLabels - Class index per training row
+	 * @param heldOutRows - Raw rows to score
+	 * @returns Class probabilities for the held-out rows
+	 */
+	async fitFold(
+		featureColumns: string[],
+		trainRows: number[][],
+		trainLabels: number[],
+		heldOutRows: number[][],
+		numClasses: number,
+		config: {
+			hiddenLayers?: number[];
+			learningRate?: number;
+			epochs: number;
+			batchSize: number;
+			transforms?: Record<string, FeatureTransform>;
+			clipPercentiles?: Record<string, ClipPercentiles>;
+			missingValueStrategy?: Record<string, ImputationStrategy>;
+			missingIndicators?: boolean;
+			seed?: number;
+			training?: NeuralNetworkTrainingOptions; // no validation data, so no early stopping
+			imbalance?: ImbalanceConfig; // applied to the fold's training rows
+		},
+	): Promise<number[][]> {
+		this.pipeline = PreprocessingPipeline.fitNumeric(
+			featureColumns,
+			trainRows,
+			{
+				targetColumn: '',
+				transforms: config.transforms,
+				clipPercentiles: config.clipPercentiles,
+				missingValueStrategy: config.missingValueStrategy,
+				missingIndicators: config.missingIndicators,
+			},
+		);
+		const width = this.pipeline.featureNames.length;
+		const random: RandomSource =
+			config.seed !== undefined ? createRandom(config.seed) : Math.random;
+		const rebalanced = rebalanceTrainingRows(
+			this.pipeline.transformMatrix(trainRows),
+			trainLabels,
+			numClasses,
+			config.imbalance ?? DEFAULT_IMBALANCE,
+			random,
+			{ focalLoss: true },
+		);
+		const training = {
+			...config.training,
+			...imbalanceTraining(rebalanced.report),
+		};
+		const model = this.createModel(
+			width,
+			numClasses,
+			config.hiddenLayers,
+			config.learningRate,
+			config.seed,
+			training,
+		);
+
+		// Seeded folds shuffle once here and train with a fixed batch order
+		const order =
+			config.seed !== undefined
+				? shuffleIndices(rebalanced.y.length, random)
+				: rebalanced.y.map((_, i) => i);
+		const xTrain = tf.tensor2d(
+			order.map((i) => rebalanced.X[i]),
+			[order.length, width],
+		);
+		const labels = tf.tensor1d(
+			order.map((i) => rebalanced.y[i]),
+			'int32',
+		);
+		const yTrain = tf.oneHot(labels, numClasses);
+		labels.dispose();
+		return this.fitAndPredictFold(
+			model,
+			xTrain,
+			yTrain as tf.Tensor2D,
+			heldOutRows,
+			config,
+			training,
+		);
+	}
+
+	/**
+	 * Fit a fresh regressor on one cross-validation fold; the target is
+	 * z-scored with the fold's training mean / std and the fold model is
+	 * released afterwards
+	 * @param trainRows - Raw training rows in featureColumns order (NaN = missing)
+	 * @param trainTargets - Target value per training row
+	 * @param heldOutRows - Raw rows to score
+	 * @returns Predictions for the held-out rows, in target units
+	 */
+	async fitRegressionFold(
+		featureColumns: string[],
+		trainRows: number[][],
+		trainTargets: number[],
+		heldOutRows: number[][],
+		config: {
+			hiddenLayers?: number[];
+			learningRate?: number;
+			epochs: number;
+			batchSize: number;
+			transforms?: Record<string, FeatureTransform>;
+			clipPercentiles?: Record<string, ClipPercentiles>;
+			missingValueStrategy?: Record<string, ImputationStrategy>;
+			missingIndicators?: boolean;
+			seed?: number;
+			training?: NeuralNetworkTrainingOptions; // its regressionLoss (MSE by default)
+		},
+	): Promise<number[]> {
+		this.pipeline = PreprocessingPipeline.fitNumeric(
+			featureColumns,
+			trainRows,
+			{
+				targetColumn: '',
+				transforms: config.transforms,
+				clipPercentiles: config.clipPercentiles,
+				targets: trainTargets,
+				missingValueStrategy: config.missingValueStrategy,
+				missingIndicators: config.missingIndicators,
+			},
+		);
+		const width = this.pipeline.featureNames.length;
+		const random: RandomSource =
+			config.seed !== undefined ? createRandom(config.seed) : Math.random;
+		const training = {
+			...config.training,
+			regressionLoss: config.training?.regressionLoss ?? 'mse',
+		};
+		const model = this.createModel(
+			width,
+			1,
+			config.hiddenLayers,
+			config.learningRate,
+			config.seed,
+			training,
+		);
+
+		// Seeded folds shuffle once here and train with a fixed batch order
+		const order =
+			config.seed !== undefined
+				? shuffleIndices(trainRows.length, random)
+				: trainRows.map((_, i) => i);
+		const features = this.pipeline.transformMatrix(trainRows);
+		const targets = this.pipeline.scaleTarget(trainTargets);
+		const xTrain = tf.tensor2d(
+			order.map((i) => features[i]),
+			[order.length, width],
+		);
+		const yTrain = tf.tensor2d(
+			order.map((i) => targets[i]),
+			[order.length, 1],
+		);
+		const predictions = await this.fitAndPredictFold(
+			model,
+			xTrain,
+			yTrain,
+			heldOutRows,
+			config,
+			training,
+		);
+		return this.pipeline.inverseTransformTarget(predictions.map((p) => p[0]));
+	}
+
+	/**
+	 * Train a fold model on prepared tensors and score the held-out rows;
+	 * the tensors and the model are released afterwards
+	 */
+	private async fitAndPredictFold(
+		model: tf.Sequential,
+		xTrain: tf.Tensor2D,
+		yTrain: tf.Tensor2D,
+		heldOutRows: number[][],
+		config: {
+			learningRate?: number;
+			epochs: number;
+			batchSize: number;
+			seed?: number;
+		},
+		training: NeuralNetworkTrainingOptions,
+	): Promise<number[][]> {
+		const control = new NeuralNetworkEpochControl(
+			model,
+			config.learningRate ?? 0.001,
+			config.epochs,
+			training,
+		);
+		const xHeldOut = tf.tensor2d(this.pipeline!.transformMatrix(heldOutRows), [
+			heldOutRows.length,
+			xTrain.shape[1],
+		]);
+		try {
+			await model.fit(xTrain, yTrain, {
+				epochs: config.epochs,
+				batchSize: config.batchSize,
+				shuffle: config.seed === undefined,
+				classWeight: fitClassWeight(training),
+				callbacks: {
+					onEpochBegin: async (epoch) => {
+						control.beginEpoch(epoch);
+					},
+				},
+			});
+			const prediction = model.predict(xHeldOut) as tf.Tensor;
+			const outputs = prediction.arraySync() as number[][];
+			prediction.dispose();
+			return outputs;
+		} finally {
+			xTrain.dispose();
+			yTrain.dispose();
+			xHeldOut.dispose();
+			model.dispose();
+			this.model = null;
+		}
+	}
+
 	/**
 	 * Export model for download
 	 */
@@ -333,10 +806,10 @@ export class NeuralNetworkService {
 
 		// Create metadata
 		const metadata = {
-			featureColumns: Object.keys(this.featureStats),
-			targetColumn: '', // Will be set by calling code
+			featureColumns: this.pipeline?.matrixColumns || [],
+			targetColumn: this.pipeline?.targetColumn || '',
 			labelEncoder: this.labelEncoder,
-			featureStats: this.featureStats,
+			pipeline: this.pipeline?.toJSON(),
 			trainedAt: new Date().toISOString(),
 		};
 
@@ -351,60 +824,57 @@ export class NeuralNetworkService {
 		};
 	}
 
+	/**
+	 * Preprocessing fitted by preprocessData (null before training)
+	 */
+	getPipeline(): PreprocessingPipeline | null {
+		return this.pipeline;
+	}
+
 	/**
 	 * Make predictions on new data
+	 * @param features - Raw (unnormalized) rows in training feature order
 	 */
 	predict(features: number[][]): {
 		predictions: string[];
 		probabilities: number[][];
 	} {
-		if (!this.model) {
-			throw new Error('Model not trained. Train a model first.');
-		}
-
-		// Check if feature stats are available
-		const featureNames = Object.keys(this.featureStats);
-		if (featureNames.length === 0) {
-			throw new Error('Feature statistics not available. Model may not be properly trained.');
-		}
+		const featureNames = this.pipeline?.matrixColumns || [];
 
 		// Validate feature dimensions
 		if (features.length === 0) {
 			throw new Error('No features provided for prediction.');
 		}
 
-		const expectedFeatureCount = featureNames.length;
 		const actualFeatureCount = features[0]?.length || 0;
-		
-		if (actualFeatureCount !== expectedFeatureCount) {
+		if (actualFeatureCount !== featureNames.length) {
 			throw new Error(
-				`Feature dimension mismatch. Expected ${expectedFeatureCount} features, got ${actualFeatureCount}. ` +
-				`Expected features: ${featureNames.join(', ')}`
+				`Feature dimension mismatch. Expected ${featureNames.length} features, got ${actualFeatureCount}. ` +
+					`Expected features: ${featureNames.join(', ')}`,
 			);
 		}
 
-		// Normalize features using stored statistics
-		const normalizedFeatures = features.map((row) =>
-			row.map((value, i) => {
-				const featureName = featureNames[i];
-				const featureStats = this.featureStats[featureName];
-				
-				if (!featureStats) {
-					throw new Error(`Feature statistics not found for feature: ${featureName}`);
-				}
-				
-				const { mean, std } = featureStats;
-				
-				// Handle edge case where std is 0 (constant feature)
-				if (std === 0) {
-					return 0;
-				}
-				
-				return (value - mean) / std;
-			}),
-		);
+		return this.predictRecords(features.map((row) => this.toRecord(row)));
+	}
+
+	/**
+	 * Make predictions on raw records (column name -> value), e.g. manual
+	 * input or rows of an uploaded batch file
+	 */
+	predictRecords(records: PipelineRecord[]): {
+		predictions: string[];
+		probabilities: number[][];
+	} {
+		if (!this.model) {
+			throw new Error('Model not trained. Train a model first.');
+		}
+		if (!this.pipeline) {
+			throw new Error(
+				'Preprocessing pipeline not available. Model may not be properly trained.',
+			);
+		}
 
-		const input = tf.tensor2d(normalizedFeatures);
+		const input = tf.tensor2d(this.pipeline.transform(records));
 		const prediction = this.model.predict(input) as tf.Tensor;
 		const probabilities = prediction.arraySync() as number[][];
 
@@ -420,12 +890,33 @@ export class NeuralNetworkService {
 	}
 
 	/**
-	 * Evaluate model performance
+	 * Predicted target values of a regressor, in target units
+	 * @param features - Rows in training feature order: raw, or already
+	 * transformed by the pipeline when normalized is set (as the held-out
+	 * rows recorded at training time are)
+	 */
+	predictValues(features: number[][], normalized = false): number[] {
+		if (!this.model || !this.pipeline) {
+			throw new Error('Model not trained. Train a model first.');
+		}
+		const input = tf.tensor2d(
+			normalized ? features : this.pipeline.transformMatrix(features),
+		);
+		const prediction = this.model.predict(input) as tf.Tensor;
+		const scaled = Array.from(prediction.dataSync());
+		input.dispose();
+		prediction.dispose();
+		return this.pipeline.inverseTransformTarget(scaled);
+	}
+
+	/**
+	 * Evaluate model performance (plus the class probabilities per row, for
+	 * per-class metrics)
 	 */
 	async evaluateModel(
 		xTest: tf.Tensor2D,
 		yTest: tf.Tensor2D,
-	): Promise<{ loss: number; accuracy: number }> {
+	): Promise<{ loss: number; accuracy: number; probabilities: number[][] }> {
 		if (!this.model) {
 			throw new Error('Model not trained. Train a model first.');
 		}
@@ -433,12 +924,46 @@ export class NeuralNetworkService {
 		const evaluation = this.model.evaluate(xTest, yTest) as tf.Scalar[];
 		const loss = await evaluation[0].data();
 		const accuracy = await evaluation[1].data();
+		const prediction = this.model.predict(xTest) as tf.Tensor;
+		const probabilities = (await prediction.array()) as number[][];
 
 		evaluation.forEach((tensor) => tensor.dispose());
+		prediction.dispose();
 
 		return {
 			loss: loss[0],
 			accuracy: accuracy[0],
+			probabilities,
+		};
+	}
+
+	/**
+	 * Evaluate a regressor: the loss on the scaled target, and predictions
+	 * and actual values per row in target units
+	 */
+	async evaluateRegression(
+		xTest: tf.Tensor2D,
+		yTest: tf.Tensor2D,
+	): Promise<{ loss: number; predictions: number[]; actuals: number[] }> {
+		if (!this.model) {
+			throw new Error('Model not trained. Train a model first.');
+		}
+
+		const evaluation = this.model.evaluate(xTest, yTest) as tf.Scalar[];
+		const loss = await evaluation[0].data();
+		const prediction = this.model.predict(xTest) as tf.Tensor;
+		const scaled = Array.from(await prediction.data());
+		const actualScaled = Array.from(await yTest.data());
+
+		evaluation.forEach((tensor) => tensor.dispose());
+		prediction.dispose();
+
+		const unscale = (values: number[]) =>
+			this.pipeline ? this.pipeline.inverseTransformTarget(values) : values;
+		return {
+			loss: loss[0],
+			predictions: unscale(scaled),
+			actuals: unscale(actualScaled),
 		};
 	}
 
@@ -458,6 +983,14 @@ export class NeuralNetworkService {
 		};
 	}
 
+	private toRecord(row: number[]): PipelineRecord {
+		const record: PipelineRecord = {};
+		this.pipeline?.matrixColumns.forEach((name, i) => {
+			record[name] = row[i];
+		});
+		return record;
+	}
+
 	/**
 	 * Clean up resources
 	 */
@@ -469,3 +1002,294 @@ export class NeuralNetworkService {
 		tf.disposeVariables();
 	}
 }
+
+/**
+ * Optimizer with optional gradient clipping (by global norm) and decoupled
+ * weight decay: after each step the kernels shrink by
+ * learningRate * weightDecay, independent of the gradient scaling
+ */
+function createOptimizer(
+	learningRate: number,
+	options: NeuralNetworkTrainingOptions,
+): tf.Optimizer {
+	const optimizer =
+		options.optimizer === 'sgd'
+			? tf.train.sgd(learningRate)
+			: options.optimizer === 'rmsprop'
+			? tf.train.rmsprop(learningRate)
+			: tf.train.adam(learningRate);
+	const clipNorm = options.clipNorm ?? 0;
+	const weightDecay = options.weightDecay ?? 0;
+	if (clipNorm <= 0 && weightDecay <= 0) return optimizer;
+
+	const applyGradients = optimizer.applyGradients.bind(optimizer);
+	optimizer.applyGradients = (
+		gradients: Parameters<tf.Optimizer['applyGradients']>[0],
+	) => {
+		const named = (
+			Array.isArray(gradients)
+				? gradients
+				: Object.keys(gradients).map((name) => ({
+						name,
+						tensor: gradients[name],
+				  }))
+		).filter((g) => g.tensor != null);
+
+		if (clipNorm > 0) {
+			const clipped = tf.tidy(() => {
+				const norm = tf
+					.addN(named.map((g) => tf.sum(tf.square(g.tensor))))
+					.sqrt()
+					.dataSync()[0];
+				const scale = norm > clipNorm ? clipNorm / norm : 1;
+				return named.map((g) => tf.mul(g.tensor, scale));
+			});
+			applyGradients(
+				named.map((g, i) => ({ name: g.name, tensor: clipped[i] })),
+			);
+			clipped.forEach((tensor) => tensor.dispose());
+		} else {
+			applyGradients(named);
+		}
+
+		if (weightDecay > 0) {
+			const shrink = 1 - getLearningRate(optimizer) * weightDecay;
+			tf.tidy(() =>
+				named.forEach(({ name }) => {
+					const variable = tf.engine().registeredVariables[name];
+					if (variable && name.endsWith('kernel')) {
+						variable.assign(tf.mul(variable, shrink));
+					}
+				}),
+			);
+		}
+	};
+	return optimizer;
+}
+
+/**
+ * Loss settings of an applied imbalance strategy (class weights or focal
+ * loss) as training options
+ */
+export function imbalanceTraining(
+	report: ImbalanceReport,
+): Pick<NeuralNetworkTrainingOptions, 'classWeights' | 'focalGamma'> {
+	return {
+		classWeights: report.classWeights,
+		focalGamma:
+			report.strategy === 'focal-loss' ? report.focalGamma : undefined,
+	};
+}
+
+/**
+ * classWeight argument for model.fit ({ classIndex: weight })
+ */
+export function fitClassWeight(
+	options: NeuralNetworkTrainingOptions,
+): tf.ClassWeight | undefined {
+	return options.classWeights ? { ...options.classWeights } : undefined;
+}
+
+/**
+ * Focal loss (Lin et al., 2017): cross-entropy scaled by (1 - p)^gamma for
+ * the true class, so confidently classified rows count less and training
+ * concentrates on the hard ones. Sigmoid outputs are scored per unit.
+ */
+function focalLoss(gamma: number, sigmoidOutputs: boolean) {
+	return (yTrue: tf.Tensor, yPred: tf.Tensor): tf.Tensor =>
+		tf.tidy(() => {
+			const p = tf.clipByValue(yPred, 1e-7, 1 - 1e-7);
+			const positive = tf.mul(
+				tf.mul(yTrue, tf.pow(tf.sub(1, p), gamma)),
+				tf.log(p),
+			);
+			if (!sigmoidOutputs) return tf.neg(tf.sum(positive, -1));
+			const negative = tf.mul(
+				tf.mul(tf.sub(1, yTrue), tf.pow(p, gamma)),
+				tf.log(tf.sub(1, p)),
+			);
+			return tf.neg(tf.mean(tf.add(positive, negative), -1));
+		});
+}
+
+/**
+ * Loss of a regressor per row: squared or absolute error, or Huber (squared
+ * up to delta, linear beyond, so outliers pull less than under MSE)
+ */
+function regressionLoss(loss: RegressionLoss, delta: number) {
+	if (loss === 'mse') return 'meanSquaredError';
+	if (loss === 'mae') return 'meanAbsoluteError';
+	return (yTrue: tf.Tensor, yPred: tf.Tensor): tf.Tensor =>
+		tf.tidy(() => {
+			const error = tf.abs(tf.sub(yPred, yTrue));
+			const quadratic = tf.minimum(error, delta);
+			const linear = tf.sub(error, quadratic);
+			return tf.mean(
+				tf.add(tf.mul(0.5, tf.square(quadratic)), tf.mul(delta, linear)),
+				-1,
+			);
+		});
+}
+
+// Optimizers read their rate on every step, so it can change between epochs
+// (SGD caches it as a tensor and has to be told through setLearningRate)
+type RateOptimizer = {
+	learningRate: number;
+	setLearningRate?: (learningRate: number) => void;
+};
+
+function getLearningRate(optimizer: tf.Optimizer): number {
+	return (optimizer as unknown as RateOptimizer).learningRate;
+}
+
+function setLearningRate(optimizer: tf.Optimizer, learningRate: number): void {
+	const target = optimizer as unknown as RateOptimizer;
+	if (target.setLearningRate) target.setLearningRate(learningRate);
+	else target.learningRate = learningRate;
+}
+
+/**
+ * Learning rate of a step / exponential / cosine schedule at a 0-based
+ * epoch; constant and plateau schedules stay at baseRate here (plateau
+ * drops depend on the validation metric, see NeuralNetworkEpochControl)
+ */
+export function scheduledLearningRate(
+	schedule: LearningRateSchedule,
+	baseRate: number,
+	epoch: number,
+	epochs: number,
+): number {
+	switch (schedule.type) {
+		case 'step':
+			return (
+				baseRate *
+				Math.pow(
+					schedule.factor,
+					Math.floor(epoch / Math.max(1, schedule.stepSize)),
+				)
+			);
+		case 'exponential':
+			return baseRate * Math.pow(schedule.factor, epoch);
+		case 'cosine': {
+			const progress = epochs > 1 ? epoch / (epochs - 1) : 1;
+			const floor = Math.min(schedule.minLearningRate, baseRate);
+			return (
+				floor + ((baseRate - floor) * (1 + Math.cos(Math.PI * progress))) / 2
+			);
+		}
+		default:
+			return baseRate;
+	}
+}
+
+/**
+ * Epoch-level control for model.fit callbacks: sets each epoch's learning
+ * rate, lowers it when the monitored validation metric plateaus, stops
+ * early after `patience` epochs without improvement and keeps a checkpoint
+ * of the best epoch's weights to restore at the end
+ */
+export class NeuralNetworkEpochControl {
+	bestEpoch = 0; // 1-based; 0 until a validation score was seen
+	earlyStoppedAt?: number;
+	private bestScore = -Infinity; // monitored metric, larger is better
+	private sinceBest = 0;
+	private plateauScore = -Infinity;
+	private sincePlateau = 0;
+	private checkpoint: tf.Tensor[] | null = null;
+	private lastEpoch = 0;
+	private learningRate: number;
+
+	constructor(
+		private model: tf.LayersModel,
+		private baseRate: number,
+		private epochs: number,
+		private options: NeuralNetworkTrainingOptions = {},
+	) {
+		this.learningRate = baseRate;
+	}
+
+	/**
+	 * Apply the learning rate for a 0-based epoch and return it
+	 */
+	beginEpoch(epoch: number): number {
+		const schedule = this.options.lrSchedule;
+		if (schedule && schedule.type !== 'plateau') {
+			this.learningRate = scheduledLearningRate(
+				schedule,
+				this.baseRate,
+				epoch,
+				this.epochs,
+			);
+		}
+		setLearningRate(this.model.optimizer, this.learningRate);
+		return this.learningRate;
+	}
+
+	/**
+	 * Record a finished 0-based epoch
+	 * @returns true when early stopping should end training
+	 */
+	endEpoch(epoch: number, logs?: Record<string, number>): boolean {
+		this.lastEpoch = epoch + 1;
+		const { earlyStopping, lrSchedule, regressionLoss } = this.options;
+		// Regressors report no accuracy
+		const monitor = regressionLoss
+			? 'valLoss'
+			: earlyStopping?.monitor ?? 'valLoss';
+		const value =
+			monitor === 'valAcc'
+				? logs?.val_acc ?? logs?.val_accuracy
+				: logs?.val_loss;
+		if (value === undefined || !isFinite(value)) return false;
+		const score = monitor === 'valAcc' ? value : -value;
+		const minDelta = earlyStopping?.minDelta ?? 0;
+
+		if (lrSchedule?.type === 'plateau') {
+			if (score > this.plateauScore + minDelta) {
+				this.plateauScore = score;
+				this.sincePlateau = 0;
+			} else if (++this.sincePlateau >= Math.max(1, lrSchedule.patience)) {
+				this.learningRate = Math.max(
+					lrSchedule.minLearningRate,
+					this.learningRate * lrSchedule.factor,
+				);
+				this.sincePlateau = 0;
+			}
+		}
+
+		if (score > this.bestScore + minDelta) {
+			this.bestScore = score;
+			this.bestEpoch = epoch + 1;
+			this.sinceBest = 0;
+			if (earlyStopping?.enabled && earlyStopping.restoreBestWeights) {
+				this.checkpoint?.forEach((tensor) => tensor.dispose());
+				this.checkpoint = this.model.getWeights().map((w) => w.clone());
+			}
+			return false;
+		}
+		this.sinceBest++;
+		if (
+			earlyStopping?.enabled &&
+			this.sinceBest >= Math.max(1, earlyStopping.patience)
+		) {
+			this.earlyStoppedAt = epoch + 1;
+			return true;
+		}
+		return false;
+	}
+
+	/**
+	 * End of training: restore the best checkpoint (restore-best-weights)
+	 * @returns true when the model now holds bestEpoch's weights instead of
+	 * the last epoch's
+	 */
+	finish(): boolean {
+		const checkpoint = this.checkpoint;
+		this.checkpoint = null;
+		if (!checkpoint) return false;
+		const restore = this.bestEpoch < this.lastEpoch;
+		if (restore) this.model.setWeights(checkpoint);
+		checkpoint.forEach((tensor) => tensor.dispose());
+		return restore;
+	}
+}
@@ -0,0 +1,251 @@
+// IPAC and VOTable header / row parsing for the archive importers (node --test)
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { ArchiveTableParser } from './archive.ts';
+
+const DISPOSITIONS = ['CONFIRMED', 'FALSE POSITIVE', 'CANDIDATE'];
+
+// Fixed-width IPAC table: each cell is padded to the width between pipes
+const ipacTable = (headerRows, dataRows, widths) => {
+	const line = (cells, edge) =>
+		edge +
+		cells.map((cell, c) => ` ${String(cell).padEnd(widths[c])} `).join(edge) +
+		edge;
+	return [
+		'\\fixlen = T',
+		'\\ This file was produced by the NASA Exoplanet Archive',
+		...headerRows.map((cells) => line(cells, '|')),
+		...dataRows.map((cells) => line(cells, ' ')),
+		'',
+	].join('\n');
+};
+
+const ipacRows = Array.from({ length: 12 }, (_, i) => [
+	`K0${1000 + i}.01`,
+	i === 4 ? 'null' : (2455003.539 + i * 0.125).toFixed(6),
+	i === 7 ? 'null' : DISPOSITIONS[i % 3],
+	(i / 11).toFixed(3),
+]);
+
+describe('IPAC tables', () => {
+	const widths = [12, 16, 16, 10];
+	const header = [
+		['kepoi_name', 'koi_time0', 'koi_disposition', 'koi_score'],
+		['char', 'double', 'char', 'real'],
+		['', 'days', '', ''],
+	];
+
+	test('reads names, types and units from the | header rows', async () => {
+		const { rawDataset, columnMeta, parseStats } =
+			await ArchiveTableParser.parseIPAC(
+				ipacTable(header, ipacRows, widths),
+				'koi.tbl',
+			);
+		assert.deepEqual(rawDataset.header, header[0]);
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.declaredType),
+			header[1],
+		);
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.unit),
+			[undefined, 'days', undefined, undefined],
+		);
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.inferredType),
+			['text', 'numeric', 'categorical', 'numeric'],
+		);
+		assert.equal(parseStats.format, 'ipac');
+		assert.equal(parseStats.totalRowsAfter, 12);
+	});
+
+	test('cells are trimmed and keep their full precision', async () => {
+		const { rawDataset } = await ArchiveTableParser.parseIPAC(
+			ipacTable(header, ipacRows, widths),
+		);
+		assert.deepEqual(rawDataset.rows[1], [
+			'K01001.01',
+			'2455003.664000',
+			'FALSE POSITIVE',
+			'0.091',
+		]);
+	});
+
+	test("'null' cells become missing values without a null row", async () => {
+		const { rawDataset, columnMeta } = await ArchiveTableParser.parseIPAC(
+			ipacTable(header, ipacRows, widths),
+		);
+		assert.equal(rawDataset.rows[4][1], '');
+		assert.equal(rawDataset.rows[7][2], '');
+		assert.equal(columnMeta[1].missingCount, 1);
+		assert.equal(columnMeta[2].missingCount, 1);
+		assert.equal(columnMeta[0].missingCount, 0);
+	});
+
+	test('a fourth header row declares the null value per column', async () => {
+		const rows = ipacRows.map((row, i) => [
+			row[0],
+			i === 2 ? '-999' : row[1],
+			row[2],
+			// 'null' is an ordinary value once a null row is given
+			i === 3 ? 'null' : row[3],
+		]);
+		const { rawDataset } = await ArchiveTableParser.parseIPAC(
+			ipacTable([...header, ['', '-999', 'null', '']], rows, widths),
+		);
+		assert.equal(rawDataset.rows[2][1], '');
+		assert.equal(rawDataset.rows[7][2], '');
+		assert.equal(rawDataset.rows[3][3], 'null');
+	});
+
+	test('a header without typed rows falls back to inference', async () => {
+		const { columnMeta } = await ArchiveTableParser.parseIPAC(
+			ipacTable(header.slice(0, 1), ipacRows, widths),
+		);
+		assert.equal(columnMeta[1].declaredType, undefined);
+		assert.equal(columnMeta[1].inferredType, 'numeric');
+	});
+
+	test('content without a | header is rejected', async () => {
+		await assert.rejects(
+			ArchiveTableParser.parseIPAC('\\fixlen = T\n1 2 3\n'),
+			/No IPAC header line/,
+		);
+	});
+});
+
+// VOTable document with one TABLE; cells are the raw TD contents
+const votable = (fields, rows) =>
+	[
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<VOTABLE version="1.4" xmlns="http://www.ivoa.net/xml/VOTable/v1.3">',
+		'<RESOURCE type="results">',
+		'<TABLE>',
+		...fields,
+		'<DATA><TABLEDATA>',
+		...rows.map((cells) => `<TR>${cells.join('')}</TR>`),
+		'</TABLEDATA></DATA>',
+		'</TABLE>',
+		'</RESOURCE>',
+		'</VOTABLE>',
+	].join('\n');
+
+describe('VOTables', () => {
+	const fields = [
+		'<FIELD name="pl_name" datatype="char" arraysize="*" ucd="meta.id"/>',
+		'<FIELD name="pl_orbper" datatype="double" unit="days">',
+		'  <DESCRIPTION>Orbital period &amp; its <![CDATA[<uncertainty>]]></DESCRIPTION>',
+		'</FIELD>',
+		'<FIELD name="sy_pnum" datatype="int">',
+		'  <VALUES null="-999"/>',
+		'</FIELD>',
+		"<FIELD ID='disc_method' datatype='unicodeChar' arraysize='*'/>",
+		'<FIELD name="rowupdate" datatype="char" xtype="timestamp"/>',
+	];
+	const rows = Array.from({ length: 12 }, (_, i) => [
+		`<TD>Kepler-${i + 10} b</TD>`,
+		i === 3 ? '<TD>NaN</TD>' : `<TD>${(3.5 + i * 1.25).toFixed(4)}</TD>`,
+		i === 5 ? '<TD>-999</TD>' : `<TD>${1 + (i % 3)}</TD>`,
+		i === 8 ? '<TD/>' : `<TD>${i % 2 ? 'Transit' : 'Radial Velocity'}</TD>`,
+		`<TD>2024-0${1 + (i % 9)}-15</TD>`,
+	]);
+
+	test('maps FIELD datatypes, units and descriptions onto column meta', async () => {
+		const { rawDataset, columnMeta, parseStats } =
+			await ArchiveTableParser.parseVOTable(votable(fields, rows), 'ps.xml');
+		assert.deepEqual(rawDataset.header, [
+			'pl_name',
+			'pl_orbper',
+			'sy_pnum',
+			'disc_method',
+			'rowupdate',
+		]);
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.declaredType),
+			['char', 'double', 'int', 'unicodeChar', 'char'],
+		);
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.inferredType),
+			['text', 'numeric', 'numeric', 'categorical', 'datetime'],
+		);
+		assert.equal(columnMeta[1].unit, 'days');
+		assert.equal(columnMeta[0].unit, undefined);
+		assert.equal(
+			columnMeta[1].description,
+			'Orbital period & its <uncertainty>',
+		);
+		assert.equal(parseStats.format, 'votable');
+	});
+
+	test('TD cells are extracted in order with entities decoded', async () => {
+		const cells = [
+			'<TD>HD 189733 &amp; b</TD>',
+			'<TD> 2.2186 </TD>',
+			'<TD>1</TD>',
+			'<TD><![CDATA[Transit <primary>]]></TD>',
+			'<TD>2024-01-15</TD>',
+		];
+		const { rawDataset } = await ArchiveTableParser.parseVOTable(
+			votable(fields, [cells, ...rows.slice(1)]),
+		);
+		assert.deepEqual(rawDataset.rows[0], [
+			'HD 189733 & b',
+			'2.2186',
+			'1',
+			'Transit <primary>',
+			'2024-01-15',
+		]);
+	});
+
+	test('VALUES null, NaN floats and empty TDs become missing values', async () => {
+		const { rawDataset, columnMeta } = await ArchiveTableParser.parseVOTable(
+			votable(fields, rows),
+		);
+		assert.equal(rawDataset.rows[3][1], '');
+		assert.equal(rawDataset.rows[5][2], '');
+		assert.equal(rawDataset.rows[8][3], '');
+		assert.deepEqual(
+			columnMeta.map((meta) => meta.missingCount),
+			[0, 1, 1, 1, 0],
+		);
+	});
+
+	test('short rows are padded and long rows truncated', async () => {
+		const ragged = [
+			rows[0].slice(0, 2),
+			[...rows[1], '<TD>extra</TD>'],
+			...rows.slice(2),
+		];
+		const { rawDataset } = await ArchiveTableParser.parseVOTable(
+			votable(fields, ragged),
+		);
+		assert.deepEqual(rawDataset.rows[0].slice(2), ['', '', '']);
+		assert.equal(rawDataset.rows[1].length, 5);
+	});
+
+	test('binary serializations are rejected with a hint', async () => {
+		const binary = votable(fields, []).replace(
+			/<DATA><TABLEDATA>[\s\S]*<\/TABLEDATA><\/DATA>/,
+			'<DATA><BINARY2><STREAM encoding="base64">AAAA</STREAM></BINARY2></DATA>',
+		);
+		await assert.rejects(
+			ArchiveTableParser.parseVOTable(binary),
+			/Only TABLEDATA serialization is supported/,
+		);
+	});
+});
+
+describe('format detection', () => {
+	test('uses the extension, then sniffs the content', () => {
+		assert.equal(ArchiveTableParser.detectFormat('koi.TBL'), 'ipac');
+		assert.equal(ArchiveTableParser.detectFormat('ps.vot'), 'votable');
+		assert.equal(
+			ArchiveTableParser.detectFormat('download', '<?xml version="1.0"?>'),
+			'votable',
+		);
+		assert.equal(
+			ArchiveTableParser.detectFormat('download', '\\fixlen = T\n|a|'),
+			'ipac',
+		);
+		assert.equal(ArchiveTableParser.detectFormat('notes.txt', 'hello'), null);
+	});
+});
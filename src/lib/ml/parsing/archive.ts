@@ -0,0 +1,426 @@
+// NASA Exoplanet Archive table importers (IPAC .tbl and VOTable XML)
+// Produces the same RawDataset + InferredColumnMeta structures as CSVParser,
+// keeping the column types and units declared in the table header instead of
+// re-inferring them. No DOM dependencies so it runs in Node as well.
+
+import {
+	RawDataset,
+	InferredColumnMeta,
+	ColumnType,
+	ParseStats,
+} from '../../../types/ml';
+import { ColumnStatsAccumulator } from './columnStats';
+import { CSVParser } from './csv';
+import { serializeCSV } from './tokenizer.mjs';
+
+export type ArchiveTableFormat = 'csv' | 'ipac' | 'votable';
+
+export interface ArchiveParseOptions {
+	maxRows?: number; // rows retained in RawDataset.rows (stats cover all rows)
+}
+
+/**
+ * Column declaration read from a table header
+ */
+interface DeclaredColumn {
+	name: string;
+	datatype?: string;
+	unit?: string;
+	description?: string;
+	nullValue?: string;
+	xtype?: string;
+}
+
+interface ParsedTable {
+	columns: DeclaredColumn[];
+	rows: string[][];
+}
+
+const IPAC_EXTENSIONS = ['.tbl', '.ipac'];
+const VOTABLE_EXTENSIONS = ['.xml', '.vot', '.votable'];
+
+const XML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+};
+
+export class ArchiveTableParser {
+	/**
+	 * Pick the table format from the file extension, falling back to sniffing
+	 * the content when it is provided
+	 */
+	static detectFormat(
+		filename: string,
+		content?: string,
+	): ArchiveTableFormat | null {
+		const lower = filename.toLowerCase();
+		if (lower.endsWith('.csv')) return 'csv';
+		if (IPAC_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'ipac';
+		if (VOTABLE_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'votable';
+
+		if (content !== undefined) {
+			const head = content.slice(0, 2048).trimStart();
+			if (/^<\?xml|^<VOTABLE/i.test(head)) return 'votable';
+			if (/^\\/.test(head) || /^\|/.test(head)) return 'ipac';
+		}
+		return null;
+	}
+
+	/**
+	 * Parse an IPAC or VOTable document, dispatching on the detected format
+	 */
+	static async parseArchiveTable(
+		content: string,
+		filename: string,
+		options: ArchiveParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	}> {
+		const format = this.detectFormat(filename, content);
+		if (format === 'ipac') return this.parseIPAC(content, filename, options);
+		if (format === 'votable') {
+			return this.parseVOTable(content, filename, options);
+		}
+		throw new Error(
+			`Unsupported table format for ${filename} (expected IPAC .tbl or VOTable)`,
+		);
+	}
+
+	/**
+	 * Parse an IPAC ASCII table (fixed-width, '|' delimited header lines)
+	 * @param content - Raw .tbl file content
+	 * @param filename - Name of the file for reference
+	 * @param options - Row retention options
+	 */
+	static async parseIPAC(
+		content: string,
+		filename: string = 'dataset.tbl',
+		options: ArchiveParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	}> {
+		try {
+			const table = this.readIPAC(content);
+			return this.buildResult(table, filename, 'ipac', options);
+		} catch (error) {
+			throw new Error(
+				`Failed to parse IPAC table: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+	}
+
+	/**
+	 * Parse a VOTable document (TABLEDATA serialization, first TABLE only)
+	 * @param content - Raw VOTable XML
+	 * @param filename - Name of the file for reference
+	 * @param options - Row retention options
+	 */
+	static async parseVOTable(
+		content: string,
+		filename: string = 'dataset.xml',
+		options: ArchiveParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	}> {
+		try {
+			const table = this.readVOTable(content);
+			return this.buildResult(table, filename, 'votable', options);
+		} catch (error) {
+			throw new Error(
+				`Failed to parse VOTable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+	}
+
+	/**
+	 * Read IPAC header declarations and fixed-width data rows
+	 */
+	private static readIPAC(content: string): ParsedTable {
+		if (!content || content.trim().length === 0) {
+			throw new Error('Table content is empty');
+		}
+		const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+		// Header: up to four '|' lines (names, types, units, nulls) after keywords
+		const headerLines: string[] = [];
+		let i = 0;
+		for (; i < lines.length; i++) {
+			const line = lines[i];
+			if (line.startsWith('\\')) continue; // keyword or comment
+			if (line.startsWith('|')) {
+				headerLines.push(line);
+				continue;
+			}
+			if (headerLines.length > 0 || line.trim() !== '') break;
+		}
+		if (headerLines.length === 0) {
+			throw new Error('No IPAC header line (starting with "|") found');
+		}
+
+		const pipes: number[] = [];
+		for (let p = 0; p < headerLines[0].length; p++) {
+			if (headerLines[0][p] === '|') pipes.push(p);
+		}
+		if (pipes.length < 2) {
+			throw new Error('IPAC header must delimit at least one column');
+		}
+
+		const segment = (line: string | undefined, col: number) =>
+			(line ?? '').slice(pipes[col] + 1, pipes[col + 1]).trim();
+
+		const columns: DeclaredColumn[] = [];
+		for (let col = 0; col < pipes.length - 1; col++) {
+			columns.push({
+				name: segment(headerLines[0], col),
+				datatype: segment(headerLines[1], col) || undefined,
+				unit: segment(headerLines[2], col) || undefined,
+				nullValue: headerLines[3] ? segment(headerLines[3], col) : 'null',
+			});
+		}
+
+		const rows: string[][] = [];
+		for (; i < lines.length; i++) {
+			const line = lines[i];
+			if (line.trim() === '' || line.startsWith('\\')) continue;
+			rows.push(
+				columns.map((column, col) => {
+					const value = segment(line, col);
+					return value === column.nullValue ? '' : value;
+				}),
+			);
+		}
+		return { columns, rows };
+	}
+
+	/**
+	 * Read VOTable FIELD declarations and TABLEDATA rows
+	 */
+	private static readVOTable(content: string): ParsedTable {
+		if (!content || content.trim().length === 0) {
+			throw new Error('Table content is empty');
+		}
+		const tableStart = content.search(/<TABLE\b/);
+		if (tableStart === -1) throw new Error('No TABLE element found');
+		const tableEnd = content.indexOf('</TABLE>', tableStart);
+		const table = content.slice(
+			tableStart,
+			tableEnd === -1 ? undefined : tableEnd,
+		);
+		if (tableEnd !== -1 && /<TABLE\b/.test(content.slice(tableEnd))) {
+			console.warn(
+				'VOTable contains several tables; only the first is imported',
+			);
+		}
+
+		const columns: DeclaredColumn[] = [];
+		const fieldTag = /<FIELD\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+		let match: RegExpExecArray | null;
+		while ((match = fieldTag.exec(table))) {
+			const attrs = this.readAttributes(match[1]);
+			let inner = '';
+			if (match[2] !== '/') {
+				const close = table.indexOf('</FIELD>', fieldTag.lastIndex);
+				if (close !== -1) {
+					inner = table.slice(fieldTag.lastIndex, close);
+					fieldTag.lastIndex = close + '</FIELD>'.length;
+				}
+			}
+			const description = /<DESCRIPTION>([\s\S]*?)<\/DESCRIPTION>/.exec(inner);
+			const values = /<VALUES\b((?:[^>"']|"[^"]*"|'[^']*')*?)\/?>/.exec(inner);
+			columns.push({
+				name: attrs.name ?? attrs.ID ?? `column_${columns.length + 1}`,
+				datatype: attrs.datatype,
+				unit: attrs.unit,
+				xtype: attrs.xtype,
+				description: description
+					? this.readText(description[1]).replace(/\s+/g, ' ')
+					: undefined,
+				nullValue: values ? this.readAttributes(values[1]).null : undefined,
+			});
+		}
+		if (columns.length === 0) throw new Error('No FIELD declarations found');
+
+		const dataStart = table.indexOf('<TABLEDATA>');
+		if (dataStart === -1) {
+			if (/<(BINARY2?|FITS)\b/.test(table)) {
+				throw new Error(
+					'Only TABLEDATA serialization is supported; re-export the table as TABLEDATA or CSV',
+				);
+			}
+			throw new Error('No TABLEDATA element found');
+		}
+		const dataEnd = table.indexOf('</TABLEDATA>', dataStart);
+		const data = table.slice(dataStart, dataEnd === -1 ? undefined : dataEnd);
+
+		const rows: string[][] = [];
+		const rowTag = /<TR\b[^>]*>([\s\S]*?)<\/TR>/g;
+		const cellTag = /<TD\b[^>]*?(?:\/>|>([\s\S]*?)<\/TD>)/g;
+		while ((match = rowTag.exec(data))) {
+			const cells: string[] = [];
+			let cell: RegExpExecArray | null;
+			cellTag.lastIndex = 0;
+			while ((cell = cellTag.exec(match[1]))) {
+				const column = columns[cells.length];
+				const value = this.readText(cell[1] ?? '');
+				cells.push(this.isVOTableNull(value, column) ? '' : value);
+			}
+			// Pad or truncate so every row matches the declared columns
+			while (cells.length < columns.length) cells.push('');
+			rows.push(cells.slice(0, columns.length));
+		}
+		return { columns, rows };
+	}
+
+	private static isVOTableNull(
+		value: string,
+		column: DeclaredColumn | undefined,
+	): boolean {
+		if (value === '' || !column) return value === '';
+		if (column.nullValue !== undefined && value === column.nullValue) {
+			return true;
+		}
+		// NaN is the VOTable null for floating point columns
+		const type = column.datatype?.toLowerCase();
+		return (type === 'float' || type === 'double') && value === 'NaN';
+	}
+
+	private static readAttributes(source: string): Record<string, string> {
+		const attrs: Record<string, string> = {};
+		const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+		let match: RegExpExecArray | null;
+		while ((match = attrPattern.exec(source))) {
+			attrs[match[1]] = this.decodeEntities(match[2] ?? match[3] ?? '');
+		}
+		return attrs;
+	}
+
+	/**
+	 * Text content of an element: CDATA kept verbatim, entities decoded
+	 */
+	private static readText(source: string): string {
+		let text = '';
+		const cdata = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+		let last = 0;
+		let match: RegExpExecArray | null;
+		while ((match = cdata.exec(source))) {
+			text += this.decodeEntities(source.slice(last, match.index));
+			text += match[1];
+			last = cdata.lastIndex;
+		}
+		text += this.decodeEntities(source.slice(last));
+		return text.trim();
+	}
+
+	private static decodeEntities(source: string): string {
+		return source.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+			if (code[0] === '#') {
+				const point =
+					code[1] === 'x' || code[1] === 'X'
+						? parseInt(code.slice(2), 16)
+						: parseInt(code.slice(1), 10);
+				return isNaN(point) ? entity : String.fromCodePoint(point);
+			}
+			return XML_ENTITIES[code] ?? entity;
+		});
+	}
+
+	/**
+	 * Map a declared IPAC / VOTable datatype onto the classroom column types.
+	 * Character columns still need the data to decide categorical vs text.
+	 */
+	private static declaredColumnType(
+		column: DeclaredColumn,
+		stats: ColumnStatsAccumulator,
+	): ColumnType {
+		const type = (column.datatype ?? '').toLowerCase();
+		const xtype = (column.xtype ?? '').toLowerCase();
+		if (!type) return stats.inferType();
+
+		if (type === 'boolean') return 'boolean';
+		if (type === 'date' || /timestamp|date/.test(xtype)) return 'datetime';
+		if (
+			/^(int|integer|long|short|bit|unsignedbyte|float|double|real)$/.test(
+				type,
+			) ||
+			/^[ilrf]$/.test(type) ||
+			type === 'd'
+		) {
+			return 'numeric';
+		}
+		if (/^(char|unicodechar|c)/.test(type)) {
+			return stats.looksCategorical() ? 'categorical' : 'text';
+		}
+		// Unknown or complex types are kept as free text
+		return 'text';
+	}
+
+	private static buildResult(
+		table: ParsedTable,
+		filename: string,
+		format: 'ipac' | 'votable',
+		options: ArchiveParseOptions,
+	): {
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	} {
+		const header = table.columns.map((column) => column.name);
+		if (header.some((name) => !name)) {
+			throw new Error('Table header contains empty column names');
+		}
+		if (table.rows.length === 0) {
+			throw new Error('Table must contain at least one data row');
+		}
+
+		const accumulators = header.map(
+			(name, index) => new ColumnStatsAccumulator(name, index),
+		);
+		for (const row of table.rows) {
+			for (const acc of accumulators) acc.push(row[acc.index]);
+		}
+
+		const columnMeta = accumulators.map((acc, index) => {
+			const column = table.columns[index];
+			const meta = acc.toMeta(this.declaredColumnType(column, acc));
+			if (column.datatype) meta.declaredType = column.datatype;
+			if (column.unit) meta.unit = column.unit;
+			if (column.description) meta.description = column.description;
+			return meta;
+		});
+
+		const rows = options.maxRows
+			? table.rows.slice(0, options.maxRows)
+			: table.rows;
+		CSVParser.validateForML(columnMeta, rows);
+
+		// Downstream training re-reads originalCSV, so keep every row as CSV
+		const rawDataset: RawDataset = {
+			name: filename,
+			originalCSV: serializeCSV(header, table.rows),
+			rows,
+			header,
+		};
+		const parseStats: ParseStats = {
+			delimiter: format === 'ipac' ? '|' : '',
+			format,
+			inconsistentRowsDropped: 0,
+			totalRowsBefore: table.rows.length,
+			totalRowsAfter: table.rows.length,
+			rowsRetained: rows.length,
+		};
+
+		console.log(
+			`Parsed ${format} table ${filename}: ${table.rows.length} rows, ${header.length} columns`,
+		);
+		return { rawDataset, columnMeta, parseStats };
+	}
+}
@@ -0,0 +1,133 @@
+// Incremental column statistics for Exchron ML ingestion
+// Lets parsers infer InferredColumnMeta one value at a time instead of
+// materializing every column as an array (needed for streamed catalogs).
+
+import { InferredColumnMeta, ColumnType } from '../../../types/ml';
+
+const BOOLEAN_VALUES = new Set(['true', 'false', '1', '0', 'yes', 'no']);
+const DATE_PATTERN = /\d{4}|\d{1,2}\/\d{1,2}|\d{1,2}-\d{1,2}/;
+
+/**
+ * Running statistics for a single column.
+ * Type rules (boolean > numeric > datetime > categorical > text) are shared by
+ * batch and streaming parses so both produce identical metadata.
+ */
+export class ColumnStatsAccumulator {
+	readonly name: string;
+	readonly index: number;
+
+	private count = 0; // non-missing values
+	private missing = 0;
+	private allBoolean = true;
+	private finiteNumericCount = 0;
+	private dateCount = 0;
+
+	// Welford running moments over parseable numeric values
+	private numericSeen = 0;
+	private min = Infinity;
+	private max = -Infinity;
+	private mean = 0;
+	private m2 = 0;
+
+	// Unique values are capped so high-cardinality text columns stay bounded
+	private uniques = new Set<string>();
+	private uniqueOverflow = false;
+	private readonly uniqueCap: number;
+
+	constructor(name: string, index: number, uniqueCap: number = 1000) {
+		this.name = name;
+		this.index = index;
+		this.uniqueCap = uniqueCap;
+	}
+
+	/**
+	 * Add one raw cell value (undefined / blank counts as missing)
+	 */
+	push(raw: string | undefined): void {
+		const value = raw ?? '';
+		if (value.trim() === '') {
+			this.missing++;
+			return;
+		}
+		this.count++;
+
+		if (this.allBoolean && !BOOLEAN_VALUES.has(value.toLowerCase())) {
+			this.allBoolean = false;
+		}
+
+		const num = parseFloat(value);
+		if (!isNaN(num)) {
+			if (isFinite(num)) this.finiteNumericCount++;
+			this.numericSeen++;
+			if (num < this.min) this.min = num;
+			if (num > this.max) this.max = num;
+			const delta = num - this.mean;
+			this.mean += delta / this.numericSeen;
+			this.m2 += delta * (num - this.mean);
+		}
+
+		if (DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())) {
+			this.dateCount++;
+		}
+
+		if (!this.uniqueOverflow) {
+			this.uniques.add(value);
+			if (this.uniques.size > this.uniqueCap) this.uniqueOverflow = true;
+		}
+	}
+
+	get missingCount(): number {
+		return this.missing;
+	}
+
+	get valueCount(): number {
+		return this.count;
+	}
+
+	/**
+	 * Infer the column type from the values seen so far
+	 */
+	inferType(): ColumnType {
+		if (this.count === 0) return 'text';
+		if (this.allBoolean) return 'boolean';
+		if (this.finiteNumericCount / this.count >= 0.8) return 'numeric';
+		if (this.dateCount / this.count >= 0.8) return 'datetime';
+		return this.looksCategorical() ? 'categorical' : 'text';
+	}
+
+	/**
+	 * Few enough distinct values (relative to the row count) to be categorical
+	 */
+	looksCategorical(): boolean {
+		return (
+			!this.uniqueOverflow &&
+			this.uniques.size <= 30 &&
+			this.uniques.size < this.count * 0.5
+		);
+	}
+
+	/**
+	 * Snapshot the accumulated statistics as column metadata
+	 * @param inferredType - Type to report instead of inferring one (e.g. a
+	 * type declared by the file format)
+	 */
+	toMeta(inferredType: ColumnType = this.inferType()): InferredColumnMeta {
+		const meta: InferredColumnMeta = {
+			name: this.name,
+			index: this.index,
+			inferredType,
+			missingCount: this.missing,
+		};
+
+		if (meta.inferredType === 'numeric' && this.numericSeen > 0) {
+			meta.min = this.min;
+			meta.max = this.max;
+			meta.mean = this.mean;
+			meta.std = Math.sqrt(this.m2 / this.numericSeen);
+		} else if (meta.inferredType === 'categorical') {
+			meta.uniqueValues = Array.from(this.uniques).slice(0, 50); // Limit for performance
+		}
+
+		return meta;
+	}
+}
@@ -0,0 +1,468 @@
+// Parquet and Arrow IPC importers for Exchron ML
+// Column types come from the file schema instead of string inference, and the
+// decoded column vectors can be packed straight into a PreparedDataset.
+
+import { DataType, tableFromIPC } from 'apache-arrow';
+import type { Field } from 'apache-arrow';
+import { parquetMetadata, parquetReadObjects, parquetSchema } from 'hyparquet';
+import type { SchemaElement } from 'hyparquet';
+import {
+	RawDataset,
+	InferredColumnMeta,
+	ColumnType,
+	ParseStats,
+	PreparedDataset,
+} from '../../../types/ml';
+import { ColumnStatsAccumulator } from './columnStats';
+import { CSVParser } from './csv';
+import { formatCSVRecord } from './tokenizer.mjs';
+
+export type ColumnarFormat = 'parquet' | 'arrow';
+
+export interface ColumnarParseOptions {
+	maxRows?: number; // rows retained in RawDataset.rows (stats cover all rows)
+}
+
+/**
+ * One decoded column. Numeric columns are kept as Float64Array (NaN = null)
+ * so they can be packed into a feature matrix without string round trips.
+ */
+export interface ColumnarColumn {
+	name: string;
+	declaredType: string; // schema type as written in the file, e.g. DOUBLE, Utf8
+	type: ColumnType;
+	values: Float64Array | (string | null)[];
+}
+
+export interface ColumnarTable {
+	name: string;
+	format: ColumnarFormat;
+	numRows: number;
+	columns: ColumnarColumn[];
+}
+
+const PARQUET_EXTENSIONS = ['.parquet', '.pq'];
+const ARROW_EXTENSIONS = ['.arrow', '.arrows', '.feather', '.ipc'];
+
+// Numeric targets with at most this many distinct values are treated as classes
+const MAX_NUMERIC_CLASS_LABELS = 10;
+
+export class ColumnarTableParser {
+	/**
+	 * Pick the columnar format from the file extension
+	 */
+	static detectFormat(filename: string): ColumnarFormat | null {
+		const lower = filename.toLowerCase();
+		if (PARQUET_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'parquet';
+		if (ARROW_EXTENSIONS.some((ext) => lower.endsWith(ext))) return 'arrow';
+		return null;
+	}
+
+	/**
+	 * Decode a Parquet or Arrow IPC file, dispatching on the file extension
+	 */
+	static async parseColumnarFile(
+		buffer: ArrayBuffer,
+		filename: string,
+		options: ColumnarParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+		table: ColumnarTable;
+	}> {
+		const format = this.detectFormat(filename);
+		if (format === 'parquet') {
+			return this.parseParquet(buffer, filename, options);
+		}
+		if (format === 'arrow') return this.parseArrow(buffer, filename, options);
+		throw new Error(
+			`Unsupported columnar format for ${filename} (expected .parquet or .arrow)`,
+		);
+	}
+
+	/**
+	 * Decode a Parquet file (flat schemas; nested columns become JSON text)
+	 * @param buffer - Raw file bytes
+	 * @param filename - Name of the file for reference
+	 * @param options - Row retention options
+	 */
+	static async parseParquet(
+		buffer: ArrayBuffer,
+		filename: string = 'dataset.parquet',
+		options: ColumnarParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+		table: ColumnarTable;
+	}> {
+		try {
+			const metadata = parquetMetadata(buffer);
+			const fields = parquetSchema(metadata).children.map(
+				(child) => child.element,
+			);
+			const records = await parquetReadObjects({ file: buffer, metadata });
+
+			const columns = fields.map((element) => {
+				const type = this.parquetColumnType(element);
+				const raw = records.map((record) => record[element.name]);
+				return this.decodeColumn(
+					element.name,
+					this.parquetDeclaredType(element),
+					type,
+					raw,
+				);
+			});
+			const table: ColumnarTable = {
+				name: filename,
+				format: 'parquet',
+				numRows: records.length,
+				columns,
+			};
+			return { ...this.buildResult(table, options), table };
+		} catch (error) {
+			throw new Error(
+				`Failed to parse Parquet file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+	}
+
+	/**
+	 * Decode an Arrow IPC file or stream (Feather v2)
+	 * @param buffer - Raw file bytes
+	 * @param filename - Name of the file for reference
+	 * @param options - Row retention options
+	 */
+	static async parseArrow(
+		buffer: ArrayBuffer,
+		filename: string = 'dataset.arrow',
+		options: ColumnarParseOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+		table: ColumnarTable;
+	}> {
+		try {
+			const arrowTable = tableFromIPC(new Uint8Array(buffer));
+			const columns = arrowTable.schema.fields.map((field, index) => {
+				const vector = arrowTable.getChildAt(index);
+				const raw: unknown[] = new Array(arrowTable.numRows);
+				for (let r = 0; r < arrowTable.numRows; r++) raw[r] = vector?.get(r);
+				return this.decodeColumn(
+					field.name,
+					String(field.type),
+					this.arrowColumnType(field),
+					raw,
+					DataType.isDecimal(field.type) ? field.type.scale : 0,
+				);
+			});
+			const table: ColumnarTable = {
+				name: filename,
+				format: 'arrow',
+				numRows: arrowTable.numRows,
+				columns,
+			};
+			return { ...this.buildResult(table, options), table };
+		} catch (error) {
+			throw new Error(
+				`Failed to parse Arrow file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+	}
+
+	/**
+	 * Pack decoded columns into a PreparedDataset without reparsing strings.
+	 * Missing numeric values are mean-imputed; categorical/boolean features are
+	 * label encoded (missing -> -1). Rows with a missing target are dropped.
+	 */
+	static toPreparedDataset(
+		table: ColumnarTable,
+		targetColumn: string,
+		featureNames: string[],
+	): PreparedDataset {
+		const byName = new Map(
+			table.columns.map((column) => [column.name, column]),
+		);
+		const target = byName.get(targetColumn);
+		if (!target) {
+			throw new Error(`Target column "${targetColumn}" not found`);
+		}
+		const features = featureNames.map((name) => {
+			const column = byName.get(name);
+			if (!column) throw new Error(`Feature column "${name}" not found`);
+			return column;
+		});
+
+		const encodingMap: Record<string, string[]> = {};
+
+		// Target: regression for continuous numeric columns, class indices otherwise
+		let targetValues: number[];
+		let targetType: PreparedDataset['targetType'];
+		const numericTarget =
+			target.values instanceof Float64Array ? target.values : null;
+		const distinctNumeric = numericTarget
+			? new Set(Array.from(numericTarget).filter((v) => !isNaN(v)))
+			: null;
+		if (
+			numericTarget &&
+			distinctNumeric &&
+			distinctNumeric.size > MAX_NUMERIC_CLASS_LABELS
+		) {
+			targetValues = Array.from(numericTarget);
+			targetType = 'regression';
+		} else {
+			const labels = this.columnStrings(target);
+			const classes = Array.from(
+				new Set(labels.filter((v): v is string => v !== null)),
+			).sort();
+			const classIndex = new Map(classes.map((c, i) => [c, i]));
+			targetValues = labels.map((v) =>
+				v === null ? NaN : (classIndex.get(v) as number),
+			);
+			targetType = classes.length <= 2 ? 'binary' : 'multiclass';
+			encodingMap[targetColumn] = classes;
+		}
+
+		const keep: number[] = [];
+		for (let r = 0; r < table.numRows; r++) {
+			if (!isNaN(targetValues[r])) keep.push(r);
+		}
+
+		const cols = features.length;
+		const matrix = new Float32Array(keep.length * cols);
+		features.forEach((column, c) => {
+			if (column.values instanceof Float64Array) {
+				const values = column.values;
+				let sum = 0;
+				let count = 0;
+				for (const r of keep) {
+					if (!isNaN(values[r])) {
+						sum += values[r];
+						count++;
+					}
+				}
+				const mean = count > 0 ? sum / count : 0;
+				keep.forEach((r, i) => {
+					matrix[i * cols + c] = isNaN(values[r]) ? mean : values[r];
+				});
+				return;
+			}
+			const cells = this.columnStrings(column);
+			const categories = Array.from(
+				new Set(cells.filter((v): v is string => v !== null)),
+			).sort();
+			const categoryIndex = new Map(categories.map((v, i) => [v, i]));
+			keep.forEach((r, i) => {
+				const cell = cells[r];
+				matrix[i * cols + c] =
+					cell === null ? -1 : (categoryIndex.get(cell) as number);
+			});
+			encodingMap[column.name] = categories;
+		});
+
+		return {
+			features: matrix,
+			featureMatrixShape: { rows: keep.length, cols },
+			featureNames: [...featureNames],
+			target: Float32Array.from(keep, (r) => targetValues[r]),
+			targetType,
+			encodingMap,
+		};
+	}
+
+	/**
+	 * Map a Parquet schema element onto the classroom column types
+	 */
+	private static parquetColumnType(element: SchemaElement): ColumnType {
+		if (element.num_children) return 'text'; // nested group
+		const logical = element.logical_type?.type;
+		const converted = element.converted_type;
+		if (
+			logical === 'DATE' ||
+			logical === 'TIMESTAMP' ||
+			logical === 'TIME' ||
+			converted === 'DATE' ||
+			converted?.startsWith('TIMESTAMP') ||
+			converted?.startsWith('TIME_') ||
+			element.type === 'INT96'
+		) {
+			return 'datetime';
+		}
+		if (
+			logical === 'DECIMAL' ||
+			logical === 'FLOAT16' ||
+			converted === 'DECIMAL'
+		) {
+			return 'numeric';
+		}
+		switch (element.type) {
+			case 'BOOLEAN':
+				return 'boolean';
+			case 'INT32':
+			case 'INT64':
+			case 'FLOAT':
+			case 'DOUBLE':
+				return 'numeric';
+			case 'BYTE_ARRAY':
+			case 'FIXED_LEN_BYTE_ARRAY':
+				return logical === 'STRING' ||
+					logical === 'ENUM' ||
+					converted === 'UTF8' ||
+					converted === 'ENUM'
+					? 'categorical'
+					: 'text';
+			default:
+				return 'text';
+		}
+	}
+
+	private static parquetDeclaredType(element: SchemaElement): string {
+		if (element.num_children) return 'GROUP';
+		return (
+			element.logical_type?.type ??
+			element.converted_type ??
+			element.type ??
+			'UNKNOWN'
+		);
+	}
+
+	/**
+	 * Map an Arrow field onto the classroom column types
+	 */
+	private static arrowColumnType(field: Field): ColumnType {
+		const type = field.type;
+		if (DataType.isBool(type)) return 'boolean';
+		if (
+			DataType.isInt(type) ||
+			DataType.isFloat(type) ||
+			DataType.isDecimal(type)
+		) {
+			return 'numeric';
+		}
+		if (
+			DataType.isDate(type) ||
+			DataType.isTimestamp(type) ||
+			DataType.isTime(type)
+		) {
+			return 'datetime';
+		}
+		if (DataType.isDictionary(type)) return 'categorical';
+		if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) {
+			return 'categorical';
+		}
+		return 'text';
+	}
+
+	/**
+	 * Normalize raw decoded values for one column.
+	 * String-typed columns marked 'categorical' are settled as categorical or
+	 * text later, once their cardinality is known.
+	 */
+	private static decodeColumn(
+		name: string,
+		declaredType: string,
+		type: ColumnType,
+		raw: unknown[],
+		decimalScale: number = 0,
+	): ColumnarColumn {
+		if (type === 'numeric') {
+			const values = new Float64Array(raw.length);
+			for (let i = 0; i < raw.length; i++) {
+				const v = raw[i];
+				if (v === null || v === undefined) values[i] = NaN;
+				else if (typeof v === 'bigint')
+					values[i] = Number(v) / 10 ** decimalScale;
+				else if (typeof v === 'number') values[i] = v;
+				else values[i] = Number(v) / 10 ** decimalScale; // Arrow decimals
+			}
+			return { name, declaredType, type, values };
+		}
+
+		const values = raw.map((v): string | null => {
+			if (v === null || v === undefined) return null;
+			if (type === 'datetime') {
+				const date = v instanceof Date ? v : new Date(Number(v));
+				return isNaN(date.getTime()) ? String(v) : date.toISOString();
+			}
+			if (typeof v === 'string') return v;
+			if (typeof v === 'boolean') return v ? 'true' : 'false';
+			if (typeof v === 'bigint') return v.toString();
+			if (v instanceof Uint8Array) return new TextDecoder().decode(v);
+			return JSON.stringify(v, (_, x) =>
+				typeof x === 'bigint' ? x.toString() : x,
+			);
+		});
+		return { name, declaredType, type, values };
+	}
+
+	private static columnStrings(column: ColumnarColumn): (string | null)[] {
+		if (!(column.values instanceof Float64Array)) return column.values;
+		return Array.from(column.values, (v) => (isNaN(v) ? null : String(v)));
+	}
+
+	private static buildResult(
+		table: ColumnarTable,
+		options: ColumnarParseOptions,
+	): {
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	} {
+		const header = table.columns.map((column) => column.name);
+		if (header.length === 0) throw new Error('File contains no columns');
+		if (table.numRows === 0) {
+			throw new Error('File must contain at least one data row');
+		}
+
+		const cells = table.columns.map((column) => this.columnStrings(column));
+		const accumulators = header.map(
+			(name, index) => new ColumnStatsAccumulator(name, index),
+		);
+		const retained = options.maxRows
+			? Math.min(options.maxRows, table.numRows)
+			: table.numRows;
+		const rows: string[][] = [];
+		// Downstream training re-reads originalCSV, so every row is serialized
+		const csvLines: string[] = [formatCSVRecord(header)];
+		for (let r = 0; r < table.numRows; r++) {
+			const row = cells.map((column) => column[r] ?? '');
+			for (const acc of accumulators) acc.push(row[acc.index]);
+			if (r < retained) rows.push(row);
+			csvLines.push(formatCSVRecord(row));
+		}
+
+		const columnMeta = accumulators.map((acc, index) => {
+			const column = table.columns[index];
+			// String columns still need the data to decide categorical vs text
+			if (column.type === 'categorical' && !acc.looksCategorical()) {
+				column.type = 'text';
+			}
+			const meta = acc.toMeta(column.type);
+			meta.declaredType = column.declaredType;
+			return meta;
+		});
+		CSVParser.validateForML(columnMeta, rows);
+
+		const rawDataset: RawDataset = {
+			name: table.name,
+			originalCSV: csvLines.join('\n') + '\n',
+			rows,
+			header,
+		};
+		const parseStats: ParseStats = {
+			delimiter: '',
+			format: table.format,
+			inconsistentRowsDropped: 0,
+			totalRowsBefore: table.numRows,
+			totalRowsAfter: table.numRows,
+			rowsRetained: rows.length,
+		};
+
+		console.log(
+			`Parsed ${table.format} file ${table.name}: ${table.numRows} rows, ${header.length} columns`,
+		);
+		return { rawDataset, columnMeta, parseStats };
+	}
+}
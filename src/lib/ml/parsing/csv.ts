@@ -7,6 +7,8 @@ import {
 	ColumnType,
 	ParseStats,
 } from '../../../types/ml';
+import { ColumnStatsAccumulator } from './columnStats';
+import { CSVTokenizer, tokenizeCSV } from './tokenizer.mjs';
 
 /**
  * Parse CSV file content and infer column types
@@ -20,6 +22,26 @@ export interface CSVParseOptions {
 	delimiters?: string[]; // delimiters to try for auto-detect
 }
 
+/**
+ * Progress snapshot emitted after each streamed chunk
+ */
+export interface CSVStreamProgress {
+	bytesRead: number;
+	totalBytes?: number;
+	chunkCount: number;
+	rowsParsed: number;
+}
+
+export interface CSVStreamOptions extends CSVParseOptions {
+	onProgress?: (progress: CSVStreamProgress) => void;
+	signal?: AbortSignal; // abort to cancel an in-flight parse
+	totalBytes?: number; // source size for progress (defaults to Blob.size)
+	retainOriginal?: boolean; // keep full text in originalCSV (default true)
+}
+
+// Lines buffered before the delimiter is chosen and tokenizing starts
+const DELIMITER_SAMPLE_LINES = 50;
+
 export class CSVParser {
 	/**
 	 * Parse CSV string into structured dataset with type inference
@@ -55,38 +77,10 @@ export class CSVParser {
 
 			const primaryDelimiters = options.delimiters || [',', ';', '\t', '|'];
 
-			// Track chosen delimiter
-			let chosenDelimiter = ',';
-			// Initial parse (comma default)
-			let lines = this.parseCSVLines(csvContent, chosenDelimiter);
-
-			// If auto-detect enabled and high inconsistency, try alternative delimiters
-			if (options.autoDetectDelimiter) {
-				const inconsistencyScore = this.calculateInconsistency(lines);
-				if (inconsistencyScore > 0.3) {
-					let bestLines = lines;
-					let bestScore = inconsistencyScore;
-					let chosen = ',';
-					for (const d of primaryDelimiters) {
-						const test = this.parseCSVLines(csvContent, d);
-						const score = this.calculateInconsistency(test);
-						if (score < bestScore && test.length > 1) {
-							bestLines = test;
-							bestScore = score;
-							chosen = d;
-						}
-					}
-					lines = bestLines;
-					if (bestScore < inconsistencyScore) {
-						console.info(
-							`Auto-detected delimiter '${chosen}' (inconsistency ${(
-								bestScore * 100
-							).toFixed(1)}%)`,
-						);
-						chosenDelimiter = chosen;
-					}
-				}
-			}
+			// Initial parse (comma default), optionally re-parsed with a better delimiter
+			const { delimiter: chosenDelimiter, lines } = options.autoDetectDelimiter
+				? this.detectDelimiter(csvContent, primaryDelimiters)
+				: { delimiter: ',', lines: this.parseCSVLines(csvContent, ',') };
 
 			if (lines.length === 0) {
 				throw new Error('CSV file contains no valid rows');
@@ -157,6 +151,204 @@ export class CSVParser {
 		}
 	}
 
+	/**
+	 * Parse a CSV stream chunk by chunk with incremental type inference.
+	 * Column statistics cover every row; only the first `maxRows` rows are
+	 * retained in the returned RawDataset.
+	 * @param source - File/Blob or byte stream (e.g. fetch Response.body)
+	 * @param filename - Name of the file for reference
+	 * @param options - Parse options plus progress/cancellation hooks
+	 */
+	static async parseCSVStream(
+		source: Blob | ReadableStream<Uint8Array>,
+		filename: string = 'dataset.csv',
+		options: CSVStreamOptions = {},
+	): Promise<{
+		rawDataset: RawDataset;
+		columnMeta: InferredColumnMeta[];
+		parseStats: ParseStats;
+	}> {
+		const isBlob = typeof Blob !== 'undefined' && source instanceof Blob;
+		const stream = isBlob
+			? (source as Blob).stream()
+			: (source as ReadableStream<Uint8Array>);
+		const totalBytes =
+			options.totalBytes ?? (isBlob ? (source as Blob).size : undefined);
+		const retainOriginal = options.retainOriginal ?? true;
+		const primaryDelimiters = options.delimiters || [',', ';', '\t', '|'];
+		const reader = stream.getReader();
+		const decoder = new TextDecoder('utf-8');
+
+		let bytesRead = 0;
+		let chunkCount = 0;
+		let originalParts: string[] = [];
+
+		let delimiter = ',';
+		let tokenizer: CSVTokenizer | null = null;
+		let sampleText = '';
+		let header: string[] | null = null;
+		let accumulators: ColumnStatsAccumulator[] = [];
+		const rows: string[][] = [];
+		let totalRowsBefore = 0;
+		let inconsistentRows = 0;
+		let inconsistentRowsDropped = 0;
+
+		const consumeRow = (fields: string[]) => {
+			totalRowsBefore++;
+			if (fields.length !== header!.length) {
+				inconsistentRows++;
+				if (inconsistentRows <= 3) {
+					console.warn(
+						`Row ${totalRowsBefore + 1} has ${fields.length} columns:`,
+						fields,
+					);
+				}
+				if (options.tolerant) {
+					inconsistentRowsDropped++;
+					return;
+				}
+			}
+			for (const acc of accumulators) acc.push(fields[acc.index]);
+			if (!options.maxRows || rows.length < options.maxRows) rows.push(fields);
+		};
+
+		const consumeRecords = (records: string[][]) => {
+			for (const fields of records) {
+				if (header) {
+					consumeRow(fields);
+					continue;
+				}
+				header = fields;
+				this.validateHeader(header);
+				accumulators = header.map(
+					(name, index) => new ColumnStatsAccumulator(name, index),
+				);
+			}
+		};
+
+		// The delimiter is chosen from a buffered sample before tokenizing starts
+		const startTokenizer = () => {
+			delimiter = options.autoDetectDelimiter
+				? this.detectDelimiter(sampleText, primaryDelimiters).delimiter
+				: ',';
+			tokenizer = new CSVTokenizer({ delimiter });
+			const buffered = sampleText;
+			sampleText = '';
+			consumeRecords(tokenizer.push(buffered));
+			return tokenizer;
+		};
+
+		const consumeText = (text: string) => {
+			if (tokenizer) {
+				consumeRecords(tokenizer.push(text));
+				return;
+			}
+			sampleText += text;
+			const sampleLines = sampleText.match(/\n/g)?.length ?? 0;
+			if (sampleLines >= DELIMITER_SAMPLE_LINES) startTokenizer();
+		};
+
+		try {
+			while (true) {
+				if (options.signal?.aborted) {
+					await reader.cancel();
+					throw new Error('CSV parsing cancelled');
+				}
+				const { done, value } = await reader.read();
+				if (done) break;
+
+				bytesRead += value.byteLength;
+				chunkCount++;
+				const text = decoder.decode(value, { stream: true });
+				if (retainOriginal) originalParts.push(text);
+				consumeText(text);
+
+				options.onProgress?.({
+					bytesRead,
+					totalBytes,
+					chunkCount,
+					rowsParsed: totalRowsBefore,
+				});
+				// Yield so the UI can paint progress between chunks
+				await new Promise((resolve) => setTimeout(resolve, 0));
+			}
+
+			const tail = decoder.decode();
+			if (retainOriginal && tail) originalParts.push(tail);
+			consumeText(tail);
+			const finalTokenizer = tokenizer ?? startTokenizer();
+			consumeRecords(finalTokenizer.flush());
+			if (finalTokenizer.unterminatedQuote) {
+				console.warn('CSV ended inside an unterminated quoted field');
+			}
+
+			if (!header) {
+				throw new Error('CSV file contains no valid rows');
+			}
+			if (totalRowsBefore === 0) {
+				throw new Error(
+					'CSV file must contain header and at least one data row',
+				);
+			}
+
+			// Same inconsistency policy as parseCSV
+			const ratio = inconsistentRows / totalRowsBefore;
+			if (options.tolerant) {
+				if (ratio > (options.maxInconsistencyRatio ?? 0.3)) {
+					throw new Error(
+						`Too many inconsistent rows even in tolerant mode (${inconsistentRows}/${totalRowsBefore}).`,
+					);
+				}
+			} else if (ratio > 0.1) {
+				throw new Error(
+					`Too many rows with inconsistent column count (${inconsistentRows}/${totalRowsBefore}). Please check CSV format.`,
+				);
+			}
+
+			const columnMeta = accumulators.map((acc) => acc.toMeta());
+			this.validateForML(columnMeta, rows);
+
+			const rawDataset: RawDataset = {
+				name: filename,
+				originalCSV: originalParts.join(''),
+				rows,
+				header,
+			};
+			originalParts = [];
+
+			const parseStats: ParseStats = {
+				delimiter,
+				inconsistentRowsDropped,
+				totalRowsBefore,
+				totalRowsAfter: totalRowsBefore - inconsistentRowsDropped,
+				bytesRead,
+				totalBytes,
+				chunkCount,
+				rowsRetained: rows.length,
+			};
+
+			if (options.maxRows && parseStats.totalRowsAfter > rows.length) {
+				console.log(
+					`Retained first ${rows.length} of ${parseStats.totalRowsAfter} rows (statistics cover all rows)`,
+				);
+			}
+
+			return { rawDataset, columnMeta, parseStats };
+		} catch (error) {
+			if (options.signal?.aborted) {
+				throw new Error('CSV parsing cancelled');
+			}
+			console.error('CSV stream parsing failed:', error);
+			throw new Error(
+				`Failed to parse CSV: ${
+					error instanceof Error ? error.message : 'Unknown error'
+				}`,
+			);
+		} finally {
+			reader.releaseLock();
+		}
+	}
+
 	/**
 	 * Validate header for common issues
 	 * @param header - Column headers array
@@ -251,7 +443,7 @@ export class CSVParser {
 	 * @param columnMeta - Inferred column metadata
 	 * @param rows - Data rows
 	 */
-	private static validateForML(
+	static validateForML(
 		columnMeta: InferredColumnMeta[],
 		rows: string[][],
 	): void {
@@ -350,53 +542,48 @@ export class CSVParser {
 	}
 
 	/**
-	 * Parse CSV lines handling quoted fields and embedded commas
+	 * Parse CSV records (RFC 4180: quoted fields, embedded delimiters/newlines,
+	 * BOM and '#' comment lines) using the shared tokenizer
 	 */
 	private static parseCSVLines(
 		csvContent: string,
 		delimiter: string = ',',
 	): string[][] {
-		const lines: string[][] = [];
-		const rows = csvContent.split('\n');
+		return tokenizeCSV(csvContent, { delimiter });
+	}
 
-		for (const row of rows) {
-			if (row.trim() === '') continue;
-
-			const fields: string[] = [];
-			let currentField = '';
-			let inQuotes = false;
-			let i = 0;
-
-			while (i < row.length) {
-				const char = row[i];
-
-				if (char === '"') {
-					if (inQuotes && row[i + 1] === '"') {
-						// Escaped quote
-						currentField += '"';
-						i += 2;
-					} else {
-						// Toggle quote state
-						inQuotes = !inQuotes;
-						i++;
-					}
-				} else if (char === delimiter && !inQuotes) {
-					// Field separator
-					fields.push(currentField.trim());
-					currentField = '';
-					i++;
-				} else {
-					currentField += char;
-					i++;
-				}
+	/**
+	 * Pick the delimiter producing the most consistent row lengths.
+	 * Comma is kept unless it leaves more than 30% of rows inconsistent.
+	 */
+	private static detectDelimiter(
+		content: string,
+		delimiters: string[],
+	): { delimiter: string; lines: string[][] } {
+		const lines = this.parseCSVLines(content, ',');
+		const inconsistencyScore = this.calculateInconsistency(lines);
+		if (inconsistencyScore <= 0.3) return { delimiter: ',', lines };
+
+		let bestLines = lines;
+		let bestScore = inconsistencyScore;
+		let chosen = ',';
+		for (const d of delimiters) {
+			const test = this.parseCSVLines(content, d);
+			const score = this.calculateInconsistency(test);
+			if (score < bestScore && test.length > 1) {
+				bestLines = test;
+				bestScore = score;
+				chosen = d;
 			}
-
-			// Add the last field
-			fields.push(currentField.trim());
-			lines.push(fields);
 		}
-
-		return lines;
+		if (bestScore < inconsistencyScore) {
+			console.info(
+				`Auto-detected delimiter '${chosen}' (inconsistency ${(
+					bestScore * 100
+				).toFixed(1)}%)`,
+			);
+		}
+		return { delimiter: chosen, lines: bestLines };
 	}
 
 	private static calculateInconsistency(lines: string[][]): number {
@@ -414,92 +601,13 @@ export class CSVParser {
 		header: string[],
 		rows: string[][],
 	): InferredColumnMeta[] {
-		const columnMeta: InferredColumnMeta[] = [];
-
-		for (let colIndex = 0; colIndex < header.length; colIndex++) {
-			const columnName = header[colIndex];
-			const values = rows
-				.map((row) => row[colIndex] || '')
-				.filter((v) => v.trim() !== '');
-
-			const meta: InferredColumnMeta = {
-				name: columnName,
-				index: colIndex,
-				inferredType: this.inferSingleColumnType(values),
-				missingCount: rows.length - values.length,
-			};
-
-			// Add type-specific metadata
-			if (meta.inferredType === 'numeric') {
-				const numericValues = values
-					.map((v) => parseFloat(v))
-					.filter((v) => !isNaN(v));
-				if (numericValues.length > 0) {
-					meta.min = Math.min(...numericValues);
-					meta.max = Math.max(...numericValues);
-					meta.mean =
-						numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
-					meta.std = Math.sqrt(
-						numericValues.reduce(
-							(acc, val) => acc + Math.pow(val - meta.mean!, 2),
-							0,
-						) / numericValues.length,
-					);
-				}
-			} else if (meta.inferredType === 'categorical') {
-				meta.uniqueValues = Array.from(new Set(values)).slice(0, 50); // Limit for performance
-			}
-
-			columnMeta.push(meta);
-		}
-
-		return columnMeta;
-	}
-
-	/**
-	 * Infer type for a single column based on its values
-	 */
-	private static inferSingleColumnType(values: string[]): ColumnType {
-		if (values.length === 0) return 'text';
-
-		// Boolean detection
-		const booleanValues = new Set(['true', 'false', '1', '0', 'yes', 'no']);
-		const lowercaseValues = values.map((v) => v.toLowerCase());
-		if (lowercaseValues.every((v) => booleanValues.has(v))) {
-			return 'boolean';
-		}
-
-		// Numeric detection
-		const numericCount = values.filter((v) => {
-			const num = parseFloat(v);
-			return !isNaN(num) && isFinite(num);
-		}).length;
-
-		if (numericCount / values.length >= 0.8) {
-			return 'numeric';
-		}
-
-		// Datetime detection (basic patterns)
-		const dateCount = values.filter((v) => {
-			const date = new Date(v);
-			return (
-				!isNaN(date.getTime()) &&
-				v.match(/\d{4}|\d{1,2}\/\d{1,2}|\d{1,2}-\d{1,2}/)
-			);
-		}).length;
-
-		if (dateCount / values.length >= 0.8) {
-			return 'datetime';
-		}
-
-		// Categorical detection (reasonable number of unique values)
-		const uniqueValues = new Set(values);
-		if (uniqueValues.size <= 30 && uniqueValues.size < values.length * 0.5) {
-			return 'categorical';
+		const accumulators = header.map(
+			(name, index) => new ColumnStatsAccumulator(name, index),
+		);
+		for (const row of rows) {
+			for (const acc of accumulators) acc.push(row[acc.index]);
 		}
-
-		// Default to text
-		return 'text';
+		return accumulators.map((acc) => acc.toMeta());
 	}
 
 	/**
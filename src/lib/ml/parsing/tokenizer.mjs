@@ -0,0 +1,268 @@
+// RFC 4180 CSV tokenizer shared by every CSV code path in Exchron
+// Plain ESM so Node scripts (scripts/*.mjs) can import it without a build step.
+//
+// Handles quoted fields, doubled quotes, CRLF / LF / CR line endings,
+// newlines embedded in quoted fields, a leading UTF-8 BOM and '#' comment
+// lines such as the header block emitted by the NASA Exoplanet Archive.
+
+/**
+ * @typedef {Object} CSVTokenizerOptions
+ * @property {string} [delimiter] Field delimiter (default ',')
+ * @property {string | null} [commentPrefix] Records starting with this character are skipped (default '#', null disables)
+ * @property {boolean} [trim] Trim whitespace around unquoted fields (default true)
+ */
+
+const FIELD_START = 0;
+const UNQUOTED = 1;
+const QUOTED = 2;
+const QUOTE_IN_QUOTED = 3; // saw '"' inside a quoted field; next char decides
+const AFTER_QUOTED = 4;
+const COMMENT = 5;
+
+/**
+ * Incremental tokenizer: feed text chunks with push(), then call flush().
+ * Chunk boundaries may fall anywhere, including inside quoted fields or
+ * between the CR and LF of a line ending.
+ */
+export class CSVTokenizer {
+	/** @param {CSVTokenizerOptions} [options] */
+	constructor(options = {}) {
+		this.delimiter = options.delimiter ?? ',';
+		this.commentPrefix =
+			options.commentPrefix === undefined ? '#' : options.commentPrefix;
+		this.trim = options.trim ?? true;
+
+		this.state = FIELD_START;
+		this.field = '';
+		/** @type {string[]} */
+		this.record = [];
+		this.fieldQuoted = false;
+		this.recordQuoted = false;
+		this.recordStart = true;
+		this.pendingCR = false;
+		this.sawFirstChunk = false;
+		/** Number of comment lines skipped so far */
+		this.commentLines = 0;
+		/** True if input ended inside an unterminated quoted field */
+		this.unterminatedQuote = false;
+	}
+
+	/**
+	 * Tokenize a chunk of text
+	 * @param {string} chunk
+	 * @returns {string[][]} records completed by this chunk
+	 */
+	push(chunk) {
+		/** @type {string[][]} */
+		const out = [];
+		let text = chunk;
+		if (!this.sawFirstChunk && text.length > 0) {
+			this.sawFirstChunk = true;
+			if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+		}
+
+		for (let i = 0; i < text.length; i++) {
+			const c = text[i];
+
+			if (this.pendingCR) {
+				this.pendingCR = false;
+				if (c === '\n') continue; // second half of CRLF
+			}
+
+			switch (this.state) {
+				case COMMENT:
+					if (c === '\n' || c === '\r') {
+						this.pendingCR = c === '\r';
+						this.state = FIELD_START;
+						this.recordStart = true;
+					}
+					continue;
+
+				case QUOTED:
+					if (c === '"') this.state = QUOTE_IN_QUOTED;
+					else this.field += c;
+					continue;
+
+				case QUOTE_IN_QUOTED:
+					if (c === '"') {
+						// Doubled quote -> literal quote
+						this.field += '"';
+						this.state = QUOTED;
+						continue;
+					}
+					this.state = AFTER_QUOTED;
+					break; // handle c as the first char after the closing quote
+
+				default:
+					break;
+			}
+
+			if (c === '\n' || c === '\r') {
+				this.pendingCR = c === '\r';
+				this.endRecord(out);
+				continue;
+			}
+			if (c === this.delimiter) {
+				this.endField();
+				continue;
+			}
+
+			if (this.state === FIELD_START) {
+				if (
+					this.recordStart &&
+					this.commentPrefix &&
+					c === this.commentPrefix &&
+					this.record.length === 0 &&
+					this.field === ''
+				) {
+					this.state = COMMENT;
+					this.commentLines++;
+					continue;
+				}
+				this.recordStart = false;
+				if (c === '"') {
+					// Leading whitespace before an opening quote is dropped
+					this.field = '';
+					this.fieldQuoted = true;
+					this.recordQuoted = true;
+					this.state = QUOTED;
+					continue;
+				}
+				this.field += c;
+				if (c !== ' ' && c !== '\t') this.state = UNQUOTED;
+				continue;
+			}
+
+			if (this.state === AFTER_QUOTED) {
+				// Whitespace after a closing quote is ignored; anything else is kept
+				// verbatim (lenient handling of e.g. "abc"def)
+				if (c !== ' ' && c !== '\t') this.field += c;
+				continue;
+			}
+
+			// UNQUOTED
+			this.field += c;
+		}
+
+		return out;
+	}
+
+	/**
+	 * Finish tokenizing and return any trailing record
+	 * @returns {string[][]}
+	 */
+	flush() {
+		/** @type {string[][]} */
+		const out = [];
+		if (this.state === QUOTED) this.unterminatedQuote = true;
+		if (this.state === COMMENT) {
+			this.state = FIELD_START;
+		} else if (
+			this.state !== FIELD_START ||
+			this.record.length > 0 ||
+			this.field !== ''
+		) {
+			this.endRecord(out);
+		}
+		this.pendingCR = false;
+		this.recordStart = true;
+		return out;
+	}
+
+	/** @private */
+	endField() {
+		const value =
+			this.fieldQuoted || !this.trim ? this.field : this.field.trim();
+		this.record.push(value);
+		this.field = '';
+		this.fieldQuoted = false;
+		this.state = FIELD_START;
+	}
+
+	/**
+	 * @private
+	 * @param {string[][]} out
+	 */
+	endRecord(out) {
+		this.endField();
+		const blank =
+			!this.recordQuoted &&
+			this.record.length === 1 &&
+			this.record[0].trim() === '';
+		if (!blank) out.push(this.record);
+		this.record = [];
+		this.recordQuoted = false;
+		this.recordStart = true;
+	}
+}
+
+/**
+ * Tokenize a complete CSV document into records (blank lines are skipped)
+ * @param {string} text
+ * @param {CSVTokenizerOptions} [options]
+ * @returns {string[][]}
+ */
+export function tokenizeCSV(text, options) {
+	const tokenizer = new CSVTokenizer(options);
+	const records = tokenizer.push(text);
+	for (const record of tokenizer.flush()) records.push(record);
+	return records;
+}
+
+/**
+ * Tokenize a CSV document and split off the header record
+ * @param {string} text
+ * @param {CSVTokenizerOptions} [options]
+ * @returns {{ header: string[]; rows: string[][] }}
+ */
+export function parseCSVTable(text, options) {
+	const records = tokenizeCSV(text, options);
+	return { header: records[0] ?? [], rows: records.slice(1) };
+}
+
+/**
+ * Quote a single field if it contains a delimiter, quote or line break
+ * @param {string} value
+ * @param {string} [delimiter]
+ * @returns {string}
+ */
+export function formatCSVField(value, delimiter = ',') {
+	if (
+		value.includes(delimiter) ||
+		value.includes('"') ||
+		value.includes('\n') ||
+		value.includes('\r') ||
+		value.startsWith('#')
+	) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
+
+/**
+ * Serialize one record as a CSV line (without the line break)
+ * @param {string[]} record
+ * @param {string} [delimiter]
+ * @returns {string}
+ */
+export function formatCSVRecord(record, delimiter = ',') {
+	// A lone empty field would otherwise read back as a skipped blank line
+	if (record.length === 1 && record[0] === '') return '""';
+	return record
+		.map((field) => formatCSVField(field, delimiter))
+		.join(delimiter);
+}
+
+/**
+ * Serialize a header and rows back to RFC 4180 CSV (the inverse of parseCSVTable)
+ * @param {string[]} header
+ * @param {string[][]} rows
+ * @param {string} [delimiter]
+ * @returns {string}
+ */
+export function serializeCSV(header, rows, delimiter = ',') {
+	const lines = [header, ...rows].map((record) =>
+		formatCSVRecord(record, delimiter),
+	);
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,231 @@
+// Malformed and edge-case input for the shared CSV tokenizer (node --test)
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+	CSVTokenizer,
+	parseCSVTable,
+	serializeCSV,
+	tokenizeCSV,
+} from './tokenizer.mjs';
+
+// Feed chunks one after another, as the streaming readers do
+const tokenizeChunks = (chunks, options) => {
+	const tokenizer = new CSVTokenizer(options);
+	const records = [];
+	for (const chunk of chunks) records.push(...tokenizer.push(chunk));
+	records.push(...tokenizer.flush());
+	return { records, tokenizer };
+};
+
+describe('quoting', () => {
+	test('quoted fields keep delimiters and surrounding whitespace', () => {
+		assert.deepEqual(tokenizeCSV('a,"b, c"," d "\n'), [['a', 'b, c', ' d ']]);
+	});
+
+	test('doubled quotes become one literal quote', () => {
+		assert.deepEqual(tokenizeCSV('"say ""hi""",""""\n'), [['say "hi"', '"']]);
+	});
+
+	test('empty quoted field is an empty value', () => {
+		assert.deepEqual(tokenizeCSV('a,"",c'), [['a', '', 'c']]);
+	});
+
+	test('a lone quoted empty field is kept, not skipped as blank', () => {
+		assert.deepEqual(tokenizeCSV('h\n""\nx'), [['h'], [''], ['x']]);
+	});
+
+	test('stray quotes inside unquoted fields are literal', () => {
+		assert.deepEqual(tokenizeCSV('ab"c,5" disk,x"\n'), [
+			['ab"c', '5" disk', 'x"'],
+		]);
+	});
+
+	test('text after a closing quote is kept verbatim', () => {
+		assert.deepEqual(tokenizeCSV('"abc"def,"x"  ,y'), [['abcdef', 'x', 'y']]);
+	});
+
+	test('whitespace before an opening quote is dropped', () => {
+		assert.deepEqual(tokenizeCSV('a,  "b"'), [['a', 'b']]);
+	});
+
+	test('unterminated quote swallows the rest of the input and is flagged', () => {
+		const { records, tokenizer } = tokenizeChunks(['a,"bc\nd,e\n']);
+		assert.deepEqual(records, [['a', 'bc\nd,e\n']]);
+		assert.equal(tokenizer.unterminatedQuote, true);
+	});
+
+	test('terminated quotes are not flagged', () => {
+		const { tokenizer } = tokenizeChunks(['a,"b"\n']);
+		assert.equal(tokenizer.unterminatedQuote, false);
+	});
+});
+
+describe('line endings', () => {
+	test('CRLF, LF and CR mixed in one document', () => {
+		assert.deepEqual(tokenizeCSV('a,b\r\n1,2\n3,4\r5,6\r\n'), [
+			['a', 'b'],
+			['1', '2'],
+			['3', '4'],
+			['5', '6'],
+		]);
+	});
+
+	test('no trailing newline still yields the last record', () => {
+		assert.deepEqual(tokenizeCSV('a,b\n1,2'), [
+			['a', 'b'],
+			['1', '2'],
+		]);
+	});
+
+	test('blank lines are skipped', () => {
+		assert.deepEqual(tokenizeCSV('a\n\n\r\n  \n1\n'), [['a'], ['1']]);
+	});
+
+	test('newlines embedded in quoted fields are kept as written', () => {
+		assert.deepEqual(
+			tokenizeCSV('id,note\n1,"line one\r\nline two\rthree"\n'),
+			[
+				['id', 'note'],
+				['1', 'line one\r\nline two\rthree'],
+			],
+		);
+	});
+});
+
+describe('headers', () => {
+	test('a leading BOM is stripped', () => {
+		assert.deepEqual(parseCSVTable('﻿kepid,koi_period\n1,2.5\n'), {
+			header: ['kepid', 'koi_period'],
+			rows: [['1', '2.5']],
+		});
+	});
+
+	test('a BOM is only stripped at the very start', () => {
+		assert.deepEqual(tokenizeCSV('a\n"﻿b"\n'), [['a'], ['﻿b']]);
+	});
+
+	test('# comment header block is skipped and counted', () => {
+		const text =
+			'# This file was produced by the NASA Exoplanet Archive\r\n' +
+			'# COLUMN kepid: KepID\n' +
+			'#\n' +
+			'kepid,koi_disposition\n' +
+			'10797460,CONFIRMED\n';
+		const { records, tokenizer } = tokenizeChunks([text]);
+		assert.deepEqual(records, [
+			['kepid', 'koi_disposition'],
+			['10797460', 'CONFIRMED'],
+		]);
+		assert.equal(tokenizer.commentLines, 3);
+	});
+
+	test('BOM followed by a comment header', () => {
+		assert.deepEqual(tokenizeCSV('﻿# note\na\n1\n'), [['a'], ['1']]);
+	});
+
+	test('# inside a record or a quoted field is data', () => {
+		assert.deepEqual(tokenizeCSV('a,#b\n"#c",d\n'), [
+			['a', '#b'],
+			['#c', 'd'],
+		]);
+	});
+
+	test('comment handling can be disabled', () => {
+		assert.deepEqual(tokenizeCSV('#a,b\n', { commentPrefix: null }), [
+			['#a', 'b'],
+		]);
+	});
+});
+
+describe('ragged rows', () => {
+	test('rows keep their own field counts', () => {
+		assert.deepEqual(parseCSVTable('a,b,c\n1,2\n3,4,5,6\n7\n,,\n'), {
+			header: ['a', 'b', 'c'],
+			rows: [['1', '2'], ['3', '4', '5', '6'], ['7'], ['', '', '']],
+		});
+	});
+
+	test('unquoted fields are trimmed unless disabled', () => {
+		assert.deepEqual(tokenizeCSV(' a , b \n'), [['a', 'b']]);
+		assert.deepEqual(tokenizeCSV(' a , b \n', { trim: false }), [
+			[' a ', ' b '],
+		]);
+	});
+
+	test('other delimiters', () => {
+		assert.deepEqual(tokenizeCSV('a;"b;c"\n', { delimiter: ';' }), [
+			['a', 'b;c'],
+		]);
+	});
+});
+
+describe('chunk boundaries', () => {
+	const documents = {
+		quoted:
+			'﻿# header\r\n' +
+			'name,comment,value\r\n' +
+			'"Kepler-22 b","said ""habitable"",\r\nthen, ""maybe""",2.4\r\n' +
+			'x,"",\r' +
+			'y,"a\rb",3\n',
+		unterminated: 'a,b\n1,"open ""quote\r\n2,3',
+		stray: 'a,b"c,"d"e\r\n"f""",g\n',
+	};
+
+	test('quoted: the whole document', () => {
+		assert.deepEqual(tokenizeCSV(documents.quoted), [
+			['name', 'comment', 'value'],
+			['Kepler-22 b', 'said "habitable",\r\nthen, "maybe"', '2.4'],
+			['x', '', ''],
+			['y', 'a\rb', '3'],
+		]);
+	});
+
+	for (const [name, text] of Object.entries(documents)) {
+		const expected = tokenizeChunks([text]);
+
+		test(`${name}: every two-chunk split matches the whole document`, () => {
+			for (let i = 0; i <= text.length; i++) {
+				const split = tokenizeChunks([text.slice(0, i), text.slice(i)]);
+				assert.deepEqual(split.records, expected.records, `split at ${i}`);
+				assert.equal(
+					split.tokenizer.unterminatedQuote,
+					expected.tokenizer.unterminatedQuote,
+					`split at ${i}`,
+				);
+			}
+		});
+
+		test(`${name}: one character per chunk matches the whole document`, () => {
+			const split = tokenizeChunks(Array.from(text));
+			assert.deepEqual(split.records, expected.records);
+		});
+	}
+
+	test('CRLF split between CR and LF is one line ending', () => {
+		assert.deepEqual(tokenizeChunks(['a,b\r', '\n1,2\r', '\n']).records, [
+			['a', 'b'],
+			['1', '2'],
+		]);
+	});
+
+	test('doubled quote split across chunks', () => {
+		assert.deepEqual(tokenizeChunks(['"a"', '"b"']).records, [['a"b']]);
+	});
+});
+
+describe('serializeCSV', () => {
+	test('round-trips awkward fields', () => {
+		const header = ['name', 'note'];
+		const rows = [
+			['a,b', 'say "hi"'],
+			['multi\nline', '#not a comment'],
+			['', 'x'],
+			[''],
+		];
+		assert.deepEqual(parseCSVTable(serializeCSV(header, rows)), {
+			header,
+			rows,
+		});
+	});
+});
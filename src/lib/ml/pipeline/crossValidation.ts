@@ -0,0 +1,194 @@
+// K-fold cross-validation for the classroom pipeline
+// Fold generation (stratified, repeated stratified, group) and aggregation of
+// per-fold EvaluationSummary (or RegressionMetrics) values into mean /
+// standard deviation. Model fitting is left to the caller so the Trainer and
+// the Train & Validate view share the same folds and statistics.
+
+import { createRandom, groupKFold, stratifiedKFold } from '../core/math';
+import { calculateEvaluationSummary, calculateMulticlassMetrics } from './metrics';
+import type {
+  CrossValidationConfig,
+  CrossValidationMetric,
+  CrossValidationSummary,
+  EvaluationSummary,
+  FoldEvaluation,
+  RegressionMetrics
+} from '../../../types/ml';
+
+export interface CrossValidationSplit {
+  repeat: number;
+  fold: number;
+  trainIndices: number[];
+  valIndices: number[];
+}
+
+export const CROSS_VALIDATION_METRICS: CrossValidationMetric[] = ['accuracy', 'precision', 'recall', 'f1', 'auc'];
+export const REGRESSION_CROSS_VALIDATION_METRICS: CrossValidationMetric[] = ['rmse', 'mae', 'r2'];
+
+// Columns identifying the host star, so planets of one system share a fold
+const GROUP_COLUMN_CANDIDATES = ['kepid', 'tid', 'hostname'];
+
+const MAX_FOLDS = 20;
+const MAX_REPEATS = 10;
+
+/**
+ * Default group column for group k-fold (host star id), if the header has one
+ */
+export const suggestGroupColumn = (header: string[]): string | undefined =>
+  GROUP_COLUMN_CANDIDATES.find(column => header.includes(column));
+
+/**
+ * One metric of a fold, from its classification summary or regression errors
+ */
+export const foldMetric = (fold: FoldEvaluation, metric: CrossValidationMetric): number | undefined =>
+  metric === 'rmse' || metric === 'mae' || metric === 'r2'
+    ? fold.regression?.[metric]
+    : fold.summary?.[metric];
+
+/**
+ * Generate the train / held-out index sets of a cross-validation run
+ * @param labels - Encoded class per sample (one shared stratum, e.g. all 0,
+ *   for a continuous target)
+ * @param config - Strategy, fold count and repeats
+ * @param groups - Group key per sample (required for 'group')
+ */
+export const createFolds = (
+  labels: number[],
+  config: CrossValidationConfig,
+  groups?: string[]
+): CrossValidationSplit[] => {
+
+  validateConfig(config, labels.length);
+  const random = config.seed !== undefined ? createRandom(config.seed) : Math.random;
+
+  if (config.strategy === 'group') {
+    if (!groups || groups.length !== labels.length) {
+      throw new Error('Group k-fold needs a group key for every sample');
+    }
+    return groupKFold(groups, config.folds, random).map((split, fold) => ({ repeat: 0, fold, ...split }));
+  }
+
+  const repeats = config.strategy === 'repeated' ? config.repeats ?? 3 : 1;
+  const splits: CrossValidationSplit[] = [];
+  for (let repeat = 0; repeat < repeats; repeat++) {
+    stratifiedKFold(labels, config.folds, random).forEach((split, fold) => splits.push({ repeat, fold, ...split }));
+  }
+  return splits;
+};
+
+/**
+ * Score one held-out fold from class probabilities. Binary folds use the
+ * positive-class probability at a 0.5 threshold; multiclass folds report
+ * macro-averaged precision / recall / F1 and no AUC.
+ * @param probabilities - Per-row probability of each class index
+ * @param labels - True class index per row
+ */
+export const evaluateFoldPredictions = (
+  probabilities: number[][],
+  labels: number[],
+  classLabels: string[]
+): EvaluationSummary => {
+
+  if (classLabels.length <= 2) {
+    const positive = probabilities.map(p => p[1] ?? 0);
+    return calculateEvaluationSummary(positive, positive.map(p => (p >= 0.5 ? 1 : 0)), labels, 0.5, classLabels);
+  }
+
+  const predictions = probabilities.map(p => p.indexOf(Math.max(...p)));
+  const metrics = calculateMulticlassMetrics(predictions, labels, classLabels);
+  const macro = (key: 'precision' | 'recall') =>
+    metrics.perClassMetrics.reduce((sum, m) => sum + m[key], 0) / classLabels.length;
+  return {
+    accuracy: metrics.accuracy,
+    precision: macro('precision'),
+    recall: macro('recall'),
+    f1: metrics.macroF1,
+    confusionMatrix: metrics.confusionMatrix,
+    classLabels,
+    threshold: 0.5
+  };
+};
+
+/**
+ * Mean and sample standard deviation of each metric across folds. AUC is
+ * averaged over the folds that report it; metrics no fold reports are NaN.
+ */
+export const summarizeFolds = (
+  folds: FoldEvaluation[],
+  config: CrossValidationConfig
+): CrossValidationSummary => {
+
+  const mean = {} as Record<CrossValidationMetric, number>;
+  const std = {} as Record<CrossValidationMetric, number>;
+  for (const metric of [...CROSS_VALIDATION_METRICS, ...REGRESSION_CROSS_VALIDATION_METRICS]) {
+    const values = folds
+      .map(fold => foldMetric(fold, metric))
+      .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+    if (values.length === 0) {
+      mean[metric] = NaN;
+      std[metric] = NaN;
+      continue;
+    }
+    const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.length > 1
+      ? values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length - 1)
+      : 0;
+    mean[metric] = average;
+    std[metric] = Math.sqrt(variance);
+  }
+  const task = folds.some(fold => fold.regression) ? 'regression' : 'classification';
+  return { config, task, folds, mean, std };
+};
+
+/**
+ * Run cross-validation with a caller-supplied fit-and-evaluate step
+ * @param labels - Encoded class per sample (a single stratum for regression)
+ * @param config - Cross-validation settings
+ * @param evaluateFold - Fits on trainIndices and evaluates on valIndices
+ *   (classification summary, or RMSE / MAE / R² for a regressor)
+ * @param options - Group keys for 'group' and a per-fold progress callback
+ */
+export const crossValidate = async (
+  labels: number[],
+  config: CrossValidationConfig,
+  evaluateFold: (
+    split: CrossValidationSplit
+  ) => Promise<EvaluationSummary | RegressionMetrics> | EvaluationSummary | RegressionMetrics,
+  options: {
+    groups?: string[];
+    onFold?: (result: FoldEvaluation, completed: number, total: number) => void;
+  } = {}
+): Promise<CrossValidationSummary> => {
+
+  const splits = createFolds(labels, config, options.groups);
+  const results: FoldEvaluation[] = [];
+  for (const split of splits) {
+    const scores = await evaluateFold(split);
+    const result: FoldEvaluation = {
+      repeat: split.repeat,
+      fold: split.fold,
+      trainSize: split.trainIndices.length,
+      valSize: split.valIndices.length,
+      ...('rmse' in scores ? { regression: scores } : { summary: scores })
+    };
+    results.push(result);
+    options.onFold?.(result, results.length, splits.length);
+  }
+  return summarizeFolds(results, config);
+};
+
+const validateConfig = (config: CrossValidationConfig, numSamples: number): void => {
+  if (!Number.isInteger(config.folds) || config.folds < 2 || config.folds > MAX_FOLDS) {
+    throw new Error(`Number of folds must be an integer between 2 and ${MAX_FOLDS}`);
+  }
+  if (config.folds > numSamples) {
+    throw new Error(`Cannot make ${config.folds} folds from ${numSamples} samples`);
+  }
+  if (config.strategy === 'repeated' && config.repeats !== undefined &&
+      (!Number.isInteger(config.repeats) || config.repeats < 1 || config.repeats > MAX_REPEATS)) {
+    throw new Error(`Repeats must be an integer between 1 and ${MAX_REPEATS}`);
+  }
+  if (config.strategy === 'group' && !config.groupColumn) {
+    throw new Error('Group k-fold requires a group column (e.g. kepid)');
+  }
+};
@@ -1,16 +1,35 @@
 // Data preprocessing pipeline for ML training
 // Enhanced implementation with robust missing value handling and normalization
 
-import { zScoreNormalize, stratifiedSplit } from '../core/math';
-import type { RawDataset, InferredColumnMeta, PreparedDataset } from '../../../types/ml';
+import { zScoreNormalize, stratifiedSplit, groupStratifiedSplit, createRandom } from '../core/math';
+import { ImputationInfo, ImputationOptions, MissingValueImputer } from './imputation';
+import { MISSING_INDICATOR_SUFFIX, PreprocessingPipeline } from './pipeline';
+import { FeatureTransformer, TransformInfo } from './transforms';
+import { detectGroupLeakage, groupKeys, leakageGroupColumn, LeakageReport } from './leakage';
+import { withDerivedColumns } from '../../derivedFeatures';
+import type {
+  RawDataset,
+  InferredColumnMeta,
+  PreparedDataset,
+  ImputationStrategy,
+  FeatureTransform,
+  ClipPercentiles
+} from '../../../types/ml';
 
 export interface PreprocessingConfig {
   targetColumn: string;
   selectedFeatures: string[];
   normalization: boolean;
-  missingValueStrategy: Record<string, 'drop' | 'mean' | 'mode'>;
+  missingValueStrategy: Record<string, ImputationStrategy>;
+  imputation?: ImputationOptions; // constants and kNN / iterative settings
+  addMissingIndicators?: boolean; // add a 0/1 "<feature>_missing" column per feature with gaps
+  transforms?: Record<string, FeatureTransform>; // per-column override ('standard' / 'none' otherwise)
+  clipPercentiles?: Record<string, ClipPercentiles>; // winsorize before transforming
+  derivedFeatures?: string[]; // derived feature ids appended as columns before preprocessing
   trainSplitRatio: number;
   validationSplitRatio?: number; // Optional test split
+  groupColumn?: string; // keep rows sharing this key (e.g. kepid) on one side of every split
+  seed?: number; // seeds the split shuffles (Math.random when absent)
   removeConstantFeatures?: boolean; // Remove features with no variation
   removeHighMissingFeatures?: boolean; // Remove features with >50% missing values
   oneHotEncode?: boolean; // Enable one-hot encoding for categorical features
@@ -21,6 +40,16 @@ export interface EncodingInfo {
   type: 'numeric' | 'categorical' | 'boolean';
   categoricalMapping?: Map<string, number>;
   normalizeStats?: { mean: number; std: number };
+  transform?: TransformInfo; // fitted scaler / power transform (numeric columns)
+  oneHot?: boolean; // expanded to one 0/1 column per category
+  imputation?: ImputationInfo; // replayed by preprocessInference
+  missingIndicatorFor?: string; // set on indicator columns: the feature they flag
+}
+
+export interface DataSplit {
+  trainIndices: number[];
+  valIndices: number[];
+  testIndices?: number[];
 }
 
 export class DataPreprocessor {
@@ -28,17 +57,23 @@ export class DataPreprocessor {
   /**
    * Prepare dataset for ML training with comprehensive preprocessing
    * IMPLEMENTATION UPDATE: Enhanced missing value handling, feature filtering, and one-hot encoding
+   * @param split - Optional custom split (e.g. one cross-validation fold) over the
+   *   selected rows; replaces the stratified train/val(/test) split. It gets the
+   *   encoded targets (all 0 for a continuous target) to stratify on
    */
   static prepareDataset(
-    rawDataset: RawDataset,
-    columnMeta: InferredColumnMeta[],
-    config: PreprocessingConfig
+    sourceDataset: RawDataset,
+    sourceMeta: InferredColumnMeta[],
+    config: PreprocessingConfig,
+    split?: (targets: number[], rows: string[][], header: string[]) => DataSplit
   ): {
     prepared: PreparedDataset;
     trainIndices: number[];
     valIndices: number[];
     testIndices?: number[];
     encodingInfo: EncodingInfo[];
+    pipeline: PreprocessingPipeline;
+    leakage?: LeakageReport; // groups spanning splits (by group column, host-star id or stellar fingerprint)
     preprocessing: {
       removedFeatures: string[];
       missingValueStats: Record<string, { strategy: string; imputedCount: number }>;
@@ -48,45 +83,113 @@ export class DataPreprocessor {
     
     console.log('Starting dataset preprocessing...');
     
+    // Derived features become ordinary numeric columns from here on
+    const { dataset: rawDataset, columnMeta } = withDerivedColumns(
+      sourceDataset, sourceMeta, config.derivedFeatures || []
+    );
+    
     // Step 1: Filter problematic features
     const { filteredFeatures, removedFeatures } = this.filterFeatures(
       rawDataset, columnMeta, config
     );
     
-    // Step 2: Clean data and handle missing values
-    const { cleanedData, missingValueStats } = this.cleanDataEnhanced(
-      rawDataset, columnMeta, { ...config, selectedFeatures: filteredFeatures }
+    // Step 2: Keep rows with a target (and no gaps in 'drop' columns)
+    const selectedRows = this.selectRows(rawDataset, {
+      ...config,
+      selectedFeatures: filteredFeatures
+    });
+    
+    // Step 3: Create stratified splits (train/val/test) before imputation so
+    // imputation statistics are learned from the training rows only
+    const targetIndex = rawDataset.header.indexOf(config.targetColumn);
+    const targetMeta = columnMeta.find(col => col.name === config.targetColumn)!;
+    const { encoded: targetArray, info: targetInfo } = this.encodeColumn(
+      selectedRows.map(row => row[targetIndex]),
+      targetMeta,
+      config.targetColumn
     );
+    // Continuous targets split as a single stratum
+    const targetType = this.getTargetType(columnMeta, config.targetColumn);
+    const strata = targetType === 'regression' ? targetArray.map(() => 0) : targetArray;
+    const splitResult = split
+      ? split(strata, selectedRows, rawDataset.header)
+      : this.createDataSplits(
+          strata,
+          config,
+          config.groupColumn ? groupKeys(rawDataset.header, selectedRows, config.groupColumn) : undefined
+        );
     
-    // Step 3: Encode features and target with one-hot encoding support
-    const { features, target, encodingInfo, oneHotMapping } = this.encodeDataEnhanced(
-      cleanedData, columnMeta, { ...config, selectedFeatures: filteredFeatures }
+    // Audit the split for planets of one star on both sides
+    const auditColumn = leakageGroupColumn(rawDataset.header, config.groupColumn);
+    const leakage = auditColumn
+      ? detectGroupLeakage(
+          groupKeys(rawDataset.header, selectedRows, auditColumn),
+          {
+            train: splitResult.trainIndices,
+            validation: splitResult.valIndices,
+            test: splitResult.testIndices || []
+          },
+          { groupColumn: auditColumn, grouped: auditColumn === config.groupColumn }
+        )
+      : undefined;
+    
+    // Step 4: Clean data and handle missing values
+    const { cleanedData, missingValueStats, imputation, indicatorColumns } =
+      this.cleanDataEnhanced(
+        { ...rawDataset, rows: selectedRows },
+        columnMeta,
+        { ...config, selectedFeatures: filteredFeatures },
+        splitResult.trainIndices
+      );
+    const featureNames = [...filteredFeatures, ...indicatorColumns.map(col => col.name)];
+    
+    // Step 5: Encode features and target with one-hot encoding support
+    const { features, target, encodingInfo, oneHotMapping, expandedFeatureNames } = this.encodeDataEnhanced(
+      cleanedData,
+      [...columnMeta, ...indicatorColumns],
+      { ...config, selectedFeatures: featureNames },
+      splitResult.trainIndices
     );
     
-    // Step 4: Create stratified splits (train/val/test)
-    const targetArray = Array.from(target);
-    const splitResult = this.createDataSplits(targetArray, config);
+    // Attach fitted imputation so inference can replay it
+    for (const info of encodingInfo) {
+      info.imputation = imputation.find(imp => imp.columnName === info.columnName);
+      const indicator = indicatorColumns.find(col => col.name === info.columnName);
+      if (indicator) info.missingIndicatorFor = indicator.source;
+    }
     
-    const numSamples = features.length / filteredFeatures.length;
+    const numSamples = cleanedData.rows.length;
     
     const prepared: PreparedDataset = {
       features,
       featureMatrixShape: { 
         rows: numSamples, 
-        cols: filteredFeatures.length 
+        cols: expandedFeatureNames.length 
       },
-      featureNames: filteredFeatures,
+      featureNames: expandedFeatureNames,
       target,
-      targetType: this.getTargetType(columnMeta, config.targetColumn),
+      targetType,
       encodingMap: this.createEncodingMap(encodingInfo)
     };
     
+    // Replayable transform for test rows, manual input and exported bundles
+    const pipeline = PreprocessingPipeline.fromEncoding(encodingInfo, {
+      targetColumn: config.targetColumn,
+      removedFeatures,
+      derivedFeatures: config.derivedFeatures,
+      classLabels: targetInfo.categoricalMapping
+        ? Array.from(targetInfo.categoricalMapping.keys())
+        : undefined
+    });
+    
     console.log(`Preprocessing complete: ${numSamples} samples, ${filteredFeatures.length} features`);
     
     return { 
       prepared, 
       ...splitResult,
       encodingInfo,
+      pipeline,
+      leakage,
       preprocessing: {
         removedFeatures,
         missingValueStats,
@@ -133,64 +236,91 @@ export class DataPreprocessor {
     return { filteredFeatures, removedFeatures };
   }
   
+  /**
+   * Rows usable for training: the target is present and no 'drop'-strategy
+   * feature is missing
+   */
+  private static selectRows(
+    rawDataset: RawDataset,
+    config: PreprocessingConfig
+  ): string[][] {
+    
+    const targetIndex = rawDataset.header.indexOf(config.targetColumn);
+    const dropIndices = config.selectedFeatures
+      .filter(name => config.missingValueStrategy[name] === 'drop')
+      .map(name => rawDataset.header.indexOf(name));
+    
+    return rawDataset.rows.filter((row: string[]) => {
+      const targetValue = row[targetIndex];
+      if (!targetValue || targetValue.trim() === '') return false;
+      return dropIndices.every(index => !MissingValueImputer.isMissing(row[index]));
+    });
+  }
+  
   /**
    * Enhanced data cleaning with better missing value handling
    * IMPLEMENTATION UPDATE: Comprehensive missing value strategies
+   * Imputation is fitted on trainIndices (all rows when omitted) and applied to
+   * every row; optional indicator columns are appended to the cleaned data.
    */
   private static cleanDataEnhanced(
     rawDataset: RawDataset,
     columnMeta: InferredColumnMeta[],
-    config: PreprocessingConfig
+    config: PreprocessingConfig,
+    trainIndices?: number[]
   ): { 
     cleanedData: { header: string[]; rows: string[][] };
     missingValueStats: Record<string, { strategy: string; imputedCount: number }>;
+    imputation: ImputationInfo[];
+    indicatorColumns: (InferredColumnMeta & { source: string })[];
   } {
     
-    const targetIndex = rawDataset.header.indexOf(config.targetColumn);
     const missingValueStats: Record<string, { strategy: string; imputedCount: number }> = {};
+    const rows = this.selectRows(rawDataset, config);
+    const features = config.selectedFeatures
+      .map(name => columnMeta.find(col => col.name === name))
+      .filter((meta): meta is InferredColumnMeta => Boolean(meta));
+    
+    // Learn imputation statistics from the training rows only
+    const imputation = MissingValueImputer.fit(
+      rawDataset.header,
+      rows,
+      features,
+      config.missingValueStrategy,
+      trainIndices,
+      config.imputation
+    );
     
-    // Filter out rows with missing target values
-    const validRows = rawDataset.rows.filter((row: string[]) => {
-      const targetValue = row[targetIndex];
-      return targetValue && targetValue.trim() !== '';
-    });
-    
-    // Calculate imputation values for each column
-    const imputationValues: Record<string, string> = {};
-    
-    for (const columnName of config.selectedFeatures) {
-      const colIndex = rawDataset.header.indexOf(columnName);
-      const strategy = config.missingValueStrategy[columnName] || 'mean';
-      const colMeta = columnMeta.find(col => col.name === columnName);
-      
-      if (colMeta && strategy !== 'drop') {
-        imputationValues[columnName] = this.calculateImputationValue(
-          validRows, colIndex, strategy, colMeta
-        );
-      }
-    }
-    
-    // Process rows with missing value handling
-    let imputedCounts: Record<string, number> = {};
-    
-    const processedRows = validRows.map((row: string[]) => {
-      return row.map((value: string, colIndex: number) => {
-        const columnName = rawDataset.header[colIndex];
-        
-        if ((!value || value.trim() === '') && config.selectedFeatures.includes(columnName)) {
-          const strategy = config.missingValueStrategy[columnName] || 'mean';
-          
-          if (strategy === 'drop') {
-            return ''; // Will be handled later
-          }
-          
-          imputedCounts[columnName] = (imputedCounts[columnName] || 0) + 1;
-          return imputationValues[columnName] || '0';
+    // Indicator columns for features with gaps in the training rows
+    const indicatorColumns: (InferredColumnMeta & { source: string })[] = [];
+    if (config.addMissingIndicators) {
+      const fitRows = trainIndices ? trainIndices.map(i => rows[i]) : rows;
+      features.forEach(meta => {
+        const index = rawDataset.header.indexOf(meta.name);
+        if (fitRows.some(row => MissingValueImputer.isMissing(row[index]))) {
+          indicatorColumns.push({
+            name: `${meta.name}${MISSING_INDICATOR_SUFFIX}`,
+            index: rawDataset.header.length + indicatorColumns.length,
+            inferredType: 'boolean',
+            missingCount: 0,
+            source: meta.name
+          });
         }
-        
-        return value;
       });
-    });
+    }
+    const indicatorIndices = indicatorColumns.map(col => rawDataset.header.indexOf(col.source));
+    
+    const { rows: imputedRows, imputedCounts } = MissingValueImputer.transform(
+      rawDataset.header,
+      rows,
+      imputation
+    );
+    const processedRows = indicatorColumns.length === 0
+      ? imputedRows
+      : imputedRows.map((row, r) => [
+          ...row,
+          ...indicatorIndices.map(index => (MissingValueImputer.isMissing(rows[r][index]) ? '1' : '0'))
+        ]);
     
     // Build missing value statistics
     for (const columnName of config.selectedFeatures) {
@@ -203,63 +333,15 @@ export class DataPreprocessor {
     
     return {
       cleanedData: {
-        header: rawDataset.header,
+        header: [...rawDataset.header, ...indicatorColumns.map(col => col.name)],
         rows: processedRows
       },
-      missingValueStats
+      missingValueStats,
+      imputation,
+      indicatorColumns
     };
   }
   
-  /**
-   * Calculate imputation value for missing data
-   * IMPLEMENTATION UPDATE: Enhanced imputation methods
-   */
-  private static calculateImputationValue(
-    rows: string[][],
-    columnIndex: number,
-    strategy: 'mean' | 'mode',
-    columnMeta: InferredColumnMeta
-  ): string {
-    
-    const validValues = rows
-      .map(row => row[columnIndex])
-      .filter(val => val && val.trim() !== '');
-    
-    if (strategy === 'mean' && columnMeta.inferredType === 'numeric') {
-      const numericValues = validValues
-        .map(val => parseFloat(val))
-        .filter(val => !isNaN(val));
-      
-      if (numericValues.length > 0) {
-        const mean = numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
-        return mean.toString();
-      }
-    }
-    
-    if (strategy === 'mode') {
-      const valueCounts: Record<string, number> = {};
-      validValues.forEach(val => {
-        valueCounts[val] = (valueCounts[val] || 0) + 1;
-      });
-      
-      let maxCount = 0;
-      let mode = '';
-      for (const value in valueCounts) {
-        if (valueCounts[value] > maxCount) {
-          maxCount = valueCounts[value];
-          mode = value;
-        }
-      }
-      
-      if (mode) return mode;
-    }
-    
-    // Fallback based on column type
-    if (columnMeta.inferredType === 'numeric') return '0';
-    if (columnMeta.inferredType === 'boolean') return 'false';
-    return 'unknown';
-  }
-  
   /**
    * Enhanced encoding with one-hot encoding support
    * IMPLEMENTATION UPDATE: Added one-hot encoding for categorical features
@@ -267,12 +349,14 @@ export class DataPreprocessor {
   private static encodeDataEnhanced(
     cleanedData: { header: string[]; rows: string[][] },
     columnMeta: InferredColumnMeta[],
-    config: PreprocessingConfig
+    config: PreprocessingConfig,
+    trainIndices?: number[]
   ): {
     features: Float32Array;
     target: Float32Array;
     encodingInfo: EncodingInfo[];
     oneHotMapping?: Record<string, string[]>;
+    expandedFeatureNames: string[]; // one-hot columns expanded per category
   } {
     
     const numSamples = cleanedData.rows.length;
@@ -290,6 +374,7 @@ export class DataPreprocessor {
     
     // Encode features with one-hot encoding support
     const allFeatureValues: number[][] = [];
+    const valueInfo: EncodingInfo[] = []; // encoding of each (expanded) feature column
     let expandedFeatureNames: string[] = [];
     
     for (const featureName of config.selectedFeatures) {
@@ -302,35 +387,40 @@ export class DataPreprocessor {
       // Apply one-hot encoding for categorical features if enabled
       if (config.oneHotEncode && featureMeta.inferredType === 'categorical' && info.categoricalMapping) {
         const oneHotResult = this.oneHotEncode(encoded, info.categoricalMapping);
+        // Update encoding info for one-hot
+        const oneHotInfo: EncodingInfo = {
+          ...info,
+          categoricalMapping: new Map(oneHotResult.categoryNames.map((name, idx) => [name, idx])),
+          oneHot: true
+        };
         oneHotResult.encodedVectors.forEach((vector, idx) => {
           allFeatureValues.push(vector);
+          valueInfo.push(oneHotInfo);
           expandedFeatureNames.push(`${featureName}_${oneHotResult.categoryNames[idx]}`);
         });
         oneHotMapping[featureName] = oneHotResult.categoryNames;
-        
-        // Update encoding info for one-hot
-        const oneHotInfo: EncodingInfo = {
-          ...info,
-          categoricalMapping: new Map(oneHotResult.categoryNames.map((name, idx) => [name, idx]))
-        };
         encodingInfo.push(oneHotInfo);
       } else {
         allFeatureValues.push(encoded);
+        valueInfo.push(info);
         expandedFeatureNames.push(featureName);
         encodingInfo.push(info);
       }
     }
     
-    // Normalize numeric features if enabled
-    if (config.normalization) {
-      for (let i = 0; i < allFeatureValues.length; i++) {
-        const info = encodingInfo[i];
-        if (info.type === 'numeric') {
-          const { normalized, mean, std } = zScoreNormalize(allFeatureValues[i]);
-          allFeatureValues[i] = normalized;
-          info.normalizeStats = { mean, std };
-        }
-      }
+    // Scale / transform numeric features with statistics from the training rows
+    for (let i = 0; i < allFeatureValues.length; i++) {
+      const info = valueInfo[i];
+      if (info.type !== 'numeric') continue;
+      const transform = config.transforms?.[info.columnName]
+        ?? (config.normalization ? 'standard' : 'none');
+      const clip = config.clipPercentiles?.[info.columnName];
+      if (transform === 'none' && !clip) continue;
+      
+      const values = allFeatureValues[i];
+      const fitValues = trainIndices ? trainIndices.map(index => values[index]) : values;
+      info.transform = FeatureTransformer.fit(fitValues, transform, clip);
+      allFeatureValues[i] = values.map(value => FeatureTransformer.apply(value, info.transform!));
     }
     
     // Flatten features to row-major format
@@ -347,7 +437,8 @@ export class DataPreprocessor {
       features,
       target: new Float32Array(encodedTarget),
       encodingInfo,
-      oneHotMapping: Object.keys(oneHotMapping).length > 0 ? oneHotMapping : undefined
+      oneHotMapping: Object.keys(oneHotMapping).length > 0 ? oneHotMapping : undefined,
+      expandedFeatureNames
     };
   }
   
@@ -386,15 +477,20 @@ export class DataPreprocessor {
   /**
    * Create stratified data splits with optional test set
    * IMPLEMENTATION UPDATE: Enhanced splitting with test set support
+   * @param groups - Group key per row; when given, no group spans two splits
    */
   private static createDataSplits(
     targetArray: number[],
-    config: PreprocessingConfig
-  ): {
-    trainIndices: number[];
-    valIndices: number[];
-    testIndices?: number[];
-  } {
+    config: PreprocessingConfig,
+    groups?: string[]
+  ): DataSplit {
+    
+    // subset: original row of each label, to look up its group
+    const random = config.seed !== undefined ? createRandom(config.seed) : Math.random;
+    const split = (labels: number[], trainRatio: number, subset?: number[]) =>
+      groups
+        ? groupStratifiedSplit(labels, subset ? subset.map(idx => groups[idx]) : groups, trainRatio, random)
+        : stratifiedSplit(labels, trainRatio, random);
     
     if (config.validationSplitRatio) {
       // Three-way split: train/val/test
@@ -402,7 +498,7 @@ export class DataPreprocessor {
       const valRatio = (1 - config.trainSplitRatio) - testRatio;
       
       // First split: train vs (val + test)
-      const { trainIndices, valIndices: valTestIndices } = stratifiedSplit(
+      const { trainIndices, valIndices: valTestIndices } = split(
         targetArray, 
         config.trainSplitRatio
       );
@@ -410,9 +506,10 @@ export class DataPreprocessor {
       // Second split: val vs test from remaining data
       const valTestLabels = valTestIndices.map(idx => targetArray[idx]);
       const valFromRemaining = valRatio / (valRatio + testRatio);
-      const { trainIndices: valIndices, valIndices: testIndices } = stratifiedSplit(
+      const { trainIndices: valIndices, valIndices: testIndices } = split(
         valTestLabels,
-        valFromRemaining
+        valFromRemaining,
+        valTestIndices
       );
       
       // Map back to original indices
@@ -426,7 +523,7 @@ export class DataPreprocessor {
       };
     } else {
       // Simple train/val split
-      const { trainIndices, valIndices } = stratifiedSplit(targetArray, config.trainSplitRatio);
+      const { trainIndices, valIndices } = split(targetArray, config.trainSplitRatio);
       return { trainIndices, valIndices };
     }
   }
@@ -673,35 +770,13 @@ export class DataPreprocessor {
   
   /**
    * Apply same preprocessing to new data for inference
+   * IMPLEMENTATION UPDATE: Delegates to PreprocessingPipeline (one-hot columns expand correctly)
    */
   static preprocessInference(
     rawData: Record<string, string>,
     encodingInfo: EncodingInfo[]
   ): Float32Array {
-    
-    const processed: number[] = [];
-    
-    for (const info of encodingInfo) {
-      const rawValue = rawData[info.columnName] || '';
-      let encodedValue = 0;
-      
-      if (info.type === 'numeric') {
-        encodedValue = parseFloat(rawValue) || 0;
-        
-        // Apply normalization if available
-        if (info.normalizeStats) {
-          encodedValue = (encodedValue - info.normalizeStats.mean) / info.normalizeStats.std;
-        }
-      } else if (info.type === 'boolean') {
-        const lower = rawValue.toLowerCase();
-        encodedValue = (lower === 'true' || lower === '1' || lower === 'yes') ? 1 : 0;
-      } else if (info.type === 'categorical' && info.categoricalMapping) {
-        encodedValue = info.categoricalMapping.get(rawValue) || 0;
-      }
-      
-      processed.push(encodedValue);
-    }
-    
-    return new Float32Array(processed);
+    const pipeline = PreprocessingPipeline.fromEncoding(encodingInfo, { targetColumn: '' });
+    return new Float32Array(pipeline.transformRecord(rawData));
   }
 }
\ No newline at end of file
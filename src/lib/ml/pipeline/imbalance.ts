@@ -0,0 +1,254 @@
+// Class-imbalance handling for the rows a model is fit on
+// Random oversampling repeats minority rows up to the majority count, random
+// undersampling drops majority rows down to the minority count, and SMOTE
+// adds synthetic minority rows on the segments between a row and one of its
+// k nearest same-class neighbours. Class weights and focal loss keep the rows
+// and act in the loss instead. Callers pass only the fit rows: validation,
+// calibration and test rows keep the real class balance, so their metrics
+// describe the population the model will actually see.
+
+import { calculateClassWeights, RandomSource, shuffleIndices } from '../core/math';
+import type { ImbalanceConfig, ImbalanceReport, ImbalanceStrategy } from '../../../types/ml';
+
+export const DEFAULT_IMBALANCE: ImbalanceConfig = {
+  strategy: 'none',
+  smoteNeighbors: 5,
+  focalGamma: 2
+};
+
+export const STRATEGY_LABELS: Record<ImbalanceStrategy, string> = {
+  none: 'None',
+  'class-weights': 'Class weights',
+  oversample: 'Random oversampling',
+  undersample: 'Random undersampling',
+  smote: 'SMOTE',
+  'focal-loss': 'Focal loss'
+};
+
+export interface RebalancedRows {
+  X: number[][];
+  y: number[];
+  groups?: string[]; // group per returned row (synthetic rows keep their base row's group)
+  classWeights?: number[]; // loss weight per class ('class-weights')
+  report: ImbalanceReport;
+}
+
+/**
+ * Apply an imbalance strategy to training rows. Resampled rows come back
+ * shuffled; rows are returned as given for every other strategy, and the
+ * random source is only drawn from when resampling.
+ * @param y - Class index per row (0..numClasses-1)
+ * @param options - Group key per row (carried with the rows) and whether the
+ * model trains with focal loss (neural networks); other models fall back to
+ * 'none' for that strategy
+ */
+export function rebalanceTrainingRows(
+  X: number[][],
+  y: number[],
+  numClasses: number,
+  config: ImbalanceConfig,
+  random: RandomSource,
+  options: { groups?: string[]; focalLoss?: boolean } = {}
+): RebalancedRows {
+
+  const classCounts = countClasses(y, numClasses);
+  const unchanged = (
+    strategy: ImbalanceStrategy,
+    extra: Partial<ImbalanceReport> = {}
+  ): RebalancedRows => ({
+    X,
+    y,
+    groups: options.groups,
+    report: { strategy, classCounts, resampledCounts: classCounts, ...extra }
+  });
+
+  switch (config.strategy) {
+    case 'class-weights': {
+      const weights = calculateClassWeights(y);
+      const classWeights = classCounts.map((_, c) => weights[c] ?? 1);
+      return { ...unchanged('class-weights', { classWeights }), classWeights };
+    }
+    case 'focal-loss':
+      return options.focalLoss
+        ? unchanged('focal-loss', { focalGamma: config.focalGamma })
+        : unchanged('none', { note: 'Focal loss is available for neural networks only; trained without rebalancing' });
+    case 'oversample':
+    case 'undersample':
+    case 'smote':
+      if (classCounts.filter(c => c > 0).length < 2) {
+        return unchanged('none', { note: 'Training rows hold a single class; nothing to rebalance' });
+      }
+      return resample(X, y, classCounts, config, random, options.groups);
+    default:
+      return unchanged('none');
+  }
+}
+
+/**
+ * Fit rows of a regressor, returned as given: a continuous target has no
+ * classes to rebalance (the report counts every row as one class)
+ */
+export function keepRegressionRows(
+  X: number[][],
+  y: number[],
+  config: ImbalanceConfig,
+  groups?: string[]
+): RebalancedRows {
+  const counts = [y.length];
+  return {
+    X,
+    y,
+    groups,
+    report: {
+      strategy: 'none',
+      classCounts: counts,
+      resampledCounts: counts,
+      note: config.strategy !== 'none' ? 'Regression target; trained without rebalancing' : undefined
+    }
+  };
+}
+
+/**
+ * Short description of a report for training summaries
+ */
+export function describeImbalance(report: ImbalanceReport): string {
+  const counts = (values: Array<number | string>) => values.join(' / ');
+  switch (report.strategy) {
+    case 'class-weights':
+      return `Class weights ${counts((report.classWeights ?? []).map(w => w.toFixed(2)))} on ${counts(report.classCounts)} rows`;
+    case 'focal-loss':
+      return `Focal loss (gamma ${report.focalGamma}) on ${counts(report.classCounts)} rows`;
+    case 'oversample':
+    case 'undersample':
+    case 'smote':
+      return `${STRATEGY_LABELS[report.strategy]}: ${counts(report.classCounts)} → ${counts(report.resampledCounts)} rows`;
+    default:
+      return `No rebalancing (${counts(report.classCounts)} rows)`;
+  }
+}
+
+const countClasses = (y: number[], numClasses: number): number[] => {
+  const counts = new Array(numClasses).fill(0);
+  y.forEach(label => counts[label]++);
+  return counts;
+};
+
+// Over- / undersampling and SMOTE; absent classes stay absent
+const resample = (
+  X: number[][],
+  y: number[],
+  classCounts: number[],
+  config: ImbalanceConfig,
+  random: RandomSource,
+  groups?: string[]
+): RebalancedRows => {
+
+  const present = classCounts.filter(c => c > 0);
+  const target = config.strategy === 'undersample' ? Math.min(...present) : Math.max(...present);
+  const byClass = classCounts.map(() => [] as number[]);
+  y.forEach((label, i) => byClass[label].push(i));
+
+  const outX: number[][] = [];
+  const outY: number[] = [];
+  const outGroups: string[] = [];
+  const add = (row: number[], label: number, group: string) => {
+    outX.push(row);
+    outY.push(label);
+    outGroups.push(group);
+  };
+
+  const scales = config.strategy === 'smote' ? featureScales(X) : [];
+  let syntheticRows = 0;
+  let fallback = false;
+  byClass.forEach((rows, label) => {
+    if (rows.length === 0) return;
+    if (config.strategy === 'undersample') {
+      const keep = shuffleIndices(rows.length, random).slice(0, target);
+      keep.forEach(r => add(X[rows[r]], label, groups?.[rows[r]] ?? ''));
+      return;
+    }
+
+    rows.forEach(i => add(X[i], label, groups?.[i] ?? ''));
+    const missing = target - rows.length;
+    if (config.strategy === 'oversample' || rows.length < 2) {
+      if (config.strategy === 'smote' && missing > 0) fallback = true;
+      for (let m = 0; m < missing; m++) {
+        const i = rows[Math.floor(random() * rows.length)];
+        add(X[i], label, groups?.[i] ?? '');
+      }
+      return;
+    }
+
+    const k = Math.max(1, Math.min(config.smoteNeighbors, rows.length - 1));
+    const neighbours = new Map<number, number[]>();
+    for (let m = 0; m < missing; m++) {
+      const base = rows[Math.floor(random() * rows.length)];
+      if (!neighbours.has(base)) neighbours.set(base, nearestRows(X, base, rows, k, scales));
+      const candidates = neighbours.get(base)!;
+      const other = X[candidates[Math.floor(random() * candidates.length)]];
+      const gap = random();
+      add(X[base].map((value, j) => value + gap * (other[j] - value)), label, groups?.[base] ?? '');
+      syntheticRows++;
+    }
+  });
+
+  // Shuffle so resampled rows are not clustered by class (seeded fits keep row order)
+  const order = shuffleIndices(outY.length, random);
+  const report: ImbalanceReport = {
+    strategy: config.strategy,
+    classCounts,
+    resampledCounts: countClasses(outY, classCounts.length)
+  };
+  if (config.strategy === 'smote') report.syntheticRows = syntheticRows;
+  if (fallback) report.note = 'Classes with a single row were oversampled at random';
+  return {
+    X: order.map(i => outX[i]),
+    y: order.map(i => outY[i]),
+    groups: groups ? order.map(i => outGroups[i]) : undefined,
+    report
+  };
+};
+
+// Standard deviation per feature (1 for constant features), so SMOTE
+// distances are not dominated by large-valued columns
+const featureScales = (X: number[][]): number[] => {
+  const d = X[0]?.length ?? 0;
+  const n = X.length;
+  const scales: number[] = [];
+  for (let j = 0; j < d; j++) {
+    let sum = 0;
+    let sumSq = 0;
+    for (const row of X) {
+      sum += row[j];
+      sumSq += row[j] * row[j];
+    }
+    const mean = sum / n;
+    const std = Math.sqrt(Math.max(0, sumSq / n - mean * mean));
+    scales.push(std > 1e-12 ? std : 1);
+  }
+  return scales;
+};
+
+// The k rows of the same class closest to the base row (scaled Euclidean)
+const nearestRows = (
+  X: number[][],
+  base: number,
+  rows: number[],
+  k: number,
+  scales: number[]
+): number[] => {
+  const from = X[base];
+  return rows
+    .filter(i => i !== base)
+    .map(i => {
+      let dist = 0;
+      for (let j = 0; j < from.length; j++) {
+        const diff = (X[i][j] - from[j]) / scales[j];
+        dist += diff * diff;
+      }
+      return { i, dist };
+    })
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, k)
+    .map(entry => entry.i);
+};
@@ -0,0 +1,415 @@
+// Missing value imputation for the classroom preprocessing pipeline
+// Statistics are fitted on training rows only and kept as plain JSON in
+// ImputationInfo so the same fills can be replayed at inference time.
+
+import { solveLinearSystem } from '../core/math';
+import type { InferredColumnMeta, ImputationStrategy } from '../../../types/ml';
+
+export interface ImputationOptions {
+  constants?: Record<string, string>; // fill values for the 'constant' strategy
+  knnNeighbors?: number; // k for 'knn' (default 5)
+  iterativeRounds?: number; // regression rounds for 'iterative' (default 5)
+  maxDonors?: number; // training rows kept as kNN donors (default 1000)
+}
+
+export interface ImputationInfo {
+  columnName: string;
+  strategy: ImputationStrategy;
+  fillValue: string; // direct fill, or fallback / starting value for knn and iterative
+  knn?: {
+    k: number;
+    predictors: string[];
+    center: number[];
+    scale: number[];
+    donors: number[][]; // standardized predictor values (NaN = missing)
+    donorValues: number[];
+  };
+  regression?: {
+    predictors: string[];
+    center: number[];
+    scale: number[];
+    intercept: number;
+    coefficients: number[]; // on standardized predictors
+  };
+}
+
+const DEFAULT_KNN_NEIGHBORS = 5;
+const DEFAULT_ITERATIVE_ROUNDS = 5;
+const DEFAULT_MAX_DONORS = 1000;
+const RIDGE_PENALTY = 1e-3; // keeps the normal equations well conditioned
+
+export class MissingValueImputer {
+
+  static isMissing(value: string | undefined): boolean {
+    return value === undefined || value === null || value.trim() === '';
+  }
+
+  /**
+   * Fit imputation statistics for the given feature columns
+   * @param header - Column names of the rows
+   * @param rows - Raw rows (all splits)
+   * @param features - Feature columns with their metadata
+   * @param strategies - Strategy per column (default 'mean'; 'drop' columns are skipped)
+   * @param trainIndices - Rows used for fitting (all rows when omitted)
+   * @param options - Constants and kNN / iterative settings
+   */
+  static fit(
+    header: string[],
+    rows: string[][],
+    features: InferredColumnMeta[],
+    strategies: Record<string, ImputationStrategy>,
+    trainIndices: number[] = rows.map((_, i) => i),
+    options: ImputationOptions = {}
+  ): ImputationInfo[] {
+
+    const trainRows = trainIndices.map(i => rows[i]);
+    const numericNames = features
+      .filter(meta => meta.inferredType === 'numeric')
+      .map(meta => meta.name);
+
+    // Training values of every numeric feature (NaN = missing) and their scale
+    const numericColumns: Record<string, number[]> = {};
+    const stats: Record<string, { center: number; scale: number }> = {};
+    for (const name of numericNames) {
+      const index = header.indexOf(name);
+      const values = trainRows.map(row => this.toNumber(row[index]));
+      numericColumns[name] = values;
+      stats[name] = this.centerAndScale(values);
+    }
+
+    const infos: ImputationInfo[] = [];
+    for (const meta of features) {
+      const strategy = strategies[meta.name] || 'mean';
+      if (strategy === 'drop') continue;
+      const index = header.indexOf(meta.name);
+      const observed = trainRows
+        .map(row => row[index])
+        .filter(value => !this.isMissing(value));
+      const info: ImputationInfo = {
+        columnName: meta.name,
+        strategy,
+        fillValue: this.simpleFillValue(strategy, observed, meta, options)
+      };
+
+      if (strategy === 'knn' && meta.inferredType === 'numeric') {
+        info.knn = this.fitKnn(meta.name, numericNames, numericColumns, stats, options);
+      }
+      infos.push(info);
+    }
+
+    const iterative = infos.filter(
+      info => info.strategy === 'iterative' && numericNames.includes(info.columnName)
+    );
+    if (iterative.length > 0) {
+      this.fitIterative(iterative, infos, numericNames, numericColumns, stats, options);
+    }
+
+    return infos;
+  }
+
+  /**
+   * Fill missing values in rows using fitted statistics
+   */
+  static transform(
+    header: string[],
+    rows: string[][],
+    infos: ImputationInfo[]
+  ): { rows: string[][]; imputedCounts: Record<string, number> } {
+
+    const imputedCounts: Record<string, number> = {};
+    const columns = this.referencedColumns(infos);
+    const indices = columns.map(name => header.indexOf(name));
+
+    const filledRows = rows.map(row => {
+      const record: Record<string, string> = {};
+      columns.forEach((name, i) => {
+        record[name] = row[indices[i]];
+      });
+      const { values, imputed } = this.imputeValues(record, infos);
+      if (imputed.length === 0) return row;
+
+      const filled = [...row];
+      for (const name of imputed) {
+        filled[header.indexOf(name)] = values[name];
+        imputedCounts[name] = (imputedCounts[name] || 0) + 1;
+      }
+      return filled;
+    });
+
+    return { rows: filledRows, imputedCounts };
+  }
+
+  /**
+   * Fill missing values of a single record (inference)
+   */
+  static imputeRecord(
+    record: Record<string, string>,
+    infos: ImputationInfo[]
+  ): Record<string, string> {
+    return this.imputeValues(record, infos).values;
+  }
+
+  private static imputeValues(
+    record: Record<string, string>,
+    infos: ImputationInfo[]
+  ): { values: Record<string, string>; imputed: string[] } {
+
+    const values = { ...record };
+    const imputed: string[] = [];
+
+    // Direct and kNN fills read only observed values
+    for (const info of infos) {
+      if (info.regression || !this.isMissing(record[info.columnName])) continue;
+      values[info.columnName] = info.knn
+        ? this.knnValue(record, info) ?? info.fillValue
+        : info.fillValue;
+      imputed.push(info.columnName);
+    }
+
+    // Regression fills start from the fill value and may use values imputed above
+    const pending = infos.filter(
+      info => info.regression && this.isMissing(record[info.columnName])
+    );
+    for (const info of pending) values[info.columnName] = info.fillValue;
+    for (const info of pending) {
+      const { predictors, center, scale, intercept, coefficients } = info.regression!;
+      let prediction = intercept;
+      predictors.forEach((name, i) => {
+        const value = this.toNumber(values[name]);
+        if (!isNaN(value)) prediction += coefficients[i] * ((value - center[i]) / scale[i]);
+      });
+      values[info.columnName] = prediction.toString();
+      imputed.push(info.columnName);
+    }
+
+    return { values, imputed };
+  }
+
+  private static simpleFillValue(
+    strategy: ImputationStrategy,
+    observed: string[],
+    meta: InferredColumnMeta,
+    options: ImputationOptions
+  ): string {
+
+    if (strategy === 'constant') {
+      const constant = options.constants?.[meta.name];
+      if (constant !== undefined) return constant;
+    } else if (meta.inferredType === 'numeric' && strategy !== 'mode') {
+      const numbers = observed.map(value => parseFloat(value)).filter(value => !isNaN(value));
+      if (numbers.length > 0) {
+        if (strategy === 'median') return this.median(numbers).toString();
+        // mean (also the starting point for knn / iterative)
+        return (numbers.reduce((a, b) => a + b, 0) / numbers.length).toString();
+      }
+    } else {
+      // mode, and the numeric-only strategies on non-numeric columns
+      const counts = new Map<string, number>();
+      let mode = '';
+      let maxCount = 0;
+      for (const value of observed) {
+        const count = (counts.get(value) || 0) + 1;
+        counts.set(value, count);
+        if (count > maxCount) {
+          maxCount = count;
+          mode = value;
+        }
+      }
+      if (mode) return mode;
+    }
+
+    // Fallback based on column type
+    if (meta.inferredType === 'numeric') return '0';
+    if (meta.inferredType === 'boolean') return 'false';
+    return 'unknown';
+  }
+
+  private static fitKnn(
+    columnName: string,
+    numericNames: string[],
+    numericColumns: Record<string, number[]>,
+    stats: Record<string, { center: number; scale: number }>,
+    options: ImputationOptions
+  ): ImputationInfo['knn'] {
+
+    const predictors = numericNames.filter(name => name !== columnName);
+    const target = numericColumns[columnName];
+    const candidates = target
+      .map((value, row) => (isNaN(value) ? -1 : row))
+      .filter(row => row !== -1);
+
+    // Evenly spaced subsample keeps the stored donor set bounded
+    const maxDonors = options.maxDonors ?? DEFAULT_MAX_DONORS;
+    const step = Math.max(1, candidates.length / maxDonors);
+    const donorRows: number[] = [];
+    for (let i = 0; i < candidates.length && donorRows.length < maxDonors; i += step) {
+      donorRows.push(candidates[Math.floor(i)]);
+    }
+
+    return {
+      k: options.knnNeighbors ?? DEFAULT_KNN_NEIGHBORS,
+      predictors,
+      center: predictors.map(name => stats[name].center),
+      scale: predictors.map(name => stats[name].scale),
+      donors: donorRows.map(row =>
+        predictors.map(name => (numericColumns[name][row] - stats[name].center) / stats[name].scale)
+      ),
+      donorValues: donorRows.map(row => target[row])
+    };
+  }
+
+  /**
+   * Mean of the k nearest donors; distance uses only predictors present in
+   * both rows and is rescaled by the share of coordinates compared
+   */
+  private static knnValue(
+    record: Record<string, string>,
+    info: ImputationInfo
+  ): string | undefined {
+
+    const { k, predictors, center, scale, donors, donorValues } = info.knn!;
+    const query = predictors.map((name, i) => (this.toNumber(record[name]) - center[i]) / scale[i]);
+    if (donors.length === 0 || query.every(value => isNaN(value))) return undefined;
+
+    const distances: { distance: number; value: number }[] = [];
+    donors.forEach((donor, d) => {
+      let sum = 0;
+      let used = 0;
+      for (let i = 0; i < query.length; i++) {
+        // Missing donor values come back from JSON as null
+        if (isNaN(query[i]) || !Number.isFinite(donor[i])) continue;
+        sum += (query[i] - donor[i]) ** 2;
+        used++;
+      }
+      if (used > 0) {
+        distances.push({ distance: Math.sqrt((sum * query.length) / used), value: donorValues[d] });
+      }
+    });
+    if (distances.length === 0) return undefined;
+
+    distances.sort((a, b) => a.distance - b.distance);
+    const nearest = distances.slice(0, k);
+    return (nearest.reduce((acc, n) => acc + n.value, 0) / nearest.length).toString();
+  }
+
+  /**
+   * Round-robin ridge regression of each iterative column on the other
+   * numeric features, re-predicting the missing training cells every round
+   */
+  private static fitIterative(
+    iterative: ImputationInfo[],
+    infos: ImputationInfo[],
+    numericNames: string[],
+    numericColumns: Record<string, number[]>,
+    stats: Record<string, { center: number; scale: number }>,
+    options: ImputationOptions
+  ): void {
+
+    // Working copy with missing cells at their starting fill value
+    const fillFor = (name: string) => {
+      const info = infos.find(candidate => candidate.columnName === name);
+      const value = info ? parseFloat(info.fillValue) : NaN;
+      return isNaN(value) ? stats[name].center : value;
+    };
+    const working: Record<string, number[]> = {};
+    for (const name of numericNames) {
+      const fill = fillFor(name);
+      working[name] = numericColumns[name].map(value => (isNaN(value) ? fill : value));
+    }
+
+    const rounds = options.iterativeRounds ?? DEFAULT_ITERATIVE_ROUNDS;
+    for (let round = 0; round < rounds; round++) {
+      for (const info of iterative) {
+        const name = info.columnName;
+        const predictors = numericNames.filter(other => other !== name);
+        const center = predictors.map(p => stats[p].center);
+        const scale = predictors.map(p => stats[p].scale);
+        const design = (row: number) =>
+          predictors.map((p, i) => (working[p][row] - center[i]) / scale[i]);
+
+        const observedRows = numericColumns[name]
+          .map((value, row) => (isNaN(value) ? -1 : row))
+          .filter(row => row !== -1);
+        const fit = this.fitRidge(
+          observedRows.map(design),
+          observedRows.map(row => numericColumns[name][row])
+        );
+        if (!fit) continue;
+
+        info.regression = { predictors, center, scale, ...fit };
+        numericColumns[name].forEach((value, row) => {
+          if (!isNaN(value)) return;
+          const x = design(row);
+          working[name][row] = x.reduce((acc, v, i) => acc + v * fit.coefficients[i], fit.intercept);
+        });
+      }
+    }
+  }
+
+  private static fitRidge(
+    X: number[][],
+    y: number[]
+  ): { intercept: number; coefficients: number[] } | null {
+
+    if (X.length === 0) return null;
+    const p = X[0].length;
+    const yMean = y.reduce((a, b) => a + b, 0) / y.length;
+    if (p === 0) return { intercept: yMean, coefficients: [] };
+
+    // Column means of X (predictors are standardized, but observed rows are a subset)
+    const xMean = new Array(p).fill(0);
+    for (const row of X) row.forEach((v, j) => (xMean[j] += v / X.length));
+
+    const XtX = Array.from({ length: p }, () => new Array(p).fill(0));
+    const Xty = new Array(p).fill(0);
+    X.forEach((row, r) => {
+      const yc = y[r] - yMean;
+      for (let i = 0; i < p; i++) {
+        const xi = row[i] - xMean[i];
+        Xty[i] += xi * yc;
+        for (let j = i; j < p; j++) XtX[i][j] += xi * (row[j] - xMean[j]);
+      }
+    });
+    for (let i = 0; i < p; i++) {
+      for (let j = 0; j < i; j++) XtX[i][j] = XtX[j][i];
+      XtX[i][i] += RIDGE_PENALTY * X.length;
+    }
+
+    const coefficients = solveLinearSystem(XtX, Xty);
+    if (!coefficients) return null;
+    const intercept = yMean - coefficients.reduce((acc, c, j) => acc + c * xMean[j], 0);
+    return { intercept, coefficients };
+  }
+
+  // Columns an imputation pass needs to read (targets plus predictors)
+  private static referencedColumns(infos: ImputationInfo[]): string[] {
+    const names = new Set<string>();
+    for (const info of infos) {
+      names.add(info.columnName);
+      info.knn?.predictors.forEach(name => names.add(name));
+      info.regression?.predictors.forEach(name => names.add(name));
+    }
+    return Array.from(names);
+  }
+
+  private static centerAndScale(values: number[]): { center: number; scale: number } {
+    const present = values.filter(value => !isNaN(value));
+    if (present.length === 0) return { center: 0, scale: 1 };
+    const center = present.reduce((a, b) => a + b, 0) / present.length;
+    const variance = present.reduce((acc, v) => acc + (v - center) ** 2, 0) / present.length;
+    const scale = Math.sqrt(variance);
+    return { center, scale: scale > 0 ? scale : 1 };
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+
+  private static toNumber(value: string | undefined): number {
+    if (this.isMissing(value)) return NaN;
+    const num = parseFloat(value!);
+    return isFinite(num) ? num : NaN;
+  }
+}
@@ -0,0 +1,112 @@
+// Group leakage between data splits
+// Planets of one star share its catalogued stellar parameters, so a sibling
+// on each side of a split lets a model recognise the star instead of the
+// transit signal. Group keys come from a host-star id column (kepid / tid /
+// hostname) or, for tables without one, a fingerprint of the stellar
+// parameters; reports list the groups that span more than one split.
+
+import { suggestGroupColumn } from './crossValidation';
+
+// Pseudo column: rows with identical stellar parameters form one group
+export const STELLAR_FINGERPRINT = '__stellar_fingerprint__';
+
+const FINGERPRINT_COLUMNS = [
+  ['koi_steff', 'koi_slogg', 'koi_srad', 'koi_kepmag'],
+  ['st_teff', 'st_logg', 'st_rad', 'st_tmag']
+];
+
+const MAX_LISTED_GROUPS = 50;
+
+export interface LeakageReport {
+  groupColumn: string; // id column or STELLAR_FINGERPRINT
+  grouped: boolean; // the splits were made group-aware
+  totalGroups: number;
+  overlappingCount: number; // groups with rows in more than one split
+  overlappingGroups: Array<{ group: string; rows: Record<string, number> }>; // largest first, truncated
+  affectedRows: number; // rows belonging to overlapping groups
+}
+
+/**
+ * Stellar parameter columns used for the fingerprint, if the header has a full set
+ */
+export const fingerprintColumns = (header: string[]): string[] | undefined =>
+  FINGERPRINT_COLUMNS.find(columns => columns.every(column => header.includes(column)));
+
+/**
+ * Whether a group column (or the fingerprint) can be read from the header
+ */
+export const isGroupColumnAvailable = (header: string[], groupColumn: string): boolean =>
+  groupColumn === STELLAR_FINGERPRINT ? Boolean(fingerprintColumns(header)) : header.includes(groupColumn);
+
+/**
+ * Group column to audit splits with: the configured one, else a host-star id
+ * column, else the stellar fingerprint
+ */
+export const leakageGroupColumn = (header: string[], groupColumn?: string): string | undefined => {
+  if (groupColumn && isGroupColumnAvailable(header, groupColumn)) return groupColumn;
+  return suggestGroupColumn(header) || (fingerprintColumns(header) ? STELLAR_FINGERPRINT : undefined);
+};
+
+/**
+ * Human-readable name of a group column
+ */
+export const describeGroupColumn = (groupColumn: string, header: string[] = []): string =>
+  groupColumn === STELLAR_FINGERPRINT
+    ? `identical stellar parameters (${(fingerprintColumns(header) || FINGERPRINT_COLUMNS[0]).join(', ')})`
+    : groupColumn;
+
+/**
+ * Group key per row; rows without a key (blank id or incomplete stellar
+ * parameters) get '' and are treated as their own group
+ */
+export const groupKeys = (header: string[], rows: string[][], groupColumn: string): string[] => {
+  if (groupColumn === STELLAR_FINGERPRINT) {
+    const indices = (fingerprintColumns(header) || []).map(column => header.indexOf(column));
+    if (indices.length === 0) throw new Error('Stellar parameter columns for the fingerprint not found');
+    return rows.map(row => {
+      const values = indices.map(i => (row[i] ?? '').trim());
+      return values.some(value => value === '') ? '' : values.join('|');
+    });
+  }
+  const index = header.indexOf(groupColumn);
+  if (index === -1) throw new Error(`Group column '${groupColumn}' not found`);
+  return rows.map(row => (row[index] ?? '').trim());
+};
+
+/**
+ * Find groups with rows on more than one side of a split
+ * @param keys - Group key per row (from groupKeys)
+ * @param splits - Row indices per split name (e.g. train / validation / test)
+ */
+export const detectGroupLeakage = (
+  keys: string[],
+  splits: Record<string, number[]>,
+  options: { groupColumn: string; grouped: boolean }
+): LeakageReport => {
+
+  const sides = new Map<string, Record<string, number>>();
+  for (const [name, indices] of Object.entries(splits)) {
+    for (const index of indices) {
+      const key = keys[index];
+      if (!key) continue;
+      const rows = sides.get(key) || {};
+      rows[name] = (rows[name] || 0) + 1;
+      sides.set(key, rows);
+    }
+  }
+
+  const overlapping = Array.from(sides.entries())
+    .filter(([, rows]) => Object.keys(rows).length > 1)
+    .map(([group, rows]) => ({ group, rows, size: Object.values(rows).reduce((sum, n) => sum + n, 0) }))
+    .sort((a, b) => b.size - a.size);
+
+  const ungrouped = new Set(Object.values(splits).flat().filter(index => !keys[index])).size;
+  return {
+    groupColumn: options.groupColumn,
+    grouped: options.grouped,
+    totalGroups: sides.size + ungrouped,
+    overlappingCount: overlapping.length,
+    overlappingGroups: overlapping.slice(0, MAX_LISTED_GROUPS).map(({ group, rows }) => ({ group, rows })),
+    affectedRows: overlapping.reduce((sum, entry) => sum + entry.size, 0)
+  };
+};
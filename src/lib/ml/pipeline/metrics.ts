@@ -1,7 +1,14 @@
 // ML evaluation metrics calculation
 // TODO(ClassroomSpec:11) Implement comprehensive metrics for binary/multiclass classification
+// Regression models are scored by RMSE / MAE / R² (calculateRegressionMetrics)
 
-import { EvaluationSummary } from '../../../types/ml';
+import {
+  ClassificationReport,
+  ClassMetrics,
+  ClassRocCurve,
+  EvaluationSummary,
+  RegressionMetrics
+} from '../../../types/ml';
 
 /**
  * Calculate confusion matrix for binary or multiclass classification
@@ -201,6 +208,122 @@ export function calculateMulticlassMetrics(
   };
 }
 
+/**
+ * Per-class precision / recall / F1 with macro, micro and support-weighted
+ * averages, plus one-vs-rest AUC per class when probabilities are given
+ * @param predictions - Predicted class index per row
+ * @param probabilities - Class distribution per row (optional)
+ */
+export function calculateClassificationReport(
+  predictions: number[],
+  labels: number[],
+  classLabels: string[],
+  probabilities?: number[][]
+): ClassificationReport {
+
+  const confusionMatrix = calculateConfusionMatrix(predictions, labels, classLabels.length);
+  const curves = probabilities ? calculateOneVsRestROC(probabilities, labels, classLabels) : [];
+  const perClass = classLabels.map((label, classIndex) => ({
+    ...calculatePrecisionRecallF1(confusionMatrix, classIndex),
+    support: confusionMatrix[classIndex].reduce((a, b) => a + b, 0),
+    auc: curves.find(curve => curve.classLabel === label)?.auc
+  }));
+
+  const total = perClass.reduce((sum, m) => sum + m.support, 0);
+  const average = (weight: (classIndex: number) => number): ClassMetrics => ({
+    precision: perClass.reduce((sum, m, c) => sum + weight(c) * m.precision, 0),
+    recall: perClass.reduce((sum, m, c) => sum + weight(c) * m.recall, 0),
+    f1: perClass.reduce((sum, m, c) => sum + weight(c) * m.f1, 0)
+  });
+
+  // Pooled over classes every wrong row is one false positive and one false
+  // negative, so micro precision, recall and F1 all equal accuracy
+  const correct = confusionMatrix.reduce((sum, row, c) => sum + row[c], 0);
+  const micro = total > 0 ? correct / total : 0;
+
+  return {
+    classLabels,
+    perClass,
+    macro: average(() => 1 / classLabels.length),
+    micro: { precision: micro, recall: micro, f1: micro },
+    weighted: average(c => (total > 0 ? perClass[c].support / total : 0)),
+    macroAuc: curves.length > 0 ? curves.reduce((sum, curve) => sum + curve.auc, 0) / curves.length : undefined
+  };
+}
+
+/**
+ * One-vs-rest ROC curve per class, scored by that class's probability.
+ * Classes without both positive and negative rows have no curve.
+ * @param probabilities - Class distribution per row
+ * @param labels - True class index per row
+ */
+export function calculateOneVsRestROC(
+  probabilities: number[][],
+  labels: number[],
+  classLabels: string[]
+): ClassRocCurve[] {
+
+  const curves: ClassRocCurve[] = [];
+  classLabels.forEach((classLabel, classIndex) => {
+    const positives = labels.filter(l => l === classIndex).length;
+    const negatives = labels.length - positives;
+    if (positives === 0 || negatives === 0) return;
+
+    const scores = probabilities.map(p => p[classIndex] ?? 0);
+    const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+    const fpr = [0];
+    const tpr = [0];
+    const thresholds = [Infinity];
+    let truePositives = 0;
+    let falsePositives = 0;
+    order.forEach((row, k) => {
+      if (labels[row] === classIndex) truePositives++;
+      else falsePositives++;
+      // Rows with equal scores share one threshold
+      if (k + 1 < order.length && scores[order[k + 1]] === scores[row]) return;
+      fpr.push(falsePositives / negatives);
+      tpr.push(truePositives / positives);
+      thresholds.push(scores[row]);
+    });
+
+    let auc = 0;
+    for (let i = 1; i < fpr.length; i++) {
+      auc += (fpr[i] - fpr[i - 1]) * (tpr[i] + tpr[i - 1]) / 2;
+    }
+    curves.push({ classLabel, fpr, tpr, thresholds, auc });
+  });
+  return curves;
+}
+
+/**
+ * RMSE, MAE and R² of a regressor's predictions (R² is 0 for a constant
+ * target, which no model can explain beyond its mean)
+ */
+export function calculateRegressionMetrics(
+  predictions: number[],
+  actuals: number[]
+): RegressionMetrics {
+  const n = actuals.length;
+  if (n === 0) return { rmse: 0, mae: 0, r2: 0, count: 0 };
+
+  const mean = actuals.reduce((sum, value) => sum + value, 0) / n;
+  let squared = 0;
+  let absolute = 0;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const error = predictions[i] - actuals[i];
+    squared += error * error;
+    absolute += Math.abs(error);
+    total += (actuals[i] - mean) ** 2;
+  }
+  return {
+    rmse: Math.sqrt(squared / n),
+    mae: absolute / n,
+    r2: total > 0 ? 1 - squared / total : 0,
+    count: n
+  };
+}
+
 /**
  * Find optimal threshold for binary classification (maximizing F1 score)
  */
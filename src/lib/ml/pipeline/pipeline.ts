@@ -0,0 +1,417 @@
+// Fitted, serializable preprocessing pipeline
+// Captures everything needed to turn a raw record into the model's feature
+// vector (feature order, imputation, scaling, category maps, dropped columns)
+// as plain JSON, so the same transform runs at test time, in exported bundles
+// and in Node without the training dataset. Derived astrophysical features
+// are recomputed from the catalog columns they are defined on. Regressors
+// trained on a z-scored target carry its scale here too, to turn model
+// outputs back into target units.
+
+import { ImputationInfo, ImputationOptions, MissingValueImputer } from './imputation';
+import { FeatureTransformer, TransformInfo } from './transforms';
+import {
+  computeDerivedFeature,
+  derivedFeatureInputs,
+  isDerivedFeatureAvailable
+} from '../../derivedFeatures';
+import type { EncodingInfo } from './encoding';
+import type { ClipPercentiles, FeatureTransform, ImputationStrategy } from '../../../types/ml';
+
+export const PIPELINE_FORMAT_VERSION = 1;
+
+// Suffix of the 0/1 columns flagging a missing feature value
+export const MISSING_INDICATOR_SUFFIX = '_missing';
+
+export type PipelineInputValue = string | number | boolean | null | undefined;
+export type PipelineRecord = Record<string, PipelineInputValue>;
+
+export interface PipelineColumn {
+  name: string; // output column (one-hot columns expand to `${name}_${category}`)
+  source: string; // raw column read; for missing indicators, the flagged feature
+  type: 'numeric' | 'categorical' | 'boolean' | 'missing-indicator';
+  categories?: string[]; // category index order for categorical columns
+  oneHot?: boolean;
+  scale?: { mean: number; std: number }; // z-score parameters
+  transform?: TransformInfo; // clipping / power transform / scaler (replaces scale)
+  imputation?: ImputationInfo;
+}
+
+// z-score of a continuous target
+export interface TargetScale {
+  mean: number;
+  std: number;
+}
+
+export interface SerializedPipeline {
+  version: number;
+  targetColumn: string;
+  classLabels?: string[]; // class index -> original label
+  targetScale?: TargetScale; // regression on the scaled target
+  featureNames: string[]; // model input order after one-hot expansion
+  columns: PipelineColumn[];
+  droppedColumns: string[]; // selected features removed during fitting
+  derivedFeatures?: string[]; // derived feature ids computed from catalog columns
+  fittedAt: string;
+}
+
+export class PreprocessingPipeline {
+  private readonly spec: SerializedPipeline;
+  private readonly imputation: ImputationInfo[];
+  private readonly inputs: string[];
+
+  private constructor(spec: SerializedPipeline) {
+    this.spec = spec;
+    this.imputation = spec.columns
+      .map(column => column.imputation)
+      .filter((info): info is ImputationInfo => Boolean(info));
+
+    // Feature sources plus the predictors kNN / iterative imputation reads,
+    // and the catalog columns derived features are computed from
+    const names = new Set<string>();
+    for (const column of spec.columns) {
+      names.add(column.source);
+      const { knn, regression } = column.imputation || {};
+      (knn?.predictors || regression?.predictors || []).forEach(name => names.add(name));
+    }
+    derivedFeatureInputs(spec.derivedFeatures || []).forEach(name => names.add(name));
+    this.inputs = Array.from(names);
+  }
+
+  /**
+   * Build a pipeline from the encoding fitted by DataPreprocessor.prepareDataset
+   */
+  static fromEncoding(
+    encodingInfo: EncodingInfo[],
+    options: {
+      targetColumn: string;
+      removedFeatures?: string[];
+      classLabels?: string[];
+      derivedFeatures?: string[];
+    }
+  ): PreprocessingPipeline {
+
+    const columns: PipelineColumn[] = encodingInfo.map(info => {
+      if (info.missingIndicatorFor) {
+        return { name: info.columnName, source: info.missingIndicatorFor, type: 'missing-indicator' };
+      }
+      const column: PipelineColumn = {
+        name: info.columnName,
+        source: info.columnName,
+        type: info.type
+      };
+      if (info.categoricalMapping) {
+        column.categories = Array.from(info.categoricalMapping.entries())
+          .sort((a, b) => a[1] - b[1])
+          .map(([category]) => category);
+        if (info.oneHot) column.oneHot = true;
+      }
+      if (info.normalizeStats) column.scale = { ...info.normalizeStats };
+      if (info.transform) column.transform = info.transform;
+      if (info.imputation) column.imputation = info.imputation;
+      return column;
+    });
+
+    return new PreprocessingPipeline({
+      version: PIPELINE_FORMAT_VERSION,
+      targetColumn: options.targetColumn,
+      classLabels: options.classLabels,
+      featureNames: this.expandFeatureNames(columns),
+      columns,
+      droppedColumns: options.removedFeatures || [],
+      derivedFeatures: this.usedDerivedFeatures(columns, options.derivedFeatures),
+      fittedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Fit a numeric-only pipeline on an already parsed feature matrix
+   * @param featureColumns - Column names, in matrix column order
+   * @param matrix - Training rows (NaN = missing; only columns with a fill
+   *   strategy other than 'drop' should have gaps)
+   * @param options - Target / labels, whether to z-score the features,
+   *   per-column transforms / clipping that replace the z-score for a column,
+   *   the derived feature ids among the columns, continuous targets to fit a
+   *   target scale on (regression), and the fill strategy per column with
+   *   optional 0/1 indicator columns for the features that had gaps
+   */
+  static fitNumeric(
+    featureColumns: string[],
+    matrix: number[][],
+    options: {
+      targetColumn: string;
+      classLabels?: string[];
+      normalize?: boolean;
+      droppedColumns?: string[];
+      transforms?: Record<string, FeatureTransform>;
+      clipPercentiles?: Record<string, ClipPercentiles>;
+      derivedFeatures?: string[];
+      targets?: number[];
+      missingValueStrategy?: Record<string, ImputationStrategy>;
+      missingIndicators?: boolean;
+      imputation?: ImputationOptions;
+    }
+  ): PreprocessingPipeline {
+
+    const imputation = this.fitNumericImputation(featureColumns, matrix, options);
+
+    const columns: PipelineColumn[] = featureColumns.map((name, i) => {
+      const column: PipelineColumn = { name, source: name, type: 'numeric' };
+      const fitted = imputation.find(info => info.columnName === name);
+      if (fitted) column.imputation = fitted;
+      const transform = options.transforms?.[name];
+      const clip = options.clipPercentiles?.[name];
+      const observed = matrix.map(row => row[i]).filter(value => Number.isFinite(value));
+      if (transform || clip) {
+        const fallback = options.normalize !== false ? 'standard' : 'none';
+        column.transform = FeatureTransformer.fit(observed, transform || fallback, clip);
+      } else if (observed.length > 0) {
+        const mean = observed.reduce((sum, value) => sum + value, 0) / observed.length;
+        if (options.normalize !== false) {
+          const variance = observed.reduce((sum, value) => sum + (value - mean) ** 2, 0) / observed.length;
+          column.scale = { mean, std: Math.sqrt(variance) || 1 };
+        } else if (!fitted) {
+          // Unscaled columns still fill gaps with the training mean
+          column.imputation = { columnName: name, strategy: 'mean', fillValue: mean.toString() };
+        }
+      }
+      return column;
+    });
+
+    if (options.missingIndicators) {
+      featureColumns.forEach((name, i) => {
+        const imputed = imputation.some(info => info.columnName === name);
+        if (imputed && matrix.some(row => !Number.isFinite(row[i]))) {
+          columns.push({ name: `${name}${MISSING_INDICATOR_SUFFIX}`, source: name, type: 'missing-indicator' });
+        }
+      });
+    }
+
+    return new PreprocessingPipeline({
+      version: PIPELINE_FORMAT_VERSION,
+      targetColumn: options.targetColumn,
+      classLabels: options.classLabels,
+      targetScale: options.targets ? this.fitTargetScale(options.targets) : undefined,
+      featureNames: this.expandFeatureNames(columns),
+      columns,
+      droppedColumns: options.droppedColumns || [],
+      derivedFeatures: this.usedDerivedFeatures(columns, options.derivedFeatures),
+      fittedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Restore a pipeline from toJSON() output (object or JSON string)
+   */
+  static fromJSON(json: SerializedPipeline | string): PreprocessingPipeline {
+    const spec: SerializedPipeline = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!spec || !Array.isArray(spec.columns) || !Array.isArray(spec.featureNames)) {
+      throw new Error('Invalid preprocessing pipeline: missing columns or feature names');
+    }
+    if (spec.version !== PIPELINE_FORMAT_VERSION) {
+      throw new Error(`Unsupported preprocessing pipeline version: ${spec.version}`);
+    }
+    const expected = this.expandFeatureNames(spec.columns);
+    if (expected.join('\u0000') !== spec.featureNames.join('\u0000')) {
+      throw new Error('Invalid preprocessing pipeline: feature names do not match its columns');
+    }
+    return new PreprocessingPipeline(spec);
+  }
+
+  toJSON(): SerializedPipeline {
+    return JSON.parse(JSON.stringify(this.spec));
+  }
+
+  get featureNames(): string[] {
+    return [...this.spec.featureNames];
+  }
+
+  get targetColumn(): string {
+    return this.spec.targetColumn;
+  }
+
+  get classLabels(): string[] | undefined {
+    return this.spec.classLabels ? [...this.spec.classLabels] : undefined;
+  }
+
+  get targetScale(): TargetScale | undefined {
+    return this.spec.targetScale ? { ...this.spec.targetScale } : undefined;
+  }
+
+  /**
+   * Continuous targets on the scale the model is trained on (unchanged
+   * without a target scale)
+   */
+  scaleTarget(values: number[]): number[] {
+    const scale = this.spec.targetScale;
+    return scale ? values.map(value => (value - scale.mean) / scale.std) : [...values];
+  }
+
+  /**
+   * Model outputs back in target units (inverse of scaleTarget)
+   */
+  inverseTransformTarget(values: number[]): number[] {
+    const scale = this.spec.targetScale;
+    return scale ? values.map(value => value * scale.std + scale.mean) : [...values];
+  }
+
+  get droppedColumns(): string[] {
+    return [...this.spec.droppedColumns];
+  }
+
+  get derivedFeatures(): string[] {
+    return [...(this.spec.derivedFeatures || [])];
+  }
+
+  /**
+   * Raw columns a record may provide (features, imputation predictors and the
+   * catalog columns derived features read)
+   */
+  get inputColumns(): string[] {
+    return [...this.inputs];
+  }
+
+  /**
+   * Raw columns of the rows transformMatrix reads, in order (the fitted
+   * feature columns; indicator columns are computed from them)
+   */
+  get matrixColumns(): string[] {
+    return this.spec.columns
+      .filter(column => column.type !== 'missing-indicator')
+      .map(column => column.source);
+  }
+
+  /**
+   * Transform one raw record (column name -> value) into a feature vector.
+   * Missing numeric values without a fitted imputation fall back to the
+   * training mean (the median for fitted transforms); unseen categories map
+   * to index 0. Derived features given in the record are used as-is.
+   */
+  transformRecord(record: PipelineRecord): number[] {
+    const raw: Record<string, string> = {};
+    for (const name of this.inputs) raw[name] = this.toCell(record[name]);
+    for (const id of this.spec.derivedFeatures || []) {
+      if (!MissingValueImputer.isMissing(raw[id])) continue;
+      const value = computeDerivedFeature(id, column => raw[column]);
+      raw[id] = Number.isNaN(value) ? '' : value.toString();
+    }
+    const filled = MissingValueImputer.imputeRecord(raw, this.imputation);
+
+    const output: number[] = [];
+    for (const column of this.spec.columns) {
+      const value = filled[column.source] ?? '';
+
+      if (column.type === 'missing-indicator') {
+        output.push(MissingValueImputer.isMissing(raw[column.source]) ? 1 : 0);
+      } else if (column.type === 'numeric') {
+        const parsed = parseFloat(value);
+        if (column.transform) {
+          output.push(FeatureTransformer.apply(parsed, column.transform));
+          continue;
+        }
+        const number = isNaN(parsed) ? (column.scale?.mean ?? 0) : parsed;
+        output.push(column.scale ? (number - column.scale.mean) / (column.scale.std || 1) : number);
+      } else if (column.type === 'boolean') {
+        const lower = value.trim().toLowerCase();
+        output.push(lower === 'true' || lower === '1' || lower === 'yes' ? 1 : 0);
+      } else {
+        const categories = column.categories || [];
+        const index = categories.indexOf(value);
+        if (column.oneHot) {
+          categories.forEach((_, i) => output.push(i === index ? 1 : 0));
+        } else {
+          output.push(Math.max(index, 0));
+        }
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Transform raw records into a feature matrix (rows in featureNames order)
+   */
+  transform(records: PipelineRecord[]): number[][] {
+    return records.map(record => this.transformRecord(record));
+  }
+
+  /**
+   * Transform raw numeric rows given in matrixColumns order (numeric-only
+   * pipelines, e.g. the held-out rows captured at training time); NaN is a
+   * missing value
+   */
+  transformMatrix(matrix: number[][]): number[][] {
+    const names = this.matrixColumns;
+    return matrix.map(row => this.transformRecord(Object.fromEntries(names.map((name, i) => [name, row[i]]))));
+  }
+
+  /**
+   * Transform parsed table rows (e.g. from parseCSVTable) into a feature matrix
+   */
+  transformTable(header: string[], rows: string[][]): number[][] {
+    const columns = this.inputs;
+    const derived = new Set(this.spec.derivedFeatures || []);
+    const missing = this.spec.columns
+      .map(column => column.source)
+      .filter(name => !header.includes(name))
+      .filter(name => !(derived.has(name) && isDerivedFeatureAvailable(name, header)));
+    if (missing.length > 0) {
+      throw new Error(`Columns required by the preprocessing pipeline not found: ${missing.join(', ')}`);
+    }
+    const indices = columns.map(name => header.indexOf(name));
+    return rows.map(row => {
+      const record: Record<string, string> = {};
+      columns.forEach((name, i) => {
+        if (indices[i] !== -1) record[name] = row[indices[i]];
+      });
+      return this.transformRecord(record);
+    });
+  }
+
+  private toCell(value: PipelineInputValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return Number.isFinite(value) ? value.toString() : '';
+    return String(value);
+  }
+
+  // Train-fitted fills for the columns whose strategy is not 'drop'
+  private static fitNumericImputation(
+    featureColumns: string[],
+    matrix: number[][],
+    options: { missingValueStrategy?: Record<string, ImputationStrategy>; imputation?: ImputationOptions }
+  ): ImputationInfo[] {
+
+    const chosen = options.missingValueStrategy || {};
+    const strategies = Object.fromEntries(
+      featureColumns.map(name => [name, chosen[name] || 'drop'] as [string, ImputationStrategy])
+    );
+    if (featureColumns.every(name => strategies[name] === 'drop')) return [];
+
+    const rows = matrix.map(row => row.map(value => (Number.isFinite(value) ? value.toString() : '')));
+    const features = featureColumns.map((name, index) => ({
+      name,
+      index,
+      inferredType: 'numeric' as const,
+      missingCount: rows.filter(row => row[index] === '').length
+    }));
+    return MissingValueImputer.fit(featureColumns, rows, features, strategies, undefined, options.imputation);
+  }
+
+  private static fitTargetScale(values: number[]): TargetScale {
+    const n = values.length || 1;
+    const mean = values.reduce((sum, value) => sum + value, 0) / n;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / n;
+    return { mean, std: Math.sqrt(variance) || 1 };
+  }
+
+  private static usedDerivedFeatures(columns: PipelineColumn[], ids: string[] = []): string[] | undefined {
+    const used = ids.filter(id => columns.some(column => column.source === id));
+    return used.length > 0 ? used : undefined;
+  }
+
+  private static expandFeatureNames(columns: PipelineColumn[]): string[] {
+    return columns.flatMap(column =>
+      column.oneHot && column.categories
+        ? column.categories.map(category => `${column.name}_${category}`)
+        : [column.name]
+    );
+  }
+}
@@ -2,13 +2,32 @@
 // IMPLEMENTATION UPDATE: Complete training pipeline with progress tracking and validation
 
 import { LogisticRegression, LogisticRegressionConfig, TrainingMetrics } from '../models/logistic';
+import { LinearRegression, LinearRegressionConfig } from '../models/linear';
 import { DataPreprocessor, PreprocessingConfig } from './encoding';
-import type { RawDataset, InferredColumnMeta, PreparedDataset } from '../../../types/ml';
+import { createFolds, CrossValidationSplit, summarizeFolds } from './crossValidation';
+import { groupKeys, isGroupColumnAvailable, LeakageReport } from './leakage';
+import { calculateEvaluationSummary, calculateRegressionMetrics } from './metrics';
+import { DEFAULT_IMBALANCE, keepRegressionRows, rebalanceTrainingRows } from './imbalance';
+import { createRandom, deriveSeed, randomSeed, RandomSource } from '../core/math';
+import type { PreprocessingPipeline } from './pipeline';
+import type {
+  ImbalanceConfig,
+  ImbalanceReport,
+  RawDataset,
+  InferredColumnMeta,
+  PreparedDataset,
+  CrossValidationConfig,
+  CrossValidationSummary,
+  FoldEvaluation,
+  RegressionMetrics
+} from '../../../types/ml';
 
 export interface TrainingConfig {
-  modelType: 'logistic' | 'neuralnet';
+  modelType: 'logistic' | 'neuralnet'; // 'logistic' fits linear regression for a continuous target
   preprocessing: PreprocessingConfig;
   hyperparams: LogisticRegressionConfig;
+  seed?: number; // replays a previous run (TrainingResult.seed); drawn fresh when absent
+  imbalance?: ImbalanceConfig; // applied to the training split only
 }
 
 export interface TrainingResult {
@@ -16,8 +35,14 @@ export interface TrainingResult {
   trainMetrics: TrainingMetrics;
   valMetrics: TrainingMetrics;
   testMetrics?: TrainingMetrics;
+  // Continuous targets: RMSE / MAE / R² in target units (acc stays unset)
+  regression?: { train: RegressionMetrics; validation: RegressionMetrics; test?: RegressionMetrics };
   trainingHistory: TrainingMetrics[];
   encodingInfo: any[];
+  pipeline?: PreprocessingPipeline; // replays the fitted preprocessing on new rows
+  leakage?: LeakageReport; // groups (planets of one star) spanning the splits
+  seed?: number; // run seed the splits and weight initialization were drawn from
+  imbalance?: ImbalanceReport; // what the imbalance strategy did to the training rows
   preprocessing: {
     removedFeatures: string[];
     missingValueStats: Record<string, { strategy: string; imputedCount: number }>;
@@ -64,6 +89,13 @@ export class Trainer {
     // Validate configuration
     this.validateConfig(config, columnMeta);
     
+    // One run seed drives the split shuffles and the model initialization
+    const seed = config.seed ?? randomSeed();
+    const random = createRandom(seed);
+    const splitSeed = deriveSeed(random);
+    const modelSeed = deriveSeed(random);
+    const imbalanceSeed = deriveSeed(random);
+    
     onProgress?.({
       stage: 'preprocessing',
       progress: 0.2,
@@ -74,10 +106,11 @@ export class Trainer {
     const preprocessResult = DataPreprocessor.prepareDataset(
       rawDataset,
       columnMeta,
-      config.preprocessing
+      { ...config.preprocessing, seed: splitSeed }
     );
     
-    const { prepared, trainIndices, valIndices, testIndices, encodingInfo, preprocessing } = preprocessResult;
+    const { prepared, trainIndices, valIndices, testIndices, encodingInfo, pipeline, leakage, preprocessing } = preprocessResult;
+    const regression = prepared.targetType === 'regression';
     
     onProgress?.({
       stage: 'preprocessing',
@@ -85,9 +118,16 @@ export class Trainer {
       message: 'Splitting data...'
     });
     
-    // Split data
-    const { trainX, trainY, valX, valY, testX, testY } = this.splitDataEnhanced(
-      prepared, trainIndices, valIndices, testIndices
+    // Split data; only the training rows are rebalanced
+    const split = this.splitDataEnhanced(prepared, trainIndices, valIndices, testIndices);
+    const { valX, valY, testX, testY } = split;
+    const { trainX, trainY, classWeights, report: imbalance } = this.rebalanceSplit(
+      split.trainX,
+      split.trainY,
+      prepared.featureMatrixShape.cols,
+      config.imbalance,
+      createRandom(imbalanceSeed),
+      regression
     );
     
     console.log(`Training with ${trainIndices.length} samples, validating with ${valIndices.length} samples`);
@@ -119,11 +159,25 @@ export class Trainer {
     // Train model based on type
     let result: TrainingResult;
     
-    if (config.modelType === 'logistic') {
+    if (config.modelType === 'logistic' && regression) {
+      result = await this.trainLinearRegression(
+        trainX, trainY, valX, valY, testX, testY,
+        prepared.featureMatrixShape.cols,
+        { ...config.hyperparams, randomSeed: modelSeed },
+        prepared.featureNames,
+        encodingInfo,
+        preprocessing,
+        trainingProgressCallback
+      );
+    } else if (config.modelType === 'logistic') {
       result = await this.trainLogisticRegressionEnhanced(
         trainX, trainY, valX, valY, testX, testY,
         prepared.featureMatrixShape.cols,
-        config.hyperparams,
+        {
+          ...config.hyperparams,
+          classWeights: classWeights ?? config.hyperparams.classWeights,
+          randomSeed: modelSeed
+        },
         prepared.featureNames,
         encodingInfo,
         preprocessing,
@@ -133,6 +187,11 @@ export class Trainer {
       throw new Error(`Model type ${config.modelType} not implemented yet`);
     }
     
+    result.pipeline = pipeline;
+    result.leakage = leakage;
+    result.seed = seed;
+    result.imbalance = imbalance;
+    
     const endTime = performance.now();
     result.performance = {
       trainingTimeMs: endTime - startTime,
@@ -149,6 +208,125 @@ export class Trainer {
     return result;
   }
   
+  /**
+   * Estimate generalization with k-fold cross-validation (stratified, repeated
+   * or grouped). Preprocessing and the model are refitted on each fold's
+   * training rows and scored on the held-out fold, which is not used for early
+   * stopping. Continuous targets fold as a single stratum and are scored by
+   * RMSE / MAE / R²; class targets must be binary.
+   */
+  static async crossValidate(
+    rawDataset: RawDataset,
+    columnMeta: InferredColumnMeta[],
+    config: TrainingConfig,
+    cvConfig: CrossValidationConfig,
+    onProgress?: (progress: TrainingProgress) => void
+  ): Promise<CrossValidationSummary> {
+    
+    this.validateConfig(config, columnMeta);
+    if (config.modelType !== 'logistic') {
+      throw new Error(`Model type ${config.modelType} not implemented yet`);
+    }
+    if (cvConfig.strategy === 'group' && !isGroupColumnAvailable(rawDataset.header, cvConfig.groupColumn || '')) {
+      throw new Error(`Group column '${cvConfig.groupColumn}' not found in dataset`);
+    }
+    
+    // Folds are drawn over the rows prepareDataset keeps, on its first call
+    const splits: CrossValidationSplit[] = [];
+    const foldSplit = (index: number) => (targets: number[], rows: string[][], header: string[]) => {
+      if (splits.length === 0) {
+        const groups = cvConfig.strategy === 'group' ? groupKeys(header, rows, cvConfig.groupColumn!) : undefined;
+        splits.push(...createFolds(targets, cvConfig, groups));
+      }
+      return splits[index];
+    };
+    
+    // Fold models draw their initialization from the run seed, if one is set
+    const modelRandom = config.seed !== undefined ? createRandom(config.seed) : undefined;
+    
+    const folds: FoldEvaluation[] = [];
+    let index = 0;
+    do {
+      const total = splits.length || cvConfig.folds;
+      onProgress?.({
+        stage: 'training',
+        progress: index / total,
+        message: `Training fold ${index + 1}/${total}...`
+      });
+      
+      const { prepared, trainIndices, valIndices, pipeline } = DataPreprocessor.prepareDataset(
+        rawDataset,
+        columnMeta,
+        config.preprocessing,
+        foldSplit(index)
+      );
+      const regression = prepared.targetType === 'regression';
+      // Folds are fitted and scored as binary logistic regression (0.5 cutoff)
+      const classCount = pipeline.classLabels?.length ?? 0;
+      if (!regression && classCount > 2) {
+        throw new Error(`Cross-validation supports binary targets only (found ${classCount} classes)`);
+      }
+      const split = this.splitDataEnhanced(prepared, trainIndices, valIndices);
+      const { valX, valY } = split;
+      const numFeatures = prepared.featureMatrixShape.cols;
+      
+      const hyperparams = modelRandom
+        ? { ...config.hyperparams, randomSeed: deriveSeed(modelRandom) }
+        : { ...config.hyperparams };
+      // Only the fold's training rows are rebalanced
+      const { trainX, trainY, classWeights } = this.rebalanceSplit(
+        split.trainX,
+        split.trainY,
+        numFeatures,
+        config.imbalance,
+        modelRandom ?? Math.random,
+        regression
+      );
+      if (classWeights) hyperparams.classWeights = classWeights;
+      const fold = {
+        repeat: splits[index].repeat,
+        fold: splits[index].fold,
+        trainSize: trainIndices.length,
+        valSize: valIndices.length
+      };
+      
+      if (regression) {
+        const model = new LinearRegression(numFeatures, hyperparams, prepared.featureNames);
+        await model.train(trainX, trainY, trainY.length, numFeatures);
+        const predictions = Array.from(model.predict(valX, valIndices.length, numFeatures));
+        folds.push({ ...fold, regression: calculateRegressionMetrics(predictions, Array.from(valY)) });
+      } else {
+        const model = new LogisticRegression(numFeatures, hyperparams, prepared.featureNames);
+        await model.train(trainX, trainY, trainY.length, numFeatures);
+        
+        const probabilities = Array.from(model.predict(valX, valIndices.length, numFeatures));
+        const labels = Array.from(valY);
+        folds.push({
+          ...fold,
+          summary: calculateEvaluationSummary(
+            probabilities,
+            probabilities.map(p => (p >= 0.5 ? 1 : 0)),
+            labels,
+            0.5,
+            pipeline.classLabels
+          )
+        });
+      }
+      index++;
+    } while (index < splits.length);
+    
+    const summary = summarizeFolds(folds, cvConfig);
+    onProgress?.({
+      stage: 'complete',
+      progress: 1,
+      message: summary.task === 'regression'
+        ? `Cross-validation complete: RMSE ${summary.mean.rmse.toPrecision(3)} ± ${summary.std.rmse.toPrecision(3)}, R² ${summary.mean.r2.toFixed(3)}`
+        : `Cross-validation complete: accuracy ${(summary.mean.accuracy * 100).toFixed(1)}% ± ${(summary.std.accuracy * 100).toFixed(1)}%`
+    });
+    
+    return summary;
+  }
+  
   /**
    * Enhanced logistic regression training with comprehensive metrics
    * IMPLEMENTATION UPDATE: Added test set evaluation and performance tracking
@@ -221,6 +399,68 @@ export class Trainer {
     };
   }
   
+  /**
+   * Linear regression for a continuous target, scored by RMSE / MAE / R² in
+   * target units (losses are mean squared errors of the z-scored target)
+   */
+  private static async trainLinearRegression(
+    trainX: Float32Array,
+    trainY: Float32Array,
+    valX: Float32Array,
+    valY: Float32Array,
+    testX: Float32Array | null,
+    testY: Float32Array | null,
+    numFeatures: number,
+    config: LinearRegressionConfig,
+    featureNames: string[],
+    encodingInfo: any[],
+    preprocessing: any,
+    onProgress?: (metrics: TrainingMetrics) => void
+  ): Promise<TrainingResult> {
+    
+    const model = new LinearRegression(numFeatures, config, featureNames);
+    
+    const trainedModel = await model.train(
+      trainX,
+      trainY,
+      trainY.length,
+      numFeatures,
+      {
+        X: valX,
+        y: valY,
+        numSamples: valY.length
+      },
+      onProgress
+    );
+    
+    const lossOn = (X: Float32Array, y: Float32Array): TrainingMetrics => ({
+      epoch: config.epochs,
+      loss: model.evaluate(X, y, y.length, numFeatures).loss
+    });
+    const score = (X: Float32Array, y: Float32Array) =>
+      calculateRegressionMetrics(Array.from(model.predict(X, y.length, numFeatures)), Array.from(y));
+    
+    return {
+      model: trainedModel,
+      trainMetrics: lossOn(trainX, trainY),
+      valMetrics: lossOn(valX, valY),
+      testMetrics: testX && testY ? lossOn(testX, testY) : undefined,
+      regression: {
+        train: score(trainX, trainY),
+        validation: score(valX, valY),
+        test: testX && testY ? score(testX, testY) : undefined
+      },
+      trainingHistory: trainedModel.trainingHistory,
+      encodingInfo,
+      preprocessing,
+      performance: {
+        trainingTimeMs: 0, // Will be set by caller
+        samplesProcessed: trainY.length,
+        epochsCompleted: trainedModel.trainingHistory.length
+      }
+    };
+  }
+  
   /**
    * Enhanced data splitting with optional test set
    * IMPLEMENTATION UPDATE: Support for three-way data splits
@@ -291,6 +531,41 @@ export class Trainer {
     return { trainX, trainY, valX, valY, testX, testY };
   }
 
+  /**
+   * Apply the class-imbalance strategy to a flat training split (binary
+   * targets for logistic regression; continuous targets are kept as given)
+   */
+  private static rebalanceSplit(
+    trainX: Float32Array,
+    trainY: Float32Array,
+    numFeatures: number,
+    imbalance: ImbalanceConfig | undefined,
+    random: RandomSource,
+    regression = false
+  ): { trainX: Float32Array; trainY: Float32Array; classWeights?: number[]; report: ImbalanceReport } {
+    
+    if (regression) {
+      const kept = keepRegressionRows([], Array.from(trainY), imbalance ?? DEFAULT_IMBALANCE);
+      return { trainX, trainY, report: kept.report };
+    }
+    const rows = Array.from({ length: trainY.length }, (_, i) =>
+      Array.from(trainX.subarray(i * numFeatures, (i + 1) * numFeatures))
+    );
+    const rebalanced = rebalanceTrainingRows(
+      rows,
+      Array.from(trainY),
+      2,
+      imbalance ?? DEFAULT_IMBALANCE,
+      random
+    );
+    return {
+      trainX: Float32Array.from(rebalanced.X.flat()),
+      trainY: Float32Array.from(rebalanced.y),
+      classWeights: rebalanced.classWeights,
+      report: rebalanced.report
+    };
+  }
+  
   /**
    * Legacy method - use trainLogisticRegressionEnhanced instead
    * IMPLEMENTATION UPDATE: Marked as deprecated
@@ -0,0 +1,237 @@
+// Numeric feature transforms for the classroom preprocessing pipeline
+// Clipping bounds, power-transform lambdas and scaling statistics are fitted
+// on training values and kept as plain JSON in TransformInfo so inference and
+// exported pipelines apply exactly the same mapping.
+
+import { inverseNormalCDF, quantileSorted } from '../core/math';
+import type { ClipPercentiles, FeatureTransform } from '../../../types/ml';
+
+export interface TransformInfo {
+  transform: FeatureTransform;
+  fillValue: number; // raw value used when the input is missing (training median)
+  clip?: { min: number; max: number }; // fitted value bounds
+  shift?: number; // added before log / log1p / Box-Cox so the domain is valid
+  lambda?: number; // Box-Cox / Yeo-Johnson power
+  references?: number[]; // evenly spaced training quantiles for 'quantile-normal'
+  center: number; // subtracted after the transform
+  scale: number; // divisor after centering
+}
+
+const QUANTILE_REFERENCES = 1000;
+const QUANTILE_EPSILON = 1e-7; // keeps the normal quantiles finite
+const LAMBDA_RANGE = 3; // lambdas searched in [-3, 3]
+const POSITIVE_FLOOR = 1e-9;
+
+export class FeatureTransformer {
+
+  /**
+   * Fit a transform on the training values of one column
+   * @param values - Training values (NaN = missing, ignored)
+   * @param transform - Transform to fit
+   * @param clip - Optional percentile clipping applied first
+   */
+  static fit(
+    values: ArrayLike<number>,
+    transform: FeatureTransform,
+    clip?: ClipPercentiles
+  ): TransformInfo {
+
+    const observed = Array.from(values).filter(v => Number.isFinite(v)).sort((a, b) => a - b);
+    const info: TransformInfo = {
+      transform,
+      fillValue: observed.length > 0 ? quantileSorted(observed, 0.5) : 0,
+      center: 0,
+      scale: 1
+    };
+    if (observed.length === 0) return info;
+
+    if (clip) {
+      const lower = Math.min(clip.lower, clip.upper);
+      const upper = Math.max(clip.lower, clip.upper);
+      info.clip = {
+        min: quantileSorted(observed, lower / 100),
+        max: quantileSorted(observed, upper / 100)
+      };
+    }
+    const clipped = info.clip
+      ? observed.map(v => Math.min(info.clip!.max, Math.max(info.clip!.min, v)))
+      : observed;
+    const min = clipped[0];
+
+    // Domain shifts so every training value is valid for the transform
+    if (transform === 'log' || transform === 'box-cox') {
+      info.shift = min > 0 ? 0 : 1 - min;
+    } else if (transform === 'log1p') {
+      info.shift = min >= 0 ? 0 : -min;
+    }
+    if (transform === 'box-cox') {
+      info.lambda = this.fitLambda(clipped.map(v => v + info.shift!), this.boxCox, this.boxCoxJacobian);
+    } else if (transform === 'yeo-johnson') {
+      info.lambda = this.fitLambda(clipped, this.yeoJohnson, this.yeoJohnsonJacobian);
+    }
+    if (transform === 'quantile-normal') {
+      const count = Math.min(QUANTILE_REFERENCES, clipped.length);
+      info.references = Array.from({ length: count }, (_, i) =>
+        quantileSorted(clipped, count === 1 ? 0.5 : i / (count - 1))
+      );
+      return info;
+    }
+
+    const transformed = clipped.map(v => this.forward(v, info));
+    switch (transform) {
+      case 'none':
+        break;
+      case 'robust': {
+        const sorted = [...transformed].sort((a, b) => a - b);
+        const iqr = quantileSorted(sorted, 0.75) - quantileSorted(sorted, 0.25);
+        info.center = quantileSorted(sorted, 0.5);
+        info.scale = iqr || 1;
+        break;
+      }
+      case 'minmax': {
+        const low = transformed[0];
+        const high = transformed[transformed.length - 1];
+        info.center = low;
+        info.scale = high - low || 1;
+        break;
+      }
+      default: {
+        // 'standard' and the power transforms are z-scored
+        const mean = transformed.reduce((sum, v) => sum + v, 0) / transformed.length;
+        const variance = transformed.reduce((sum, v) => sum + (v - mean) ** 2, 0) / transformed.length;
+        info.center = mean;
+        info.scale = Math.sqrt(variance) || 1;
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Apply a fitted transform to one raw value (NaN uses the fill value)
+   */
+  static apply(value: number, info: TransformInfo): number {
+    let x = Number.isFinite(value) ? value : info.fillValue;
+    if (info.clip) x = Math.min(info.clip.max, Math.max(info.clip.min, x));
+    return (this.forward(x, info) - info.center) / info.scale;
+  }
+
+  /**
+   * Transform without the final centering / scaling step
+   */
+  private static forward(x: number, info: TransformInfo): number {
+    const shifted = x + (info.shift ?? 0);
+    switch (info.transform) {
+      case 'log':
+        return Math.log(Math.max(shifted, POSITIVE_FLOOR));
+      case 'log1p':
+        return Math.log1p(Math.max(shifted, 0));
+      case 'box-cox':
+        return this.boxCox(Math.max(shifted, POSITIVE_FLOOR), info.lambda ?? 1);
+      case 'yeo-johnson':
+        return this.yeoJohnson(x, info.lambda ?? 1);
+      case 'quantile-normal':
+        return this.quantileNormal(x, info.references || []);
+      default:
+        return x;
+    }
+  }
+
+  private static boxCox(y: number, lambda: number): number {
+    return Math.abs(lambda) < 1e-8 ? Math.log(y) : (Math.pow(y, lambda) - 1) / lambda;
+  }
+
+  private static boxCoxJacobian(y: number): number {
+    return Math.log(y);
+  }
+
+  private static yeoJohnson(x: number, lambda: number): number {
+    if (x >= 0) {
+      return Math.abs(lambda) < 1e-8 ? Math.log1p(x) : (Math.pow(x + 1, lambda) - 1) / lambda;
+    }
+    return Math.abs(lambda - 2) < 1e-8
+      ? -Math.log1p(-x)
+      : -(Math.pow(1 - x, 2 - lambda) - 1) / (2 - lambda);
+  }
+
+  private static yeoJohnsonJacobian(x: number): number {
+    return Math.sign(x) * Math.log1p(Math.abs(x));
+  }
+
+  /**
+   * Maximum-likelihood power (normal log-likelihood of the transformed values):
+   * coarse grid over [-3, 3], then golden-section refinement
+   */
+  private static fitLambda(
+    values: number[],
+    transform: (x: number, lambda: number) => number,
+    jacobian: (x: number) => number
+  ): number {
+
+    const n = values.length;
+    const jacobianSum = values.reduce((sum, v) => sum + jacobian(v), 0);
+    const logLikelihood = (lambda: number) => {
+      let mean = 0;
+      const transformed = values.map(v => transform(v, lambda));
+      for (const t of transformed) mean += t / n;
+      const variance = transformed.reduce((sum, t) => sum + (t - mean) ** 2, 0) / n;
+      if (!(variance > 0) || !Number.isFinite(variance)) return -Infinity;
+      return (lambda - 1) * jacobianSum - (n / 2) * Math.log(variance);
+    };
+
+    let best = 1;
+    let bestScore = logLikelihood(1);
+    for (let lambda = -LAMBDA_RANGE; lambda <= LAMBDA_RANGE + 1e-9; lambda += 0.25) {
+      const score = logLikelihood(lambda);
+      if (score > bestScore) {
+        best = lambda;
+        bestScore = score;
+      }
+    }
+
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let low = best - 0.25;
+    let high = best + 0.25;
+    for (let iter = 0; iter < 30; iter++) {
+      const a = high - ratio * (high - low);
+      const b = low + ratio * (high - low);
+      if (logLikelihood(a) > logLikelihood(b)) high = b;
+      else low = a;
+    }
+    const refined = (low + high) / 2;
+    return logLikelihood(refined) >= bestScore ? refined : best;
+  }
+
+  /**
+   * Empirical CDF (interpolated between reference quantiles) mapped to a normal quantile
+   */
+  private static quantileNormal(x: number, references: number[]): number {
+    const count = references.length;
+    if (count < 2) return 0;
+    let p: number;
+    if (x < references[0]) {
+      p = 0;
+    } else if (x > references[count - 1]) {
+      p = 1;
+    } else {
+      // Last reference <= x
+      let low = 0;
+      let high = count - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (references[mid] <= x) low = mid;
+        else high = mid - 1;
+      }
+      let position: number;
+      if (references[low] === x) {
+        // Ties share the middle of their quantile range
+        let first = low;
+        while (first > 0 && references[first - 1] === x) first--;
+        position = (first + low) / 2;
+      } else {
+        position = low + (x - references[low]) / (references[low + 1] - references[low]);
+      }
+      p = position / (count - 1);
+    }
+    return inverseNormalCDF(Math.min(1 - QUANTILE_EPSILON, Math.max(QUANTILE_EPSILON, p)));
+  }
+}
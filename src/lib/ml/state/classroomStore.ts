@@ -13,7 +13,19 @@ import {
 	PreparedDataset,
 	TrainingRun,
 	ParseStats,
+	ImputationStrategy,
+	FeatureTransform,
+	ClipPercentiles,
+	CrossValidationSummary,
+	ImbalanceConfig,
+	LabelMapping,
+	ClassificationReport,
+	ClassRocCurve,
+	RegressionMetrics,
+	TaskType,
 } from '../../../types/ml';
+import type { SerializedPipeline } from '../pipeline/pipeline';
+import type { LeakageReport } from '../pipeline/leakage';
 
 type StateListener = (state: ClassroomState) => void;
 
@@ -93,23 +105,32 @@ class ClassroomStore {
 	}
 
 	// Data Input actions
-	setDataSource(source: DataInputState['selectedDataSource']) {
+	setDataSource(
+		source: DataInputState['selectedDataSource'],
+		userDatasetId?: string, // saved upload to load when source is 'own'
+	) {
 		const prev = this.state.dataInput.selectedDataSource;
+		const prevUserDatasetId = this.state.dataInput.userDatasetId;
 		this.state = {
 			...this.state,
 			dataInput: {
 				...this.state.dataInput,
 				selectedDataSource: source,
+				userDatasetId,
 				// Reset dependent selections when dataset changes
 				targetColumn: undefined,
+				taskType: undefined,
+				labelMapping: undefined,
 				selectedFeatures: undefined,
+				derivedFeatures: undefined,
+				groupColumn: undefined,
 				rawDataset: undefined,
 				columnMeta: undefined,
 				parseStats: undefined,
 			},
 		};
 		// If dataset actually changed, clear training & test results
-		if (source !== prev) {
+		if (source !== prev || userDatasetId !== prevUserDatasetId) {
 			this.clearTraining();
 			this.clearTestResults();
 		}
@@ -155,12 +176,40 @@ class ClassroomStore {
 		this.notify();
 	}
 
-	setTargetColumn(columnName: string) {
+	setTargetColumn(columnName: string, taskType?: TaskType) {
+		const { targetColumn, labelMapping } = this.state.dataInput;
+		const sameColumn = columnName === targetColumn;
 		this.state = {
 			...this.state,
 			dataInput: {
 				...this.state.dataInput,
 				targetColumn: columnName,
+				taskType:
+					taskType ?? (sameColumn ? this.state.dataInput.taskType : undefined),
+				// A mapping lists the values of one target column
+				labelMapping: sameColumn ? labelMapping : undefined,
+			},
+		};
+		this.notify();
+	}
+
+	setTaskType(taskType: TaskType) {
+		this.state = {
+			...this.state,
+			dataInput: {
+				...this.state.dataInput,
+				taskType,
+			},
+		};
+		this.notify();
+	}
+
+	setLabelMapping(mapping: LabelMapping | undefined) {
+		this.state = {
+			...this.state,
+			dataInput: {
+				...this.state.dataInput,
+				labelMapping: mapping,
 			},
 		};
 		this.notify();
@@ -177,7 +226,37 @@ class ClassroomStore {
 		this.notify();
 	}
 
-	setMissingValueStrategy(column: string, strategy: 'drop' | 'mean' | 'mode') {
+	// Derived features join the feature list (and selection) when enabled
+	setDerivedFeature(id: string, enabled: boolean) {
+		const derived = (this.state.dataInput.derivedFeatures || []).filter(
+			(f) => f !== id,
+		);
+		const selected = (this.state.dataInput.selectedFeatures || []).filter(
+			(f) => f !== id,
+		);
+		this.state = {
+			...this.state,
+			dataInput: {
+				...this.state.dataInput,
+				derivedFeatures: enabled ? [...derived, id] : derived,
+				selectedFeatures: enabled ? [...selected, id] : selected,
+			},
+		};
+		this.notify();
+	}
+
+	setGroupColumn(column: string | undefined) {
+		this.state = {
+			...this.state,
+			dataInput: {
+				...this.state.dataInput,
+				groupColumn: column,
+			},
+		};
+		this.notify();
+	}
+
+	setMissingValueStrategy(column: string, strategy: ImputationStrategy) {
 		this.state = {
 			...this.state,
 			dataInput: {
@@ -191,6 +270,41 @@ class ClassroomStore {
 		this.notify();
 	}
 
+	setMissingIndicators(enabled: boolean) {
+		this.state = {
+			...this.state,
+			dataInput: {
+				...this.state.dataInput,
+				missingIndicators: enabled,
+			},
+		};
+		this.notify();
+	}
+
+	setFeatureTransform(column: string, transform: FeatureTransform | undefined) {
+		const featureTransforms = {
+			...this.state.dataInput.featureTransforms,
+		};
+		if (transform) featureTransforms[column] = transform;
+		else delete featureTransforms[column];
+		this.state = {
+			...this.state,
+			dataInput: { ...this.state.dataInput, featureTransforms },
+		};
+		this.notify();
+	}
+
+	setClipPercentiles(column: string, clip: ClipPercentiles | undefined) {
+		const clipPercentiles = { ...this.state.dataInput.clipPercentiles };
+		if (clip) clipPercentiles[column] = clip;
+		else delete clipPercentiles[column];
+		this.state = {
+			...this.state,
+			dataInput: { ...this.state.dataInput, clipPercentiles },
+		};
+		this.notify();
+	}
+
 	setNormalization(enabled: boolean) {
 		this.state = {
 			...this.state,
@@ -216,6 +330,11 @@ class ClassroomStore {
 		this.notify();
 	}
 
+	setImbalance(config: ImbalanceConfig) {
+		this.state.modelSelection.imbalance = config;
+		this.notify();
+	}
+
 	// Training actions
 	setPreparedDataset(dataset: PreparedDataset) {
 		this.state.training.preparedDataset = dataset;
@@ -229,6 +348,7 @@ class ClassroomStore {
 
 	setTrainingStatus(isTraining: boolean) {
 		this.state.training.isTraining = isTraining;
+		if (!isTraining) this.state.training.paused = undefined;
 		this.notify();
 	}
 
@@ -252,6 +372,21 @@ class ClassroomStore {
 		this.notify();
 	}
 
+	setPipeline(pipeline: SerializedPipeline | undefined) {
+		this.state.training.pipeline = pipeline;
+		this.notify();
+	}
+
+	setCrossValidation(summary: CrossValidationSummary | undefined) {
+		this.state.training.crossValidation = summary;
+		this.notify();
+	}
+
+	setLeakageReport(report: LeakageReport | undefined) {
+		this.state.training.leakage = report;
+		this.notify();
+	}
+
 	updateTrainingMetrics(epoch: number, metrics: any) {
 		if (this.state.training.currentRun) {
 			this.state.training.currentRun.epochMetrics.push({
@@ -283,6 +418,15 @@ class ClassroomStore {
 		this.notify();
 	}
 
+	// Status report from a training worker: proves it is alive (heartbeat for
+	// stall detection) and whether the user paused it
+	setTrainingPaused(paused: boolean) {
+		this.state.training.lastProgressAt = Date.now();
+		if (Boolean(this.state.training.paused) === paused) return;
+		this.state.training.paused = paused;
+		this.notify();
+	}
+
 	setModelMetrics(metrics: any) {
 		this.state.training.modelMetrics = metrics;
 		this.notify();
@@ -290,6 +434,7 @@ class ClassroomStore {
 
 	clearTrainingProgress() {
 		this.state.training.trainingProgress = [];
+		this.state.training.lastProgressAt = undefined;
 		this.state.training.modelMetrics = null;
 		this.notify();
 	}
@@ -328,6 +473,8 @@ class ClassroomStore {
 				auc?: number;
 			};
 			prCurve?: { recall: number[]; precision: number[]; thresholds: number[] };
+			classRocCurves?: ClassRocCurve[];
+			classReport?: ClassificationReport;
 		},
 	) {
 		this.state.testExport.hasTestResults = true;
@@ -338,10 +485,24 @@ class ClassroomStore {
 			this.state.testExport.rawTrueIndices = artifacts.rawTrueIndices;
 			this.state.testExport.rocCurve = artifacts.rocCurve;
 			this.state.testExport.prCurve = artifacts.prCurve;
+			this.state.testExport.classRocCurves = artifacts.classRocCurves;
+			this.state.testExport.classReport = artifacts.classReport;
 		}
 		this.notify();
 	}
 
+	// Test results of a regression model (no class metrics)
+	setRegressionResults(
+		metrics: RegressionMetrics,
+		points: { actual: number[]; predicted: number[] },
+	) {
+		this.state.testExport.hasTestResults = true;
+		this.state.testExport.testMetrics = undefined;
+		this.state.testExport.regressionMetrics = metrics;
+		this.state.testExport.regressionPoints = points;
+		this.notify();
+	}
+
 	clearTestResults() {
 		this.state.testExport.hasTestResults = false;
 		this.state.testExport.testMetrics = undefined;
@@ -350,6 +511,10 @@ class ClassroomStore {
 		this.state.testExport.rawTrueIndices = undefined;
 		this.state.testExport.rocCurve = undefined;
 		this.state.testExport.prCurve = undefined;
+		this.state.testExport.classRocCurves = undefined;
+		this.state.testExport.classReport = undefined;
+		this.state.testExport.regressionMetrics = undefined;
+		this.state.testExport.regressionPoints = undefined;
 		this.notify();
 	}
 
@@ -387,6 +552,11 @@ class ClassroomStore {
 				},
 			};
 
+			// Saved uploads are re-read from IndexedDB instead
+			if (this.state.dataInput.userDatasetId) {
+				stateToSave.dataInput.rawDataset = undefined;
+			}
+
 			localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stateToSave));
 		} catch (error) {
 			console.warn('Failed to save classroom state to localStorage:', error);
@@ -400,11 +570,9 @@ class ClassroomStore {
 			const saved = localStorage.getItem(this.STORAGE_KEY);
 			if (saved) {
 				const parsedState = JSON.parse(saved);
-				// Migration: remove deprecated data sources ('combined', 'k2')
-				if (
-					parsedState?.dataInput?.selectedDataSource === 'combined' ||
-					parsedState?.dataInput?.selectedDataSource === 'k2'
-				) {
+				// Migration: remove the deprecated 'combined' source (ids missing from
+				// the dataset registry fall back to its first entry on load)
+				if (parsedState?.dataInput?.selectedDataSource === 'combined') {
 					parsedState.dataInput.selectedDataSource = 'kepler';
 				}
 				// Merge but intentionally discard any persisted training & test progress so a refresh starts clean
@@ -457,7 +625,9 @@ class ClassroomStore {
 			currentRun: undefined,
 			preparedDataset: undefined,
 			lastProgressAt: undefined,
+			paused: undefined,
 			testDataset: undefined,
+			pipeline: undefined,
 		};
 		this.notify();
 	}
@@ -465,11 +635,11 @@ class ClassroomStore {
 	// Normalize inconsistent training state (e.g., app reloaded mid-training)
 	ensureTrainingConsistency(maxStaleMs: number = 15000) {
 		const t = this.state.training;
-		if (!t.isTraining) return; // only act on active training
-		const noProgress = !t.trainingProgress || t.trainingProgress.length === 0;
+		if (!t.isTraining || t.paused) return; // only act on running training
+		// Epochs and worker heartbeats both refresh lastProgressAt
 		const tooStale =
 			!t.lastProgressAt || Date.now() - t.lastProgressAt > maxStaleMs;
-		if (noProgress || tooStale) {
+		if (tooStale) {
 			// Consider it stale; reset isTraining flag but retain any partial metrics for inspection
 			console.warn(
 				'[ClassroomStore] Detected stale training state. Normalizing.',
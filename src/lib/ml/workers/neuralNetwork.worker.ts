@@ -0,0 +1,163 @@
+// Web Worker training a neural network (see neuralNetworkSession)
+// Runs TF.js on the CPU backend, off the UI thread. 'start' brings the
+// preprocessed rows; every epoch goes back as an 'epoch' message and the
+// trained weights as 'complete'. 'pause' holds training at the next batch
+// boundary until 'resume'; 'stop' ends it there and still returns the
+// weights trained so far. Learning rate schedules, early stopping and
+// restore-best-weights run here too (NeuralNetworkEpochControl), as do the
+// class weights or focal loss of the imbalance strategy.
+
+import * as tf from '@tensorflow/tfjs';
+import type { WorkerMessage } from '../../../types/ml';
+import {
+  fitClassWeight,
+  NeuralNetworkEpochControl,
+  NeuralNetworkService
+} from '../neuralNetwork';
+import type { NeuralNetworkWorkerJob } from './neuralNetworkSession';
+
+// Longest stretch of batches without letting control messages in (ms)
+const YIELD_INTERVAL_MS = 100;
+// Running / paused status reports, which double as heartbeats (ms)
+const HEARTBEAT_INTERVAL_MS = 2000;
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+};
+
+let paused = false;
+let stopRequested = false;
+let release: (() => void) | null = null;
+let model: tf.LayersModel | null = null;
+
+const postStatus = () =>
+  ctx.postMessage({ type: 'status', payload: { state: paused ? 'paused' : 'running' } });
+
+ctx.onmessage = event => {
+  const { type, payload } = event.data;
+  if (type === 'start') {
+    train(payload as NeuralNetworkWorkerJob).catch(error =>
+      ctx.postMessage({
+        type: 'error',
+        payload: { message: error instanceof Error ? error.message : String(error) }
+      })
+    );
+  } else if (type === 'pause') {
+    paused = true;
+    postStatus();
+  } else if (type === 'resume' || type === 'stop') {
+    if (type === 'stop') {
+      stopRequested = true;
+      if (model) model.stopTraining = true;
+    }
+    paused = false;
+    release?.();
+    postStatus();
+  }
+};
+
+async function train(job: NeuralNetworkWorkerJob): Promise<void> {
+  await tf.setBackend('cpu');
+  await tf.ready();
+
+  const service = new NeuralNetworkService();
+  model = service.createModel(
+    job.inputDim,
+    job.numClasses,
+    job.hiddenLayers,
+    job.learningRate,
+    job.seed,
+    job.training
+  );
+  const control = new NeuralNetworkEpochControl(
+    model,
+    job.learningRate,
+    job.epochs,
+    job.training
+  );
+  const trainRows = job.xTrain.length / job.inputDim;
+  const valRows = job.xVal.length / job.inputDim;
+  const xTrain = tf.tensor2d(job.xTrain, [trainRows, job.inputDim]);
+  const yTrain = tf.tensor2d(job.yTrain, [trainRows, job.numClasses]);
+  const xVal = tf.tensor2d(job.xVal, [valRows, job.inputDim]);
+  const yVal = tf.tensor2d(job.yVal, [valRows, job.numClasses]);
+
+  let epochsTrained = 0;
+  let learningRate = job.learningRate;
+  let lastYield = Date.now();
+  let lastHeartbeat = 0;
+  postStatus();
+
+  try {
+    await model.fit(xTrain, yTrain, {
+      epochs: job.epochs,
+      batchSize: job.batchSize,
+      validationData: [xVal, yVal],
+      // Seeded runs keep the (already shuffled) batch order fixed
+      shuffle: job.seed === undefined,
+      classWeight: fitClassWeight(job.training),
+      yieldEvery: 'never',
+      callbacks: {
+        onEpochBegin: async epoch => {
+          learningRate = control.beginEpoch(epoch);
+        },
+        onBatchEnd: async () => {
+          const now = Date.now();
+          if (now - lastYield >= YIELD_INTERVAL_MS) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = Date.now();
+          }
+          if (now - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+            postStatus();
+            lastHeartbeat = now;
+          }
+          while (paused && !stopRequested) {
+            await new Promise<void>(resolve => (release = resolve));
+            release = null;
+          }
+          if (stopRequested && model) model.stopTraining = true;
+        },
+        onEpochEnd: async (epoch, logs) => {
+          epochsTrained = epoch + 1;
+          ctx.postMessage({
+            type: 'epoch',
+            payload: {
+              epoch: epoch + 1,
+              loss: logs?.loss,
+              acc: logs?.acc ?? logs?.accuracy,
+              valLoss: logs?.val_loss,
+              valAcc: logs?.val_acc ?? logs?.val_accuracy,
+              lr: learningRate
+            }
+          });
+          if (control.endEpoch(epoch, logs) && model) model.stopTraining = true;
+        }
+      }
+    });
+
+    const restoredBestWeights = control.finish();
+    const weights = await service.getWeightData();
+    ctx.postMessage(
+      {
+        type: 'complete',
+        payload: {
+          weights,
+          epochsTrained,
+          stopped: stopRequested,
+          bestEpoch: control.bestEpoch,
+          restoredBestWeights,
+          earlyStoppedAt: control.earlyStoppedAt
+        }
+      },
+      weights.map(w => w.values.buffer)
+    );
+  } finally {
+    xTrain.dispose();
+    yTrain.dispose();
+    xVal.dispose();
+    yVal.dispose();
+    service.dispose();
+    model = null;
+  }
+}
@@ -0,0 +1,182 @@
+// Neural network training in a dedicated Web Worker (neuralNetwork.worker.ts)
+// The session is held at module level rather than by a component, so
+// training keeps running while the user moves between Classroom pages;
+// whichever page is mounted reaches it through getActiveNeuralNetworkSession.
+
+import type { WorkerMessage } from '../../../types/ml';
+import type {
+  NeuralNetworkTrainingOptions,
+  NeuralNetworkWeights
+} from '../neuralNetwork';
+
+// 'start' payload: preprocessed rows and the model to build
+export interface NeuralNetworkWorkerJob {
+  inputDim: number;
+  numClasses: number; // output units (1 for a regressor)
+  hiddenLayers: number[];
+  learningRate: number;
+  epochs: number;
+  batchSize: number;
+  seed?: number; // seeds initializers and dropout; fixes the batch order
+  training: NeuralNetworkTrainingOptions; // optimizer, schedule, early stopping, class weights
+  xTrain: Float32Array; // row-major rows x inputDim, already normalized
+  yTrain: Float32Array; // one-hot, rows x numClasses (regression: z-scored target)
+  xVal: Float32Array;
+  yVal: Float32Array;
+}
+
+// Field names match TrainingRun.epochMetrics
+export interface NeuralNetworkEpochMetrics {
+  epoch: number; // 1-based
+  loss: number;
+  acc?: number;
+  valLoss?: number;
+  valAcc?: number;
+  lr: number; // learning rate used for the epoch
+}
+
+export interface NeuralNetworkWorkerResult {
+  weights: NeuralNetworkWeights; // for NeuralNetworkService.setWeightData
+  epochsTrained: number;
+  stopped: boolean; // stopped by the user before the last epoch
+  bestEpoch: number; // best epoch on the early-stopping metric (0: none)
+  restoredBestWeights: boolean; // weights are bestEpoch's, not the last epoch's
+  earlyStoppedAt?: number;
+}
+
+export type NeuralNetworkWorkerState = 'running' | 'paused';
+
+export interface NeuralNetworkSessionHandlers {
+  onEpoch?: (metrics: NeuralNetworkEpochMetrics) => void;
+  // running / paused; also sent every few seconds as a heartbeat
+  onStatus?: (state: NeuralNetworkWorkerState) => void;
+}
+
+// Rejection of a session's result when a newer session replaced it
+export class SupersededSessionError extends Error {
+  constructor() {
+    super('Training was replaced by a newer session');
+    this.name = 'SupersededSessionError';
+  }
+}
+
+let activeSession: NeuralNetworkWorkerSession | null = null;
+
+/**
+ * Training session still running in a worker, if any
+ */
+export function getActiveNeuralNetworkSession(): NeuralNetworkWorkerSession | null {
+  return activeSession;
+}
+
+/**
+ * Start training in a new worker session (a session already running is
+ * superseded: its worker ends, its handlers stop firing and its result
+ * rejects with SupersededSessionError)
+ */
+export function startNeuralNetworkSession(
+  job: NeuralNetworkWorkerJob,
+  handlers: NeuralNetworkSessionHandlers = {}
+): NeuralNetworkWorkerSession {
+  activeSession?.supersede();
+  const session = new NeuralNetworkWorkerSession(job, handlers);
+  activeSession = session;
+  return session;
+}
+
+export class NeuralNetworkWorkerSession {
+  readonly result: Promise<NeuralNetworkWorkerResult>;
+  private worker: Worker;
+  private state: NeuralNetworkWorkerState = 'running';
+  private superseded = false;
+  private rejectResult: (error: Error) => void = () => {};
+
+  /**
+   * Start training in a new worker; see startNeuralNetworkSession for
+   * sessions the Classroom pages can find again
+   */
+  constructor(job: NeuralNetworkWorkerJob, handlers: NeuralNetworkSessionHandlers = {}) {
+    this.worker = new Worker(new URL('./neuralNetwork.worker.ts', import.meta.url));
+
+    this.result = new Promise<NeuralNetworkWorkerResult>((resolve, reject) => {
+      this.rejectResult = reject;
+      const finish = () => {
+        this.worker.terminate();
+        if (activeSession === this) activeSession = null;
+      };
+      this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        // Messages already queued when the session was replaced
+        if (this.superseded) return;
+        const { type, payload } = event.data;
+        if (type === 'epoch') {
+          handlers.onEpoch?.(payload as NeuralNetworkEpochMetrics);
+        } else if (type === 'status') {
+          this.state = payload.state;
+          handlers.onStatus?.(this.state);
+        } else if (type === 'complete') {
+          finish();
+          resolve(payload as NeuralNetworkWorkerResult);
+        } else if (type === 'error') {
+          finish();
+          reject(new Error(payload?.message || 'Neural network worker failed'));
+        }
+      };
+      this.worker.onerror = event => {
+        event.preventDefault();
+        if (this.superseded) return;
+        finish();
+        reject(new Error(event.message || 'Neural network worker failed'));
+      };
+    });
+
+    const message: WorkerMessage = { type: 'start', payload: job };
+    this.worker.postMessage(message, [
+      job.xTrain.buffer,
+      job.yTrain.buffer,
+      job.xVal.buffer,
+      job.yVal.buffer
+    ]);
+  }
+
+  getState(): NeuralNetworkWorkerState {
+    return this.state;
+  }
+
+  /**
+   * Hold training at the next batch boundary
+   */
+  pause(): void {
+    this.post('pause');
+  }
+
+  resume(): void {
+    this.post('resume');
+  }
+
+  /**
+   * End training at the next batch boundary; result still resolves, with
+   * the weights trained so far
+   */
+  stop(): void {
+    this.post('stop');
+  }
+
+  /**
+   * Drop this session for a newer one (startNeuralNetworkSession): the
+   * worker is ended without reporting, so no handler fires and result
+   * rejects
+   */
+  supersede(): void {
+    this.superseded = true;
+    this.worker.onmessage = null;
+    this.worker.onerror = null;
+    this.worker.terminate();
+    if (activeSession === this) activeSession = null;
+    this.rejectResult(new SupersededSessionError());
+  }
+
+  private post(type: WorkerMessage['type']): void {
+    const message: WorkerMessage = { type };
+    this.worker.postMessage(message);
+  }
+}
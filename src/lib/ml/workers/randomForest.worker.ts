@@ -0,0 +1,54 @@
+// Web Worker growing one share of a random forest (see randomForestPool)
+// 'start' brings the rows and the trees to grow; each finished tree goes
+// back as an 'epoch' message, then 'complete'. 'stop' ends the loop at the
+// next tree boundary.
+
+import type { WorkerMessage } from '../../../types/ml';
+import { groupRowIndices, growForestTree } from '../models/randomForest';
+import type { ForestWorkerJob } from './randomForestPool';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+};
+
+let stopped = false;
+
+ctx.onmessage = async event => {
+  const { type, payload } = event.data;
+  if (type === 'stop') {
+    stopped = true;
+    return;
+  }
+  if (type !== 'start') return;
+
+  try {
+    const job = payload as ForestWorkerJob;
+    // Row views into the transferred buffer (no copies)
+    const X = Array.from({ length: job.rows }, (_, i) =>
+      job.features.subarray(i * job.cols, (i + 1) * job.cols)
+    );
+    const groupRows = job.groups ? groupRowIndices(job.groups) : undefined;
+
+    for (const { treeIndex, seed } of job.trees) {
+      if (stopped) break;
+      const result = growForestTree(X, job.labels, treeIndex, seed, {
+        config: job.config,
+        numClasses: job.numClasses,
+        groupRows
+      });
+      ctx.postMessage({ type: 'epoch', payload: result }, [
+        result.oobRows.buffer,
+        result.oobFractions.buffer
+      ]);
+      // Let a pending 'stop' message in between trees
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    ctx.postMessage({ type: 'complete', payload: { stopped } });
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      payload: { message: error instanceof Error ? error.message : String(error) }
+    });
+  }
+};
@@ -0,0 +1,147 @@
+// Random forest training across Web Workers
+// Trees are dealt round-robin to a pool of workers (randomForest.worker.ts).
+// Each worker gets its own copy of the training rows as transferable
+// Float64Arrays (full precision, so the trees match a main-thread fit) and
+// streams every finished tree back as an 'epoch' message;
+// the main thread assembles the forest and pools the out-of-bag votes.
+// Trees carry their own seeds, so the forest does not depend on pool size.
+
+import type { WorkerMessage } from '../../../types/ml';
+import {
+  ForestTreeProgress,
+  ForestTreeResult,
+  RandomForestClassifier,
+  RandomForestConfig
+} from '../models/randomForest';
+
+// 'start' payload: one worker's share of the forest
+export interface ForestWorkerJob {
+  config: RandomForestConfig;
+  numClasses: number;
+  rows: number;
+  cols: number;
+  features: Float64Array; // row-major rows x cols
+  labels: Float64Array; // class index (regression: target value) per row
+  groups?: string[]; // group key per row (whole-group bootstrap)
+  trees: Array<{ treeIndex: number; seed: number }>;
+}
+
+/**
+ * Workers to start: one core is left for the UI thread
+ */
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+  return Math.min(8, Math.max(1, (cores || 2) - 1));
+}
+
+export class RandomForestWorkerPool {
+  private size: number;
+  private workers: Worker[] = [];
+  private finish: (() => void) | null = null;
+
+  constructor(size: number = defaultPoolSize()) {
+    this.size = Math.max(1, Math.floor(size));
+  }
+
+  /**
+   * Grow the model's trees across the pool (same options as
+   * RandomForestClassifier.fit); resolves when every tree is in or after
+   * stop(). Falls back to model.fit where Web Workers are unavailable.
+   */
+  async fit(
+    model: RandomForestClassifier,
+    X: number[][],
+    y: number[],
+    featureNames: string[],
+    options: {
+      numClasses?: number;
+      groups?: string[];
+      onTree?: (progress: ForestTreeProgress) => boolean | void;
+    } = {}
+  ): Promise<void> {
+
+    if (typeof Worker === 'undefined') return model.fit(X, y, featureNames, options);
+    if (X.length === 0) throw new Error('No training rows');
+
+    const config = model.getConfig();
+    // Regression trees carry one output per row
+    const numClasses =
+      config.task === 'regression' ? 1 : options.numClasses ?? Math.max(...y) + 1;
+    model.reset(featureNames, numClasses, X.length);
+    const seeds = model.treeSeeds();
+    const size = Math.min(this.size, seeds.length);
+    const rows = X.length;
+    const cols = X[0].length;
+
+    await new Promise<void>((resolve, reject) => {
+      let running = size;
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        this.finish = null;
+        this.terminate();
+        if (error) reject(error);
+        else resolve();
+      };
+      this.finish = () => settle();
+
+      for (let w = 0; w < size; w++) {
+        const worker = new Worker(new URL('./randomForest.worker.ts', import.meta.url));
+        this.workers.push(worker);
+
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+          if (settled) return;
+          const { type, payload } = event.data;
+          if (type === 'epoch') {
+            const progress = model.addTree(payload as ForestTreeResult, y);
+            if (options.onTree?.(progress) === false) settle();
+          } else if (type === 'complete') {
+            if (--running === 0) settle();
+          } else if (type === 'error') {
+            settle(new Error(payload?.message || 'Random forest worker failed'));
+          }
+        };
+        worker.onerror = event => {
+          event.preventDefault();
+          settle(new Error(event.message || 'Random forest worker failed'));
+        };
+
+        // Each worker owns its copy: the buffers are transferred, not cloned
+        const features = new Float64Array(rows * cols);
+        X.forEach((row, i) => features.set(row, i * cols));
+        const job: ForestWorkerJob = {
+          config,
+          numClasses,
+          rows,
+          cols,
+          features,
+          labels: Float64Array.from(y),
+          groups: options.groups,
+          trees: seeds
+            .map((seed, treeIndex) => ({ treeIndex, seed }))
+            .filter(({ treeIndex }) => treeIndex % size === w)
+        };
+        const message: WorkerMessage = { type: 'start', payload: job };
+        worker.postMessage(message, [features.buffer, job.labels.buffer]);
+      }
+    });
+  }
+
+  /**
+   * Stop training now: workers are terminated rather than asked to finish
+   * their current tree, and fit resolves with the trees received so far
+   */
+  stop(): void {
+    this.finish?.();
+  }
+
+  private terminate(): void {
+    this.workers.forEach(worker => {
+      const message: WorkerMessage = { type: 'stop' };
+      worker.postMessage(message);
+      worker.terminate();
+    });
+    this.workers = [];
+  }
+}
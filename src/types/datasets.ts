@@ -0,0 +1,163 @@
+// TypeScript interfaces for the Exchron dataset registry
+// The manifest lives in data/datasets.json; adding a mission is a data change.
+
+import type { ColumnType } from './ml';
+
+export type DatasetFileFormat =
+	'csv' | 'ipac' | 'votable' | 'parquet' | 'arrow';
+
+// Playground card for datasets the remote prediction service can score
+export interface PlaygroundDatasetInfo {
+	name: string;
+	description: string;
+	samples: number;
+	duration: string; // observation span shown on the card, e.g. '2009-2017'
+	predictionKey: string; // `data` value sent to /api/ml-predict
+	restrictedModels?: boolean; // also offered to the CNN/DNN models
+}
+
+export interface DatasetManifestEntry {
+	id: string; // stable id, stored as DataInputState.selectedDataSource
+	name: string;
+	mission: string;
+	file: string; // file name inside data/
+	format: DatasetFileFormat;
+	summary: string; // one-line description for the source picker
+	description?: string;
+	targetColumn: string;
+	defaultFeatures: string[];
+	labelMapping?: Record<string, number>; // raw target label -> class index
+	citation?: string;
+	license?: string;
+	playground?: PlaygroundDatasetInfo;
+}
+
+export interface DatasetManifest {
+	version: number;
+	datasets: DatasetManifestEntry[];
+}
+
+// Entry as listed by GET /api/datasets
+export interface DatasetListing extends DatasetManifestEntry {
+	url: string; // GET endpoint streaming the file
+	size?: number; // bytes; absent if the file is missing on the server
+	etag?: string;
+	lastModified?: string;
+}
+
+// Uploaded dataset persisted in the browser (IndexedDB), keyed by content hash
+export interface UserDatasetRecord {
+	id: string; // SHA-256 of the file bytes (hex)
+	name: string; // display name, editable in the picker
+	fileName: string; // original file name (its extension selects the parser)
+	format: DatasetFileFormat;
+	size: number;
+	createdAt: number;
+	lastUsedAt: number;
+	blob: Blob;
+}
+
+export type UserDatasetSummary = Omit<UserDatasetRecord, 'blob'>;
+
+// Dataset profile returned by GET /api/datasets/:id/profile
+export interface HistogramBin {
+	start: number;
+	end: number; // exclusive, except for the last bin
+	count: number;
+}
+
+export interface ValueCount {
+	value: string;
+	count: number;
+	ratio: number; // share of the non-missing values
+}
+
+export interface ColumnQuantiles {
+	min: number;
+	p05: number;
+	p25: number;
+	median: number;
+	p75: number;
+	p95: number;
+	max: number;
+}
+
+export interface ColumnProfile {
+	name: string;
+	index: number;
+	inferredType: ColumnType;
+	unit?: string;
+	missingCount: number;
+	missingRatio: number;
+	cardinality: number; // distinct non-missing values
+	cardinalityCapped: boolean; // true when counting stopped at the cap
+	mean?: number;
+	std?: number;
+	quantiles?: ColumnQuantiles; // numeric columns only
+	histogram?: HistogramBin[]; // numeric columns only
+	topValues?: ValueCount[]; // most frequent values of non-numeric columns
+}
+
+export interface CorrelationMatrix {
+	columns: string[]; // numeric columns, in header order
+	values: (number | null)[][]; // Pearson r over pairwise-complete rows
+}
+
+export interface DatasetProfile {
+	name: string;
+	rowCount: number;
+	columnCount: number;
+	targetColumn?: string;
+	classBalance?: ValueCount[]; // target label counts, most frequent first
+	columns: ColumnProfile[];
+	correlation: CorrelationMatrix;
+	generatedAt: string;
+}
+
+// Cross-mission schema harmonization (see lib/datasets/schema)
+export type CanonicalFeature =
+	| 'orbital_period'
+	| 'transit_epoch'
+	| 'transit_duration'
+	| 'transit_depth'
+	| 'impact_parameter'
+	| 'inclination'
+	| 'eccentricity'
+	| 'semi_major_axis'
+	| 'model_snr'
+	| 'planet_count'
+	| 'odd_even_depth_sig'
+	| 'stellar_teff'
+	| 'stellar_logg'
+	| 'stellar_radius'
+	| 'stellar_mass'
+	| 'stellar_distance'
+	| 'host_magnitude';
+
+export type CanonicalLabel = 'candidate' | 'non-candidate';
+
+// Three-way disposition of the archive tables (TESS codes grouped onto it)
+export type DispositionLabel = 'CONFIRMED' | 'CANDIDATE' | 'FALSE POSITIVE';
+
+export interface CanonicalFeatureInfo {
+	id: CanonicalFeature;
+	label: string;
+	unit: string;
+	description: string;
+}
+
+// canonical = value * scale + offset
+export interface MissionColumnMapping {
+	column: string;
+	scale?: number;
+	offset?: number;
+}
+
+export interface MissionSchema {
+	mission: string; // matches DatasetManifestEntry.mission
+	targetColumn: string;
+	labels: Record<string, CanonicalLabel>; // upper-cased raw label -> canonical
+	dispositions: Record<string, DispositionLabel>; // upper-cased raw label -> three-way
+	// Mission columns per canonical feature, preferred column first
+	columns: Partial<Record<CanonicalFeature, MissionColumnMapping[]>>;
+}
@@ -1,6 +1,9 @@
 // TypeScript interfaces for Exchron ML functionality
 // Based on classroom-feature-spec.md Section 5
 
+import type { SerializedPipeline } from '../lib/ml/pipeline/pipeline';
+import type { LeakageReport } from '../lib/ml/pipeline/leakage';
+
 export type ColumnType =
 	| 'numeric'
 	| 'categorical'
@@ -18,9 +21,16 @@ export interface RawDataset {
 // Parsing diagnostics for transparency in tolerant ingestion
 export interface ParseStats {
 	delimiter: string;
+	// Source format (absent means CSV)
+	format?: 'csv' | 'ipac' | 'votable' | 'parquet' | 'arrow';
 	inconsistentRowsDropped: number;
 	totalRowsBefore: number;
 	totalRowsAfter: number;
+	// Streaming ingestion diagnostics (absent for legacy persisted stats)
+	bytesRead?: number;
+	totalBytes?: number; // known source size, if any
+	chunkCount?: number;
+	rowsRetained?: number; // rows kept in RawDataset.rows (stats cover all rows)
 }
 
 export interface InferredColumnMeta {
@@ -33,20 +43,30 @@ export interface InferredColumnMeta {
 	mean?: number;
 	std?: number;
 	missingCount: number;
+	// Declared by self-describing formats (IPAC table / VOTable headers)
+	declaredType?: string;
+	unit?: string;
+	description?: string;
 }
 
 export interface PreparedDataset {
 	features: Float32Array; // flattened (row-major)
 	featureMatrixShape: { rows: number; cols: number };
 	featureNames: string[];
-	target: Float32Array; // encoded target (binary 0/1 or one-hot later)
+	target: Float32Array; // encoded target (class index, or the value for regression)
 	targetType: 'binary' | 'multiclass' | 'regression';
 	encodingMap: Record<string, string[]>; // columnName -> category list
 }
 
 export interface ModelConfigBase {
 	id: string;
-	type: 'logistic' | 'neuralnet' | 'decision-tree' | 'random-forest';
+	type:
+		| 'logistic'
+		| 'neuralnet'
+		| 'decision-tree'
+		| 'random-forest'
+		| 'gradient-boosting'
+		| 'svm';
 	createdAt: number;
 	hyperparams: Record<string, number | string | boolean>;
 }
@@ -57,19 +77,118 @@ export interface RandomForestHyperparams {
 	maxDepth: number;
 	minSamplesSplit: number;
 	minSamplesLeaf: number;
-	maxFeatures: 'sqrt' | 'log2' | number;
+	maxFeatures: 'sqrt' | 'log2' | 'all' | number; // features tried per split (number < 1: fraction)
 	bootstrap: boolean;
+	criterion: 'gini' | 'entropy'; // split impurity (regression trees use squared error)
 	randomState?: number;
 }
 
+export interface GradientBoostingHyperparams {
+	modelType: 'gradient-boosting';
+	nEstimators: number; // boosting rounds (upper bound with early stopping)
+	learningRate: number;
+	maxDepth: number;
+	minSamplesLeaf: number;
+	subsample: number; // fraction of training rows per round
+	maxBins: number; // histogram bins per feature
+	l2Regularization: number;
+	validationSplit: number; // training fraction held out for early stopping
+	earlyStoppingRounds: number; // 0 disables early stopping
+	seed?: number;
+}
+
+export interface SvmHyperparams {
+	modelType: 'svm';
+	kernel: 'linear' | 'rbf';
+	C: number;
+	gamma: number | 'scale'; // RBF only
+	epochs: number; // Pegasos passes (linear only)
+	tolerance: number; // SMO stopping gap (RBF only)
+	maxIterations: number; // SMO iteration cap (RBF only)
+	cacheSizeMb: number; // kernel row cache (RBF only)
+	calibrationSplit: number; // training fraction held out for Platt scaling
+	seed?: number;
+}
+
+export interface LogisticRegressionHyperparams {
+	modelType: 'logistic-regression';
+	penalty: 'none' | 'l1' | 'l2' | 'elasticnet';
+	regularization: number; // penalty strength (lambda)
+	l1Ratio: number; // elastic-net mix, 1 = pure L1
+	learningRate: number;
+	epochs: number;
+	batchSize: number;
+	validationSplit: number; // training fraction held out for early stopping
+	earlyStoppingPatience: number;
+	seed?: number;
+}
+
 export interface NeuralNetworkHyperparams {
 	modelType: 'neural-network';
 	hiddenLayers: number[];
-	learningRate: number;
-	epochs: number;
+	activation: 'relu' | 'elu' | 'tanh'; // hidden layers
+	optimizer: 'adam' | 'sgd' | 'rmsprop';
+	learningRate: number; // initial rate (see lrSchedule)
+	lrSchedule: LearningRateSchedule;
+	epochs: number; // upper bound with early stopping
 	batchSize: number;
 	dropoutRate: number;
+	weightDecay: number; // decoupled shrinkage of the kernels per step (0 disables)
+	clipNorm: number; // cap on the global gradient norm (0 disables)
+	earlyStopping: EarlyStoppingConfig;
 	validationSplit: number;
+	regressionLoss: RegressionLoss; // continuous targets only
+	huberDelta: number; // Huber loss: error (in target std units) where it turns linear
+	seed?: number;
+}
+
+// Loss of a neural network regressor (trained on the z-scored target)
+export type RegressionLoss = 'mse' | 'mae' | 'huber';
+
+// Learning rate per epoch, starting from NeuralNetworkHyperparams.learningRate
+export interface LearningRateSchedule {
+	type: 'constant' | 'step' | 'exponential' | 'cosine' | 'plateau';
+	stepSize: number; // epochs between drops (step)
+	factor: number; // multiplier per drop (step, plateau) or per epoch (exponential)
+	patience: number; // epochs without improvement before a drop (plateau)
+	minLearningRate: number; // floor (cosine end point, plateau)
+}
+
+export interface EarlyStoppingConfig {
+	enabled: boolean;
+	monitor: 'valLoss' | 'valAcc'; // also drives the plateau schedule (regressors: valLoss)
+	patience: number; // epochs without improvement before stopping
+	minDelta: number; // smallest change that counts as an improvement
+	restoreBestWeights: boolean; // keep the best epoch's weights, not the last
+}
+
+// Class-imbalance handling for the rows a model is fit on (every model)
+// Resampling rebuilds the fit rows; class weights and focal loss (neural
+// network only) act in the loss. Validation, calibration and test rows keep
+// the real class balance.
+export type ImbalanceStrategy =
+	| 'none'
+	| 'class-weights'
+	| 'oversample'
+	| 'undersample'
+	| 'smote'
+	| 'focal-loss';
+
+export interface ImbalanceConfig {
+	strategy: ImbalanceStrategy;
+	smoteNeighbors: number; // k nearest same-class rows to interpolate towards
+	focalGamma: number; // focusing exponent; 0 is plain cross-entropy
+}
+
+// What a run actually did about class imbalance, for reading its metrics
+export interface ImbalanceReport {
+	strategy: ImbalanceStrategy; // as applied ('none' when unsupported)
+	classCounts: number[]; // fit rows per class before rebalancing
+	resampledCounts: number[]; // fit rows per class the model was trained on
+	syntheticRows?: number; // SMOTE rows added
+	classWeights?: number[]; // loss weight per class
+	focalGamma?: number;
+	note?: string;
 }
 
 export interface TrainingRun {
@@ -83,7 +202,13 @@ export interface TrainingRun {
 		valLoss?: number;
 		acc?: number;
 		valAcc?: number;
+		lr?: number; // learning rate used for the epoch
 	}>;
+	// Neural network early stopping / restore-best-weights
+	bestEpoch?: number; // best epoch on the monitored validation metric
+	restoredBestWeights?: boolean; // model kept bestEpoch's weights, not the last epoch's
+	earlyStoppedAt?: number; // last epoch when early stopping ended the run
+	imbalance?: ImbalanceReport; // class-imbalance handling of the fit rows
 	// Random Forest specific metrics
 	treeMetrics?: Array<{
 		treeIndex: number;
@@ -91,11 +216,53 @@ export interface TrainingRun {
 		featureImportance?: Record<string, number>;
 	}>;
 	finalMetrics?: EvaluationSummary;
+	seed?: number; // seeds splits, initialization and sampling; reused to replay the run
 	startedAt?: number;
 	finishedAt?: number;
 	errorMessage?: string;
 }
 
+// Precision / recall / F1 of one class (one-vs-rest) or averaged over classes
+export interface ClassMetrics {
+	precision: number;
+	recall: number;
+	f1: number;
+}
+
+// Per-class metrics of a classifier on held-out rows
+// Macro averages treat every class alike, weighted ones by support; micro
+// averages pool the counts (all equal accuracy for single-label data).
+export interface ClassificationReport {
+	classLabels: string[];
+	perClass: Array<
+		ClassMetrics & {
+			support: number; // true rows of the class
+			auc?: number; // one-vs-rest, when probabilities are available
+		}
+	>;
+	macro: ClassMetrics;
+	micro: ClassMetrics;
+	weighted: ClassMetrics;
+	macroAuc?: number;
+}
+
+// ROC curve of one class against the rest
+export interface ClassRocCurve {
+	classLabel: string;
+	fpr: number[];
+	tpr: number[];
+	thresholds: number[];
+	auc: number;
+}
+
+// Errors of a regressor on held-out rows, in target units
+export interface RegressionMetrics {
+	rmse: number;
+	mae: number;
+	r2: number; // 1 - SSE / total sum of squares (0: no better than the mean)
+	count: number; // rows scored
+}
+
 export interface EvaluationSummary {
 	accuracy: number;
 	precision: number;
@@ -110,6 +277,48 @@ export interface EvaluationSummary {
 	oobScore?: number;
 }
 
+// K-fold cross-validation
+// 'repeated' reruns stratified k-fold with fresh shuffles; 'group' keeps all
+// rows sharing a group key (e.g. kepid, so multi-planet systems) in one fold.
+export type CrossValidationStrategy = 'stratified' | 'repeated' | 'group';
+
+export interface CrossValidationConfig {
+	strategy: CrossValidationStrategy;
+	folds: number;
+	repeats?: number; // 'repeated' only
+	groupColumn?: string; // 'group' only
+	seed?: number; // seeds the fold shuffles (and fold models, where supported)
+}
+
+// Classification folds report accuracy to AUC; regression folds RMSE, MAE
+// and R² (split as a single stratum)
+export type CrossValidationMetric =
+	| 'accuracy'
+	| 'precision'
+	| 'recall'
+	| 'f1'
+	| 'auc'
+	| 'rmse'
+	| 'mae'
+	| 'r2';
+
+export interface FoldEvaluation {
+	repeat: number; // 0-based repetition
+	fold: number; // 0-based fold within the repetition
+	trainSize: number;
+	valSize: number;
+	summary?: EvaluationSummary; // classification metrics on the held-out fold
+	regression?: RegressionMetrics; // regression errors on the held-out fold
+}
+
+export interface CrossValidationSummary {
+	config: CrossValidationConfig;
+	task?: TaskType; // classification when absent
+	folds: FoldEvaluation[];
+	mean: Record<CrossValidationMetric, number>;
+	std: Record<CrossValidationMetric, number>; // sample standard deviation across folds
+}
+
 export interface ExportArtifact {
 	modelId: string;
 	format: 'json-tfjs' | 'json-custom';
@@ -117,22 +326,78 @@ export interface ExportArtifact {
 	metadata: any;
 }
 
+// Missing-value handling per feature column
+// 'knn' and 'iterative' use the other numeric features; non-numeric columns
+// fall back to the mode for the numeric-only strategies.
+export type ImputationStrategy =
+	| 'drop' // drop rows where the value is missing
+	| 'mean'
+	| 'median'
+	| 'mode'
+	| 'constant' // fixed fill value (PreprocessingConfig.imputationConstants)
+	| 'knn' // mean of the k nearest training rows
+	| 'iterative'; // round-robin regression on the other features
+
+// Per-column transform of numeric features (fitted on training rows)
+// Power transforms (log, log1p, Box-Cox, Yeo-Johnson) are followed by
+// z-scoring; 'none' leaves values unscaled apart from optional clipping.
+export type FeatureTransform =
+	| 'standard' // z-score (default when normalization is on)
+	| 'robust' // (x - median) / IQR
+	| 'minmax' // to [0, 1]
+	| 'log'
+	| 'log1p'
+	| 'box-cox'
+	| 'yeo-johnson'
+	| 'quantile-normal' // rank mapped onto a standard normal
+	| 'none';
+
+// Winsorize at these training percentiles (0-100) before transforming
+export interface ClipPercentiles {
+	lower: number;
+	upper: number;
+}
+
+// What the target column is predicted as: a class, or a continuous value
+// (e.g. planet radius or equilibrium temperature)
+export type TaskType = 'classification' | 'regression';
+
+// Target label mapping (Data Input): raw target values onto the classes a
+// model trains on, e.g. TESS TFOPWG codes onto dispositions. Rows whose
+// value maps to no class are left out of training and evaluation.
+export type LabelMappingPreset = 'raw' | 'binary' | 'disposition' | 'custom';
+
+export interface LabelMapping {
+	preset: LabelMappingPreset;
+	classes: string[]; // class order (index = encoded label)
+	labels: Record<string, string>; // upper-cased raw value -> class ('' leaves the row out)
+}
+
 // UI state interfaces
 export interface DataInputState {
-	selectedDataSource: 'kepler' | 'tess' | 'own';
+	selectedDataSource: string; // dataset registry id, or 'own' for uploads
+	userDatasetId?: string; // saved upload (IndexedDB content hash) when 'own'
 	uploadedFile?: File;
 	rawDataset?: RawDataset;
 	columnMeta?: InferredColumnMeta[];
 	targetColumn?: string;
+	taskType?: TaskType; // absent: classification
+	labelMapping?: LabelMapping; // absent: every raw target value is its own class
 	selectedFeatures?: string[];
 	parseStats?: ParseStats; // diagnostics from last parse
-	missingValueStrategy: Record<string, 'drop' | 'mean' | 'mode'>;
+	missingValueStrategy: Record<string, ImputationStrategy>; // absent: rows with gaps are dropped
+	missingIndicators?: boolean; // add a 0/1 "<feature>_missing" column per imputed feature
 	normalization: boolean;
+	featureTransforms?: Record<string, FeatureTransform>; // overrides normalization per column
+	clipPercentiles?: Record<string, ClipPercentiles>;
+	derivedFeatures?: string[]; // enabled derived feature ids (see lib/derivedFeatures)
+	groupColumn?: string; // keeps each group (e.g. kepid) on one side of every split
 }
 
 export interface ModelSelectionState {
 	selectedModel?: ModelConfigBase;
 	hyperparams: Record<string, any>;
+	imbalance?: ImbalanceConfig; // shared by every model
 }
 
 export interface TrainingState {
@@ -142,6 +407,9 @@ export interface TrainingState {
 	hasTrainedModel?: boolean; // indicates a model finished training in session
 	trainedModel?: any; // the actual trained model instance (Neural Network or Random Forest)
 	modelMetrics?: any; // final training metrics for display
+	pipeline?: SerializedPipeline; // preprocessing fitted with the trained model
+	crossValidation?: CrossValidationSummary; // per-fold metrics of the last k-fold run
+	leakage?: LeakageReport; // groups spanning the train / test split of the last run
 	trainingProgress?: Array<{
 		epoch: number;
 		loss: number;
@@ -151,10 +419,11 @@ export interface TrainingState {
 	}>; // training progress data for visualization
 	// Timestamp of last progress update (ms since epoch) for stall detection & normalization
 	lastProgressAt?: number;
+	paused?: boolean; // worker-run training paused by the user (not stalled)
 	// 80/20 split test dataset captured at training time (never persisted across reloads)
 	testDataset?: {
 		features: number[][]; // raw feature rows for test subset
-		labels: number[]; // encoded numeric labels parallel to features
+		labels: number[]; // encoded numeric labels (regression: target values) parallel to features
 		featureNames: string[];
 		classLabels?: string[]; // original label strings if available
 	};
@@ -185,6 +454,11 @@ export interface TestExportState {
 		auc?: number;
 	};
 	prCurve?: { recall: number[]; precision: number[]; thresholds: number[] };
+	classRocCurves?: ClassRocCurve[]; // one-vs-rest, multiclass only
+	classReport?: ClassificationReport;
+	// Regression models (testMetrics stays unset)
+	regressionMetrics?: RegressionMetrics;
+	regressionPoints?: { actual: number[]; predicted: number[] }; // held-out rows, target units
 }
 
 // Classroom store state
@@ -195,9 +469,19 @@ export interface ClassroomState {
 	testExport: TestExportState;
 }
 
-// Worker message types
+// Worker message types (lib/ml/workers): 'epoch' carries one finished tree
+// (random forest) or one epoch's metrics (neural network); 'status' reports
+// running / paused and doubles as a heartbeat
 export interface WorkerMessage {
-	type: 'start' | 'stop' | 'status' | 'epoch' | 'complete' | 'error';
+	type:
+		| 'start'
+		| 'stop'
+		| 'pause'
+		| 'resume'
+		| 'status'
+		| 'epoch'
+		| 'complete'
+		| 'error';
 	payload?: any;
 }
 